@@ -17,8 +17,12 @@ try {
     vscode.postMessage({ command: 'error', message: 'Failed to load data: ' + e.message });
 }
 let lastTestResult = null;
-let lastTestRequest = null; // { method, requestUrl, params, authHeaders } for Copy as cURL
+/** Response of the last successful test, for "Update schema from this response". */
+let lastSchemaResponse;
+let lastTestRequest = null; // { url, method, params, authHeaders, authQueryParams, definition, requestUrl } for Copy as cURL
 let originalOasJson = null; // Snapshot for Diff view (set once at init)
+/** Base URL of the running upstream mock server; Run Local targets it instead of servers[0]. */
+let mockServerUrl = '';
 
 let connectionsList = [];
 try {
@@ -47,6 +51,8 @@ if (!initialData) { debug('Skipping init - no initialData'); } else try {
     });
     debug('syncForm');
     syncForm(initialData);
+    var mockBtnInit = document.getElementById('mock-server-btn');
+    if (mockBtnInit) mockServerUrl = mockBtnInit.dataset.mockUrl || '';
     debug('detectLocalEndpoints');
     detectLocalEndpoints(initialData);
     debug('populateTestInfo');
@@ -65,7 +71,8 @@ function populateTestInfo(data) {
     let html = '';
     let toolDesc = '';
     let params = [];
-    let securityInfo = null;
+    const securitySchemes = bindingSecurityOf(data);
+    const connectionId = (data.binding && data.binding.openapi && data.binding.openapi.connection_id) || data['x-ibm-connection-id'] || null;
     if (data.info) {
         toolDesc = data.info.description || '';
         if (data.paths) {
@@ -89,11 +96,6 @@ function populateTestInfo(data) {
                 params.push({ name: p.aliasName || key, type: p.type || 'string', required: (data.input_schema.required || []).includes(key), description: p.description || '' });
             });
         }
-        const sec = data.binding.openapi.security;
-        if (Array.isArray(sec) && sec.length > 0) {
-            securityInfo = sec[0];
-            securityInfo.connectionId = data.binding.openapi.connection_id || null;
-        }
     }
     if (toolDesc) html += '<div style="margin-bottom:4px;">' + (toolDesc.length > 120 ? toolDesc.substring(0, 120) + '…' : toolDesc) + '</div>';
     if (params.length > 0) {
@@ -104,40 +106,91 @@ function populateTestInfo(data) {
     }
     if (!html) html = '<span style="opacity:0.6;">No params info</span>';
     infoDiv.innerHTML = html;
-    populateAuthHelper(securityInfo, data);
+    populateAuthHelper(securitySchemes, connectionId);
+}
+
+/**
+ * Security schemes of a tool (binding.openapi.security) or OpenAPI document (x-ibm-security,
+ * else the first security requirement whose schemes can all be used). Mirrors
+ * deriveBindingSecurity in src/api/securitySchemes.ts.
+ */
+function bindingSecurityOf(data) {
+    if (!data) return [];
+    if (data.binding && data.binding.openapi) return Array.isArray(data.binding.openapi.security) ? data.binding.openapi.security : [];
+    if (Array.isArray(data['x-ibm-security']) && data['x-ibm-security'].length > 0) return data['x-ibm-security'];
+    var schemes = (data.components && data.components.securitySchemes) || {};
+    var requirements = data.security;
+    if (!requirements && data.paths) {
+        Object.keys(data.paths).some(function(p) {
+            return ['get','post','put','patch','delete'].some(function(m) {
+                var op = data.paths[p] && data.paths[p][m];
+                if (op && Array.isArray(op.security)) { requirements = op.security; return true; }
+                return !!op;
+            });
+        });
+    }
+    if (!Array.isArray(requirements)) return [];
+    for (var i = 0; i < requirements.length; i++) {
+        var names = Object.keys(requirements[i] || {});
+        if (names.length === 0) return [];
+        var mapped = names.map(function(n) { return schemes[n]; });
+        if (mapped.every(function(sc) { return sc && ['apiKey', 'http', 'oauth2', 'openIdConnect'].indexOf(sc.type) >= 0; })) return mapped;
+    }
+    return [];
+}
+
+/** The OAuth2 flow a local test can run itself (client credentials or password), if any. */
+function tokenFlowOf(scheme) {
+    var flows = (scheme && scheme.flows) || {};
+    if (flows.clientCredentials) return { type: 'client_credentials', flow: flows.clientCredentials };
+    if (flows.password) return { type: 'password', flow: flows.password };
+    return null;
 }
 
-function populateAuthHelper(secInfo, data) {
+/** Schemes shown in the Auth box; getAuthHeaders reads the fields rendered for them. */
+let authSchemes = [];
+
+function populateAuthHelper(schemes, connId) {
     var helperDiv = document.getElementById('auth-helper');
     var infoDiv2 = document.getElementById('auth-helper-info');
     var fieldsDiv = document.getElementById('auth-fields');
     if (!helperDiv || !infoDiv2 || !fieldsDiv) return;
-    if (!secInfo) { helperDiv.style.display = 'none'; return; }
+    authSchemes = Array.isArray(schemes) ? schemes.filter(function(sc) { return sc && typeof sc === 'object'; }) : [];
+    if (authSchemes.length === 0) { helperDiv.style.display = 'none'; return; }
     helperDiv.style.display = 'block';
-    var authType = secInfo.type || 'apiKey';
-    var paramIn = secInfo.in || 'header';
-    var paramName = secInfo.name || 'Authorization';
-    var connId = secInfo.connectionId;
-    var infoHtml = '';
+    var field = function(id, label, placeholder, secret) {
+        var eyeBtn = secret ? '<button class="secondary" onclick="toggleAuthVisibility(\'' + id + '\')" style="padding:4px 8px; font-size:0.8em;">👁</button>' : '';
+        return '<div style="display:flex; gap:8px; align-items:center; margin-top:4px;"><label style="flex:0 0 auto; margin:0; font-weight:normal;">' + escapeAttr(label) + ':</label><input type="' + (secret ? 'password' : 'text') + '" id="' + id + '" placeholder="' + escapeAttr(placeholder) + '" style="flex:1;">' + eyeBtn + '</div>';
+    };
+    var infos = [];
     var fieldsHtml = '';
-    var eyeBtn = '<button class="secondary" onclick="toggleAuthVisibility(0)" style="padding:4px 8px; font-size:0.8em;">👁</button>';
-    if (authType === 'apiKey' || authType === 'api_key') {
-        infoHtml = 'API Key: <code>' + paramName + '</code> in ' + paramIn + (connId ? ' · Conn: ' + connId : '') + '.';
-        fieldsHtml = '<div style="display:flex; gap:8px; align-items:center;"><label style="flex:0 0 auto; margin:0; font-weight:normal;">' + paramName + ':</label><input type="password" id="auth-value-0" placeholder="API key" style="flex:1;">' + eyeBtn + '</div>';
-    } else if (authType === 'http' || authType === 'bearer') {
-        infoHtml = 'Bearer token' + (connId ? ' · Conn: ' + connId : '') + '.';
-        fieldsHtml = '<div style="display:flex; gap:8px; align-items:center;"><label style="flex:0 0 auto; margin:0; font-weight:normal;">Token:</label><input type="password" id="auth-value-0" placeholder="Token" style="flex:1;">' + eyeBtn + '</div>';
-    } else if (authType === 'oauth2' || authType === 'oauth') {
-        infoHtml = 'OAuth 2.0' + (connId ? ' · Conn: ' + connId : '') + '.';
-        fieldsHtml = '<div style="display:flex; gap:8px; align-items:center;"><label style="flex:0 0 auto; margin:0; font-weight:normal;">Token:</label><input type="password" id="auth-value-0" placeholder="Access token" style="flex:1;">' + eyeBtn + '</div>';
-    } else {
-        infoHtml = authType + (connId ? ' · Conn: ' + connId : '') + '.';
-        fieldsHtml = '<div style="display:flex; gap:8px; align-items:center;"><label style="flex:0 0 auto; margin:0; font-weight:normal;">' + paramName + ':</label><input type="password" id="auth-value-0" placeholder="Credential" style="flex:1;">' + eyeBtn + '</div>';
-    }
-    helperDiv.dataset.authType = authType;
-    helperDiv.dataset.paramIn = paramIn;
-    helperDiv.dataset.paramName = paramName;
-    infoDiv2.innerHTML = infoHtml;
+    authSchemes.forEach(function(sc, i) {
+        var type = sc.type || 'apiKey';
+        if (type === 'apiKey' || type === 'api_key') {
+            var where = sc.in || 'query';
+            infos.push('API Key <code>' + escapeAttr(sc.name || 'apiKey') + '</code> in ' + escapeAttr(where));
+            fieldsHtml += field('auth-value-' + i, sc.name || 'apiKey', 'API key', true);
+        } else if (type === 'http' && String(sc.scheme || '').toLowerCase() === 'basic') {
+            infos.push('HTTP Basic');
+            fieldsHtml += field('auth-user-' + i, 'Username', 'Username', false) + field('auth-value-' + i, 'Password', 'Password', true);
+        } else if (type === 'oauth2' || type === 'oauth') {
+            var tokenFlow = tokenFlowOf(sc);
+            infos.push('OAuth 2.0' + (sc.flows ? ' (' + Object.keys(sc.flows).join(', ') + ')' : ''));
+            fieldsHtml += field('auth-value-' + i, 'Access token', tokenFlow ? 'Paste a token, or fill in the client below' : 'Access token', true);
+            if (tokenFlow) {
+                fieldsHtml += '<div style="opacity:0.7; margin-top:4px;">Token URL: <code>' + escapeAttr(tokenFlow.flow.tokenUrl || '(not set)') + '</code></div>';
+                fieldsHtml += field('auth-client-' + i, 'Client ID', 'Client ID', false) + field('auth-secret-' + i, 'Client secret', 'Client secret', true);
+                if (tokenFlow.type === 'password') fieldsHtml += field('auth-user-' + i, 'Username', 'Username', false) + field('auth-password-' + i, 'Password', 'Password', true);
+            }
+        } else if (type === 'openIdConnect') {
+            infos.push('OpenID Connect');
+            fieldsHtml += field('auth-value-' + i, 'Token', 'ID or access token', true);
+        } else {
+            infos.push((type === 'http' ? 'HTTP ' + (sc.scheme || 'bearer') : type) + (sc.bearerFormat ? ' (' + escapeAttr(sc.bearerFormat) + ')' : ''));
+            fieldsHtml += field('auth-value-' + i, 'Token', 'Token', true);
+        }
+    });
+    infoDiv2.innerHTML = infos.join(' + ') + (connId ? ' · Conn: ' + escapeAttr(connId) : '') + '.';
     fieldsDiv.innerHTML = fieldsHtml;
 }
 
@@ -153,29 +206,58 @@ function populateConnectionDropdown(connections) {
     });
 }
 
-function toggleAuthVisibility(idx) {
-    var inp = document.getElementById('auth-value-' + idx);
+function toggleAuthVisibility(id) {
+    var inp = document.getElementById(typeof id === 'number' ? 'auth-value-' + id : id);
     if (inp) inp.type = inp.type === 'password' ? 'text' : 'password';
 }
 
+/**
+ * Headers and query parameters for the credentials entered in the Auth box, one scheme after
+ * the other. An OAuth2 scheme without a pasted token but with a client ID returns `oauth2`
+ * instead; the extension fetches the token before the request.
+ */
 function getAuthHeaders() {
+    var result = { headers: {}, queryParams: {}, oauth2: undefined };
     var helperDiv = document.getElementById('auth-helper');
-    if (!helperDiv || helperDiv.style.display === 'none') return { headers: {}, queryParams: {} };
-    var authType = helperDiv.dataset.authType || '';
-    var paramIn = helperDiv.dataset.paramIn || 'header';
-    var paramName = helperDiv.dataset.paramName || 'Authorization';
-    var inp = document.getElementById('auth-value-0');
-    var value = inp ? inp.value : '';
-    if (!value) return { headers: {}, queryParams: {} };
-    if (paramIn === 'header') {
-        var headerVal = (authType === 'http' || authType === 'bearer' || authType === 'oauth2') ? 'Bearer ' + value : value;
-        var h = {}; h[paramName] = headerVal;
-        return { headers: h, queryParams: {} };
-    } else if (paramIn === 'query') {
-        var q = {}; q[paramName] = value;
-        return { headers: {}, queryParams: q };
-    }
-    return { headers: {}, queryParams: {} };
+    if (!helperDiv || helperDiv.style.display === 'none') return result;
+    var valueOf = function(id) { var el = document.getElementById(id); return el ? el.value : ''; };
+    var cookies = [];
+    authSchemes.forEach(function(sc, i) {
+        var type = sc.type || 'apiKey';
+        var value = valueOf('auth-value-' + i);
+        if (type === 'apiKey' || type === 'api_key') {
+            if (!value) return;
+            var name = sc.name || 'apiKey';
+            if (sc.in === 'header') result.headers[name] = value;
+            else if (sc.in === 'cookie') cookies.push(encodeURIComponent(name) + '=' + encodeURIComponent(value));
+            else result.queryParams[name] = value;
+        } else if (type === 'http' && String(sc.scheme || '').toLowerCase() === 'basic') {
+            var user = valueOf('auth-user-' + i);
+            if (!user && !value) return;
+            result.headers['Authorization'] = 'Basic ' + btoa(unescape(encodeURIComponent(user + ':' + value)));
+        } else if (type === 'oauth2' || type === 'oauth') {
+            var tokenFlow = tokenFlowOf(sc);
+            var clientId = valueOf('auth-client-' + i);
+            if (value) {
+                result.headers['Authorization'] = 'Bearer ' + value;
+            } else if (tokenFlow && clientId) {
+                result.oauth2 = {
+                    tokenUrl: tokenFlow.flow.tokenUrl || '',
+                    grantType: tokenFlow.type,
+                    clientId: clientId,
+                    clientSecret: valueOf('auth-secret-' + i),
+                    username: valueOf('auth-user-' + i),
+                    password: valueOf('auth-password-' + i),
+                    scope: Object.keys(tokenFlow.flow.scopes || {}).join(' ')
+                };
+            }
+        } else if (value) {
+            var prefix = type === 'http' && sc.scheme ? sc.scheme.charAt(0).toUpperCase() + sc.scheme.slice(1) : 'Bearer';
+            result.headers[sc.name || 'Authorization'] = prefix + ' ' + value;
+        }
+    });
+    if (cookies.length > 0) result.headers['Cookie'] = cookies.join('; ');
+    return result;
 }
 
 function syncForm(data) {
@@ -334,6 +416,59 @@ function parseParamDefault(v, type) {
     return v;
 }
 
+/** Write Server URL inputs back to the spec's servers, or to binding.openapi.servers for a tool. */
+/** The editor content, or null when it is not valid JSON. */
+function currentDefinition() {
+    try { return JSON.parse(document.getElementById('json-editor').value); } catch (e) { return null; }
+}
+
+const SCHEMA_ISSUE_LABELS = { missing: 'Missing', extra: 'Extra', undeclared: 'Extra (not in schema)', type: 'Type mismatch', value: 'Invalid value' };
+
+/** Show the output schema check for a test response; hidden when there is none (error, no definition). */
+function renderSchemaCheck(check, data) {
+    const box = document.getElementById('schema-check');
+    if (!box) return;
+    lastSchemaResponse = check ? data : undefined;
+    if (!check) { box.style.display = 'none'; return; }
+    const title = document.getElementById('schema-check-title');
+    const list = document.getElementById('schema-check-issues');
+    const issues = check.issues || [];
+    box.style.display = 'block';
+    if (!check.hasSchema) {
+        box.style.background = 'var(--vscode-inputValidation-infoBackground, rgba(0,122,204,0.1))';
+        title.textContent = 'No output schema declared';
+    } else if (issues.length === 0) {
+        box.style.background = 'var(--vscode-inputValidation-infoBackground, rgba(0,122,204,0.1))';
+        title.textContent = '✓ Response matches the output schema';
+    } else {
+        box.style.background = 'var(--vscode-inputValidation-warningBackground)';
+        title.textContent = '⚠ ' + issues.length + ' output schema issue' + (issues.length === 1 ? '' : 's');
+    }
+    list.innerHTML = '';
+    issues.forEach(function(issue) {
+        const li = document.createElement('li');
+        const label = document.createElement('strong');
+        label.textContent = (SCHEMA_ISSUE_LABELS[issue.kind] || issue.kind) + ' ';
+        const path = document.createElement('code');
+        path.textContent = issue.path;
+        li.appendChild(label);
+        li.appendChild(path);
+        li.appendChild(document.createTextNode(' — ' + issue.message));
+        list.appendChild(li);
+    });
+}
+
+function applyServerEditsToJson(currentJson) {
+    var servers = currentJson.servers || (currentJson.binding && currentJson.binding.openapi && currentJson.binding.openapi.servers);
+    if (!Array.isArray(servers)) return;
+    document.querySelectorAll('.server-url').forEach(inp => {
+        const idx = parseInt(inp.dataset.idx);
+        if (!servers[idx]) return;
+        if (typeof servers[idx] === 'string') servers[idx] = inp.value;
+        else servers[idx].url = inp.value;
+    });
+}
+
 function applyParamEditsToJson(currentJson) {
     var tables = document.querySelectorAll('table[data-params-format]');
     tables.forEach(function(tbl) {
@@ -479,8 +614,8 @@ function detectLocalEndpoints(data) {
                     if (defaultVal !== undefined) newParams[prop.aliasName || key] = defaultVal;
                 });
             }
-        } else if (data.servers && Array.isArray(data.servers) && data.servers.length > 0 && data.paths) {
-            newServerUrl = data.servers[0].url;
+        } else if (((data.servers && Array.isArray(data.servers) && data.servers.length > 0) || mockServerUrl) && data.paths) {
+            newServerUrl = data.servers && data.servers[0] ? data.servers[0].url : '';
             const firstPathKey = Object.keys(data.paths)[0];
             if (firstPathKey) {
                 const pathObj = data.paths[firstPathKey];
@@ -504,6 +639,7 @@ function detectLocalEndpoints(data) {
                 }
             }
         }
+        if (mockServerUrl) newServerUrl = mockServerUrl;
         if (newServerUrl || newPath) {
             let fullUrl = newServerUrl;
             if (fullUrl && newPath) {
@@ -521,6 +657,29 @@ function detectLocalEndpoints(data) {
     } catch (e) { console.error('Error detecting endpoints:', e); }
 }
 
+/** Hide templates whose name, description or category does not contain the search text. */
+function filterTemplates(query) {
+    const select = document.getElementById('template-select');
+    if (!select) return;
+    const q = (query || '').trim().toLowerCase();
+    let firstMatch = null;
+    Array.from(select.querySelectorAll('optgroup')).forEach(function(group) {
+        const groupMatches = group.label.toLowerCase().includes(q);
+        let visible = 0;
+        Array.from(group.querySelectorAll('option')).forEach(function(opt) {
+            const show = !q || groupMatches || opt.textContent.toLowerCase().includes(q);
+            opt.hidden = !show;
+            if (show) {
+                visible++;
+                if (!firstMatch) firstMatch = opt;
+            }
+        });
+        group.hidden = visible === 0;
+    });
+    const current = select.options[select.selectedIndex];
+    if (q && firstMatch && (!current || current.hidden || current.value === 'blank')) select.value = firstMatch.value;
+}
+
 function loadSelectedTemplate() {
     const select = document.getElementById('template-select');
     vscode.postMessage({ command: 'loadTemplate', templateId: select ? select.value : 'blank' });
@@ -530,6 +689,10 @@ function requestImport() {
     vscode.postMessage({ command: 'importFile' });
 }
 
+function requestCurlImport() {
+    vscode.postMessage({ command: 'importCurl' });
+}
+
 function openTab(tabName) {
     debug('openTab:', tabName);
     document.querySelectorAll('.tab-content').forEach(el => el.classList.remove('active'));
@@ -573,21 +736,19 @@ function openTab(tabName) {
             currentJson.restrictions = document.getElementById('restrictions').value;
             const tagsVal = document.getElementById('tags').value;
             currentJson.tags = tagsVal ? tagsVal.split(',').map(t => t.trim()) : null;
-            const serverInputs = document.querySelectorAll('.server-url');
-            serverInputs.forEach(inp => {
-                const idx = parseInt(inp.dataset.idx);
-                if (currentJson.servers && currentJson.servers[idx]) {
-                    if (typeof currentJson.servers[idx] === 'string') currentJson.servers[idx] = inp.value;
-                    else currentJson.servers[idx].url = inp.value;
-                }
-            });
+            applyServerEditsToJson(currentJson);
             applyParamEditsToJson(currentJson);
             document.getElementById('json-editor').value = JSON.stringify(currentJson, null, 2);
         } catch(e) {}
     } else if (tabName === 'form') {
         try { syncForm(JSON.parse(document.getElementById('json-editor').value)); } catch(e) {}
     } else if (tabName === 'test') {
-        try { detectLocalEndpoints(JSON.parse(document.getElementById('json-editor').value)); } catch(e) {}
+        try {
+            var testData = JSON.parse(document.getElementById('json-editor').value);
+            detectLocalEndpoints(testData);
+            // Rebuild the Auth box only when the schemes changed, so entered credentials stay
+            if (JSON.stringify(bindingSecurityOf(testData)) !== JSON.stringify(authSchemes)) populateTestInfo(testData);
+        } catch(e) {}
         var gb = document.getElementById('generate-btn');
         if (gb && (document.getElementById('local-url').value || '').trim()) gb.disabled = false;
     }
@@ -669,14 +830,7 @@ function initEventListeners() {
             currentJson.restrictions = document.getElementById('restrictions').value;
             const tagsVal = document.getElementById('tags').value;
             currentJson.tags = tagsVal ? tagsVal.split(',').map(t => t.trim()) : null;
-            const serverInputs = document.querySelectorAll('.server-url');
-            serverInputs.forEach(inp => {
-                const idx = parseInt(inp.dataset.idx);
-                if (currentJson.servers && currentJson.servers[idx]) {
-                    if (typeof currentJson.servers[idx] === 'string') currentJson.servers[idx] = inp.value;
-                    else currentJson.servers[idx].url = inp.value;
-                }
-            });
+            applyServerEditsToJson(currentJson);
             applyParamEditsToJson(currentJson);
             if (mode === 'create') {
                 var connSel = document.getElementById('connection-id');
@@ -724,27 +878,33 @@ function initEventListeners() {
         const method = (document.getElementById('local-method').value || 'GET').trim().toUpperCase();
         if (!url) { vscode.postMessage({ command: 'error', message: 'URL is empty. Cannot run test.' }); return; }
         const auth = getAuthHeaders();
-        lastTestRequest = { method, params, authHeaders: auth.headers, authQueryParams: auth.queryParams };
+        const definition = currentDefinition();
+        lastTestRequest = { url, method, params, authHeaders: auth.headers, authQueryParams: auth.queryParams, definition };
         document.getElementById('test-response').innerText = '⏳ Running...';
-        vscode.postMessage({ command: 'testLocal', url, method, params, authHeaders: auth.headers, authQueryParams: auth.queryParams });
+        renderSchemaCheck(undefined);
+        vscode.postMessage({ command: 'testLocal', url, method, params, authHeaders: auth.headers, authQueryParams: auth.queryParams, oauth2: auth.oauth2, definition });
     });
+    const templateSearch = document.getElementById('template-search');
+    if (templateSearch) {
+        templateSearch.addEventListener('input', () => filterTemplates(templateSearch.value));
+        templateSearch.addEventListener('keydown', (e) => { if (e.key === 'Enter') loadSelectedTemplate(); });
+    }
     const copyCurlBtn = document.getElementById('copy-curl-btn');
     if (copyCurlBtn) copyCurlBtn.addEventListener('click', () => {
         if (!lastTestRequest || !lastTestRequest.requestUrl) {
             vscode.postMessage({ command: 'error', message: 'Run a local test first to copy as cURL.' });
             return;
         }
-        const method = (lastTestRequest.method || 'GET').toUpperCase();
-        let curl = "curl -X " + method + " '" + lastTestRequest.requestUrl.replace(/'/g, "'\\''") + "'";
-        if (lastTestRequest.authHeaders && Object.keys(lastTestRequest.authHeaders).length > 0) {
-            Object.keys(lastTestRequest.authHeaders).forEach(function(k) {
-                curl += " -H '" + k + ": " + String(lastTestRequest.authHeaders[k]).replace(/'/g, "'\\''") + "'";
-            });
-        }
-        if ((method === 'POST' || method === 'PUT' || method === 'PATCH') && lastTestRequest.params && Object.keys(lastTestRequest.params).length > 0) {
-            curl += " -H 'Content-Type: application/json' -d '" + JSON.stringify(lastTestRequest.params).replace(/'/g, "'\\''") + "'";
-        }
-        vscode.postMessage({ command: 'copyToClipboard', text: curl });
+        // The extension builds the command with the same serializer the local test used
+        vscode.postMessage({
+            command: 'copyCurl',
+            url: lastTestRequest.url,
+            method: lastTestRequest.method,
+            params: lastTestRequest.params,
+            authHeaders: lastTestRequest.authHeaders,
+            authQueryParams: lastTestRequest.authQueryParams,
+            definition: lastTestRequest.definition
+        });
     });
     const exportOpenapiBtn = document.getElementById('export-openapi-btn');
     if (exportOpenapiBtn) exportOpenapiBtn.addEventListener('click', () => {
@@ -785,7 +945,24 @@ function initEventListeners() {
             try { params = JSON.parse(paramsStr); } catch (e) { vscode.postMessage({ command: 'error', message: 'Invalid JSON in Parameters field' }); return; }
         }
         document.getElementById('test-response').innerText = '⏳ Running via Watson Orchestrate cloud...';
-        vscode.postMessage({ command: 'testRemote', params });
+        renderSchemaCheck(undefined);
+        vscode.postMessage({ command: 'testRemote', params, definition: currentDefinition() });
+    });
+    const mockServerBtn = document.getElementById('mock-server-btn');
+    if (mockServerBtn) mockServerBtn.addEventListener('click', () => {
+        if (mockServerUrl) { vscode.postMessage({ command: 'stopMockServer' }); return; }
+        const definition = currentDefinition();
+        if (!definition) { vscode.postMessage({ command: 'error', message: 'Invalid JSON. Fix errors before starting the mock server.' }); return; }
+        mockServerBtn.disabled = true;
+        mockServerBtn.innerText = '⏳ Starting...';
+        vscode.postMessage({ command: 'startMockServer', definition });
+    });
+    const updateSchemaBtn = document.getElementById('update-schema-btn');
+    if (updateSchemaBtn) updateSchemaBtn.addEventListener('click', () => {
+        const definition = currentDefinition();
+        if (!definition) { vscode.postMessage({ command: 'error', message: 'Invalid JSON. Fix errors before updating the schema.' }); return; }
+        if (lastSchemaResponse === undefined) return;
+        vscode.postMessage({ command: 'mergeOutputSchema', definition, data: lastSchemaResponse });
     });
     window.addEventListener('message', event => {
         const message = event.data;
@@ -795,6 +972,7 @@ function initEventListeners() {
                 if (lastTestRequest && res && res.requestUrl) {
                     lastTestRequest.requestUrl = res.requestUrl;
                 }
+                if (lastTestRequest && res && res.authHeaders) lastTestRequest.authHeaders = res.authHeaders;
                 let display = '';
                 if (res.error) display = '❌ Error: ' + res.error;
                 else {
@@ -803,6 +981,7 @@ function initEventListeners() {
                     display += '\n' + (typeof res.data === 'string' ? res.data : JSON.stringify(res.data, null, 2));
                 }
                 document.getElementById('test-response').innerText = display;
+                renderSchemaCheck(res.schemaCheck, res.data);
                 if (res && res.status === 200 && document.getElementById('generate-btn')) {
                     document.getElementById('generate-btn').disabled = false;
                     var pv = (document.getElementById('test-params').value || '').trim();
@@ -831,6 +1010,16 @@ function initEventListeners() {
                     rdisplay = parts.join('');
                 }
                 document.getElementById('test-response').innerText = rdisplay;
+                renderSchemaCheck(rr.schemaCheck, rr.data);
+                break;
+            case 'mockServerState':
+                mockServerUrl = message.url || '';
+                var mockBtn = document.getElementById('mock-server-btn');
+                if (mockBtn) {
+                    mockBtn.disabled = false;
+                    mockBtn.innerText = mockServerUrl ? '■ Stop Mock Server' : 'Start Mock Server';
+                }
+                detectLocalEndpoints(currentDefinition());
                 break;
             case 'updateJson':
                 document.getElementById('json-editor').value = JSON.stringify(message.content, null, 2);
@@ -6,40 +6,49 @@
  * @date 17-Feb-2026
  * @license Apache-2.0
  */
-import { woFetch } from './client';
+import { woFetch, delay } from './client';
 import { getDefaultModelId } from './models';
 import { formatAssistantContent } from './skills';
-
-/** List agents from Watson Orchestrate. GET /v1/orchestrate/agents */
-export async function listAgents(limit: number = 20, offset: number = 0): Promise<any> {
-    const response = await woFetch(`/v1/orchestrate/agents?limit=${limit}&offset=${offset}`, {
-        method: 'GET'
+import { WxoApiError } from './errors';
+import { normalizeList, normalizePage, Page } from './normalize';
+import { Paginator, PageRequest, DEFAULT_PAGE_SIZE, withPageParams, collectAll } from './pagination';
+import { Agent, Run } from './types';
+
+/** Fetch one page of agents. GET /v1/orchestrate/agents */
+export async function listAgentsPage(request: PageRequest): Promise<Page<Agent>> {
+    const response = await woFetch(withPageParams('/v1/orchestrate/agents', request), {
+        method: 'GET',
+        signal: request.signal
     });
 
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to list agents: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'list agents');
     }
 
-    const text = await response.text();
-    try {
-        return JSON.parse(text);
-    } catch {
-        return text;
-    }
+    return normalizePage('agent', await response.text());
+}
+
+/** List a single page of agents. Use iterateAgents to walk all of them. */
+export async function listAgents(limit: number = 20, offset: number = 0, signal?: AbortSignal): Promise<Agent[]> {
+    return (await listAgentsPage({ limit, offset, signal })).items;
+}
+
+/** Page through every agent. */
+export function iterateAgents(pageSize: number = DEFAULT_PAGE_SIZE, signal?: AbortSignal): Paginator<Agent> {
+    return new Paginator(listAgentsPage, pageSize, signal);
 }
 
 /** Get a single agent by ID. GET /v1/orchestrate/agents/{id} */
-export async function getAgent(agentId: string): Promise<any> {
-    const response = await woFetch(`/v1/orchestrate/agents/${agentId}`, { method: 'GET' });
+export async function getAgent(agentId: string, signal?: AbortSignal): Promise<Agent> {
+    const response = await woFetch(`/v1/orchestrate/agents/${agentId}`, { method: 'GET', signal });
     if (!response.ok) {
-        throw new Error(`Failed to get agent: ${response.status}`);
+        throw await WxoApiError.fromResponse(response, 'get agent');
     }
     const text = await response.text();
     try {
         return JSON.parse(text);
     } catch {
-        return text;
+        return text as unknown as Agent;
     }
 }
 
@@ -50,8 +59,7 @@ export async function updateAgent(agentId: string, payload: any): Promise<any> {
     });
 
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to update agent: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'update agent');
     }
 
     const text = await response.text();
@@ -69,18 +77,9 @@ const TEST_AGENT_NAME = 'WxoBuilderTestAgent';
  * Creates the agent if missing, then updates it to have only this tool (removes any others).
  * Returns the agent ID for use in remote tool runs.
  */
-export async function ensureTestAgentForTool(toolId: string): Promise<string> {
-    let agents: any[] = [];
-    const data = await listAgents(100, 0);
-    if (Array.isArray(data)) {
-        agents = data;
-    } else if (data?.assistants && Array.isArray(data.assistants)) {
-        agents = data.assistants;
-    } else if (data?.data && Array.isArray(data.data)) {
-        agents = data.data;
-    }
-
-    let agent = agents.find((a: any) => (a.name || a.display_name) === TEST_AGENT_NAME);
+export async function ensureTestAgentForTool(toolId: string, signal?: AbortSignal): Promise<string> {
+    const agents = await collectAll(iterateAgents(100, signal));
+    const agent = agents.find(a => (a.name || a.display_name) === TEST_AGENT_NAME);
 
     if (!agent) {
         const defaultLlm = await getDefaultModelId();
@@ -95,7 +94,7 @@ export async function ensureTestAgentForTool(toolId: string): Promise<string> {
         return agentId;
     }
 
-    const agentId = agent.id || agent;
+    const agentId = agent.id;
     const currentLlm = agent.llm || agent.model_id;
     // Fix invalid provider: "ibm" is not valid; must use "watsonx/ibm/..."
     const needsLlmFix = currentLlm && /^ibm\//.test(currentLlm);
@@ -108,8 +107,7 @@ export async function ensureTestAgentForTool(toolId: string): Promise<string> {
 export async function deleteAgent(agentId: string): Promise<any> {
     const response = await woFetch(`/v1/orchestrate/agents/${agentId}`, { method: 'DELETE' });
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to delete agent: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'delete agent');
     }
     return { success: true };
 }
@@ -122,8 +120,7 @@ export async function createAgent(name: string, description: string, modelId: st
     });
 
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to create agent: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'create agent');
     }
 
     const text = await response.text();
@@ -134,20 +131,20 @@ export async function createAgent(name: string, description: string, modelId: st
     }
 }
 
-export async function invokeAgent(agentId: string, message: string): Promise<any> {
+export async function invokeAgent(agentId: string, message: string, signal?: AbortSignal): Promise<{ success: boolean; response: string; reasoning?: string }> {
     const runPayload = { agent_id: agentId, message: { role: 'user', content: message } };
     const runRes = await woFetch('/v1/orchestrate/runs', {
         method: 'POST',
-        body: JSON.stringify(runPayload)
+        body: JSON.stringify(runPayload),
+        signal
     });
 
     if (!runRes.ok) {
-        const text = await runRes.text();
-        throw new Error(`Failed to start run: ${runRes.status} ${text}`);
+        throw await WxoApiError.fromResponse(runRes, 'start run');
     }
 
     const text = await runRes.text();
-    let runData: any;
+    let runData: Run;
     try {
         runData = JSON.parse(text);
     } catch {
@@ -159,30 +156,27 @@ export async function invokeAgent(agentId: string, message: string): Promise<any
     let pollCount = 0;
     while (pollCount < 15) {
         pollCount++;
-        await new Promise(r => setTimeout(r, 2000));
-        const msgRes = await woFetch(`/v1/orchestrate/threads/${threadId}/messages`, { method: 'GET' });
+        await delay(2000, signal);
+        const msgRes = await woFetch(`/v1/orchestrate/threads/${threadId}/messages`, { method: 'GET', signal });
         if (msgRes.ok) {
-            const data = await msgRes.json();
-            const messages = data.data || data;
-            if (Array.isArray(messages)) {
-                const assistantMsg = messages.filter((m: any) => m.role === 'assistant').pop();
-                if (assistantMsg) {
-                    let responseText = "Unknown format";
-                    let reasoning: string | undefined;
-                    if (typeof assistantMsg.content === 'string') {
-                        responseText = assistantMsg.content;
-                    } else if (Array.isArray(assistantMsg.content)) {
-                        reasoning = formatAssistantContent(assistantMsg.content, { includeToolResult: true });
-                        const textParts = assistantMsg.content
-                            .filter((c: any) => c.type === 'text')
-                            .map((c: any) => c.text?.value ?? (typeof c.text === 'string' ? c.text : c.text))
-                            .filter(Boolean);
-                        responseText = textParts.join(' ').trim()
-                            || assistantMsg.content.map((c: any) => c.text?.value || c.text || JSON.stringify(c)).join(' ')
-                            || '(See reasoning for details)';
-                    }
-                    return { success: true, response: responseText, reasoning };
+            const messages = normalizeList('message', await msgRes.json());
+            const assistantMsg = messages.filter(m => m.role === 'assistant').pop();
+            if (assistantMsg) {
+                let responseText = "Unknown format";
+                let reasoning: string | undefined;
+                if (typeof assistantMsg.content === 'string') {
+                    responseText = assistantMsg.content;
+                } else if (Array.isArray(assistantMsg.content)) {
+                    reasoning = formatAssistantContent(assistantMsg.content, { includeToolResult: true });
+                    const textParts = assistantMsg.content
+                        .filter(c => c.type === 'text')
+                        .map(c => (typeof c.text === 'string' ? c.text : c.text?.value))
+                        .filter(Boolean);
+                    responseText = textParts.join(' ').trim()
+                        || assistantMsg.content.map(c => (typeof c.text === 'string' ? c.text : c.text?.value) || JSON.stringify(c)).join(' ')
+                        || '(See reasoning for details)';
                 }
+                return { success: true, response: responseText, reasoning };
             }
         }
     }
@@ -0,0 +1,134 @@
+/**
+ * WxO Builder - Credential Storage
+ * Keeps Watson Orchestrate API keys in VS Code SecretStorage (OS keychain) instead of settings.json.
+ *
+ * One secret per profile: `wxo-builder.apiKey:<profileName>` (Default profile included).
+ * Plaintext keys found in `wxo-builder.apiKey` or in `wxo-builder.profiles[].apiKey` are moved
+ * into secret storage on activation and removed from settings.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+import { DEFAULT_PROFILE_NAME, WxoProfile } from './profiles';
+
+let secretStorage: vscode.SecretStorage | undefined;
+
+/** Wire up the extension's SecretStorage. Called once from activate(). */
+export function initAuthStore(secrets: vscode.SecretStorage): void {
+    secretStorage = secrets;
+}
+
+function secretName(profileName: string): string {
+    return `wxo-builder.apiKey:${profileName || DEFAULT_PROFILE_NAME}`;
+}
+
+/** Read the stored API key for a profile, or undefined if none (or storage not initialised). */
+export async function readStoredApiKey(profileName: string): Promise<string | undefined> {
+    if (!secretStorage) return undefined;
+    return (await secretStorage.get(secretName(profileName))) || undefined;
+}
+
+export async function storeApiKey(profileName: string, apiKey: string): Promise<void> {
+    if (!secretStorage) throw new Error('Secret storage is not available.');
+    await secretStorage.store(secretName(profileName), apiKey);
+}
+
+export async function deleteStoredApiKey(profileName: string): Promise<void> {
+    if (!secretStorage) throw new Error('Secret storage is not available.');
+    await secretStorage.delete(secretName(profileName));
+}
+
+/** Fires when any stored API key changes (including from another window). */
+export function onDidChangeStoredApiKey(listener: () => void): vscode.Disposable {
+    if (!secretStorage) return new vscode.Disposable(() => { });
+    return secretStorage.onDidChange(e => {
+        if (e.key.startsWith('wxo-builder.apiKey:')) listener();
+    });
+}
+
+/** The per-scope values of a setting, as returned by WorkspaceConfiguration.inspect. */
+type SettingInspection = { globalValue?: unknown; workspaceValue?: unknown; workspaceFolderValue?: unknown } | undefined;
+
+const SETTING_TARGETS: Array<{ target: vscode.ConfigurationTarget; label: string; pick: (i: SettingInspection) => unknown }> = [
+    // Most specific first, so a folder-level key wins over a user-level one
+    { target: vscode.ConfigurationTarget.WorkspaceFolder, label: 'folder', pick: i => i?.workspaceFolderValue },
+    { target: vscode.ConfigurationTarget.Workspace, label: 'workspace', pick: i => i?.workspaceValue },
+    { target: vscode.ConfigurationTarget.Global, label: 'user', pick: i => i?.globalValue },
+];
+
+/**
+ * Move plaintext API keys from settings into secret storage and delete the originals.
+ * The effective value (the one VS Code would use) is stored. A plaintext key is only
+ * deleted when it matches the stored secret; keys that differ (e.g. another key in user
+ * settings than in the workspace, or a key set after an earlier migration) are left in
+ * place and reported, so no key is lost.
+ * Safe to run on every activation: it does nothing once settings are clean.
+ * Returns the number of keys migrated.
+ */
+export async function migratePlaintextApiKeys(): Promise<number> {
+    if (!secretStorage) return 0;
+    const config = vscode.workspace.getConfiguration('wxo-builder');
+    let migrated = 0;
+    const conflicts: string[] = [];
+
+    /** The secret for a profile, storing the effective plaintext key first when there is none. */
+    const secretFor = async (profileName: string, effective: string | undefined): Promise<string | undefined> => {
+        const stored = await readStoredApiKey(profileName);
+        if (stored || !effective) return stored;
+        await storeApiKey(profileName, effective);
+        migrated++;
+        return effective;
+    };
+
+    // 1. wxo-builder.apiKey → Default profile
+    const effectiveKey = config.get<string>('apiKey');
+    const apiKeyInspect = config.inspect<string>('apiKey');
+    for (const { target, label, pick } of SETTING_TARGETS) {
+        const value = pick(apiKeyInspect);
+        if (typeof value !== 'string' || !value) continue;
+        const secret = await secretFor(DEFAULT_PROFILE_NAME, effectiveKey || value);
+        if (value === secret) {
+            await config.update('apiKey', undefined, target);
+        } else {
+            conflicts.push(`wxo-builder.apiKey (${label} settings)`);
+        }
+    }
+
+    // 2. wxo-builder.profiles[].apiKey → per-profile secrets
+    const effectiveProfiles = config.get<WxoProfile[]>('profiles') || [];
+    const effectiveProfileKey = (name: string) => (Array.isArray(effectiveProfiles) ? effectiveProfiles.find(p => p?.name === name)?.apiKey : undefined);
+    const profilesInspect = config.inspect<WxoProfile[]>('profiles');
+    for (const { target, label, pick } of SETTING_TARGETS) {
+        const profiles = pick(profilesInspect);
+        if (!Array.isArray(profiles) || !profiles.some((p: WxoProfile) => p?.apiKey)) continue;
+        let changed = false;
+        const cleaned: WxoProfile[] = [];
+        for (const p of profiles as WxoProfile[]) {
+            if (!p?.apiKey || !p.name) {
+                cleaned.push(p);
+                continue;
+            }
+            const secret = await secretFor(p.name, effectiveProfileKey(p.name) || p.apiKey);
+            if (p.apiKey === secret) {
+                const rest = { ...p };
+                delete rest.apiKey;
+                cleaned.push(rest);
+                changed = true;
+            } else {
+                conflicts.push(`profile "${p.name}" (${label} settings)`);
+                cleaned.push(p);
+            }
+        }
+        if (changed) await config.update('profiles', cleaned, target);
+    }
+
+    if (conflicts.length > 0) {
+        vscode.window.showWarningMessage(
+            `WxO Builder: left plaintext API key(s) in settings because they differ from the key in secure storage: ${conflicts.join(', ')}. ` +
+            'Use "WxO Builder: Set API Key" to choose the right key, then remove them from settings.json.'
+        );
+    }
+    return migrated;
+}
@@ -0,0 +1,230 @@
+/**
+ * WxO Builder - Authenticators
+ * Pluggable token providers for the different Watson Orchestrate deployments:
+ *  - iam:       IBM Cloud IAM (apikey grant) — *.cloud.ibm.com tenants
+ *  - mcsp:      IBM SaaS / AWS-hosted tenants (MCSP apikey → token exchange)
+ *  - cpd:       Cloud Pak for Data / on-prem (username + apikey → /icp4d-api/v1/authorize)
+ *  - zenapikey: Cloud Pak for Data ZenApiKey header (no token exchange)
+ *  - bearer:    Pre-issued bearer token used as-is
+ *
+ * Each authenticator keeps its own token cache and refreshes shortly before expiry.
+ * Token endpoints can be overridden (profile `tokenUrl`) to test against a local stub.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import { Response } from 'node-fetch';
+import { httpFetch } from './http';
+import { AuthMethod } from './profiles';
+
+/** Refresh tokens this many seconds before they expire. */
+const EXPIRY_MARGIN_SECONDS = 60;
+/** Assumed lifetime when a token endpoint does not say (and the token is not a JWT). */
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
+
+export const IAM_TOKEN_URL = 'https://iam.cloud.ibm.com/identity/token';
+export const MCSP_TOKEN_URL = 'https://iam.platform.saas.ibm.com/siusermgr/api/1.0/apikeys/token';
+
+export type ResolvedAuthMethod = Exclude<AuthMethod, 'auto'>;
+
+export interface AuthenticatorOptions {
+    apiKey: string;
+    instanceUrl: string;
+    tokenUrl?: string;
+    username?: string;
+}
+
+/** Token endpoint reply: IAM sends access_token, MCSP and CPD send token. */
+interface TokenResponse {
+    access_token: string;
+    token?: string;
+    expires_in?: number;
+}
+
+export interface Authenticator {
+    readonly method: ResolvedAuthMethod;
+    /** Value for the Authorization header, e.g. "Bearer eyJ..." or "ZenApiKey ...". */
+    getAuthorizationHeader(): Promise<string>;
+    /** Drop any cached token so the next call re-authenticates. */
+    invalidate(): void;
+}
+
+/**
+ * Pick an auth method from the instance URL when the profile says "auto".
+ * IBM Cloud tenants live under *.cloud.ibm.com; SaaS/AWS tenants under *.watson-orchestrate.ibm.com;
+ * anything else is treated as a Cloud Pak for Data / on-prem install.
+ */
+export function inferAuthMethod(instanceUrl: string): ResolvedAuthMethod {
+    let host = '';
+    try {
+        host = new URL(instanceUrl).hostname.toLowerCase();
+    } catch {
+        return 'iam';
+    }
+    if (host.endsWith('.cloud.ibm.com')) return 'iam';
+    if (host.endsWith('.ibm.com')) return 'mcsp';
+    return 'cpd';
+}
+
+/** Read `exp` (seconds since epoch) from a JWT without verifying it. */
+function jwtExpiry(token: string): number | undefined {
+    const parts = token.split('.');
+    if (parts.length !== 3) return undefined;
+    try {
+        const payload = JSON.parse(Buffer.from(parts[1].replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8'));
+        return typeof payload.exp === 'number' ? payload.exp : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/** Base for authenticators that exchange a credential for a short-lived bearer token. */
+abstract class TokenExchangeAuthenticator implements Authenticator {
+    abstract readonly method: ResolvedAuthMethod;
+    private _token: string | null = null;
+    private _expiry: number = 0;
+    private _pending: Promise<string> | null = null;
+
+    constructor(protected readonly options: AuthenticatorOptions) { }
+
+    /** Perform the token request. expiresIn is in seconds, if the endpoint reports it. */
+    protected abstract requestToken(): Promise<{ token: string; expiresIn?: number }>;
+
+    async getAuthorizationHeader(): Promise<string> {
+        const now = Math.floor(Date.now() / 1000);
+        if (this._token && this._expiry > now + EXPIRY_MARGIN_SECONDS) {
+            return `Bearer ${this._token}`;
+        }
+        // Collapse concurrent refreshes (tree views load in parallel) into one request
+        if (!this._pending) {
+            this._pending = this.requestToken().then(
+                ({ token, expiresIn }) => {
+                    const issuedAt = Math.floor(Date.now() / 1000);
+                    this._token = token;
+                    this._expiry = expiresIn ? issuedAt + expiresIn : (jwtExpiry(token) ?? issuedAt + DEFAULT_TOKEN_LIFETIME_SECONDS);
+                    this._pending = null;
+                    return token;
+                },
+                (err) => {
+                    this._pending = null;
+                    throw err;
+                }
+            );
+        }
+        return `Bearer ${await this._pending}`;
+    }
+
+    invalidate(): void {
+        this._token = null;
+        this._expiry = 0;
+    }
+
+    protected async readJson(response: Response, label: string): Promise<TokenResponse> {
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`${label} Token Request Failed: ${response.status} ${text}`);
+        }
+        return await response.json() as TokenResponse;
+    }
+}
+
+/** IBM Cloud IAM: POST apikey grant to iam.cloud.ibm.com. */
+export class IamAuthenticator extends TokenExchangeAuthenticator {
+    readonly method = 'iam' as const;
+
+    protected async requestToken() {
+        const params = new URLSearchParams();
+        params.append('grant_type', 'urn:ibm:params:oauth:grant-type:apikey');
+        params.append('apikey', this.options.apiKey);
+        const response = await httpFetch(this.options.tokenUrl || IAM_TOKEN_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                'Accept': 'application/json',
+            },
+            body: params
+        });
+        const data = await this.readJson(response, 'IAM');
+        return { token: data.access_token, expiresIn: data.expires_in };
+    }
+}
+
+/** MCSP (IBM SaaS / AWS): POST { apikey } to the MCSP apikeys/token endpoint. */
+export class McspAuthenticator extends TokenExchangeAuthenticator {
+    readonly method = 'mcsp' as const;
+
+    protected async requestToken() {
+        const response = await httpFetch(this.options.tokenUrl || MCSP_TOKEN_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+            body: JSON.stringify({ apikey: this.options.apiKey })
+        });
+        const data = await this.readJson(response, 'MCSP');
+        return { token: data.token ?? data.access_token, expiresIn: data.expires_in };
+    }
+}
+
+/** Cloud Pak for Data: POST { username, api_key } to {instance host}/icp4d-api/v1/authorize. */
+export class CpdAuthenticator extends TokenExchangeAuthenticator {
+    readonly method = 'cpd' as const;
+
+    protected async requestToken() {
+        if (!this.options.username) {
+            throw new Error('Cloud Pak for Data authentication requires a username. Set "username" on the profile.');
+        }
+        const tokenUrl = this.options.tokenUrl || `${new URL(this.options.instanceUrl).origin}/icp4d-api/v1/authorize`;
+        const response = await httpFetch(tokenUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+            body: JSON.stringify({ username: this.options.username, api_key: this.options.apiKey })
+        });
+        const data = await this.readJson(response, 'CPD');
+        return { token: data.token ?? data.access_token, expiresIn: data.expires_in };
+    }
+}
+
+/** Cloud Pak for Data ZenApiKey: base64(username:apikey) sent directly, nothing to cache or refresh. */
+export class ZenApiKeyAuthenticator implements Authenticator {
+    readonly method = 'zenapikey' as const;
+
+    constructor(private readonly options: AuthenticatorOptions) { }
+
+    async getAuthorizationHeader(): Promise<string> {
+        if (!this.options.username) {
+            throw new Error('ZenApiKey authentication requires a username. Set "username" on the profile.');
+        }
+        const encoded = Buffer.from(`${this.options.username}:${this.options.apiKey}`, 'utf8').toString('base64');
+        return `ZenApiKey ${encoded}`;
+    }
+
+    invalidate(): void { }
+}
+
+/** Pre-issued bearer token (stored where the API key would be). Fails early once a JWT has expired. */
+export class BearerTokenAuthenticator implements Authenticator {
+    readonly method = 'bearer' as const;
+
+    constructor(private readonly options: AuthenticatorOptions) { }
+
+    async getAuthorizationHeader(): Promise<string> {
+        const token = this.options.apiKey.replace(/^Bearer\s+/i, '');
+        const exp = jwtExpiry(token);
+        if (exp !== undefined && exp <= Math.floor(Date.now() / 1000)) {
+            throw new Error('The configured bearer token has expired. Run "WxO Builder: Set API Key" with a new token.');
+        }
+        return `Bearer ${token}`;
+    }
+
+    invalidate(): void { }
+}
+
+export function createAuthenticator(method: ResolvedAuthMethod, options: AuthenticatorOptions): Authenticator {
+    switch (method) {
+        case 'mcsp': return new McspAuthenticator(options);
+        case 'cpd': return new CpdAuthenticator(options);
+        case 'zenapikey': return new ZenApiKeyAuthenticator(options);
+        case 'bearer': return new BearerTokenAuthenticator(options);
+        default: return new IamAuthenticator(options);
+    }
+}
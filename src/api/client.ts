@@ -8,77 +8,275 @@
  */
 
 import * as vscode from 'vscode';
-import fetch from 'node-fetch';
+import { RequestInit, Response } from 'node-fetch';
+import { getActiveProfile, DEFAULT_PROFILE_NAME, Scope } from './profiles';
+import { readStoredApiKey } from './authStore';
+import { Authenticator, ResolvedAuthMethod, createAuthenticator, inferAuthMethod } from './authenticators';
+import { recordRequest } from './networkLog';
+import { httpFetch } from './http';
+import { ensureMockBackend, getMockBackendUrl } from '../mock/mockBackend';
+import { MOCK_API_KEY } from '../mock/mockServer';
 
 export interface AppConfig {
-    apiKey: string;
     instanceUrl: string;
-    iamTokenUrl: string;
+    profileName: string;
+    /** Resolved auth method ('auto' is inferred from instanceUrl). */
+    authMethod: ResolvedAuthMethod;
+    scope: Scope;
+    username?: string;
+    tokenUrl?: string;
 }
 
-let cachedToken: string | null = null;
-let tokenExpiry: number = 0;
+/** One authenticator (and token cache) per profile/credential combination. */
+const authenticators = new Map<string, Authenticator>();
 
-function getConfig(): AppConfig {
+/**
+ * Resolve the effective configuration: the active profile if one is selected,
+ * otherwise the legacy wxo-builder.* settings and WO_* env vars (always IBM Cloud IAM).
+ * The API key is resolved separately (see resolveApiKey) because it lives in secret storage.
+ * Mock profiles point at the in-process mock server (instanceUrl is empty until it has started).
+ */
+export function getConfig(): AppConfig {
     const config = vscode.workspace.getConfiguration('wxo-builder');
+    const profile = getActiveProfile();
+    if (profile?.mock) {
+        const mockUrl = getMockBackendUrl() || '';
+        return {
+            instanceUrl: mockUrl,
+            profileName: profile.name,
+            authMethod: 'iam',
+            scope: profile.scope || 'draft',
+            tokenUrl: mockUrl ? `${mockUrl}/identity/token` : undefined
+        };
+    }
+    if (profile) {
+        const instanceUrl = profile.instanceUrl || '';
+        const method = profile.authMethod || 'auto';
+        return {
+            instanceUrl,
+            profileName: profile.name,
+            authMethod: method === 'auto' ? inferAuthMethod(instanceUrl) : method,
+            scope: profile.scope || 'draft',
+            username: profile.username,
+            tokenUrl: profile.tokenUrl
+        };
+    }
+    const instanceUrl = config.get<string>('instanceUrl') || process.env.WO_INSTANCE_URL || '';
     return {
-        apiKey: config.get<string>('apiKey') || process.env.WO_API_KEY || '',
-        instanceUrl: config.get<string>('instanceUrl') || process.env.WO_INSTANCE_URL || '',
-        iamTokenUrl: 'https://iam.cloud.ibm.com/identity/token'
+        instanceUrl,
+        profileName: DEFAULT_PROFILE_NAME,
+        // The legacy settings have always meant IBM Cloud IAM (and carry no CPD username);
+        // only profiles opt into inference with authMethod 'auto'
+        authMethod: 'iam',
+        scope: config.get<Scope>('scope') || 'draft'
     };
 }
 
+export type ApiKeySource = 'secret' | 'default-secret' | 'setting' | 'env' | 'mock' | 'none';
+
 /**
- * Obtain an IAM bearer token for Watson Orchestrate API calls.
- * Uses API key from settings; caches token until near expiry.
- * @throws Error if API key is not configured or IAM request fails
+ * Resolve the API key for the active profile.
+ * Order: secret storage → plaintext setting (profile apiKey or wxo-builder.apiKey) → the Default
+ * profile's secret → WO_API_KEY env var.
+ * Named profiles without a key of their own used to fall back to wxo-builder.apiKey; since that
+ * setting is migrated into the Default profile's secret, they fall back to that secret instead.
+ * Mock profiles need no key; a placeholder is used when none is stored.
  */
-export async function getIamToken(): Promise<string> {
-    const now = Math.floor(Date.now() / 1000);
-    // @ts-ignore
-    if (cachedToken && tokenExpiry > now + 60) {
-        return cachedToken;
+export async function resolveApiKey(): Promise<{ apiKey: string; source: ApiKeySource }> {
+    const { profileName } = getConfig();
+    const stored = await readStoredApiKey(profileName);
+    if (stored) return { apiKey: stored, source: 'secret' };
+
+    const profile = getActiveProfile();
+    const settingKey = profile?.apiKey || vscode.workspace.getConfiguration('wxo-builder').get<string>('apiKey');
+    if (settingKey) return { apiKey: settingKey, source: 'setting' };
+
+    if (profile && !profile.mock && profileName !== DEFAULT_PROFILE_NAME) {
+        const defaultKey = await readStoredApiKey(DEFAULT_PROFILE_NAME);
+        if (defaultKey) return { apiKey: defaultKey, source: 'default-secret' };
     }
 
+    if (process.env.WO_API_KEY) return { apiKey: process.env.WO_API_KEY, source: 'env' };
+    if (getActiveProfile()?.mock) return { apiKey: MOCK_API_KEY, source: 'mock' };
+    return { apiKey: '', source: 'none' };
+}
+
+/** Human-readable label for where the API key came from. */
+export function describeApiKeySource(source: ApiKeySource): string {
+    switch (source) {
+        case 'secret': return 'secret store';
+        case 'default-secret': return `secret store (${DEFAULT_PROFILE_NAME} profile key)`;
+        case 'setting': return 'settings (plaintext)';
+        case 'env': return 'WO_API_KEY env var';
+        case 'mock': return 'mock backend (no key needed)';
+        default: return 'not set';
+    }
+}
+
+/** Drop all cached tokens, e.g. after switching profiles or changing credentials. */
+export function clearTokenCache(): void {
+    authenticators.forEach(a => a.invalidate());
+    authenticators.clear();
+}
+
+/** Authenticator for the active profile, created on first use and reused while credentials are unchanged. */
+export async function getAuthenticator(): Promise<Authenticator> {
+    await ensureMockBackend();
     const config = getConfig();
-    if (!config.apiKey) {
-        throw new Error('Watson Orchestrate API Key not configured. Please check your settings.');
+    const { apiKey } = await resolveApiKey();
+    if (!apiKey) {
+        throw new Error('Watson Orchestrate API Key not configured. Run "WxO Builder: Set API Key".');
+    }
+    const cacheKey = [config.profileName, config.authMethod, config.instanceUrl, config.tokenUrl || '', config.username || '', apiKey].join('|');
+    let authenticator = authenticators.get(cacheKey);
+    if (!authenticator) {
+        authenticator = createAuthenticator(config.authMethod, {
+            apiKey,
+            instanceUrl: config.instanceUrl,
+            tokenUrl: config.tokenUrl,
+            username: config.username
+        });
+        authenticators.set(cacheKey, authenticator);
     }
+    return authenticator;
+}
 
-    const params = new URLSearchParams();
-    params.append('grant_type', 'urn:ibm:params:oauth:grant-type:apikey');
-    params.append('apikey', config.apiKey);
-    // @ts-ignore
-    const response = await fetch(config.iamTokenUrl, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'Accept': 'application/json',
-        },
-        body: params
+/**
+ * Authorization header value for Watson Orchestrate API calls ("Bearer …" or "ZenApiKey …").
+ * @throws Error if the API key is not configured or the token request fails
+ */
+export async function getAuthorizationHeader(): Promise<string> {
+    return (await getAuthenticator()).getAuthorizationHeader();
+}
+
+/**
+ * Obtain a bearer token for Watson Orchestrate API calls (any auth method).
+ * Kept for existing callers; prefer getAuthorizationHeader().
+ * @throws Error if API key is not configured or the token request fails
+ */
+export async function getIamToken(): Promise<string> {
+    const header = await getAuthorizationHeader();
+    return header.replace(/^(Bearer|ZenApiKey)\s+/, '');
+}
+
+/** Options accepted by woFetch on top of the usual fetch options (method, body, headers). */
+export interface WoFetchOptions {
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string | Buffer;
+    /** Cancels the request (and any pending retry), e.g. when the view or panel that started it goes away. */
+    signal?: AbortSignal;
+    /** Per-attempt timeout in ms. Defaults to wxo-builder.requestTimeout. */
+    timeoutMs?: number;
+    /** Retries for 429/502/503/504 responses and network errors. Default 3; 0 disables. */
+    maxRetries?: number;
+}
+
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+/** 429/503 mean the request was not processed, so they are safe to replay even for POST/PATCH. */
+const RETRYABLE_STATUSES_NON_IDEMPOTENT = [429, 503];
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+
+/** True for errors caused by an AbortSignal (user cancelled / panel closed), which callers usually ignore. */
+export function isAbortError(e: unknown): boolean {
+    return (e as Error | undefined)?.name === 'AbortError';
+}
+
+function abortError(): Error {
+    const err = new Error('The operation was aborted.');
+    err.name = 'AbortError';
+    return err;
+}
+
+/** Sleep that wakes up early (and rejects with an AbortError) when the signal aborts. */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
     });
+}
 
-    if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`IAM Token Request Failed: ${response.status} ${text}`);
-    }
+/** Retry-After is either delta-seconds or an HTTP date. */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
 
-    const data = await response.json() as any;
-    cachedToken = data.access_token;
-    tokenExpiry = now + data.expires_in;
+/** Exponential backoff with full jitter, capped. */
+function backoffDelay(attempt: number): number {
+    const ceiling = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, attempt));
+    return Math.floor(Math.random() * ceiling);
+}
 
-    return cachedToken!;
+function getDefaultTimeoutMs(): number {
+    const seconds = vscode.workspace.getConfiguration('wxo-builder').get<number>('requestTimeout', 30);
+    return seconds > 0 ? seconds * 1000 : 0;
+}
+
+/** Read and drop a response body we are not going to return, so the connection can be reused. */
+async function discardBody(response: Response): Promise<void> {
+    try {
+        await response.text();
+    } catch {
+        // ignore
+    }
+}
+
+/** One fetch attempt with its own timeout, linked to the caller's signal. */
+async function fetchOnce(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+    if (signal?.aborted) throw abortError();
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = timeoutMs > 0 ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs) : undefined;
+    try {
+        return await httpFetch(url, { ...init, signal: controller.signal });
+    } catch (e) {
+        if (timedOut) {
+            const err = new Error(`Request timed out after ${timeoutMs}ms: ${init.method || 'GET'} ${url}`);
+            err.name = 'TimeoutError';
+            throw err;
+        }
+        if (signal?.aborted) throw abortError();
+        throw e;
+    } finally {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
 }
 
 /**
  * Make an authenticated HTTP request to the Watson Orchestrate API.
- * Prepends instance URL to relative paths and adds Bearer token.
+ * Prepends instance URL to relative paths and adds the Authorization header for the active profile.
+ *
+ * - 429/502/503/504 and network errors are retried with jittered exponential backoff,
+ *   honouring Retry-After (POST/PATCH only retry 429/503).
+ * - A 401 invalidates the cached token and replays the request once with a fresh one.
+ * - Each attempt has a timeout; options.signal cancels the request and any pending retry.
+ * - Every attempt is recorded (redacted) in the network log for the WxO Network inspector.
+ *
  * @param endpoint - API path (e.g. /v1/orchestrate/tools) or full URL
- * @param options - fetch options (method, body, headers)
+ * @param options - fetch options (method, body, headers) plus signal / timeoutMs / maxRetries
  */
-export async function woFetch(endpoint: string, options: any = {}): Promise<any> {
-    const token = await getIamToken();
+export async function woFetch(endpoint: string, options: WoFetchOptions = {}): Promise<Response> {
+    const { signal, timeoutMs = getDefaultTimeoutMs(), maxRetries = 3, ...fetchOptions } = options;
+    await ensureMockBackend();
     const config = getConfig();
+    const method = (fetchOptions.method || 'GET').toUpperCase();
 
     let url = endpoint;
     if (!endpoint.startsWith('http')) {
@@ -87,15 +285,51 @@ export async function woFetch(endpoint: string, options: any = {}): Promise<any>
         url = `${baseUrl}${apiPath}`;
     }
 
-    const headers = {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        ...options.headers,
-    };
-    // @ts-ignore
-    return fetch(url, {
-        ...options,
-        headers
-    });
+    const retryableStatuses = IDEMPOTENT_METHODS.includes(method) ? RETRYABLE_STATUSES : RETRYABLE_STATUSES_NON_IDEMPOTENT;
+    let refreshedAfter401 = false;
+    let attempt = 0;
+
+    for (;;) {
+        const authenticator = await getAuthenticator();
+        const headers = {
+            'Authorization': await authenticator.getAuthorizationHeader(),
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+            ...fetchOptions.headers,
+        };
+
+        const record = recordRequest({ method, url, headers, body: fetchOptions.body, attempt });
+        let response: Response;
+        try {
+            response = await fetchOnce(url, { ...fetchOptions, headers }, timeoutMs, signal);
+            record.complete(response);
+        } catch (e) {
+            record.fail(e);
+            // Timeouts and network failures are retried; cancellation is not
+            if (isAbortError(e) || attempt >= maxRetries || !IDEMPOTENT_METHODS.includes(method)) throw e;
+            console.warn(`[WxO] ${method} ${url} failed (${(e as Error).message}); retrying`);
+            await delay(backoffDelay(attempt), signal);
+            attempt++;
+            continue;
+        }
+
+        if (response.status === 401 && !refreshedAfter401) {
+            // Token revoked or expired server-side: force a refresh and replay once
+            refreshedAfter401 = true;
+            authenticator.invalidate();
+            await discardBody(response);
+            continue;
+        }
+
+        if (retryableStatuses.includes(response.status) && attempt < maxRetries) {
+            const wait = Math.min(MAX_RETRY_DELAY_MS, parseRetryAfter(response.headers?.get?.('retry-after')) ?? backoffDelay(attempt));
+            console.warn(`[WxO] ${method} ${url} returned ${response.status}; retrying in ${wait}ms`);
+            await discardBody(response);
+            await delay(wait, signal);
+            attempt++;
+            continue;
+        }
+
+        return response;
+    }
 }
@@ -12,49 +12,65 @@
  * @date 17-Feb-2026
  * @license Apache-2.0
  */
-import { woFetch } from './client';
+import { woFetch, getConfig } from './client';
+import { WxoApiError } from './errors';
+import { normalizeList, normalizePage, Page } from './normalize';
+import { Paginator, PageRequest, DEFAULT_PAGE_SIZE, withPageParams } from './pagination';
+import { Connection, Connector } from './types';
 
 // ─── Connectors (Catalog) ─────────────────────────────────────────────────────
 
 /**
- * List available application connectors from the catalog.
+ * Fetch one page of application connectors from the catalog.
  * GET /v1/orchestrate/catalog/applications
  */
-export async function listConnectors(limit: number = 50): Promise<any> {
-    const response = await woFetch(`/v1/orchestrate/catalog/applications?limit=${limit}`, {
-        method: 'GET'
+export async function listConnectorsPage(request: PageRequest): Promise<Page<Connector>> {
+    const response = await woFetch(withPageParams('/v1/orchestrate/catalog/applications', request), {
+        method: 'GET',
+        signal: request.signal
     });
 
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to list connectors: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'list connectors');
     }
 
-    return await response.json();
+    return normalizePage('connector', await response.json());
+}
+
+/** List the first page of catalog connectors. Use iterateConnectors to walk the whole catalog. */
+export async function listConnectors(limit: number = 50, signal?: AbortSignal): Promise<Connector[]> {
+    return (await listConnectorsPage({ limit, offset: 0, signal })).items;
+}
+
+/** Page through the connector catalog. */
+export function iterateConnectors(pageSize: number = DEFAULT_PAGE_SIZE, signal?: AbortSignal): Paginator<Connector> {
+    return new Paginator(listConnectorsPage, pageSize, signal);
 }
 
 // ─── Connections (Active) ─────────────────────────────────────────────────────
 
 /**
  * List all connections (configured + unconfigured) with details.
- * GET /v1/orchestrate/connections/applications?include_details=true
+ * GET /v1/orchestrate/connections/applications?include_details=true&scope={scope}
+ * Scope comes from the active profile (or wxo-builder.scope).
  *
- * Returns: { applications: [ { app_id, connection_id, security_scheme, auth_type,
- *                               environment, preference, credentials_entered } ] }
+ * The API wraps results as { applications: [...] }; this returns the array.
+ * Failures are logged and yield an empty list so the views still render.
  */
-export async function listConnections(): Promise<any> {
+export async function listConnections(signal?: AbortSignal): Promise<Connection[]> {
+    const scope = getConfig().scope;
     const response = await woFetch(
-        '/v1/orchestrate/connections/applications?include_details=true&scope=draft',
-        { method: 'GET' }
+        `/v1/orchestrate/connections/applications?include_details=true&scope=${scope}`,
+        { method: 'GET', signal }
     );
 
     if (!response.ok) {
         const text = await response.text();
         console.warn(`Connections API failed: ${response.status} - ${text}`);
-        return { applications: [] };
+        return [];
     }
 
-    return await response.json();
+    return normalizeList('connection', await response.json());
 }
 
 /**
@@ -68,8 +84,7 @@ export async function getConnection(appId: string): Promise<any> {
     );
 
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to get connection: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'get connection');
     }
 
     return await response.json();
@@ -87,8 +102,7 @@ export async function createConnection(appId: string): Promise<any> {
     });
 
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to create connection: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'create connection');
     }
 
     return await response.json();
@@ -105,8 +119,7 @@ export async function deleteConnection(appId: string): Promise<any> {
     );
 
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to delete connection: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'delete connection');
     }
 
     return { success: true };
@@ -140,8 +153,7 @@ export async function setApiKeyCredentials(
             }
         );
         if (!postResponse.ok) {
-            const text = await postResponse.text();
-            throw new Error(`Failed to set API key credentials: ${postResponse.status} ${text}`);
+            throw await WxoApiError.fromResponse(postResponse, 'set API key credentials');
         }
         return await postResponse.json().catch(() => ({ success: true }));
     }
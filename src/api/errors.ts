@@ -0,0 +1,88 @@
+/**
+ * WxO Builder - API Errors
+ * Structured error for failed Watson Orchestrate API calls.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+
+/** The parts of a failed fetch response that fromResponse reads. */
+export interface FailedResponse {
+    status: number;
+    statusText?: string;
+    url?: string;
+    headers?: { get(name: string): string | null | undefined };
+    text(): Promise<string>;
+}
+
+/** Response headers that carry a request / transaction id, in order of preference. */
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-global-transaction-id', 'x-correlation-id', 'x-ibm-request-id'];
+
+/**
+ * Thrown when Watson Orchestrate answers with a non-2xx status.
+ * The message keeps the familiar "Failed to <action>: <status> <body>" form; the
+ * fields let callers branch on status or show the request id to support.
+ */
+export class WxoApiError extends Error {
+    constructor(
+        message: string,
+        /** HTTP status code. */
+        public readonly status: number,
+        /** Request path (and query), e.g. /v1/orchestrate/tools?limit=20. */
+        public readonly endpoint: string,
+        /** Server request / transaction id, when the response carried one. */
+        public readonly requestId: string | undefined,
+        /** Response body: parsed JSON when possible, otherwise the raw text. */
+        public readonly body: unknown
+    ) {
+        super(message);
+        this.name = 'WxoApiError';
+        // Keep instanceof working when compiled to ES5-style classes
+        Object.setPrototypeOf(this, WxoApiError.prototype);
+    }
+
+    /**
+     * Build an error from a failed response. Reads the body, so call it instead of response.text().
+     * @param action What was being attempted, e.g. "list tools" → "Failed to list tools: 404 ..."
+     */
+    static async fromResponse(response: FailedResponse, action: string): Promise<WxoApiError> {
+        let text = '';
+        try {
+            text = await response.text();
+        } catch {
+            // Body already consumed or stream failed; report the status alone
+        }
+        let body: unknown = text;
+        try {
+            body = text ? JSON.parse(text) : undefined;
+        } catch {
+            // Not JSON; keep the text
+        }
+        const message = `Failed to ${action}: ${response.status} ${text || response.statusText || ''}`.trim();
+        return new WxoApiError(message, response.status, endpointOf(response.url), requestIdOf(response, body), body);
+    }
+}
+
+function endpointOf(url: string | undefined): string {
+    if (!url) return '';
+    try {
+        const parsed = new URL(url);
+        return parsed.pathname + parsed.search;
+    } catch {
+        return url;
+    }
+}
+
+function requestIdOf(response: FailedResponse, body: unknown): string | undefined {
+    for (const header of REQUEST_ID_HEADERS) {
+        const value = response.headers?.get?.(header);
+        if (value) return value;
+    }
+    if (body && typeof body === 'object') {
+        const b = body as Record<string, unknown>;
+        const id = b.request_id ?? b.trace_id ?? b.trace;
+        if (typeof id === 'string') return id;
+    }
+    return undefined;
+}
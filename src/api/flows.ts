@@ -10,46 +10,37 @@
  * @license Apache-2.0
  */
 import { woFetch } from './client';
+import { WxoApiError } from './errors';
+import { Tool } from './types';
+import { iterateSkills } from './skills';
 
-export async function listFlows(limit: number = 20, offset: number = 0): Promise<any[]> {
-    // We list TOOLS and filter for flows/workflows
-    const response = await woFetch(`/v1/orchestrate/tools?limit=100`, {
-        method: 'GET'
-    });
-
-    if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to list flows (tools): ${response.status} ${text}`);
-    }
-
-    const text = await response.text();
-    let items: any[] = [];
-    try {
-        const data = JSON.parse(text);
-        items = data.items || data.data || (Array.isArray(data) ? data : []);
-    } catch {
-        return [];
+/**
+ * List flow-like tools (type flow/workflow). Pages through all tools, since flows
+ * are a small subset and may sit anywhere in the tool list.
+ */
+export async function listFlows(signal?: AbortSignal): Promise<Tool[]> {
+    const flows: Tool[] = [];
+    for await (const page of iterateSkills(100, signal)) {
+        flows.push(...page.filter(t =>
+            t.type === 'flow' ||
+            t.type === 'workflow' ||
+            (t.name && t.name.toLowerCase().includes('workflow'))
+        ));
     }
-
-    // Filter for flow-like tools
-    return items.filter((t: any) =>
-        t.type === 'flow' ||
-        t.type === 'workflow' ||
-        (t.name && t.name.toLowerCase().includes('workflow'))
-    );
+    return flows;
 }
 
-export async function getFlow(flowId: string): Promise<any> {
+export async function getFlow(flowId: string, signal?: AbortSignal): Promise<Tool> {
     // Fetch the tool definition
-    const response = await woFetch(`/v1/orchestrate/tools/${flowId}`, { method: 'GET' });
+    const response = await woFetch(`/v1/orchestrate/tools/${flowId}`, { method: 'GET', signal });
     if (!response.ok) {
-        throw new Error(`Failed to get flow (tool): ${response.status}`);
+        throw await WxoApiError.fromResponse(response, 'get flow (tool)');
     }
     const text = await response.text();
     try {
         return JSON.parse(text);
     } catch {
-        return text;
+        return text as unknown as Tool;
     }
 }
 
@@ -60,7 +51,7 @@ export async function deleteFlow(flowId: string): Promise<any> {
         const flowRes = await woFetch(`/v1/orchestrate/flows/${flowId}`, { method: 'DELETE' });
         if (flowRes.ok) return { success: true };
 
-        throw new Error(`Failed to delete flow: ${response.status}`);
+        throw await WxoApiError.fromResponse(response, 'delete flow');
     }
     return { success: true };
 }
@@ -73,8 +64,7 @@ export async function createFlow(flowJson: any): Promise<any> {
     });
 
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to create flow: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'create flow');
     }
 
     const text = await response.text();
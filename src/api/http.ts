@@ -0,0 +1,152 @@
+/**
+ * WxO Builder - Outbound HTTP
+ * Shared HTTP(S) agent factory so every outbound call (Orchestrate API, token endpoints,
+ * local tool tests) honours the same network settings:
+ *  - VS Code `http.proxy` (falls back to HTTPS_PROXY / HTTP_PROXY env vars)
+ *  - `http.noProxy` and the NO_PROXY env var
+ *  - `http.proxyStrictSSL`
+ *  - `wxo-builder.caCertificates`: extra PEM root CAs, added to Node's built-in roots
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+import * as tls from 'tls';
+import fetch, { RequestInit, Response } from 'node-fetch';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { HttpProxyAgent } from 'http-proxy-agent';
+
+interface NetworkSettings {
+    proxy: string | undefined;
+    noProxy: string[];
+    strictSSL: boolean;
+    ca: string[] | undefined;
+}
+
+let cachedSettings: NetworkSettings | undefined;
+const agents = new Map<string, http.Agent>();
+
+/** Drop cached agents and settings; call when http.* or wxo-builder.caCertificates change. */
+export function resetHttpAgents(): void {
+    agents.forEach(agent => agent.destroy());
+    agents.clear();
+    cachedSettings = undefined;
+}
+
+function resolveCaPath(p: string): string {
+    if (p.startsWith('~')) return path.join(os.homedir(), p.slice(1));
+    if (path.isAbsolute(p)) return p;
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? path.join(folder.uri.fsPath, p) : p;
+}
+
+/** Read wxo-builder.caCertificates. Unreadable files are reported once and skipped. */
+function loadCaCertificates(paths: string[]): string[] | undefined {
+    if (!paths.length) return undefined;
+    const extra: string[] = [];
+    const failed: string[] = [];
+    for (const p of paths) {
+        try {
+            extra.push(fs.readFileSync(resolveCaPath(p), 'utf8'));
+        } catch (e) {
+            const err = e as NodeJS.ErrnoException;
+            failed.push(`${p} (${err.code || err.message})`);
+        }
+    }
+    if (failed.length) {
+        vscode.window.showWarningMessage(`WxO Builder: could not read CA certificate file(s): ${failed.join(', ')}`);
+    }
+    // Custom CAs extend, rather than replace, the public roots
+    return extra.length ? [...tls.rootCertificates, ...extra] : undefined;
+}
+
+function getSettings(): NetworkSettings {
+    if (cachedSettings) return cachedSettings;
+    const httpConfig = vscode.workspace.getConfiguration('http');
+    const wxoConfig = vscode.workspace.getConfiguration('wxo-builder');
+    const envNoProxy = process.env.NO_PROXY || process.env.no_proxy || '';
+    cachedSettings = {
+        proxy: httpConfig.get<string>('proxy') || undefined,
+        noProxy: [
+            ...(httpConfig.get<string[]>('noProxy') || []),
+            ...envNoProxy.split(',')
+        ].map(s => s.trim().toLowerCase()).filter(Boolean),
+        strictSSL: httpConfig.get<boolean>('proxyStrictSSL', true),
+        ca: loadCaCertificates(wxoConfig.get<string[]>('caCertificates') || [])
+    };
+    return cachedSettings;
+}
+
+/**
+ * NO_PROXY matching: "*", exact host, domain suffix (".corp.com" or "corp.com"),
+ * optionally with ":port".
+ */
+export function isNoProxyHost(url: URL, noProxy: string[]): boolean {
+    const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+    return noProxy.some(entry => {
+        if (entry === '*') return true;
+        const [hostPattern, entryPort] = entry.split(/:(?=\d+$)/);
+        if (entryPort && entryPort !== port) return false;
+        const domain = hostPattern.replace(/^\*?\./, '');
+        return host === domain || host.endsWith(`.${domain}`);
+    });
+}
+
+/** Local servers (mock backend, local tool tests) are never proxied. */
+function isLoopbackHost(url: URL): boolean {
+    return ['localhost', '127.0.0.1', '[::1]', '::1'].includes(url.hostname.toLowerCase());
+}
+
+function proxyFor(url: URL, settings: NetworkSettings): string | undefined {
+    const fromEnv = url.protocol === 'https:'
+        ? process.env.HTTPS_PROXY || process.env.https_proxy || process.env.HTTP_PROXY || process.env.http_proxy
+        : process.env.HTTP_PROXY || process.env.http_proxy;
+    const proxy = settings.proxy || fromEnv;
+    if (!proxy || isLoopbackHost(url) || isNoProxyHost(url, settings.noProxy)) return undefined;
+    return proxy;
+}
+
+/**
+ * Agent for a request URL, or undefined to use Node's default agent
+ * (no proxy, strict TLS, no extra CAs). Agents are cached per proxy/protocol.
+ */
+export function getHttpAgent(requestUrl: string): http.Agent | undefined {
+    let url: URL;
+    try {
+        url = new URL(requestUrl);
+    } catch {
+        return undefined;
+    }
+    const settings = getSettings();
+    const proxy = proxyFor(url, settings);
+    const secure = url.protocol === 'https:';
+    if (!proxy && settings.strictSSL && !settings.ca) return undefined;
+
+    const key = `${url.protocol}|${proxy || 'direct'}`;
+    let agent = agents.get(key);
+    if (!agent) {
+        const tlsOptions = { ca: settings.ca, rejectUnauthorized: settings.strictSSL, keepAlive: true };
+        if (proxy) {
+            agent = secure ? new HttpsProxyAgent(proxy, tlsOptions) : new HttpProxyAgent(proxy, tlsOptions);
+        } else {
+            agent = secure ? new https.Agent(tlsOptions) : new http.Agent({ keepAlive: true });
+        }
+        agents.set(key, agent);
+    }
+    return agent;
+}
+
+/**
+ * node-fetch with the shared agent for the URL. Use this instead of importing
+ * node-fetch directly so proxy and CA settings apply everywhere.
+ */
+export async function httpFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(url, { agent: getHttpAgent(url), ...init });
+}
@@ -0,0 +1,109 @@
+/**
+ * WxO Builder - JSONPath
+ * A small JSONPath subset for test assertions: `$`, `.name`, `['name']`, `[0]` (negative
+ * indexes count from the end), `[*]` / `.*` wildcards and `..name` recursive descent.
+ * Filters and script expressions are not supported.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+
+type Segment =
+    | { kind: 'key'; key: string; recursive: boolean }
+    | { kind: 'index'; index: number; recursive: boolean }
+    | { kind: 'wildcard'; recursive: boolean };
+
+export class JsonPathError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JsonPathError';
+        Object.setPrototypeOf(this, JsonPathError.prototype);
+    }
+}
+
+function parsePath(path: string): Segment[] {
+    const text = path.trim();
+    if (!text.startsWith('$')) throw new JsonPathError(`JSONPath must start with "$": ${path}`);
+    const segments: Segment[] = [];
+    let i = 1;
+    while (i < text.length) {
+        let recursive = false;
+        if (text.startsWith('..', i)) {
+            recursive = true;
+            i += 2;
+        } else if (text[i] === '.') {
+            i += 1;
+        } else if (text[i] !== '[') {
+            throw new JsonPathError(`Unexpected "${text[i]}" at position ${i} in ${path}`);
+        }
+        if (text[i] === '[') {
+            const end = text.indexOf(']', i);
+            if (end < 0) throw new JsonPathError(`Missing "]" in ${path}`);
+            const inner = text.slice(i + 1, end).trim();
+            i = end + 1;
+            if (inner === '*') {
+                segments.push({ kind: 'wildcard', recursive });
+            } else if (/^-?\d+$/.test(inner)) {
+                segments.push({ kind: 'index', index: parseInt(inner, 10), recursive });
+            } else if (/^(['"]).*\1$/.test(inner)) {
+                segments.push({ kind: 'key', key: inner.slice(1, -1), recursive });
+            } else {
+                throw new JsonPathError(`Unsupported selector [${inner}] in ${path}`);
+            }
+            continue;
+        }
+        const match = /^(\*|[^.[\]]+)/.exec(text.slice(i));
+        if (!match) throw new JsonPathError(`Missing name after "." at position ${i} in ${path}`);
+        i += match[1].length;
+        segments.push(match[1] === '*' ? { kind: 'wildcard', recursive } : { kind: 'key', key: match[1], recursive });
+    }
+    return segments;
+}
+
+function children(node: unknown): unknown[] {
+    if (Array.isArray(node)) return node;
+    if (node && typeof node === 'object') return Object.values(node);
+    return [];
+}
+
+/** The node and all of its descendants, depth first. */
+function descendants(node: unknown): unknown[] {
+    const out = [node];
+    children(node).forEach(child => out.push(...descendants(child)));
+    return out;
+}
+
+function select(node: unknown, segment: Segment): unknown[] {
+    if (segment.kind === 'wildcard') return children(node);
+    if (segment.kind === 'index') {
+        if (!Array.isArray(node)) return [];
+        const index = segment.index < 0 ? node.length + segment.index : segment.index;
+        return index >= 0 && index < node.length ? [node[index]] : [];
+    }
+    if (node && typeof node === 'object' && !Array.isArray(node) && Object.prototype.hasOwnProperty.call(node, segment.key)) {
+        return [(node as Record<string, unknown>)[segment.key]];
+    }
+    return [];
+}
+
+/**
+ * Every value the path selects, in document order. Empty when nothing matches.
+ * @throws JsonPathError when the path uses unsupported syntax
+ */
+export function queryJsonPath(value: unknown, path: string): unknown[] {
+    let nodes = [value];
+    for (const segment of parsePath(path)) {
+        const next: unknown[] = [];
+        nodes.forEach(node => {
+            (segment.recursive ? descendants(node) : [node]).forEach(candidate => next.push(...select(candidate, segment)));
+        });
+        nodes = next;
+    }
+    return nodes;
+}
+
+/** True when the path selects at most one value (no wildcards or recursive descent). */
+export function isSingularPath(path: string): boolean {
+    return parsePath(path).every(segment => segment.kind !== 'wildcard' && !segment.recursive);
+}
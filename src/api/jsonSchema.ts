@@ -0,0 +1,264 @@
+/**
+ * WxO Builder - JSON Schema Validation
+ * Validates values against tool input/output schemas and OpenAPI schemas with Ajv
+ * (JSON Schema draft-07, plus the formats from ajv-formats). OpenAPI 3.0 dialect is
+ * translated first: `nullable: true` also allows null, and boolean `exclusiveMinimum` /
+ * `exclusiveMaximum` become the numeric draft-07 form. Local `$ref`s are resolved against
+ * the root schema. Unknown keywords and formats (x-*, discriminator, ...) are ignored;
+ * patterns JavaScript cannot compile, `type` values that are not JSON types and
+ * non-array `required` (Swagger 2 style) are dropped rather than failing the whole check.
+ * A schema Ajv still cannot compile (e.g. an unresolvable `$ref`) gives a single error.
+ *
+ * With `reportUndeclared`, properties the schema does not declare are reported as well (kind
+ * 'undeclared') even when additionalProperties allows them, to spot responses that drifted.
+ * Objects whose schema declares no properties at all are treated as free-form.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import Ajv, { ErrorObject, SchemaObject } from 'ajv';
+import addFormats from 'ajv-formats';
+import { JsonSchema } from './types';
+
+/**
+ * missing: required property absent · extra: property not allowed · undeclared: property not in
+ * the schema (reportUndeclared only) · type: wrong JSON type · value: any other constraint.
+ */
+export type SchemaErrorKind = 'missing' | 'extra' | 'undeclared' | 'type' | 'value';
+
+export interface SchemaError {
+    /** Location of the value, e.g. `$.items[2].name`. */
+    path: string;
+    message: string;
+    kind: SchemaErrorKind;
+}
+
+export interface ValidateOptions {
+    /** Also report properties the schema does not declare. */
+    reportUndeclared?: boolean;
+}
+
+const ajv = new Ajv({ strict: false, allErrors: true, validateSchema: false, addUsedSchema: false, unicodeRegExp: false, logger: false });
+addFormats(ajv);
+
+const JSON_TYPES = ['null', 'boolean', 'object', 'array', 'number', 'integer', 'string'];
+/** Keywords whose values are data, not schemas. */
+const DATA_KEYWORDS = new Set(['enum', 'const', 'default', 'example', 'examples']);
+/** Keywords whose values map names to schemas (so a property called "enum" is still a schema). */
+const SCHEMA_MAPS = new Set(['properties', 'patternProperties', 'definitions', '$defs', 'schemas']);
+
+/** JSON Schema type of a value ('integer' for whole numbers). */
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+}
+
+function childPath(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key.replace(/'/g, "\\'")}']`;
+}
+
+function resolveRef(ref: string, root: unknown): unknown {
+    if (!ref.startsWith('#')) return undefined;
+    return ref.slice(1).split('/').filter(Boolean).reduce((node: unknown, part: string) => {
+        const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+        return node === undefined || node === null ? undefined : (node as Record<string, unknown>)[key];
+    }, root);
+}
+
+/** A draft-07 copy of an OpenAPI 3.0 schema (see the file comment). */
+function toDraft07(node: unknown, isMap: boolean = false): unknown {
+    if (Array.isArray(node)) return node.map(item => toDraft07(item));
+    if (!node || typeof node !== 'object') return node;
+    const source = node as Record<string, unknown>;
+    const schema: Record<string, unknown> = {};
+    Object.keys(source).forEach(key => {
+        schema[key] = !isMap && DATA_KEYWORDS.has(key) ? source[key] : toDraft07(source[key], !isMap && SCHEMA_MAPS.has(key));
+    });
+    if (isMap) return schema;
+    if (typeof schema.type === 'string' || Array.isArray(schema.type)) {
+        const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter((t: unknown) => JSON_TYPES.includes(t as string));
+        if (types.length === 0) delete schema.type;
+        else schema.type = types.length === 1 ? types[0] : types;
+    }
+    if (schema.nullable === true) {
+        if (schema.type !== undefined) {
+            const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as string[];
+            if (!types.includes('null')) schema.type = [...types, 'null'];
+        }
+        if (Array.isArray(schema.enum) && !schema.enum.includes(null)) schema.enum = [...schema.enum, null];
+    }
+    (['Minimum', 'Maximum'] as const).forEach(bound => {
+        const exclusive = `exclusive${bound}`;
+        const inclusive = bound.toLowerCase();
+        if (schema[exclusive] === true && typeof schema[inclusive] === 'number') {
+            schema[exclusive] = schema[inclusive];
+            delete schema[inclusive];
+        } else if (typeof schema[exclusive] === 'boolean') {
+            delete schema[exclusive];
+        }
+    });
+    if (typeof schema.pattern === 'string') {
+        try {
+            new RegExp(schema.pattern);
+        } catch {
+            delete schema.pattern;
+        }
+    }
+    if (schema.required !== undefined && !Array.isArray(schema.required)) delete schema.required;
+    return schema;
+}
+
+/** Our `$.a[0].b` path for an Ajv instance path, and the value found there. */
+function locate(instancePath: string, value: unknown): { path: string; data: unknown } {
+    let path = '$';
+    let data = value;
+    instancePath.split('/').slice(1).forEach(part => {
+        const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+        if (Array.isArray(data)) {
+            path = childPath(path, Number(key));
+            data = data[Number(key)];
+        } else {
+            path = childPath(path, key);
+            data = data && typeof data === 'object' ? (data as Record<string, unknown>)[key] : undefined;
+        }
+    });
+    return { path, data };
+}
+
+function isWithin(instancePath: string, parent: string): boolean {
+    return instancePath === parent || instancePath.startsWith(`${parent}/`);
+}
+
+/**
+ * Drop the errors of anyOf / oneOf branches; the anyOf / oneOf error itself says enough.
+ * Ajv runs applicators before the other keywords of a schema, so a failed anyOf / oneOf is
+ * directly preceded by its branches' errors. (Their schema paths cannot be used: errors
+ * inside a `$ref` carry the path of the referenced schema.)
+ */
+function withoutBranchErrors(errors: ErrorObject[]): ErrorObject[] {
+    const kept: ErrorObject[] = [];
+    errors.forEach(error => {
+        if (error.keyword === 'anyOf' || error.keyword === 'oneOf') {
+            const parent = error.schemaPath.slice(0, -error.keyword.length - 1);
+            while (kept.length > 0) {
+                const last = kept[kept.length - 1];
+                if (!isWithin(last.instancePath, error.instancePath)) break;
+                // A sibling keyword of the same schema (const, enum, not, anyOf)
+                if (last.instancePath === error.instancePath && last.schemaPath === `${parent}/${last.keyword}`) break;
+                kept.pop();
+            }
+        }
+        kept.push(error);
+    });
+    return kept;
+}
+
+function toSchemaError(error: ErrorObject, value: unknown): SchemaError {
+    const { path, data } = locate(error.instancePath, value);
+    const params = error.params;
+    switch (error.keyword) {
+        case 'required':
+            return { path, kind: 'missing', message: `missing required property "${params.missingProperty}"` };
+        case 'additionalProperties':
+            return { path: childPath(path, params.additionalProperty), kind: 'extra', message: 'property is not allowed' };
+        case 'type':
+            return { path, kind: 'type', message: `expected ${String(params.type).split(',').join(' or ')}, got ${typeOf(data)}` };
+        case 'enum':
+            return { path, kind: 'value', message: `must be one of ${params.allowedValues.map((o: unknown) => JSON.stringify(o)).join(', ')}` };
+        case 'const':
+            return { path, kind: 'value', message: `must equal ${JSON.stringify(params.allowedValue)}` };
+        case 'anyOf':
+            return { path, kind: 'value', message: 'does not match any of the allowed schemas (anyOf)' };
+        case 'oneOf':
+            return {
+                path,
+                kind: 'value',
+                message: Array.isArray(params.passingSchemas) ? `matches ${params.passingSchemas.length} schemas in oneOf; expected exactly one` : 'does not match any schema in oneOf'
+            };
+        case 'not':
+            return { path, kind: 'value', message: 'must not match the schema in "not"' };
+        case 'false schema':
+            return { path, kind: 'value', message: 'no value is allowed here' };
+        default:
+            return { path, kind: 'value', message: error.message || `fails ${error.keyword}` };
+    }
+}
+
+/** Property names declared by a schema, including those of its allOf / anyOf / oneOf branches. */
+function declaredProperties(schema: JsonSchema | undefined, root: unknown, depth: number = 0): Set<string> {
+    const names = new Set<string>();
+    if (!schema || typeof schema !== 'object' || depth > 16) return names;
+    const target = (typeof schema.$ref === 'string' ? resolveRef(schema.$ref, root) : schema) as JsonSchema | undefined;
+    if (!target || typeof target !== 'object') return names;
+    Object.keys(target.properties || {}).forEach(name => names.add(name));
+    ['allOf', 'anyOf', 'oneOf'].forEach(key => {
+        const branches = target[key];
+        if (Array.isArray(branches)) branches.forEach((sub: JsonSchema) => declaredProperties(sub, root, depth + 1).forEach(name => names.add(name)));
+    });
+    return names;
+}
+
+/** Properties the schema does not declare (reportUndeclared), following properties, items and allOf. */
+function findUndeclared(value: unknown, schema: JsonSchema | undefined, path: string, root: unknown, errors: SchemaError[], depth: number, check: boolean = true): void {
+    if (!schema || typeof schema !== 'object' || depth > 64) return;
+    if (typeof schema.$ref === 'string') {
+        findUndeclared(value, resolveRef(schema.$ref, root) as JsonSchema | undefined, path, root, errors, depth + 1, check);
+        return;
+    }
+    if (Array.isArray(value)) {
+        if (Array.isArray(schema.items)) {
+            schema.items.forEach((itemSchema: JsonSchema, i: number) => {
+                if (i < value.length) findUndeclared(value[i], itemSchema, childPath(path, i), root, errors, depth + 1);
+            });
+        } else {
+            value.forEach((item, i) => findUndeclared(item, schema.items, childPath(path, i), root, errors, depth + 1));
+        }
+    } else if (typeOf(value) === 'object') {
+        const object = value as Record<string, unknown>;
+        const properties = schema.properties || {};
+        // Properties declared by sibling allOf / anyOf / oneOf branches are not undeclared here
+        const declared = check ? declaredProperties(schema, root) : undefined;
+        Object.keys(object).forEach(key => {
+            if (properties[key] !== undefined) {
+                findUndeclared(object[key], properties[key], childPath(path, key), root, errors, depth + 1);
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                findUndeclared(object[key], schema.additionalProperties as JsonSchema, childPath(path, key), root, errors, depth + 1);
+            } else if (schema.additionalProperties !== false && declared && declared.size > 0 && !declared.has(key)) {
+                errors.push({ path: childPath(path, key), message: 'property is not declared in the schema', kind: 'undeclared' });
+            }
+        });
+    }
+    // Branches see the whole object; undeclared checks would flag the other branches' properties
+    if (Array.isArray(schema.allOf)) {
+        schema.allOf.forEach((sub: JsonSchema) => findUndeclared(value, sub, path, root, errors, depth + 1, false));
+    }
+}
+
+/** Validate a value against a schema. Returns every violation found; empty when the value is valid. */
+export function validateJsonSchema(value: unknown, schema: unknown, options: ValidateOptions = {}): SchemaError[] {
+    if (schema === true || schema === undefined || schema === null) return [];
+    if (schema === false) return [{ path: '$', message: 'no value is allowed here', kind: 'value' }];
+    if (typeof schema !== 'object') return [];
+    const draft07 = toDraft07(schema) as SchemaObject;
+    let errors: SchemaError[];
+    try {
+        const validate = ajv.compile(draft07);
+        validate(value);
+        errors = withoutBranchErrors(validate.errors || []).map(error => toSchemaError(error, value));
+    } catch (e) {
+        return [{ path: '$', message: `the schema cannot be used: ${(e as Error).message}`, kind: 'value' }];
+    } finally {
+        ajv.removeSchema(draft07);
+    }
+    if (options.reportUndeclared) findUndeclared(value, schema as JsonSchema, '$', schema, errors, 0);
+    return errors;
+}
+
+/** One line per error, e.g. "$.items[0].id: expected string, got number". */
+export function formatSchemaErrors(errors: SchemaError[]): string[] {
+    return errors.map(error => `${error.path}: ${error.message}`);
+}
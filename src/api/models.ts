@@ -7,39 +7,33 @@
  * @license Apache-2.0
  */
 import { woFetch } from './client';
+import { WxoApiError } from './errors';
+import { normalizeList } from './normalize';
+import { ModelResource } from './types';
 
-const PREFERRED_DEFAULT_MODEL_ID = 'groq/openai/gpt-oss-120b';
+export { ModelResource };
 
-export interface ModelResource {
-    id: string;
-    label?: string;
-    lifecycle?: Array<{ id: string; start_date?: string | null }>;
-    type?: string;
-    tags?: string[];
-}
+const PREFERRED_DEFAULT_MODEL_ID = 'groq/openai/gpt-oss-120b';
 
 /**
  * List models available for agents (GET /v1/models/list).
  * Returns array of { id, label, lifecycle, type, tags }.
  */
-export async function listModels(): Promise<ModelResource[]> {
-    const response = await woFetch('/v1/models/list', { method: 'GET' });
+export async function listModels(signal?: AbortSignal): Promise<ModelResource[]> {
+    const response = await woFetch('/v1/models/list', { method: 'GET', signal });
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to list models: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'list models');
     }
-    const data = await response.json().catch(() => ({}));
-    const list = data.resources ?? data.data ?? (Array.isArray(data) ? data : []);
-    return Array.isArray(list) ? list : [];
+    return normalizeList('model', await response.json().catch(() => ({})));
 }
 
 /**
  * Default model ID for new agents and the test agent.
  * Prefers groq/openai/gpt-oss-120b if available from the API, else first model, else fallback.
  */
-export async function getDefaultModelId(): Promise<string> {
+export async function getDefaultModelId(signal?: AbortSignal): Promise<string> {
     try {
-        const models = await listModels();
+        const models = await listModels(signal);
         if (!models.length) return PREFERRED_DEFAULT_MODEL_ID;
         const preferred = models.find((m: ModelResource) => m.id === PREFERRED_DEFAULT_MODEL_ID);
         if (preferred) return PREFERRED_DEFAULT_MODEL_ID;
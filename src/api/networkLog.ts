@@ -0,0 +1,273 @@
+/**
+ * WxO Builder - Network Log
+ * Records every woFetch attempt (method, URL, status, latency, headers, bodies) for the
+ * WxO Network inspector and HAR export.
+ *
+ * Everything is redacted before it is stored: Authorization / cookie / API key headers,
+ * api_key-style fields and query parameters, and `runtime_credentials` bodies. Entries
+ * are kept in memory only, newest last, capped at MAX_ENTRIES.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+
+const MAX_ENTRIES = 500;
+/** Bodies longer than this are truncated in the log. */
+const MAX_BODY_CHARS = 64 * 1024;
+
+export const REDACTED = '[REDACTED]';
+
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key', 'apikey', 'api-key'];
+/** JSON fields whose values are replaced, wherever they appear. */
+const SENSITIVE_FIELDS = /^(api_?key|apikey|password|passwd|client_secret|secret|token|access_token|refresh_token|runtime_credentials)$/i;
+/** Query parameters whose values are replaced. */
+const SENSITIVE_PARAMS = /^(api_?key|apikey|access_token|token|client_secret)$/i;
+
+export interface NetworkEntry {
+    id: number;
+    /** ISO timestamp of when the request was sent. */
+    startedDateTime: string;
+    method: string;
+    url: string;
+    /** 0 when no response was received (timeout, network error, cancelled). */
+    status: number;
+    statusText: string;
+    durationMs: number;
+    requestHeaders: Record<string, string>;
+    requestBody?: string;
+    responseHeaders: Record<string, string>;
+    /** Set once the caller has read the body; bodies nobody reads are not logged. */
+    responseBody?: string;
+    /** Retry attempt number (0 = first try). */
+    attempt: number;
+    error?: string;
+}
+
+const entries: NetworkEntry[] = [];
+let nextId = 1;
+const changeEmitter = new vscode.EventEmitter<void>();
+
+/** Fires whenever an entry is added or updated, or the log is cleared. */
+export const onDidChangeNetworkLog = changeEmitter.event;
+
+export function getNetworkEntries(): readonly NetworkEntry[] {
+    return entries;
+}
+
+export function clearNetworkLog(): void {
+    entries.length = 0;
+    changeEmitter.fire();
+}
+
+// ─── Redaction ────────────────────────────────────────────────────────────────
+
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const out: Record<string, string> = {};
+    Object.keys(headers).forEach(name => {
+        out[name] = SENSITIVE_HEADERS.includes(name.toLowerCase()) ? REDACTED : String(headers[name]);
+    });
+    return out;
+}
+
+export function redactUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        let changed = false;
+        parsed.searchParams.forEach((_value, name) => {
+            if (SENSITIVE_PARAMS.test(name)) {
+                parsed.searchParams.set(name, REDACTED);
+                changed = true;
+            }
+        });
+        return changed ? parsed.toString().replace(/%5BREDACTED%5D/g, REDACTED) : url;
+    } catch {
+        return url;
+    }
+}
+
+function redactJson(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(redactJson);
+    if (value && typeof value === 'object') {
+        const object = value as Record<string, unknown>;
+        const out: Record<string, unknown> = {};
+        Object.keys(object).forEach(key => {
+            const v = object[key];
+            // Schema objects named e.g. "token" are kept; credential values and runtime_credentials are not
+            const sensitive = SENSITIVE_FIELDS.test(key) && (typeof v !== 'object' || v === null || /^runtime_credentials$/i.test(key));
+            out[key] = sensitive ? REDACTED : redactJson(v);
+        });
+        return out;
+    }
+    return value;
+}
+
+/** Redact a request/response body. JSON is redacted field by field; other text by pattern. */
+export function redactBody(body: string): string {
+    try {
+        return JSON.stringify(redactJson(JSON.parse(body)), null, 2);
+    } catch {
+        return body
+            .replace(/((?:api_?key|apikey|access_token|client_secret|password)=)[^&\s"]+/gi, `$1${REDACTED}`)
+            .replace(/("(?:api_?key|apikey|access_token|client_secret|password|runtime_credentials)"\s*:\s*)("[^"]*"|\{[^}]*\})/gi, `$1"${REDACTED}"`);
+    }
+}
+
+function truncate(text: string): string {
+    return text.length > MAX_BODY_CHARS ? `${text.slice(0, MAX_BODY_CHARS)}\n… (${text.length - MAX_BODY_CHARS} more characters)` : text;
+}
+
+/** Readable, redacted form of a request body (strings, Buffers, URLSearchParams). */
+export function describeRequestBody(body: unknown): string | undefined {
+    if (body === undefined || body === null) return undefined;
+    if (typeof body === 'string') return truncate(redactBody(body));
+    if (Buffer.isBuffer(body)) return `[binary ${body.length} bytes]`;
+    if (body instanceof URLSearchParams) return truncate(redactBody(body.toString()));
+    return '[stream]';
+}
+
+// ─── Recording ────────────────────────────────────────────────────────────────
+
+export interface RequestRecord {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: unknown;
+    attempt: number;
+}
+
+/** The parts of a fetch Response that are recorded. */
+export interface RecordedResponse {
+    status: number;
+    statusText?: string;
+    headers?: { forEach(callback: (value: string, name: string) => void): void };
+    text(): Promise<string>;
+    json(): Promise<unknown>;
+}
+
+/**
+ * Call `onText` with the response body when the caller reads it with text() or json().
+ * Reading a clone instead would tee the stream: an unread original stalls it, and large
+ * bodies would be buffered twice.
+ */
+function captureBodyOnRead(response: RecordedResponse, onText: (text: string) => void): void {
+    if (typeof response.text !== 'function') return;
+    const readText = response.text.bind(response);
+    response.text = async () => {
+        const text: string = await readText();
+        onText(text);
+        return text;
+    };
+    response.json = async () => JSON.parse(await response.text());
+}
+
+/**
+ * Record a request that is about to be sent. Call complete()/fail() on the
+ * returned handle once the response (or error) is known.
+ */
+export function recordRequest(request: RequestRecord): {
+    complete(response: RecordedResponse): void;
+    fail(error: unknown): void;
+} {
+    const started = Date.now();
+    const entry: NetworkEntry = {
+        id: nextId++,
+        startedDateTime: new Date(started).toISOString(),
+        method: request.method,
+        url: redactUrl(request.url),
+        status: 0,
+        statusText: 'pending',
+        durationMs: 0,
+        requestHeaders: redactHeaders(request.headers),
+        requestBody: describeRequestBody(request.body),
+        responseHeaders: {},
+        attempt: request.attempt
+    };
+    entries.push(entry);
+    if (entries.length > MAX_ENTRIES) entries.splice(0, entries.length - MAX_ENTRIES);
+    changeEmitter.fire();
+
+    return {
+        complete(response: RecordedResponse) {
+            entry.durationMs = Date.now() - started;
+            entry.status = response.status;
+            entry.statusText = response.statusText || '';
+            const headers: Record<string, string> = {};
+            response.headers?.forEach((value, name) => { headers[name] = value; });
+            entry.responseHeaders = redactHeaders(headers);
+            changeEmitter.fire();
+            captureBodyOnRead(response, text => {
+                entry.responseBody = text ? truncate(redactBody(text)) : undefined;
+                changeEmitter.fire();
+            });
+        },
+        fail(error: unknown) {
+            const err = error as Error | undefined;
+            entry.durationMs = Date.now() - started;
+            entry.statusText = err?.name === 'AbortError' ? 'cancelled' : 'failed';
+            entry.error = err?.message || String(error);
+            changeEmitter.fire();
+        }
+    };
+}
+
+// ─── HAR export ───────────────────────────────────────────────────────────────
+
+function harHeaders(headers: Record<string, string>): Array<{ name: string; value: string }> {
+    return Object.keys(headers).map(name => ({ name, value: headers[name] }));
+}
+
+function harQuery(url: string): Array<{ name: string; value: string }> {
+    try {
+        const query: Array<{ name: string; value: string }> = [];
+        new URL(url).searchParams.forEach((value, name) => query.push({ name, value }));
+        return query;
+    } catch {
+        return [];
+    }
+}
+
+/** Build a HAR 1.2 document from (already redacted) network entries. */
+export function toHar(list: readonly NetworkEntry[], creatorVersion: string) {
+    return {
+        log: {
+            version: '1.2',
+            creator: { name: 'WxO Builder', version: creatorVersion },
+            entries: list.map(e => ({
+                startedDateTime: e.startedDateTime,
+                time: e.durationMs,
+                request: {
+                    method: e.method,
+                    url: e.url,
+                    httpVersion: 'HTTP/1.1',
+                    headers: harHeaders(e.requestHeaders),
+                    queryString: harQuery(e.url),
+                    cookies: [],
+                    headersSize: -1,
+                    bodySize: e.requestBody ? e.requestBody.length : 0,
+                    ...(e.requestBody ? { postData: { mimeType: e.requestHeaders['Content-Type'] || 'application/json', text: e.requestBody } } : {})
+                },
+                response: {
+                    status: e.status,
+                    statusText: e.statusText,
+                    httpVersion: 'HTTP/1.1',
+                    headers: harHeaders(e.responseHeaders),
+                    cookies: [],
+                    content: {
+                        size: e.responseBody ? e.responseBody.length : 0,
+                        mimeType: e.responseHeaders['content-type'] || 'application/json',
+                        text: e.responseBody || ''
+                    },
+                    redirectURL: '',
+                    headersSize: -1,
+                    bodySize: -1,
+                    ...(e.error ? { _error: e.error } : {})
+                },
+                cache: {},
+                timings: { send: 0, wait: e.durationMs, receive: 0 },
+                comment: e.attempt > 0 ? `retry attempt ${e.attempt}` : undefined
+            }))
+        }
+    };
+}
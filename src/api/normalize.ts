@@ -0,0 +1,83 @@
+/**
+ * WxO Builder - Response Normalisation
+ * List endpoints wrap their results differently (`items`, `tools`, `assistants`,
+ * `applications`, `data`, or a bare array). normalizeList hides that so callers
+ * always get a typed array.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import { Tool, Agent, Connection, Connector, Message, ModelResource } from './types';
+
+export interface ListResourceTypes {
+    tool: Tool;
+    agent: Agent;
+    connection: Connection;
+    connector: Connector;
+    message: Message;
+    model: ModelResource;
+}
+
+export type ListKind = keyof ListResourceTypes;
+
+/** Envelope keys to try, in order, for each kind of list. */
+const LIST_KEYS: Record<ListKind, string[]> = {
+    tool: ['items', 'tools', 'data'],
+    agent: ['assistants', 'agents', 'items', 'data'],
+    connection: ['applications', 'items', 'data'],
+    connector: ['items', 'applications', 'data'],
+    message: ['messages', 'data'],
+    model: ['resources', 'data'],
+};
+
+/**
+ * Extract the array of resources from a list response body.
+ * Accepts the parsed body or raw JSON text; anything unrecognised yields [].
+ */
+export function normalizeList<K extends ListKind>(kind: K, data: unknown): Array<ListResourceTypes[K]> {
+    if (typeof data === 'string') {
+        try {
+            data = JSON.parse(data);
+        } catch {
+            return [];
+        }
+    }
+    let list: unknown = data;
+    if (!Array.isArray(list) && list && typeof list === 'object') {
+        const envelope = list as Record<string, unknown>;
+        list = LIST_KEYS[kind].map(key => envelope[key]).find(value => Array.isArray(value));
+    }
+    if (!Array.isArray(list)) return [];
+    return list.filter(item => item && typeof item === 'object') as Array<ListResourceTypes[K]>;
+}
+
+/** One page of a list response, with whatever continuation info the API returned. */
+export interface Page<T> {
+    items: T[];
+    /** Opaque cursor for the next page, for endpoints that page by cursor instead of offset. */
+    nextCursor?: string;
+    /** Total number of resources, when reported. */
+    total?: number;
+}
+
+/** Like normalizeList, but also picks up `next_cursor` / `total` style paging fields. */
+export function normalizePage<K extends ListKind>(kind: K, data: unknown): Page<ListResourceTypes[K]> {
+    if (typeof data === 'string') {
+        try {
+            data = JSON.parse(data);
+        } catch {
+            return { items: [] };
+        }
+    }
+    const page: Page<ListResourceTypes[K]> = { items: normalizeList(kind, data) };
+    if (data && typeof data === 'object' && !Array.isArray(data)) {
+        const d = data as Record<string, unknown>;
+        const meta = (d.meta || d.pagination || d.cursor || {}) as Record<string, unknown>;
+        const cursor = d.next_cursor ?? d.next_page_token ?? meta.next_cursor ?? meta.next;
+        if (typeof cursor === 'string' && cursor) page.nextCursor = cursor;
+        const total = d.total ?? d.total_count ?? meta.total ?? meta.total_count;
+        if (typeof total === 'number') page.total = total;
+    }
+    return page;
+}
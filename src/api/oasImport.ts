@@ -0,0 +1,467 @@
+/**
+ * WxO Builder - OpenAPI Import
+ * Reads tool definitions from JSON or YAML and upgrades Swagger 2.0 documents to
+ * OpenAPI 3.0 so the rest of the tool pipeline only ever sees OpenAPI 3:
+ *  - `host` / `basePath` / `schemes` become `servers`
+ *  - `definitions`, `parameters`, `responses`, `securityDefinitions` move under `components`
+ *  - `body` and `formData` parameters become a `requestBody` for each `consumes` media type
+ *  - response `schema`s become `content` for each `produces` media type
+ *
+ * Anything that has no exact OpenAPI 3 equivalent is converted as closely as possible
+ * and reported as a warning.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { JsonSchema, OasDocument, OasPathItem, OasSecurityRequirement } from './types';
+
+export interface ImportedSpec {
+    spec: OasDocument;
+    /** True when the input was Swagger 2.0 and has been converted. */
+    converted: boolean;
+    /** Parts of the Swagger 2.0 document that could not be converted exactly. */
+    warnings: string[];
+}
+
+/** Converted OpenAPI 3 objects are built field by field; the document is typed once complete. */
+type JsonObject = Record<string, unknown>;
+
+// The parts of a Swagger 2.0 document the converter reads; everything else passes through.
+interface Swagger2Parameter {
+    $ref?: string;
+    name?: string;
+    in?: string;
+    description?: string;
+    required?: boolean;
+    allowEmptyValue?: boolean;
+    type?: string;
+    collectionFormat?: string;
+    schema?: JsonSchema;
+    [key: string]: unknown;
+}
+
+interface Swagger2Response {
+    $ref?: string;
+    description?: string;
+    schema?: JsonSchema;
+    examples?: Record<string, unknown>;
+    headers?: Record<string, Swagger2Parameter>;
+    [key: string]: unknown;
+}
+
+interface Swagger2Operation {
+    consumes?: string[];
+    produces?: string[];
+    parameters?: Swagger2Parameter[];
+    responses?: Record<string, Swagger2Response>;
+    [key: string]: unknown;
+}
+
+interface Swagger2PathItem {
+    $ref?: string;
+    parameters?: Swagger2Parameter[];
+    [key: string]: unknown;
+}
+
+interface Swagger2SecurityScheme {
+    type?: string;
+    description?: string;
+    name?: string;
+    in?: string;
+    flow?: string;
+    authorizationUrl?: string;
+    tokenUrl?: string;
+    scopes?: Record<string, string>;
+    [key: string]: unknown;
+}
+
+interface Swagger2Document {
+    info?: OasDocument['info'];
+    host?: string;
+    basePath?: string;
+    schemes?: string[];
+    consumes?: string[];
+    produces?: string[];
+    paths?: Record<string, Swagger2PathItem>;
+    definitions?: Record<string, JsonSchema>;
+    parameters?: Record<string, Swagger2Parameter>;
+    responses?: Record<string, Swagger2Response>;
+    securityDefinitions?: Record<string, Swagger2SecurityScheme>;
+    security?: OasSecurityRequirement[];
+    [key: string]: unknown;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+const FORM_MEDIA_TYPES = ['multipart/form-data', 'application/x-www-form-urlencoded'];
+/** Swagger 2.0 parameter keywords that belong in the OpenAPI 3 `schema`. */
+const SCHEMA_KEYWORDS = [
+    'type', 'format', 'items', 'default', 'enum', 'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum',
+    'maxLength', 'minLength', 'pattern', 'maxItems', 'minItems', 'uniqueItems', 'multipleOf'
+];
+
+function isYamlFile(fileName: string): boolean {
+    return /\.ya?ml$/i.test(fileName);
+}
+
+/**
+ * Parse a definition file's text. `.yaml` / `.yml` files are read as YAML, everything
+ * else as JSON (falling back to YAML when the text is not JSON).
+ */
+export function parseSpecText(text: string, fileName = ''): unknown {
+    if (isYamlFile(fileName)) return parseYaml(text, fileName);
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        if (/\.json$/i.test(fileName)) throw new Error(`${path.basename(fileName)} is not valid JSON: ${(e as Error).message}`);
+        return parseYaml(text, fileName);
+    }
+}
+
+function parseYaml(text: string, fileName: string): unknown {
+    try {
+        return YAML.parse(text, { merge: true });
+    } catch (e) {
+        const name = fileName ? path.basename(fileName) : 'Content';
+        throw new Error(`${name} is not valid YAML: ${(e as Error).message}`);
+    }
+}
+
+/** True for Swagger 2.0 documents (`swagger: "2.0"`). */
+export function isSwagger2(doc: unknown): boolean {
+    return !!doc && typeof doc === 'object' && String((doc as { swagger?: unknown }).swagger || '').startsWith('2');
+}
+
+/** Point Swagger 2.0 local refs at their OpenAPI 3 `components` location. */
+function rewriteRef(ref: string, bodyParams: Set<string>): string {
+    if (!ref.startsWith('#/')) return ref;
+    const paramMatch = ref.match(/^#\/parameters\/(.+)$/);
+    if (paramMatch) {
+        return bodyParams.has(paramMatch[1]) ? `#/components/requestBodies/${paramMatch[1]}` : `#/components/parameters/${paramMatch[1]}`;
+    }
+    return ref
+        .replace(/^#\/definitions\//, '#/components/schemas/')
+        .replace(/^#\/responses\//, '#/components/responses/')
+        .replace(/^#\/securityDefinitions\//, '#/components/securitySchemes/');
+}
+
+class Swagger2Converter {
+    readonly warnings: string[] = [];
+    /** Names of global parameters that are `in: body` (they become requestBodies). */
+    private readonly _bodyParams = new Set<string>();
+    private readonly _globalParams: Record<string, Swagger2Parameter>;
+
+    constructor(private readonly _doc: Swagger2Document) {
+        this._globalParams = _doc.parameters || {};
+        for (const [name, param] of Object.entries(this._globalParams)) {
+            if (param?.in === 'body') this._bodyParams.add(name);
+        }
+    }
+
+    private _warn(message: string): void {
+        if (!this.warnings.includes(message)) this.warnings.push(message);
+    }
+
+    convert(): OasDocument {
+        const doc = this._doc;
+        const out: OasDocument = { openapi: '3.0.1', info: doc.info || { title: 'Converted API', version: '1.0.0' } };
+        const servers = this._servers();
+        if (servers.length) out.servers = servers;
+        if (doc.tags) out.tags = doc.tags;
+        if (doc.security) out.security = doc.security;
+        if (doc.externalDocs) out.externalDocs = doc.externalDocs;
+        copyExtensions(doc, out);
+
+        const paths: Record<string, OasPathItem> = {};
+        for (const [pathKey, item] of Object.entries(doc.paths || {})) {
+            paths[pathKey] = this._pathItem(pathKey, item || {}) as OasPathItem;
+        }
+        out.paths = paths;
+
+        const components: NonNullable<OasDocument['components']> = {};
+        if (doc.definitions) components.schemas = mapValues(doc.definitions, s => this._schema(s));
+        const params = Object.entries(this._globalParams).filter(([name]) => !this._bodyParams.has(name));
+        if (params.length) components.parameters = Object.fromEntries(params.map(([name, p]) => [name, this._parameter(p, `parameters.${name}`)]));
+        if (this._bodyParams.size) {
+            const requestBodies: Record<string, JsonObject> = {};
+            this._bodyParams.forEach(name => {
+                requestBodies[name] = this._bodyRequest(this._globalParams[name], doc.consumes);
+            });
+            components.requestBodies = requestBodies;
+        }
+        if (doc.responses) components.responses = mapValues(doc.responses, r => this._response(r, doc.produces));
+        if (doc.securityDefinitions) components.securitySchemes = mapValues(doc.securityDefinitions, (s, name) => this._securityScheme(s, name));
+        if (Object.keys(components).length) out.components = components;
+        return out;
+    }
+
+    private _servers(): Array<{ url: string }> {
+        const doc = this._doc;
+        const basePath = doc.basePath && doc.basePath !== '/' ? String(doc.basePath).replace(/\/$/, '') : '';
+        if (!doc.host) {
+            this._warn('No "host" in the Swagger document; add the API base URL to "servers" before creating a tool.');
+            return basePath ? [{ url: basePath }] : [];
+        }
+        const schemes: string[] = Array.isArray(doc.schemes) && doc.schemes.length ? doc.schemes : ['https'];
+        return schemes.map(scheme => ({ url: `${scheme}://${doc.host}${basePath}` }));
+    }
+
+    private _pathItem(pathKey: string, item: Swagger2PathItem): JsonObject {
+        if (item.$ref) {
+            this._warn(`Path ${pathKey} uses $ref; it was kept as-is and may need manual conversion.`);
+            return item;
+        }
+        const out: JsonObject = {};
+        copyExtensions(item, out);
+        // Path-level parameters are folded into each operation (tools are built per operation)
+        const shared: Swagger2Parameter[] = Array.isArray(item.parameters) ? item.parameters : [];
+        for (const method of HTTP_METHODS) {
+            const op = item[method] as Swagger2Operation | undefined;
+            if (!op) continue;
+            const where = `${method.toUpperCase()} ${pathKey}`;
+            const own: Swagger2Parameter[] = Array.isArray(op.parameters) ? op.parameters : [];
+            const inherited = shared.filter(p => p?.$ref || !own.some(o => o?.name === p?.name && o?.in === p?.in));
+            out[method] = this._operation(op, [...inherited, ...own], where);
+        }
+        return out;
+    }
+
+    private _isBodyLike(param: Swagger2Parameter | undefined): boolean {
+        if (param?.$ref) {
+            const name = String(param.$ref).replace(/^#\/parameters\//, '');
+            return this._bodyParams.has(name);
+        }
+        return param?.in === 'body' || param?.in === 'formData';
+    }
+
+    private _operation(op: Swagger2Operation, params: Swagger2Parameter[], where: string): JsonObject {
+        const out: JsonObject = {};
+        for (const key of ['tags', 'summary', 'description', 'externalDocs', 'operationId', 'deprecated', 'security']) {
+            if (op[key] !== undefined) out[key] = op[key];
+        }
+        copyExtensions(op, out);
+
+        const consumes: string[] | undefined = op.consumes || this._doc.consumes;
+        const produces: string[] | undefined = op.produces || this._doc.produces;
+
+        const plain: JsonObject[] = [];
+        const form: Swagger2Parameter[] = [];
+        let body: JsonObject | undefined;
+        for (const param of params) {
+            if (param?.$ref && this._isBodyLike(param)) {
+                body = { $ref: rewriteRef(param.$ref, this._bodyParams) };
+            } else if (param?.in === 'body') {
+                body = this._bodyRequest(param, consumes);
+            } else if (param?.in === 'formData') {
+                form.push(param);
+            } else {
+                plain.push(this._parameter(param, where));
+            }
+        }
+        if (plain.length) out.parameters = plain;
+        if (form.length) {
+            if (body) this._warn(`${where} has both body and formData parameters; the formData parameters were dropped.`);
+            else body = this._formRequest(form, consumes, where);
+        }
+        if (body) out.requestBody = body;
+
+        out.responses = mapValues(op.responses || { default: { description: 'Default response' } }, r => this._response(r, produces));
+        return out;
+    }
+
+    private _parameter(param: Swagger2Parameter, where: string): JsonObject {
+        if (!param || typeof param !== 'object') return param;
+        if (param.$ref) return { $ref: rewriteRef(param.$ref, this._bodyParams) };
+        const out: JsonObject = { name: param.name, in: param.in };
+        if (param.description !== undefined) out.description = param.description;
+        if (param.required !== undefined || param.in === 'path') out.required = param.in === 'path' ? true : !!param.required;
+        if (param.allowEmptyValue !== undefined) out.allowEmptyValue = param.allowEmptyValue;
+        copyExtensions(param, out);
+        out.schema = this._schema(pick(param, SCHEMA_KEYWORDS));
+        if (param.type === 'file') {
+            this._warn(`${where}: file parameter "${param.name}" is only supported in formData; it was converted to a string.`);
+            out.schema = { type: 'string' };
+        }
+        Object.assign(out, this._collectionStyle(param, where));
+        return out;
+    }
+
+    /** Swagger 2.0 `collectionFormat` → OpenAPI 3 `style` / `explode`. */
+    private _collectionStyle(param: Swagger2Parameter, where: string): { style?: string; explode?: boolean } {
+        if (param.type !== 'array' || !param.collectionFormat) return {};
+        switch (param.collectionFormat) {
+            case 'csv':
+                return param.in === 'query' || param.in === 'cookie' ? { style: 'form', explode: false } : { style: 'simple' };
+            case 'multi':
+                return { style: 'form', explode: true };
+            case 'ssv':
+                return { style: 'spaceDelimited', explode: false };
+            case 'pipes':
+                return { style: 'pipeDelimited', explode: false };
+            default:
+                this._warn(`${where}: collectionFormat "${param.collectionFormat}" of "${param.name}" has no OpenAPI 3 equivalent; it was converted as comma-separated.`);
+                return param.in === 'query' ? { style: 'form', explode: false } : { style: 'simple' };
+        }
+    }
+
+    private _bodyRequest(param: Swagger2Parameter, consumes?: string[]): JsonObject {
+        const mediaTypes = (consumes || []).filter(t => !FORM_MEDIA_TYPES.includes(t));
+        const schema = this._schema(param.schema || {});
+        const out: JsonObject = {
+            content: Object.fromEntries((mediaTypes.length ? mediaTypes : ['application/json']).map(t => [t, { schema }]))
+        };
+        if (param.description) out.description = param.description;
+        if (param.required) out.required = true;
+        copyExtensions(param, out);
+        return out;
+    }
+
+    private _formRequest(params: Swagger2Parameter[], consumes: string[] | undefined, where: string): JsonObject {
+        const properties: Record<string, JsonSchema> = {};
+        const required: string[] = [];
+        let hasFile = false;
+        for (const param of params) {
+            const schema = this._schema(pick(param, SCHEMA_KEYWORDS));
+            if (param.type === 'file') {
+                hasFile = true;
+                schema.type = 'string';
+                schema.format = 'binary';
+            }
+            if (param.description) schema.description = param.description;
+            properties[param.name as string] = schema;
+            if (param.required) required.push(param.name as string);
+        }
+        const schema: JsonSchema = { type: 'object', properties };
+        if (required.length) schema.required = required;
+
+        let mediaTypes = (consumes || []).filter(t => FORM_MEDIA_TYPES.includes(t));
+        if (!mediaTypes.length) mediaTypes = [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+        this._warn(`${where}: formData parameters were converted to a ${mediaTypes.join(' / ')} request body; watsonx Orchestrate tools send JSON bodies.`);
+        const out: JsonObject = { content: Object.fromEntries(mediaTypes.map(t => [t, { schema }])) };
+        if (required.length) out.required = true;
+        return out;
+    }
+
+    private _response(response: Swagger2Response, produces?: string[]): JsonObject {
+        if (!response || typeof response !== 'object') return response;
+        if (response.$ref) return { $ref: rewriteRef(response.$ref, this._bodyParams) };
+        const out: JsonObject = { description: response.description ?? '' };
+        if (response.schema) {
+            const schema = this._schema(response.schema);
+            const mediaTypes = produces && produces.length ? produces : ['application/json'];
+            out.content = Object.fromEntries(mediaTypes.map(t => {
+                const media: JsonObject = { schema };
+                if (response.examples?.[t] !== undefined) media.example = response.examples[t];
+                return [t, media];
+            }));
+        }
+        if (response.headers) {
+            out.headers = mapValues(response.headers, h => {
+                const header: JsonObject = { schema: this._schema(pick(h, SCHEMA_KEYWORDS)) };
+                if (h.description) header.description = h.description;
+                return header;
+            });
+        }
+        copyExtensions(response, out);
+        return out;
+    }
+
+    private _securityScheme(scheme: Swagger2SecurityScheme, name: string): JsonObject {
+        const out: JsonObject = {};
+        if (scheme.description) out.description = scheme.description;
+        copyExtensions(scheme, out);
+        switch (scheme.type) {
+            case 'basic':
+                return { ...out, type: 'http', scheme: 'basic' };
+            case 'apiKey':
+                return { ...out, type: 'apiKey', name: scheme.name, in: scheme.in };
+            case 'oauth2': {
+                const scopes = scheme.scopes || {};
+                const flows: Record<string, JsonObject> = {};
+                switch (scheme.flow) {
+                    case 'implicit':
+                        flows.implicit = { authorizationUrl: scheme.authorizationUrl, scopes };
+                        break;
+                    case 'password':
+                        flows.password = { tokenUrl: scheme.tokenUrl, scopes };
+                        break;
+                    case 'application':
+                        flows.clientCredentials = { tokenUrl: scheme.tokenUrl, scopes };
+                        break;
+                    case 'accessCode':
+                        flows.authorizationCode = { authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes };
+                        break;
+                    default:
+                        this._warn(`Security scheme "${name}" has an unknown OAuth2 flow "${scheme.flow}".`);
+                }
+                return { ...out, type: 'oauth2', flows };
+            }
+            default:
+                this._warn(`Security scheme "${name}" has an unknown type "${scheme.type}"; it was kept as-is.`);
+                return scheme;
+        }
+    }
+
+    /** Schema objects are mostly compatible; fix refs and the few 2.0-only keywords. */
+    private _schema(schema: JsonSchema): JsonSchema {
+        return this._schemaValue(schema) as JsonSchema;
+    }
+
+    /** _schema for any value found in a schema: a schema, a list of schemas or a plain value. */
+    private _schemaValue(schema: unknown): unknown {
+        if (Array.isArray(schema)) return schema.map(s => this._schemaValue(s));
+        if (!schema || typeof schema !== 'object') return schema;
+        const out: JsonObject = {};
+        for (const [key, value] of Object.entries(schema)) {
+            if (key === '$ref' && typeof value === 'string') {
+                out.$ref = rewriteRef(value, this._bodyParams);
+            } else if (key === 'x-nullable') {
+                out.nullable = !!value;
+            } else if (key === 'discriminator' && typeof value === 'string') {
+                out.discriminator = { propertyName: value };
+            } else if (key === 'example' || key === 'enum' || key === 'default' || key.startsWith('x-')) {
+                out[key] = value;
+            } else if (key === 'properties' || key === 'definitions' || key === 'patternProperties') {
+                out[key] = mapValues((value || {}) as JsonObject, s => this._schemaValue(s));
+            } else {
+                out[key] = this._schemaValue(value);
+            }
+        }
+        if (out.type === 'file') {
+            out.type = 'string';
+            out.format = 'binary';
+        }
+        return out;
+    }
+}
+
+function mapValues<T, R>(obj: Record<string, T>, fn: (value: T, key: string) => R): Record<string, R> {
+    const out: Record<string, R> = {};
+    for (const [key, value] of Object.entries(obj || {})) out[key] = fn(value, key);
+    return out;
+}
+
+/** The schema keywords (e.g. SCHEMA_KEYWORDS) set on a parameter or header. */
+function pick(obj: JsonObject, keys: string[]): JsonSchema {
+    const out: JsonSchema = {};
+    for (const key of keys) {
+        if (obj?.[key] !== undefined) out[key] = obj[key];
+    }
+    return out;
+}
+
+function copyExtensions(from: JsonObject, to: JsonObject): void {
+    for (const key of Object.keys(from || {})) {
+        if (key.startsWith('x-') && key !== 'x-nullable') to[key] = from[key];
+    }
+}
+
+/** Convert a Swagger 2.0 document to OpenAPI 3.0. OpenAPI 3 input is returned unchanged. */
+export function normalizeSpec(doc: unknown): ImportedSpec {
+    if (!isSwagger2(doc)) return { spec: doc as OasDocument, converted: false, warnings: [] };
+    const converter = new Swagger2Converter(doc as Swagger2Document);
+    const spec = converter.convert();
+    return { spec, converted: true, warnings: converter.warnings };
+}
@@ -0,0 +1,83 @@
+/**
+ * WxO Builder - Output Schema Checks
+ * Validates tool responses against the output schema of the definition open in the editor,
+ * and widens that schema from an observed response. The definition is either a tool
+ * (`output_schema`) or an OpenAPI document, whose output schema is the first operation's
+ * 200 application/json response (the one deploySkill turns into output_schema).
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import { validateJsonSchema, SchemaError } from './jsonSchema';
+import { mergeObservedSchema } from './schemaInference';
+import { listOperations } from './skills';
+import { JsonSchema, OasDocument, OasMediaType, OasOperation, Tool } from './types';
+
+/** A tool or an OpenAPI document, as open in the editor. */
+type Definition = Partial<Tool> & OasDocument;
+
+export interface OutputSchemaCheck {
+    /** False when the definition declares no output schema; `issues` is then empty. */
+    hasSchema: boolean;
+    issues: SchemaError[];
+}
+
+/** Remote results are often JSON text; checks work on the parsed value. */
+export function parseToolOutput(data: unknown): unknown {
+    if (typeof data !== 'string') return data;
+    try {
+        return JSON.parse(data);
+    } catch {
+        return data;
+    }
+}
+
+function isToolDefinition(content: Definition | undefined): boolean {
+    return !!content && typeof content === 'object' && !content.openapi && (!!content.binding || content.output_schema !== undefined);
+}
+
+/** The 200 application/json response of the first operation, if the spec has one. */
+function firstJsonResponse(spec: OasDocument): OasMediaType | undefined {
+    const operation = listOperations(spec)[0];
+    if (!operation) return undefined;
+    return (spec.paths![operation.path][operation.method] as OasOperation | undefined)?.responses?.['200']?.content?.['application/json'];
+}
+
+/** The declared output schema, with the document's components so local `$ref`s resolve. */
+function outputSchemaOf(content: Definition): JsonSchema | undefined {
+    if (isToolDefinition(content)) return content.output_schema || undefined;
+    const schema = firstJsonResponse(content)?.schema;
+    if (!schema || typeof schema !== 'object') return undefined;
+    return { ...schema, components: content.components, definitions: content.definitions };
+}
+
+/** Validate a response against the definition's output schema, reporting undeclared fields too. */
+export function checkOutputSchema(content: Definition, data: unknown): OutputSchemaCheck {
+    const schema = outputSchemaOf(content);
+    if (!schema) return { hasSchema: false, issues: [] };
+    return { hasSchema: true, issues: validateJsonSchema(parseToolOutput(data), schema, { reportUndeclared: true }) };
+}
+
+/**
+ * A copy of the definition whose output schema also accepts the response (see
+ * mergeObservedSchema). Creates the schema when there is none.
+ * @throws Error when the definition is an OpenAPI document without operations
+ */
+export function mergeResponseIntoOutputSchema(content: Definition | undefined, data: unknown): Definition {
+    const updated: Definition = JSON.parse(JSON.stringify(content || {}));
+    const value = parseToolOutput(data);
+    if (isToolDefinition(updated)) {
+        updated.output_schema = mergeObservedSchema(updated.output_schema, value);
+        return updated;
+    }
+    const operation = listOperations(updated)[0];
+    if (!operation) throw new Error('The definition has no operation to attach an output schema to.');
+    const op = updated.paths![operation.path][operation.method] as OasOperation;
+    op.responses = op.responses || {};
+    op.responses['200'] = op.responses['200'] || { description: 'Success' };
+    op.responses['200'].content = op.responses['200'].content || {};
+    const media = op.responses['200'].content['application/json'] = op.responses['200'].content['application/json'] || {};
+    media.schema = mergeObservedSchema(media.schema, value, updated);
+    return updated;
+}
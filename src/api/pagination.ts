@@ -0,0 +1,97 @@
+/**
+ * WxO Builder - Pagination
+ * Walks limit/offset (or cursor) list endpoints page by page until they are exhausted.
+ *
+ * A Paginator is an async iterator of pages, so callers can either
+ * `for await (const page of iterateSkills())` or pull one page at a time
+ * (tree views do this for their "Load more" nodes).
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import { Page } from './normalize';
+
+/** Default page size for paginated list calls. */
+export const DEFAULT_PAGE_SIZE = 50;
+
+export interface PageRequest {
+    limit: number;
+    offset: number;
+    /** Set once the API has returned a cursor; takes precedence over offset. */
+    cursor?: string;
+    signal?: AbortSignal;
+}
+
+export type PageFetcher<T> = (request: PageRequest) => Promise<Page<T>>;
+
+/** Append limit/offset (or cursor) query parameters to an endpoint path. */
+export function withPageParams(endpoint: string, request: PageRequest): string {
+    const sep = endpoint.includes('?') ? '&' : '?';
+    const paging = request.cursor
+        ? `limit=${request.limit}&cursor=${encodeURIComponent(request.cursor)}`
+        : `limit=${request.limit}&offset=${request.offset}`;
+    return `${endpoint}${sep}${paging}`;
+}
+
+export class Paginator<T> implements AsyncIterableIterator<T[]> {
+    private _offset = 0;
+    private _cursor: string | undefined;
+    private _done = false;
+    private _firstIdOfLastPage: string | undefined;
+
+    constructor(
+        private readonly _fetchPage: PageFetcher<T>,
+        private readonly _pageSize: number = DEFAULT_PAGE_SIZE,
+        private readonly _signal?: AbortSignal
+    ) { }
+
+    /** True once the last page has been returned; known as soon as a short or final page arrives. */
+    get done(): boolean {
+        return this._done;
+    }
+
+    async next(): Promise<IteratorResult<T[]>> {
+        if (this._done) return { done: true, value: undefined };
+
+        const page = await this._fetchPage({
+            limit: this._pageSize,
+            offset: this._offset,
+            cursor: this._cursor,
+            signal: this._signal
+        });
+        const items = page.items;
+
+        // Guard against endpoints that ignore offset and return the first page again
+        const firstId = (items[0] as { id?: string } | undefined)?.id;
+        if (items.length === 0 || (firstId !== undefined && firstId === this._firstIdOfLastPage)) {
+            this._done = true;
+            return { done: true, value: undefined };
+        }
+        this._firstIdOfLastPage = firstId;
+        this._offset += items.length;
+
+        if (page.nextCursor) {
+            this._cursor = page.nextCursor;
+        } else if (this._cursor) {
+            // Cursor paging and no further cursor: this was the last page
+            this._done = true;
+        } else if (page.total !== undefined ? this._offset >= page.total : items.length < this._pageSize) {
+            this._done = true;
+        }
+        return { done: false, value: items };
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<T[]> {
+        return this;
+    }
+}
+
+/** Drain a paginator into one array. */
+export async function collectAll<T>(pages: AsyncIterable<T[]>): Promise<T[]> {
+    const all: T[] = [];
+    for await (const page of pages) {
+        all.push(...page);
+    }
+    return all;
+}
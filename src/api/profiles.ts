@@ -0,0 +1,80 @@
+/**
+ * WxO Builder - Environment Profiles
+ * Named Watson Orchestrate environments (dev, test, prod tenants) stored in settings.
+ *
+ * Profiles live in `wxo-builder.profiles`; the selected one is `wxo-builder.activeProfile`.
+ * When no profile is active, the legacy `wxo-builder.apiKey` / `instanceUrl` / `scope`
+ * settings (and WO_* env vars) are used as the implicit "Default" profile.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+
+export type AuthMethod = 'auto' | 'iam' | 'mcsp' | 'cpd' | 'zenapikey' | 'bearer';
+export type Scope = 'draft' | 'live';
+
+export interface WxoProfile {
+    name: string;
+    instanceUrl: string;
+    /** Defaults to 'auto' (inferred from instanceUrl). */
+    authMethod?: AuthMethod;
+    scope?: Scope;
+    /** Cloud Pak for Data username (cpd / zenapikey). */
+    username?: string;
+    /** Override the token endpoint, e.g. a local stub for testing. */
+    tokenUrl?: string;
+    /** Legacy plaintext key; migrated to secret storage on activation (see authStore). */
+    apiKey?: string;
+    /** Use the in-process mock Orchestrate server; instanceUrl, auth and API key are ignored. */
+    mock?: boolean;
+}
+
+/** Display name used when no named profile is active. */
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+/** Name of the profile created by "Use Mock Backend". */
+export const MOCK_PROFILE_NAME = 'Mock (offline)';
+
+/** List profiles from settings, skipping entries without a name. */
+export function listProfiles(): WxoProfile[] {
+    const config = vscode.workspace.getConfiguration('wxo-builder');
+    const profiles = config.get<WxoProfile[]>('profiles') || [];
+    return Array.isArray(profiles) ? profiles.filter(p => p && typeof p.name === 'string' && p.name.trim()) : [];
+}
+
+/** The active named profile, or undefined when the legacy settings are in use. */
+export function getActiveProfile(): WxoProfile | undefined {
+    const config = vscode.workspace.getConfiguration('wxo-builder');
+    const activeName = config.get<string>('activeProfile');
+    if (!activeName) return undefined;
+    return listProfiles().find(p => p.name === activeName);
+}
+
+/** Name of the active profile for display (status bar, diagnostics). */
+export function getActiveProfileName(): string {
+    return getActiveProfile()?.name ?? DEFAULT_PROFILE_NAME;
+}
+
+/**
+ * Select a profile by name. Pass undefined (or DEFAULT_PROFILE_NAME) to go back to the legacy settings.
+ * Persisted globally so the choice survives reloads.
+ */
+export async function setActiveProfile(name: string | undefined): Promise<void> {
+    const value = name && name !== DEFAULT_PROFILE_NAME ? name : undefined;
+    await vscode.workspace.getConfiguration('wxo-builder').update('activeProfile', value, vscode.ConfigurationTarget.Global);
+}
+
+/**
+ * Add the built-in mock profile to wxo-builder.profiles (if missing) and activate it.
+ */
+export async function activateMockProfile(): Promise<void> {
+    if (!listProfiles().some(p => p.name === MOCK_PROFILE_NAME)) {
+        const config = vscode.workspace.getConfiguration('wxo-builder');
+        const profiles = config.get<WxoProfile[]>('profiles') || [];
+        const mockProfile: WxoProfile = { name: MOCK_PROFILE_NAME, instanceUrl: '', scope: 'draft', mock: true };
+        await config.update('profiles', [...profiles, mockProfile], vscode.ConfigurationTarget.Global);
+    }
+    await setActiveProfile(MOCK_PROFILE_NAME);
+}
@@ -0,0 +1,504 @@
+/**
+ * WxO Builder - Python Tools
+ * Builds and deploys Orchestrate Python tools (`binding.python`) from `@tool`-decorated
+ * functions, like `orchestrate tools import -k python` in the ADK:
+ *  - the function signature becomes `input_schema` (type hints → JSON schema, no default → required)
+ *  - the return annotation becomes `output_schema`
+ *  - the docstring supplies the tool description and per-argument descriptions
+ *    (Google `Args:` / `Returns:`, reST `:param x:` and NumPy sections are understood)
+ *  - the .py file and its sibling `requirements.txt` are zipped and uploaded as the artifact
+ *
+ * The source is parsed textually (no Python interpreter needed). Pydantic models,
+ * dataclasses and TypedDicts declared in the same file are expanded into object schemas.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { createToolRecord, uploadToolArtifact, createArtifactZip, deleteSkill } from './skills';
+import { JsonSchema, Tool } from './types';
+
+export interface PythonParameter {
+    name: string;
+    annotation?: string;
+    /** Default value as written in the source, e.g. `10` or `"metric"`. */
+    defaultSource?: string;
+    description?: string;
+}
+
+export interface PythonToolDefinition {
+    /** Function name in the module. */
+    functionName: string;
+    /** Tool name: the decorator's `name=` or the function name. */
+    name: string;
+    description: string;
+    permission: string;
+    parameters: PythonParameter[];
+    returnAnnotation?: string;
+    returnDescription?: string;
+    /** 1-based line of the `def`. */
+    line: number;
+}
+
+const PERMISSIONS: Record<string, string> = { READ_ONLY: 'read_only', WRITE_ONLY: 'write_only', READ_WRITE: 'read_write', ADMIN: 'admin' };
+
+/** Split on `separator` at bracket depth 0, outside string literals; `#` comments are dropped. */
+function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\') {
+                current += text.substr(i, 2);
+                i++;
+                continue;
+            }
+            if (ch === quote) quote = null;
+        } else if (ch === '#') {
+            const eol = text.indexOf('\n', i);
+            i = (eol === -1 ? text.length : eol) - 1;
+            continue;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if ('([{'.includes(ch)) {
+            depth++;
+        } else if (')]}'.includes(ch)) {
+            depth--;
+        } else if (depth === 0 && text.startsWith(separator, i)) {
+            parts.push(current);
+            current = '';
+            i += separator.length - 1;
+            continue;
+        }
+        current += ch;
+    }
+    parts.push(current);
+    return parts.map(p => p.trim()).filter(p => p.length > 0);
+}
+
+/** Index just past the bracket that closes the one at `open`, or -1. */
+function findClosing(text: string, open: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = open; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\') i++;
+            else if (text.startsWith(quote, i)) {
+                i += quote.length - 1;
+                quote = null;
+            }
+            continue;
+        }
+        if (text.startsWith('"""', i) || text.startsWith("'''", i)) {
+            quote = text.substr(i, 3);
+            i += 2;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '#') {
+            const eol = text.indexOf('\n', i);
+            i = eol === -1 ? text.length : eol;
+        } else if ('([{'.includes(ch)) {
+            depth++;
+        } else if (')]}'.includes(ch)) {
+            depth--;
+            if (depth === 0) return i + 1;
+        }
+    }
+    return -1;
+}
+
+/** Value of a Python string literal (single, double or triple quoted, optional r/u/b prefix). */
+function stringLiteral(source: string): string | undefined {
+    const m = source.trim().match(/^[rRuUbB]?("""|'''|"|')([\s\S]*)\1$/);
+    if (!m) return undefined;
+    return /^[rR]/.test(source.trim()) ? m[2] : m[2].replace(/\\n/g, '\n').replace(/\\t/g, '\t').replace(/\\(["'\\])/g, '$1');
+}
+
+/** JSON value of a simple Python literal, or undefined when it is not one. */
+function pythonLiteral(source: string): unknown {
+    const text = source.trim();
+    const str = stringLiteral(text);
+    if (str !== undefined) return str;
+    if (/^-?\d+$/.test(text)) return parseInt(text, 10);
+    if (/^-?\d*\.\d+(e-?\d+)?$/i.test(text)) return parseFloat(text);
+    if (text === 'True') return true;
+    if (text === 'False') return false;
+    return undefined;
+}
+
+function dedent(text: string): string {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    const indents = lines.slice(1).filter(l => l.trim()).map(l => l.match(/^\s*/)![0].length);
+    const min = indents.length ? Math.min(...indents) : 0;
+    return [lines[0].trim(), ...lines.slice(1).map(l => l.slice(min))].join('\n').trim();
+}
+
+interface ParsedDocstring {
+    summary: string;
+    params: Record<string, string>;
+    returns?: string;
+}
+
+/** Google, reST and NumPy style docstrings. */
+function parseDocstring(doc: string): ParsedDocstring {
+    const result: ParsedDocstring = { summary: '', params: {} };
+    const lines = dedent(doc).split('\n');
+    const summary: string[] = [];
+    let section: 'summary' | 'args' | 'returns' | 'other' = 'summary';
+    let current: string | undefined;
+    let argIndent: number | undefined;
+    let numpy = false;
+    const returns: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const trimmed = line.trim();
+        // NumPy headers are underlined with dashes
+        const underlined = /^-{3,}$/.test((lines[i + 1] || '').trim());
+        const header = trimmed.match(/^(Args|Arguments|Parameters|Params|Returns|Return|Yields|Raises|Examples?|Notes?|Attributes)\s*:?\s*$/i);
+        if (header && (trimmed.endsWith(':') || underlined)) {
+            const name = header[1].toLowerCase();
+            section = name.startsWith('arg') || name.startsWith('param') ? 'args' : name.startsWith('return') ? 'returns' : 'other';
+            current = undefined;
+            argIndent = undefined;
+            numpy = underlined;
+            if (underlined) i++;
+            continue;
+        }
+        const rstParam = trimmed.match(/^:param\s+(?:[\w[\], ]+\s+)?(\w+):\s*(.*)$/);
+        if (rstParam) {
+            section = 'args';
+            current = rstParam[1];
+            result.params[current] = rstParam[2];
+            continue;
+        }
+        const rstReturn = trimmed.match(/^:returns?:\s*(.*)$/);
+        if (rstReturn) {
+            section = 'returns';
+            returns.push(rstReturn[1]);
+            continue;
+        }
+        if (/^:(type|rtype|raises?)\b/.test(trimmed)) {
+            section = 'other';
+            continue;
+        }
+
+        if (section === 'summary') {
+            if (!trimmed && summary.length) section = 'other';
+            else if (trimmed) summary.push(trimmed);
+        } else if (section === 'args') {
+            // "name (type): description", "name: description" or NumPy "name : type"
+            const entry = trimmed.match(/^\*{0,2}(\w+)\s*(\([^)]*\))?\s*:\s*(.*)$/);
+            const indent = line.match(/^\s*/)![0].length;
+            if (entry && (argIndent === undefined || indent <= argIndent)) {
+                argIndent = indent;
+                current = entry[1];
+                // NumPy puts the type after the colon and the description on the lines below
+                result.params[current] = numpy ? '' : entry[3].trim();
+            } else if (trimmed && current) {
+                result.params[current] = `${result.params[current]} ${trimmed}`.trim();
+            }
+        } else if (section === 'returns' && trimmed) {
+            // NumPy: the first line under "Returns" is the type
+            if (numpy && current === undefined) current = trimmed;
+            else returns.push(trimmed);
+        }
+    }
+    result.summary = summary.join(' ');
+    if (returns.length) {
+        // Google style may prefix the type: "dict: the forecast"
+        result.returns = returns.join(' ').replace(/^[\w[\], |.]+:\s+/, '');
+    }
+    return result;
+}
+
+/** Class bodies declared in the file (pydantic models, dataclasses, TypedDicts), by name. */
+function collectClasses(source: string): Map<string, { fields: PythonParameter[]; enumValues?: unknown[]; doc?: string }> {
+    const classes = new Map<string, { fields: PythonParameter[]; enumValues?: unknown[]; doc?: string }>();
+    const lines = source.replace(/\r\n/g, '\n').split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const m = lines[i].match(/^class\s+(\w+)\s*(?:\(([^)]*)\))?\s*:/);
+        if (!m) continue;
+        const bases = m[2] || '';
+        const isEnum = /\bEnum\b/.test(bases);
+        const fields: PythonParameter[] = [];
+        const enumValues: unknown[] = [];
+        let doc: string | undefined;
+        let j = i + 1;
+        for (; j < lines.length; j++) {
+            const line = lines[j];
+            if (line.trim() && !/^\s/.test(line)) break;
+            if (!/^\s{4}\S|^\t\S/.test(line)) continue;
+            const trimmed = line.trim();
+            if (!doc && fields.length === 0 && /^[rR]?("""|''')/.test(trimmed)) {
+                const quote = trimmed.match(/("""|''')/)![1];
+                let text = trimmed;
+                while (!text.slice(text.indexOf(quote) + 3).includes(quote) && j + 1 < lines.length) text += '\n' + lines[++j];
+                doc = stringLiteral(text.trim());
+                continue;
+            }
+            if (isEnum) {
+                const member = trimmed.match(/^(\w+)\s*=\s*(.+)$/);
+                if (member) enumValues.push(pythonLiteral(member[2]) ?? member[1]);
+                continue;
+            }
+            const field = trimmed.match(/^(\w+)\s*:\s*([^=]+?)\s*(?:=\s*(.+))?$/);
+            if (field && !trimmed.startsWith('def ')) {
+                const param: PythonParameter = { name: field[1], annotation: field[2] };
+                if (field[3] !== undefined) {
+                    // Field(default=..., description="...")
+                    const call = field[3].match(/^Field\s*\(([\s\S]*)\)$/);
+                    if (call) {
+                        for (const arg of splitTopLevel(call[1], ',')) {
+                            const kw = arg.match(/^(\w+)\s*=\s*([\s\S]+)$/);
+                            if (!kw) param.defaultSource = arg === '...' ? undefined : arg;
+                            else if (kw[1] === 'description') param.description = stringLiteral(kw[2]);
+                            else if (kw[1] === 'default') param.defaultSource = kw[2];
+                        }
+                    } else {
+                        param.defaultSource = field[3];
+                    }
+                }
+                fields.push(param);
+            }
+        }
+        classes.set(m[1], isEnum ? { fields: [], enumValues, doc } : { fields, doc });
+        i = j - 1;
+    }
+    return classes;
+}
+
+type ClassTable = ReturnType<typeof collectClasses>;
+
+/** JSON schema for a Python type annotation. */
+function annotationSchema(annotation: string | undefined, classes: ClassTable, seen: string[] = []): JsonSchema {
+    if (!annotation) return {};
+    let ann = annotation.trim().replace(/^["']|["']$/g, '');
+    // typing.X → X
+    ann = ann.replace(/\b(typing|t)\./g, '');
+
+    const unionParts = splitTopLevel(ann, '|');
+    if (unionParts.length > 1) return unionSchema(unionParts, classes, seen);
+
+    const generic = ann.match(/^(\w+)\s*\[([\s\S]*)\]$/);
+    const base = generic ? generic[1] : ann;
+    const args = generic ? splitTopLevel(generic[2], ',') : [];
+
+    switch (base) {
+        case 'str': return { type: 'string' };
+        case 'int': return { type: 'integer' };
+        case 'float': return { type: 'number' };
+        case 'bool': return { type: 'boolean' };
+        case 'bytes': return { type: 'string', format: 'byte' };
+        case 'datetime': return { type: 'string', format: 'date-time' };
+        case 'date': return { type: 'string', format: 'date' };
+        case 'Any': case 'object': return {};
+        case 'None': case 'NoneType': return { type: 'null' };
+        case 'Optional': return annotationSchema(args[0], classes, seen);
+        case 'Union': return unionSchema(args, classes, seen);
+        case 'Annotated': return annotationSchema(args[0], classes, seen);
+        case 'Literal': {
+            const values = args.map(pythonLiteral).filter(v => v !== undefined);
+            const types = Array.from(new Set(values.map(v => typeof v === 'number' ? (Number.isInteger(v) ? 'integer' : 'number') : typeof v === 'boolean' ? 'boolean' : 'string')));
+            return types.length === 1 ? { type: types[0], enum: values } : { enum: values };
+        }
+        case 'list': case 'List': case 'Sequence': case 'Iterable': case 'set': case 'Set': case 'frozenset': case 'tuple': case 'Tuple':
+            return { type: 'array', items: args.length && args[0] !== '...' ? annotationSchema(args[0], classes, seen) : {} };
+        case 'dict': case 'Dict': case 'Mapping': case 'MutableMapping': {
+            const schema: JsonSchema = { type: 'object' };
+            if (args.length === 2 && args[1] !== 'Any') schema.additionalProperties = annotationSchema(args[1], classes, seen);
+            return schema;
+        }
+    }
+
+    const cls = classes.get(base);
+    if (cls) {
+        if (cls.enumValues) return { type: typeof cls.enumValues[0] === 'number' ? 'integer' : 'string', enum: cls.enumValues };
+        if (seen.includes(base)) return { type: 'object', description: `Recursive reference to ${base}` };
+        const schema = parametersSchema(cls.fields, classes, [...seen, base]);
+        if (cls.doc) schema.description = dedent(cls.doc).split('\n\n')[0].replace(/\s+/g, ' ');
+        return schema;
+    }
+    // Unknown class (imported model etc.)
+    return { type: 'object' };
+}
+
+function unionSchema(parts: string[], classes: ClassTable, seen: string[]): JsonSchema {
+    const members = parts.filter(p => !/^(None|NoneType)$/.test(p.trim()));
+    if (members.length === 1) return annotationSchema(members[0], classes, seen);
+    return { anyOf: members.map(m => annotationSchema(m, classes, seen)) };
+}
+
+/** Object schema for a parameter list (function arguments or model fields). */
+function parametersSchema(params: PythonParameter[], classes: ClassTable, seen: string[] = []): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const param of params) {
+        const schema: JsonSchema = { ...annotationSchema(param.annotation, classes, seen) };
+        if (param.defaultSource !== undefined) {
+            const value = pythonLiteral(param.defaultSource);
+            if (value !== undefined) schema.default = value;
+        } else {
+            required.push(param.name);
+        }
+        if (!param.annotation && schema.default !== undefined) {
+            schema.type = typeof schema.default === 'number' ? (Number.isInteger(schema.default) ? 'integer' : 'number') : typeof schema.default;
+        }
+        schema.title = param.name;
+        if (param.description) schema.description = param.description;
+        properties[param.name] = schema;
+    }
+    const schema: JsonSchema = { type: 'object', properties };
+    if (required.length) schema.required = required;
+    return schema;
+}
+
+function parseParameters(list: string): PythonParameter[] {
+    const params: PythonParameter[] = [];
+    for (const part of splitTopLevel(list, ',')) {
+        if (part === '*' || part === '/' || part.startsWith('*')) continue;
+        const eq = splitTopLevel(part, '=');
+        const head = eq[0];
+        const colon = head.indexOf(':');
+        const name = (colon === -1 ? head : head.slice(0, colon)).trim();
+        if (name === 'self' || name === 'cls') continue;
+        const param: PythonParameter = { name };
+        if (colon !== -1) param.annotation = head.slice(colon + 1).trim();
+        if (eq.length > 1) param.defaultSource = eq.slice(1).join('=').trim();
+        params.push(param);
+    }
+    return params;
+}
+
+/** Every `@tool`-decorated function in a Python source file. */
+export function parsePythonTools(source: string): PythonToolDefinition[] {
+    const text = source.replace(/\r\n/g, '\n');
+    const tools: PythonToolDefinition[] = [];
+    const decorator = /^([ \t]*)@tool\b/gm;
+    let match: RegExpExecArray | null;
+    while ((match = decorator.exec(text))) {
+        let pos = match.index + match[0].length;
+        // Decorator arguments: @tool(name="...", description="...", permission=ToolPermission.READ_ONLY)
+        const kwargs: Record<string, string> = {};
+        const afterName = text.slice(pos).match(/^\s*\(/);
+        if (afterName) {
+            const open = pos + afterName[0].length - 1;
+            const close = findClosing(text, open);
+            if (close === -1) continue;
+            for (const arg of splitTopLevel(text.slice(open + 1, close - 1), ',')) {
+                const kw = arg.match(/^(\w+)\s*=\s*([\s\S]+)$/);
+                if (kw) kwargs[kw[1]] = kw[2].trim();
+            }
+            pos = close;
+        }
+        // Skip other decorators and comments up to the def
+        const def = /^\s*(?:@[^\n]*\n\s*|#[^\n]*\n\s*)*(?:async\s+)?def\s+(\w+)\s*\(/.exec(text.slice(pos));
+        if (!def) continue;
+        const functionName = def[1];
+        const open = pos + def[0].length - 1;
+        const close = findClosing(text, open);
+        if (close === -1) continue;
+        const params = parseParameters(text.slice(open + 1, close - 1));
+        const tail = text.slice(close).match(/^\s*(?:->\s*([\s\S]*?))?\s*:[ \t]*(?:#[^\n]*)?\n/);
+        const returnAnnotation = tail?.[1]?.trim() || undefined;
+        const bodyStart = close + (tail ? tail[0].length : 0);
+
+        let doc: ParsedDocstring = { summary: '', params: {} };
+        const docMatch = text.slice(bodyStart).match(/^\s*[rRuU]?("""|''')([\s\S]*?)\1/);
+        if (docMatch) doc = parseDocstring(docMatch[2]);
+
+        params.forEach(p => { if (doc.params[p.name]) p.description = doc.params[p.name]; });
+        const permissionKey = (kwargs.permission || '').split('.').pop() || '';
+        tools.push({
+            functionName,
+            name: (kwargs.name && stringLiteral(kwargs.name)) || functionName,
+            description: (kwargs.description && stringLiteral(kwargs.description)) || doc.summary || functionName,
+            permission: PERMISSIONS[permissionKey] || 'read_only',
+            parameters: params,
+            returnAnnotation,
+            returnDescription: doc.returns,
+            line: text.slice(0, open).split('\n').length
+        });
+    }
+    return tools;
+}
+
+/** Package names from a requirements.txt (comments, blank lines and pip options dropped). */
+export function parseRequirements(text: string): string[] {
+    return text.split(/\r?\n/)
+        .map(l => l.replace(/\s+#.*$/, '').trim())
+        .filter(l => l && !l.startsWith('#') && !l.startsWith('-'));
+}
+
+/** Tool definition for the Orchestrate API, bound to `<module>:<function>`. */
+export function buildPythonToolSpec(tool: PythonToolDefinition, source: string, moduleName: string, requirements: string[]): Partial<Tool> {
+    const classes = collectClasses(source);
+    const output: JsonSchema = tool.returnAnnotation ? annotationSchema(tool.returnAnnotation, classes) : {};
+    if (tool.returnDescription) output.description = tool.returnDescription;
+    return {
+        name: tool.name,
+        description: tool.description,
+        permission: tool.permission,
+        input_schema: parametersSchema(tool.parameters, classes),
+        output_schema: output,
+        binding: {
+            python: {
+                function: `${moduleName}:${tool.functionName}`,
+                requirements,
+                connections: {}
+            }
+        }
+    };
+}
+
+export interface PythonToolFile {
+    file: string;
+    source: string;
+    tools: PythonToolDefinition[];
+    /** Contents of the sibling requirements.txt, if there is one. */
+    requirementsText?: string;
+}
+
+/** Read a .py file, its `@tool` functions and the requirements.txt next to it. */
+export async function readPythonToolFile(file: string): Promise<PythonToolFile> {
+    const source = await fs.promises.readFile(file, 'utf8');
+    const requirementsFile = path.join(path.dirname(file), 'requirements.txt');
+    let requirementsText: string | undefined;
+    try {
+        requirementsText = await fs.promises.readFile(requirementsFile, 'utf8');
+    } catch {
+        requirementsText = undefined;
+    }
+    return { file, source, tools: parsePythonTools(source), requirementsText };
+}
+
+/**
+ * Create a Python tool and upload its code bundle (`<module>.py`, `requirements.txt`).
+ * If the upload fails the half-created tool is deleted again.
+ */
+export async function deployPythonTool(toolFile: PythonToolFile, tool: PythonToolDefinition): Promise<{ toolId: string; spec: Partial<Tool> }> {
+    const fileName = path.basename(toolFile.file);
+    const moduleName = fileName.replace(/\.py$/i, '');
+    const requirements = parseRequirements(toolFile.requirementsText || '');
+    const spec = buildPythonToolSpec(tool, toolFile.source, moduleName, requirements);
+
+    const toolId = (await createToolRecord(spec)).id;
+    try {
+        const zip = await createArtifactZip({
+            [fileName]: toolFile.source,
+            'requirements.txt': toolFile.requirementsText ?? requirements.join('\n')
+        });
+        await uploadToolArtifact(toolId, zip);
+    } catch (e) {
+        // A Python tool without its code cannot run; do not leave it behind
+        await deleteSkill(toolId).catch(() => undefined);
+        throw e;
+    }
+    return { toolId, spec };
+}
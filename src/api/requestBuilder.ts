@@ -0,0 +1,198 @@
+/**
+ * WxO Builder - HTTP Request Builder
+ * Builds the HTTP request for a tool call from parameter values, following the OpenAPI 3
+ * serialization rules for each parameter location:
+ *  - path    style simple (default), label or matrix; `{name}` placeholders are replaced
+ *  - query   style form (default), spaceDelimited, pipeDelimited or deepObject
+ *  - header  style simple
+ *  - cookie  style form, sent in one Cookie header
+ * `explode` defaults to true for form and false otherwise; `allowReserved` keeps reserved
+ * characters in query values. Parameters declared with `content` are sent as JSON.
+ *
+ * Values without a declared parameter go to a matching `{name}` path placeholder, else to
+ * the query string (GET, HEAD, DELETE, OPTIONS) or a JSON body field (other methods).
+ * Used by local tests and Copy as cURL so both send exactly the same request.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+
+export type ParameterLocation = 'path' | 'query' | 'header' | 'cookie' | 'body';
+
+export interface RequestParameter {
+    name: string;
+    in: ParameterLocation;
+    style?: string;
+    explode?: boolean;
+    allowReserved?: boolean;
+    /** Serialize the value as JSON (OpenAPI parameters declared with `content`). */
+    json?: boolean;
+    /** Body only: the value is the whole request body, not one of its fields. */
+    wholeBody?: boolean;
+}
+
+export interface RequestSpec {
+    /** Operation URL (server + path template). */
+    url: string;
+    method: string;
+    values?: Record<string, unknown>;
+    /** Declared parameters; values not listed here are placed by the rules above. */
+    parameters?: RequestParameter[];
+    /** Extra headers (credentials), sent as-is. */
+    headers?: Record<string, string>;
+    /** Extra query parameters (credentials), placed before the others. */
+    query?: Record<string, string>;
+}
+
+export interface BuiltRequest {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    /** JSON text; undefined for requests without a body. */
+    body?: string;
+}
+
+const QUERY_METHODS = ['GET', 'HEAD', 'DELETE', 'OPTIONS'];
+const BODY_METHODS = ['POST', 'PUT', 'PATCH'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function scalar(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/** encodeURIComponent, keeping RFC 3986 reserved characters when allowReserved is set. */
+function encodeQueryValue(value: string, allowReserved: boolean): string {
+    const encoded = encodeURIComponent(value);
+    return allowReserved ? encoded.replace(/%(3A|2F|3F|23|5B|5D|40|21|24|26|27|28|29|2A|2B|2C|3B|3D)/gi, (m) => decodeURIComponent(m)) : encoded;
+}
+
+/** Path or header value, style simple (label / matrix prefixes for paths). */
+function serializeSimple(name: string, value: unknown, style: string, explode: boolean, encode: (s: string) => string): string {
+    const prefix = style === 'label' ? '.' : style === 'matrix' ? ';' : '';
+    if (Array.isArray(value)) {
+        const items = value.map(v => encode(scalar(v)));
+        if (style === 'matrix') return explode ? items.map(v => `;${name}=${v}`).join('') : `;${name}=${items.join(',')}`;
+        return prefix + items.join(style === 'label' && explode ? '.' : ',');
+    }
+    if (isObject(value)) {
+        const keys = Object.keys(value);
+        if (explode) {
+            const separator = style === 'label' ? '.' : style === 'matrix' ? ';' : ',';
+            return prefix + keys.map(k => `${encode(k)}=${encode(scalar(value[k]))}`).join(separator);
+        }
+        const flat = keys.map(k => `${encode(k)},${encode(scalar(value[k]))}`).join(',');
+        return style === 'matrix' ? `;${name}=${flat}` : prefix + flat;
+    }
+    return style === 'matrix' ? `;${name}=${encode(scalar(value))}` : prefix + encode(scalar(value));
+}
+
+/** Query pairs ([name, value], already encoded) for one parameter. */
+function serializeQuery(param: RequestParameter, value: unknown): Array<[string, string]> {
+    const style = param.style || 'form';
+    const explode = param.explode ?? style === 'form';
+    const enc = (s: string) => encodeQueryValue(s, param.allowReserved === true);
+    const name = encodeURIComponent(param.name);
+    if (param.json) return [[name, enc(JSON.stringify(value))]];
+    if (Array.isArray(value)) {
+        if (style === 'spaceDelimited') return [[name, value.map(v => enc(scalar(v))).join('%20')]];
+        if (style === 'pipeDelimited') return [[name, value.map(v => enc(scalar(v))).join('|')]];
+        return explode ? value.map(v => [name, enc(scalar(v))] as [string, string]) : [[name, value.map(v => enc(scalar(v))).join(',')]];
+    }
+    if (isObject(value)) {
+        const keys = Object.keys(value);
+        if (style === 'deepObject') return keys.map(k => [`${name}%5B${encodeURIComponent(k)}%5D`, enc(scalar(value[k]))] as [string, string]);
+        if (explode) return keys.map(k => [encodeURIComponent(k), enc(scalar(value[k]))] as [string, string]);
+        return [[name, keys.map(k => `${enc(k)},${enc(scalar(value[k]))}`).join(',')]];
+    }
+    return [[name, enc(scalar(value))]];
+}
+
+/** Cookie pairs for one parameter (style form). */
+function serializeCookie(param: RequestParameter, value: unknown): string[] {
+    const explode = param.explode ?? true;
+    const enc = (s: string) => encodeURIComponent(s);
+    if (param.json) return [`${param.name}=${enc(JSON.stringify(value))}`];
+    if (Array.isArray(value)) {
+        return explode ? value.map(v => `${param.name}=${enc(scalar(v))}`) : [`${param.name}=${value.map(v => enc(scalar(v))).join(',')}`];
+    }
+    if (isObject(value)) {
+        const keys = Object.keys(value);
+        return explode ? keys.map(k => `${k}=${enc(scalar(value[k]))}`) : [`${param.name}=${keys.map(k => `${k},${enc(scalar(value[k]))}`).join(',')}`];
+    }
+    return [`${param.name}=${enc(scalar(value))}`];
+}
+
+/** Build the request for a set of parameter values. */
+export function buildRequest(spec: RequestSpec): BuiltRequest {
+    const method = (spec.method || 'GET').toUpperCase();
+    const declared = new Map<string, RequestParameter>();
+    (spec.parameters || []).forEach(p => declared.set(p.name, p));
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    const cookies: string[] = [];
+    const query: Array<[string, string]> = Object.keys(spec.query || {}).map(k => [encodeURIComponent(k), encodeURIComponent(spec.query![k])] as [string, string]);
+    let url = spec.url;
+    let bodyFields: Record<string, unknown> | undefined;
+    let wholeBody: unknown;
+
+    const values = spec.values || {};
+    Object.keys(values).forEach(key => {
+        const value = values[key];
+        if (value === undefined) return;
+        const placeholder = `{${key}}`;
+        const param: RequestParameter = declared.get(key)
+            || (url.includes(placeholder) ? { name: key, in: 'path' }
+                : { name: key, in: QUERY_METHODS.includes(method) ? 'query' : 'body' });
+        switch (param.in) {
+            case 'path': {
+                const style = param.style || 'simple';
+                const text = param.json ? encodeURIComponent(JSON.stringify(value)) : serializeSimple(key, value, style, param.explode === true, encodeURIComponent);
+                url = url.split(placeholder).join(text);
+                break;
+            }
+            case 'query':
+                query.push(...serializeQuery(param, value));
+                break;
+            case 'header':
+                headers[key] = param.json ? JSON.stringify(value) : serializeSimple(key, value, 'simple', param.explode === true, s => s);
+                break;
+            case 'cookie':
+                cookies.push(...serializeCookie(param, value));
+                break;
+            default:
+                if (param.wholeBody) wholeBody = value;
+                else (bodyFields = bodyFields || {})[key] = value;
+        }
+    });
+
+    if (query.length > 0) {
+        url += (url.includes('?') ? '&' : '?') + query.map(([k, v]) => `${k}=${v}`).join('&');
+    }
+    Object.assign(headers, spec.headers || {});
+    if (cookies.length > 0) headers['Cookie'] = [headers['Cookie'], ...cookies].filter(Boolean).join('; ');
+
+    let body: string | undefined;
+    if (wholeBody !== undefined) body = JSON.stringify(isObject(wholeBody) && bodyFields ? { ...wholeBody, ...bodyFields } : wholeBody);
+    else if (bodyFields) body = JSON.stringify(bodyFields);
+    else if (BODY_METHODS.includes(method)) body = '{}';
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    return { url, method, headers, body };
+}
+
+function shellQuote(text: string): string {
+    return `'${text.replace(/'/g, "'\\''")}'`;
+}
+
+/** The request as a cURL command line. */
+export function toCurl(request: BuiltRequest): string {
+    let curl = `curl -X ${request.method} ${shellQuote(request.url)}`;
+    Object.keys(request.headers).forEach(name => {
+        curl += ` -H ${shellQuote(`${name}: ${request.headers[name]}`)}`;
+    });
+    if (request.body !== undefined) curl += ` -d ${shellQuote(request.body)}`;
+    return curl;
+}
@@ -0,0 +1,826 @@
+/**
+ * WxO Builder - Request Importers
+ * Turns recorded or hand-written HTTP requests into an OpenAPI 3 document for the
+ * tool editor. Three sources are understood:
+ *  - a cURL command line (method, headers, -d/--data/--json body, -F form fields, -u basic auth)
+ *  - a Postman v2.1 collection (folders, collection variables, inherited auth)
+ *  - a browser HAR export (request, post data and the recorded response)
+ *
+ * Each source is first reduced to a list of CapturedRequest; requestsToOas then classifies
+ * the parts of every request (path, query, header, body, auth) and builds the spec.
+ * Credential values are never copied into the spec, only the scheme they belong to.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import { inferSchema } from './schemaInference';
+import { JsonSchema, OasDocument, OasOperation, OasParameter, OasRequestBody, OasResponse } from './types';
+
+export interface NameValue {
+    name: string;
+    value: string;
+}
+
+/** Authentication seen on a request, without its secret. */
+export interface CapturedAuth {
+    type: 'basic' | 'bearer' | 'apiKey';
+    /** Header or query parameter name (apiKey only). */
+    name?: string;
+    in?: 'header' | 'query';
+}
+
+export interface CapturedRequest {
+    /** Display name (Postman item name); the operation summary when set. */
+    name?: string;
+    /** Postman folder path, e.g. "Users / Admin". */
+    folder?: string;
+    description?: string;
+    method: string;
+    /** Absolute URL; path variables may already be `{name}` placeholders. */
+    url: string;
+    headers: NameValue[];
+    /** Raw body text. */
+    body?: string;
+    /** Form fields for urlencoded / multipart bodies (instead of `body`). */
+    form?: NameValue[];
+    contentType?: string;
+    auth?: CapturedAuth;
+    /** Known path variables: name → example value / description. */
+    pathVariables?: Record<string, { example?: string; description?: string }>;
+    response?: { status?: number; contentType?: string; body?: string };
+}
+
+export interface RequestImportOptions {
+    title?: string;
+    description?: string;
+}
+
+export interface RequestImportResult {
+    spec: OasDocument;
+    /** Requests that were skipped or only partly converted. */
+    warnings: string[];
+}
+
+/** Request headers that describe the client or transport, not the API. */
+const IGNORED_HEADERS = new Set([
+    'accept', 'accept-encoding', 'accept-language', 'cache-control', 'connection', 'content-length', 'content-type',
+    'cookie', 'dnt', 'host', 'if-modified-since', 'if-none-match', 'origin', 'pragma', 'priority', 'referer',
+    'te', 'upgrade-insecure-requests', 'user-agent', 'postman-token'
+]);
+const API_KEY_HEADERS = new Set(['x-api-key', 'api-key', 'apikey', 'x-apikey', 'ocp-apim-subscription-key']);
+const API_KEY_QUERY_PARAMS = new Set(['key', 'apikey', 'api_key', 'api-key']);
+/** Stand-in server for Postman URLs whose base is an undefined `{{variable}}`. */
+const PLACEHOLDER_SERVER = 'https://api.example.com';
+
+// The parts of a Postman v2.1 collection and a HAR log the importers read.
+type PostmanDescription = string | { content?: string };
+
+interface PostmanKeyValue {
+    key?: string;
+    value?: unknown;
+    type?: string;
+    disabled?: boolean;
+    description?: PostmanDescription;
+}
+
+/** `type` names the key of the attribute list, e.g. { type: 'apikey', apikey: [...] }. */
+interface PostmanAuth {
+    type?: string;
+    [type: string]: unknown;
+}
+
+interface PostmanUrl {
+    raw?: string;
+    protocol?: string;
+    host?: string | string[];
+    port?: string;
+    path?: string | string[];
+    variable?: PostmanKeyValue[];
+}
+
+interface PostmanBody {
+    mode?: string;
+    disabled?: boolean;
+    raw?: string;
+    options?: { raw?: { language?: string } };
+    urlencoded?: PostmanKeyValue[];
+    formdata?: PostmanKeyValue[];
+    graphql?: { query?: string; variables?: string };
+}
+
+interface PostmanRequest {
+    url?: string | PostmanUrl;
+    method?: string;
+    header?: PostmanKeyValue[];
+    body?: PostmanBody;
+    auth?: PostmanAuth;
+    description?: PostmanDescription;
+}
+
+interface PostmanItem {
+    name?: string;
+    /** Set on folders. */
+    item?: PostmanItem[];
+    auth?: PostmanAuth;
+    request?: string | PostmanRequest;
+    response?: Array<{ code?: number; header?: PostmanKeyValue[]; body?: string; _postman_previewlanguage?: string }>;
+}
+
+interface PostmanCollection {
+    info?: { schema?: string; _postman_id?: string };
+    item: PostmanItem[];
+    variable?: PostmanKeyValue[];
+    auth?: PostmanAuth;
+}
+
+interface HarNameValue {
+    name?: string;
+    value?: unknown;
+}
+
+interface HarEntry {
+    request?: {
+        method?: string;
+        url?: string;
+        headers?: HarNameValue[];
+        postData?: { mimeType?: string; text?: string; params?: HarNameValue[] };
+    };
+    response?: { status?: number; content?: { mimeType?: string; text?: string; encoding?: string } };
+}
+
+function headerValue(headers: NameValue[], name: string): string | undefined {
+    return headers.find(h => h.name.toLowerCase() === name)?.value;
+}
+
+function isJsonContentType(contentType?: string): boolean {
+    return !!contentType && /[/+]json\b/i.test(contentType);
+}
+
+function tryParseJson(text?: string): unknown {
+    if (text === undefined) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+/** Schema for a string value from a URL or header ("42" → integer). */
+function inferScalarSchema(value: string): JsonSchema {
+    if (/^-?\d+$/.test(value) && value.length < 16) return { type: 'integer' };
+    if (/^-?\d*\.\d+$/.test(value)) return { type: 'number' };
+    if (value === 'true' || value === 'false') return { type: 'boolean' };
+    return { type: 'string' };
+}
+
+/** A string value converted to the type inferScalarSchema chose for it. */
+function typedExample(value: string, schema: JsonSchema): string | number | boolean {
+    if (schema.type === 'integer' || schema.type === 'number') return Number(value);
+    if (schema.type === 'boolean') return value === 'true';
+    return value;
+}
+
+// ---------------------------------------------------------------------------
+// cURL
+// ---------------------------------------------------------------------------
+
+/** Split a shell command line into words (POSIX quoting, `$'...'` and line continuations). */
+function shellWords(command: string): string[] {
+    const words: string[] = [];
+    let current = '';
+    let inWord = false;
+    const text = command.replace(/\\\r?\n/g, ' ');
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (/\s/.test(ch)) {
+            if (inWord) words.push(current);
+            current = '';
+            inWord = false;
+        } else if (ch === "'") {
+            const end = text.indexOf("'", i + 1);
+            if (end === -1) throw new Error('Unterminated single quote in cURL command');
+            current += text.slice(i + 1, end);
+            i = end;
+            inWord = true;
+        } else if (ch === '$' && text[i + 1] === "'") {
+            // ANSI-C quoting, used by browsers' "Copy as cURL (bash)"
+            i += 2;
+            while (i < text.length && text[i] !== "'") {
+                if (text[i] === '\\' && i + 1 < text.length) {
+                    const next = text[++i];
+                    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"' };
+                    if (next === 'u' || next === 'x') {
+                        const hex = text.slice(i + 1).match(next === 'u' ? /^[0-9a-fA-F]{4}/ : /^[0-9a-fA-F]{2}/);
+                        if (hex) {
+                            current += String.fromCharCode(parseInt(hex[0], 16));
+                            i += hex[0].length;
+                        } else {
+                            current += next;
+                        }
+                    } else {
+                        current += escapes[next] ?? `\\${next}`;
+                    }
+                } else {
+                    current += text[i];
+                }
+                i++;
+            }
+            inWord = true;
+        } else if (ch === '"') {
+            i++;
+            while (i < text.length && text[i] !== '"') {
+                if (text[i] === '\\' && /["\\$`]/.test(text[i + 1] || '')) i++;
+                current += text[i];
+                i++;
+            }
+            if (i >= text.length) throw new Error('Unterminated double quote in cURL command');
+            inWord = true;
+        } else if (ch === '\\' && i + 1 < text.length) {
+            current += text[++i];
+            inWord = true;
+        } else {
+            current += ch;
+            inWord = true;
+        }
+    }
+    if (inWord) words.push(current);
+    return words;
+}
+
+/** Short options that take a value (the ones not handled explicitly are skipped). */
+const CURL_SHORT_WITH_VALUE = new Set(['X', 'H', 'd', 'u', 'F', 'A', 'b', 'e', 'o', 'm', 'x', 'T', 'w', 'c', 'E', 'K', 'r', 'y', 'Y', 'z', 'C', 'U', 'Q']);
+/** Long options that take a value but do not affect the request shape. */
+const CURL_IGNORED_WITH_VALUE = new Set([
+    '--user-agent', '--cookie', '--cookie-jar', '--referer', '--output', '--max-time', '--connect-timeout', '--proxy',
+    '--proxy-user', '--cert', '--key', '--cacert', '--capath', '--resolve', '--retry', '--retry-delay', '--retry-max-time',
+    '--write-out', '--config', '--limit-rate', '--range', '--upload-file', '--interface', '--dns-servers', '--max-redirs',
+    '--connect-to', '--oauth2-bearer', '--aws-sigv4', '--cert-type', '--key-type', '--pass', '--trace', '--trace-ascii'
+]);
+
+/** Parse a `curl ...` command line into a request. */
+export function parseCurlCommand(command: string): CapturedRequest {
+    const words = shellWords(command.trim());
+    if (!words.length || !/^curl(\.exe)?$/i.test(words[0])) {
+        throw new Error('Not a cURL command (it must start with "curl").');
+    }
+    let method: string | undefined;
+    let url: string | undefined;
+    let useGet = false;
+    let auth: CapturedAuth | undefined;
+    const headers: NameValue[] = [];
+    const data: string[] = [];
+    const form: NameValue[] = [];
+    let jsonBody = false;
+
+    for (let i = 1; i < words.length; i++) {
+        let word = words[i];
+        let value: string | undefined;
+        const next = () => {
+            if (value !== undefined) return value;
+            if (i + 1 >= words.length) throw new Error(`cURL option ${word} needs a value`);
+            return words[++i];
+        };
+        // Attached short option values: -XPOST, -H'Accept: x'
+        if (/^-[a-zA-Z]/.test(word) && !word.startsWith('--') && word.length > 2) {
+            if (CURL_SHORT_WITH_VALUE.has(word[1])) {
+                value = word.slice(2);
+                word = word.slice(0, 2);
+            } else {
+                // Flag cluster such as -sSLk; only -G and -I change the request
+                if (word.includes('G')) useGet = true;
+                if (word.includes('I')) method = 'HEAD';
+                continue;
+            }
+        }
+        switch (word) {
+            case '-X': case '--request': method = next().toUpperCase(); break;
+            case '-H': case '--header': {
+                const header = next();
+                const colon = header.indexOf(':');
+                if (colon > 0) headers.push({ name: header.slice(0, colon).trim(), value: header.slice(colon + 1).trim() });
+                break;
+            }
+            case '-d': case '--data': case '--data-raw': case '--data-binary': case '--data-ascii':
+                data.push(next());
+                break;
+            case '--data-urlencode': {
+                const field = next();
+                const eq = field.indexOf('=');
+                data.push(eq === -1 ? encodeURIComponent(field) : `${field.slice(0, eq)}=${encodeURIComponent(field.slice(eq + 1))}`);
+                break;
+            }
+            case '--json':
+                data.push(next());
+                jsonBody = true;
+                break;
+            case '-F': case '--form': case '--form-string': {
+                const field = next();
+                const eq = field.indexOf('=');
+                if (eq > 0) form.push({ name: field.slice(0, eq), value: field.slice(eq + 1) });
+                break;
+            }
+            case '-u': case '--user':
+                next();
+                auth = { type: 'basic' };
+                break;
+            case '-G': case '--get': useGet = true; break;
+            case '-I': case '--head': method = 'HEAD'; break;
+            case '--url': url = next(); break;
+            case '-A': case '-b': case '-e': case '-o': case '-m': case '-x': case '-T': case '-w':
+            case '-c': case '-E': case '-K': case '-r': case '-y': case '-Y': case '-z': case '-C': case '-U': case '-Q':
+                next();
+                break;
+            default:
+                if (CURL_IGNORED_WITH_VALUE.has(word)) next();
+                else if (!word.startsWith('-') && url === undefined) url = word;
+        }
+    }
+    if (!url) throw new Error('No URL found in the cURL command.');
+    if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) url = `http://${url}`;
+
+    const request: CapturedRequest = { method: 'GET', url, headers, auth };
+    if (jsonBody) {
+        if (!headerValue(headers, 'content-type')) headers.push({ name: 'Content-Type', value: 'application/json' });
+    }
+    if (useGet && data.length) {
+        const u = new URL(url);
+        const extra = data.join('&');
+        u.search = u.search ? `${u.search}&${extra}` : `?${extra}`;
+        request.url = u.toString();
+    } else if (data.length) {
+        request.body = data.join(jsonBody ? '' : '&');
+    } else if (form.length) {
+        request.form = form;
+        request.contentType = 'multipart/form-data';
+    }
+    request.method = method || (useGet ? 'GET' : request.body !== undefined || request.form ? 'POST' : 'GET');
+    if (request.body !== undefined) {
+        request.contentType = headerValue(headers, 'content-type')
+            || (tryParseJson(request.body) !== undefined && /^\s*[[{]/.test(request.body) ? 'application/json' : 'application/x-www-form-urlencoded');
+    }
+    return request;
+}
+
+// ---------------------------------------------------------------------------
+// Postman v2.1
+// ---------------------------------------------------------------------------
+
+/** True for Postman v2.x collection exports. */
+export function isPostmanCollection(doc: unknown): boolean {
+    const collection = doc as PostmanCollection | undefined;
+    return !!collection && typeof collection === 'object' && Array.isArray(collection.item)
+        && (/getpostman\.com|postman/i.test(String(collection.info?.schema || '')) || !!collection.info?._postman_id);
+}
+
+function postmanDescription(description: PostmanDescription | undefined): string | undefined {
+    if (!description) return undefined;
+    return typeof description === 'string' ? description : description.content;
+}
+
+function postmanAuth(auth: PostmanAuth | undefined): CapturedAuth | undefined {
+    if (!auth || !auth.type || auth.type === 'noauth') return undefined;
+    const attrs: Record<string, unknown> = {};
+    const list = Array.isArray(auth[auth.type]) ? auth[auth.type] as PostmanKeyValue[] : [];
+    list.forEach(a => { attrs[String(a.key)] = a.value; });
+    switch (auth.type) {
+        case 'basic': return { type: 'basic' };
+        case 'bearer': case 'oauth2': case 'jwt': return { type: 'bearer' };
+        case 'apikey': return { type: 'apiKey', name: attrs.key ? String(attrs.key) : 'api_key', in: attrs.in === 'query' ? 'query' : 'header' };
+        default: return undefined;
+    }
+}
+
+/**
+ * All requests of a Postman collection, depth first. Collection variables are
+ * substituted; `:name` path segments and unresolved `{{name}}` segments become path variables.
+ */
+export function parsePostmanCollection(doc: unknown): CapturedRequest[] {
+    const collection = doc as PostmanCollection;
+    const variables: Record<string, string> = {};
+    (Array.isArray(collection.variable) ? collection.variable : []).forEach(v => {
+        if (v && v.key && !v.disabled && v.value !== undefined) variables[v.key] = String(v.value);
+    });
+    const substitute = (text: string) => text.replace(/\{\{([^{}]+)\}\}/g, (m, name) => variables[name.trim()] ?? m);
+
+    const requests: CapturedRequest[] = [];
+    const walk = (items: PostmanItem[], folder: string[], inheritedAuth: CapturedAuth | undefined) => {
+        for (const item of items || []) {
+            if (Array.isArray(item.item)) {
+                const auth = item.auth ? postmanAuth(item.auth) : inheritedAuth;
+                walk(item.item, [...folder, item.name || 'Folder'], auth);
+                continue;
+            }
+            if (!item.request) continue;
+            const req = typeof item.request === 'string' ? { url: item.request, method: 'GET' } : item.request;
+            const captured = postmanRequest(req, substitute);
+            captured.name = item.name;
+            captured.folder = folder.length ? folder.join(' / ') : undefined;
+            captured.description = postmanDescription(req.description);
+            captured.auth = req.auth ? postmanAuth(req.auth) : inheritedAuth;
+            const example = Array.isArray(item.response) ? item.response[0] : undefined;
+            if (example) {
+                captured.response = {
+                    status: example.code,
+                    contentType: headerValue((example.header || []).map(h => ({ name: String(h.key), value: String(h.value) })), 'content-type')
+                        || (example._postman_previewlanguage === 'json' ? 'application/json' : undefined),
+                    body: example.body
+                };
+            }
+            requests.push(captured);
+        }
+    };
+    walk(collection.item, [], postmanAuth(collection.auth));
+    return requests;
+}
+
+function postmanRequest(req: PostmanRequest, substitute: (text: string) => string): CapturedRequest {
+    const urlObj = req.url;
+    let raw: string | undefined = typeof urlObj === 'string' ? urlObj : urlObj?.raw;
+    if (!raw && urlObj && typeof urlObj === 'object') {
+        const host = Array.isArray(urlObj.host) ? urlObj.host.join('.') : urlObj.host || '';
+        const path = Array.isArray(urlObj.path) ? urlObj.path.join('/') : urlObj.path || '';
+        raw = `${urlObj.protocol ? `${urlObj.protocol}://` : ''}${host}${urlObj.port ? `:${urlObj.port}` : ''}/${path}`;
+    }
+    const resolved = substitute(String(raw || ''));
+
+    const pathVariables: Record<string, { example?: string; description?: string }> = {};
+    (typeof urlObj === 'object' && Array.isArray(urlObj.variable) ? urlObj.variable : []).forEach(v => {
+        if (v?.key) pathVariables[v.key] = { example: v.value !== undefined ? String(v.value) : undefined, description: postmanDescription(v.description) };
+    });
+
+    // Path variables: /users/:id and unresolved /users/{{id}} → /users/{id}
+    const queryStart = resolved.indexOf('?');
+    let base = queryStart === -1 ? resolved : resolved.slice(0, queryStart);
+    const query = queryStart === -1 ? '' : resolved.slice(queryStart);
+    base = base.replace(/^\{\{[^{}]+\}\}/, PLACEHOLDER_SERVER);
+    if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(base)) base = `https://${base}`;
+    const originEnd = base.indexOf('/', base.indexOf('://') + 3);
+    const origin = originEnd === -1 ? base : base.slice(0, originEnd);
+    const pathPart = originEnd === -1 ? '' : base.slice(originEnd);
+    const templated = pathPart.split('/').map(segment => {
+        const colon = segment.match(/^:([A-Za-z_][\w-]*)$/);
+        if (colon) {
+            pathVariables[colon[1]] = pathVariables[colon[1]] || {};
+            return `{${colon[1]}}`;
+        }
+        const unresolved = segment.match(/^\{\{([^{}]+)\}\}$/);
+        if (unresolved) {
+            const name = unresolved[1].trim();
+            pathVariables[name] = pathVariables[name] || {};
+            return `{${name}}`;
+        }
+        return segment;
+    }).join('/');
+
+    const headers: NameValue[] = (Array.isArray(req.header) ? req.header : [])
+        .filter(h => h && !h.disabled && h.key)
+        .map(h => ({ name: h.key as string, value: substitute(String(h.value ?? '')) }));
+
+    const captured: CapturedRequest = {
+        method: String(req.method || 'GET').toUpperCase(),
+        url: `${origin}${templated}${query.replace(/\{\{([^{}]+)\}\}/g, '')}`,
+        headers,
+        pathVariables
+    };
+
+    const body = req.body;
+    if (body && !body.disabled) {
+        switch (body.mode) {
+            case 'raw':
+                captured.body = substitute(String(body.raw ?? ''));
+                captured.contentType = headerValue(headers, 'content-type')
+                    || (body.options?.raw?.language === 'json' ? 'application/json' : body.options?.raw?.language === 'xml' ? 'application/xml' : 'text/plain');
+                break;
+            case 'urlencoded':
+            case 'formdata':
+                captured.form = (Array.isArray(body[body.mode]) ? body[body.mode] as PostmanKeyValue[] : [])
+                    .filter(f => f && !f.disabled && f.key)
+                    .map(f => ({ name: f.key as string, value: f.type === 'file' ? '' : substitute(String(f.value ?? '')) }));
+                captured.contentType = body.mode === 'urlencoded' ? 'application/x-www-form-urlencoded' : 'multipart/form-data';
+                break;
+            case 'graphql':
+                captured.body = JSON.stringify({ query: body.graphql?.query || '', variables: tryParseJson(body.graphql?.variables) || {} });
+                captured.contentType = 'application/json';
+                break;
+        }
+    }
+    return captured;
+}
+
+// ---------------------------------------------------------------------------
+// HAR
+// ---------------------------------------------------------------------------
+
+/** True for HAR (HTTP Archive) documents. */
+export function isHar(doc: unknown): boolean {
+    return !!doc && typeof doc === 'object' && Array.isArray((doc as { log?: { entries?: unknown } }).log?.entries);
+}
+
+/** One request per HAR entry, with its recorded response. */
+export function parseHar(doc: unknown): CapturedRequest[] {
+    const entries = (doc as { log: { entries: HarEntry[] } }).log.entries;
+    return entries.filter(e => e?.request?.url).map(entry => {
+        const req = entry.request!;
+        const headers: NameValue[] = (req.headers || [])
+            .filter(h => h?.name && !h.name.startsWith(':'))
+            .map(h => ({ name: h.name as string, value: String(h.value ?? '') }));
+        const captured: CapturedRequest = { method: String(req.method || 'GET').toUpperCase(), url: req.url as string, headers };
+        const post = req.postData;
+        if (post) {
+            captured.contentType = post.mimeType || headerValue(headers, 'content-type');
+            if (typeof post.text === 'string' && post.text.length) captured.body = post.text;
+            else if (Array.isArray(post.params)) captured.form = post.params.map(p => ({ name: String(p.name), value: String(p.value ?? '') }));
+        }
+        const content = entry.response?.content;
+        captured.response = {
+            status: entry.response?.status,
+            contentType: content?.mimeType,
+            body: content?.encoding === 'base64' ? undefined : content?.text
+        };
+        return captured;
+    });
+}
+
+/**
+ * Requests contained in a Postman collection or HAR file, or undefined when the
+ * document is neither (e.g. an OpenAPI spec).
+ */
+export function capturedRequestsFrom(doc: unknown): { source: 'Postman collection' | 'HAR file'; requests: CapturedRequest[] } | undefined {
+    if (isPostmanCollection(doc)) return { source: 'Postman collection', requests: parsePostmanCollection(doc) };
+    if (isHar(doc)) return { source: 'HAR file', requests: parseHar(doc) };
+    return undefined;
+}
+
+/** HAR entries worth offering by default: API calls with a JSON response, not page assets. */
+export function looksLikeApiCall(request: CapturedRequest): boolean {
+    if (request.method === 'OPTIONS') return false;
+    if (/\.(js|css|png|jpe?g|gif|svg|ico|woff2?|ttf|map|html?)(\?|$)/i.test(request.url)) return false;
+    return isJsonContentType(request.response?.contentType) || isJsonContentType(request.contentType);
+}
+
+// ---------------------------------------------------------------------------
+// OpenAPI generation
+// ---------------------------------------------------------------------------
+
+function singular(word: string): string {
+    if (/ies$/i.test(word)) return word.slice(0, -3) + 'y';
+    if (/(ss|us)$/i.test(word)) return word;
+    return word.replace(/s$/i, '');
+}
+
+function camelWords(text: string): string {
+    const words = text.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    return words.map((w, i) => i === 0 ? w.charAt(0).toLowerCase() + w.slice(1) : w.charAt(0).toUpperCase() + w.slice(1)).join('');
+}
+
+/** Replace ID-like path segments (numbers, UUIDs, long hex) with `{name}` placeholders. */
+function templatePath(pathname: string, known: Record<string, { example?: string; description?: string }>): { path: string; params: OasParameter[] } {
+    const params: OasParameter[] = [];
+    const used = new Set<string>();
+    const segments = pathname.split('/').map((raw, index, all) => {
+        let segment = raw;
+        try { segment = decodeURIComponent(raw); } catch { /* keep raw */ }
+        const placeholder = segment.match(/^\{([^{}]+)\}$/);
+        let name: string | undefined;
+        let example: string | undefined;
+        let description: string | undefined;
+        if (placeholder) {
+            name = placeholder[1];
+            example = known[name]?.example;
+            description = known[name]?.description;
+        } else if (/^\d+$/.test(segment) || /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) || /^[0-9a-f]{16,}$/i.test(segment)) {
+            const previous = index > 0 ? all[index - 1] : '';
+            name = previous && !/^\{.*\}$/.test(previous) && !/^\d/.test(previous) ? `${camelWords(singular(previous))}Id` : 'id';
+            example = segment;
+        }
+        if (!name) return segment;
+        let unique = name;
+        for (let n = 2; used.has(unique); n++) unique = `${name}${n}`;
+        used.add(unique);
+        const schema = example !== undefined ? inferScalarSchema(example) : { type: 'string' };
+        const param: OasParameter = { name: unique, in: 'path', required: true, schema };
+        if (description) param.description = description;
+        if (example !== undefined && example !== '') param.example = typedExample(example, schema);
+        params.push(param);
+        return `{${unique}}`;
+    });
+    return { path: segments.join('/') || '/', params };
+}
+
+function operationIdFor(request: CapturedRequest, path: string): string {
+    if (request.name) {
+        const id = camelWords(request.name);
+        if (id) return id;
+    }
+    const words = path.split('/').filter(s => s && !s.startsWith('{')).map(s => s.replace(/\.[a-z0-9]+$/i, ''));
+    return camelWords(`${request.method.toLowerCase()} ${words.join(' ')}`) || 'operation';
+}
+
+function requestBodyFor(request: CapturedRequest, where: string, warnings: string[]): OasRequestBody | undefined {
+    const contentType = (request.contentType || 'application/octet-stream').split(';')[0].trim();
+    if (request.form) {
+        const properties: Record<string, JsonSchema> = {};
+        request.form.forEach(f => {
+            properties[f.name] = inferScalarSchema(f.value);
+            if (f.value !== '') properties[f.name].example = typedExample(f.value, properties[f.name]);
+        });
+        return { required: true, content: { [contentType]: { schema: { type: 'object', properties } } } };
+    }
+    if (request.body === undefined || request.body === '') return undefined;
+    const json = isJsonContentType(contentType) ? tryParseJson(request.body) : undefined;
+    if (json !== undefined) {
+        return { required: true, content: { [contentType]: { schema: inferSchema(json), example: json } } };
+    }
+    if (contentType === 'application/x-www-form-urlencoded') {
+        const properties: Record<string, JsonSchema> = {};
+        new URLSearchParams(request.body).forEach((value, name) => {
+            properties[name] = inferScalarSchema(value);
+            properties[name].example = typedExample(value, properties[name]);
+        });
+        return { required: true, content: { [contentType]: { schema: { type: 'object', properties } } } };
+    }
+    if (isJsonContentType(contentType)) warnings.push(`${where}: the body is not valid JSON; it was imported as a string.`);
+    return { required: true, content: { [contentType]: { schema: { type: 'string' }, example: request.body } } };
+}
+
+function responsesFor(request: CapturedRequest): Record<string, OasResponse> {
+    const res = request.response;
+    const status = res?.status && res.status > 0 ? String(res.status) : '200';
+    const json = res && (isJsonContentType(res.contentType) || !res.contentType) ? tryParseJson(res.body) : undefined;
+    if (json === undefined) return { [status]: { description: 'Success' } };
+    return {
+        [status]: {
+            description: 'Success',
+            content: { 'application/json': { schema: inferSchema(json) || { type: 'object' } } }
+        }
+    };
+}
+
+/**
+ * Build an OpenAPI 3 document with one operation per request. All requests must
+ * share the origin of the first request with a valid absolute URL (it becomes the
+ * server); others, and requests whose URL does not parse, are skipped with a warning.
+ * @throws Error when no request has a valid absolute URL
+ */
+export function requestsToOas(requests: CapturedRequest[], options: RequestImportOptions = {}): RequestImportResult {
+    if (!requests.length) throw new Error('No requests to import.');
+    const warnings: string[] = [];
+    const parsed = requests.map(request => {
+        try {
+            return new URL(request.url);
+        } catch {
+            return undefined;
+        }
+    });
+    const first = parsed.find((url): url is URL => url !== undefined);
+    if (!first) {
+        throw new Error(`None of the requests has a valid absolute URL (e.g. "${requests[0].url}"); resolve variables or relative URLs and import again.`);
+    }
+    const origin = first.origin;
+    if (origin === PLACEHOLDER_SERVER) {
+        warnings.push(`The base URL is an undefined collection variable; replace ${PLACEHOLDER_SERVER} in "servers" with the real URL.`);
+    }
+    const paths: Record<string, Record<string, OasOperation>> = {};
+    const securitySchemes: Record<string, Record<string, string>> = {};
+    const operationIds = new Set<string>();
+    const operationSecurity: string[] = [];
+
+    const schemeFor = (auth: CapturedAuth): string => {
+        let name: string;
+        let scheme: Record<string, string>;
+        if (auth.type === 'basic') {
+            name = 'BasicAuth';
+            scheme = { type: 'http', scheme: 'basic' };
+        } else if (auth.type === 'bearer') {
+            name = 'BearerAuth';
+            scheme = { type: 'http', scheme: 'bearer' };
+        } else {
+            name = 'ApiKeyAuth';
+            scheme = { type: 'apiKey', in: auth.in || 'header', name: auth.name || 'api_key' };
+        }
+        for (let n = 2; securitySchemes[name] && JSON.stringify(securitySchemes[name]) !== JSON.stringify(scheme); n++) {
+            name = `${name.replace(/\d+$/, '')}${n}`;
+        }
+        securitySchemes[name] = scheme;
+        return name;
+    };
+
+    for (let i = 0; i < requests.length; i++) {
+        const request = requests[i];
+        const label = request.name || `${request.method} ${request.url}`;
+        const url = parsed[i];
+        if (!url) {
+            warnings.push(`${label}: invalid or relative URL "${request.url}", skipped.`);
+            continue;
+        }
+        if (url.origin !== origin) {
+            warnings.push(`${label}: different server (${url.origin}) than ${origin}, skipped.`);
+            continue;
+        }
+        const method = request.method.toLowerCase();
+        const { path, params } = templatePath(url.pathname, request.pathVariables || {});
+        if (paths[path]?.[method]) {
+            warnings.push(`${label}: duplicate of ${request.method} ${path}, skipped.`);
+            continue;
+        }
+        const where = `${request.method} ${path}`;
+        const parameters: OasParameter[] = [...params];
+        const auths: CapturedAuth[] = request.auth ? [request.auth] : [];
+
+        // Query string
+        const queryValues = new Map<string, string[]>();
+        url.searchParams.forEach((value, name) => {
+            queryValues.set(name, [...(queryValues.get(name) || []), value]);
+        });
+        queryValues.forEach((values, name) => {
+            if (API_KEY_QUERY_PARAMS.has(name.toLowerCase())) {
+                auths.push({ type: 'apiKey', in: 'query', name });
+                return;
+            }
+            const param: OasParameter = { name, in: 'query', required: false };
+            if (values.length > 1) {
+                const items = inferScalarSchema(values[0]);
+                param.schema = { type: 'array', items };
+                param.explode = true;
+                param.example = values.map(v => typedExample(v, items));
+            } else {
+                const schema = inferScalarSchema(values[0]);
+                param.schema = schema;
+                if (values[0] !== '') param.example = typedExample(values[0], schema);
+            }
+            parameters.push(param);
+        });
+
+        // Headers
+        let droppedCookies = false;
+        for (const header of request.headers) {
+            const lower = header.name.toLowerCase();
+            if (lower === 'authorization') {
+                if (/^bearer\s/i.test(header.value)) auths.push({ type: 'bearer' });
+                else if (/^basic\s/i.test(header.value)) auths.push({ type: 'basic' });
+                else auths.push({ type: 'apiKey', in: 'header', name: header.name });
+                continue;
+            }
+            if (API_KEY_HEADERS.has(lower)) {
+                auths.push({ type: 'apiKey', in: 'header', name: header.name });
+                continue;
+            }
+            if (lower === 'cookie') droppedCookies = true;
+            if (IGNORED_HEADERS.has(lower) || lower.startsWith('sec-') || lower.startsWith(':')) continue;
+            if (parameters.some(p => p.in === 'header' && p.name.toLowerCase() === lower)) continue;
+            const param: OasParameter = { name: header.name, in: 'header', required: false, schema: { type: 'string' } };
+            if (header.value) param.example = header.value;
+            parameters.push(param);
+        }
+        if (droppedCookies) warnings.push(`${where}: cookies were not imported; use a connection for session authentication.`);
+
+        const baseId = operationIdFor(request, path);
+        const operation: OasOperation = { operationId: baseId, summary: request.name || where };
+        let uniqueId = baseId;
+        for (let n = 2; operationIds.has(uniqueId); n++) uniqueId = `${baseId}${n}`;
+        operation.operationId = uniqueId;
+        operationIds.add(uniqueId);
+        if (request.description) operation.description = request.description;
+        if (request.folder) operation.tags = [request.folder];
+        if (parameters.length) operation.parameters = parameters;
+        const body = requestBodyFor(request, where, warnings);
+        if (body) operation.requestBody = body;
+        operation.responses = responsesFor(request);
+        if (request.response?.status && request.response.status >= 400) {
+            warnings.push(`${where}: the recorded response was HTTP ${request.response.status}; check the request before creating a tool.`);
+        }
+
+        const schemeNames = Array.from(new Set(auths.map(schemeFor)));
+        if (schemeNames.length) operation.security = [Object.fromEntries(schemeNames.map(n => [n, []]))];
+        operationSecurity.push(JSON.stringify(operation.security || null));
+
+        paths[path] = paths[path] || {};
+        paths[path][method] = operation;
+    }
+
+    if (!Object.keys(paths).length) throw new Error(`None of the requests could be imported: ${warnings.join(' ')}`);
+
+    const title = options.title || first.hostname.replace(/^(api|www)\./, '').split('.')[0].replace(/^./, c => c.toUpperCase()) + ' API';
+    const spec: OasDocument = {
+        openapi: '3.0.1',
+        info: {
+            title,
+            description: options.description || `Tool generated from requests to ${origin}`,
+            version: '1.0.0',
+            'x-ibm-skill-name': title,
+            'x-ibm-skill-id': `generated-${Date.now()}`
+        },
+        servers: [{ url: origin }],
+        paths
+    };
+    if (Object.keys(securitySchemes).length) {
+        spec.components = { securitySchemes };
+        // Same auth everywhere: declare it once at the top
+        if (new Set(operationSecurity).size === 1 && operationSecurity[0] !== 'null') {
+            spec.security = JSON.parse(operationSecurity[0]);
+            Object.values(paths).forEach(item => Object.values(item).forEach(op => { delete op.security; }));
+        }
+    }
+    return { spec, warnings };
+}
@@ -0,0 +1,125 @@
+/**
+ * WxO Builder - Schema Inference
+ * Derives JSON schemas from sample values: inferSchema describes one value, and
+ * mergeObservedSchema widens an existing schema so another observed value fits it.
+ * Used by the request importers, the tool editor and the output schema checks.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import { validateJsonSchema } from './jsonSchema';
+import { JsonSchema } from './types';
+
+/** JSON schema describing a sample value. */
+export function inferSchema(data: unknown): JsonSchema {
+    if (data === null) return { type: 'string', nullable: true };
+    if (typeof data === 'string') return { type: 'string' };
+    if (typeof data === 'number') return { type: Number.isInteger(data) ? 'integer' : 'number' };
+    if (typeof data === 'boolean') return { type: 'boolean' };
+    if (Array.isArray(data)) {
+        const itemSchema = data.length > 0 ? inferSchema(data[0]) : { type: 'string' };
+        return {
+            type: 'array',
+            items: itemSchema
+        };
+    }
+    if (typeof data === 'object') {
+        const object = data as Record<string, unknown>;
+        const properties: Record<string, JsonSchema> = {};
+        Object.keys(object).forEach(key => {
+            const value = object[key];
+            properties[key] = inferSchema(value);
+            if (value && typeof value === 'string' && value.length > 10) {
+                properties[key].description = `Example: ${value.substring(0, 30)}...`;
+            }
+        });
+        return {
+            type: 'object',
+            properties: properties
+        };
+    }
+    return { type: 'string' };
+}
+
+/** JSON type name of a value, as used in schemas. */
+function jsonType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+}
+
+function resolveLocalRef(ref: string, root: Record<string, unknown> | undefined): { parent: Record<string, unknown>; key: string } | undefined {
+    if (!root || !ref.startsWith('#/')) return undefined;
+    const parts = ref.slice(2).split('/').map(part => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'));
+    const key = parts.pop() as string;
+    const parent = parts.reduce((node: unknown, part: string) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined), root) as Record<string, unknown> | undefined;
+    return parent && typeof parent === 'object' && parent[key] !== undefined ? { parent, key } : undefined;
+}
+
+/**
+ * Widen a schema so an observed value fits, keeping everything it already declares:
+ * new properties are added, `required` drops properties the value lacks, null makes a
+ * field nullable, integer widens to number, new enum values are appended and a value of a
+ * different type adds an anyOf branch. Local `$ref`s are merged into their target in `root`,
+ * which is updated in place; everything else returns a new schema.
+ */
+export function mergeObservedSchema(schema: JsonSchema | undefined, data: unknown, root?: Record<string, unknown>): JsonSchema | undefined {
+    if (data === undefined) return schema;
+    // Definitions from the editor may also hold null or `true` (anything goes)
+    const given: unknown = schema;
+    if (given === undefined || given === null || given === true || (typeof given === 'object' && Object.keys(given).length === 0)) {
+        return inferSchema(data);
+    }
+    if (!schema || typeof schema !== 'object') return schema;
+
+    if (typeof schema.$ref === 'string') {
+        const target = resolveLocalRef(schema.$ref, root);
+        if (target) target.parent[target.key] = mergeObservedSchema(target.parent[target.key] as JsonSchema, data, root);
+        return schema;
+    }
+    if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf) || Array.isArray(schema.allOf)) {
+        const withRoot = root ? { ...schema, components: root.components, definitions: root.definitions, $defs: root.$defs } : schema;
+        if (validateJsonSchema(data, withRoot).length === 0) return schema;
+        if (Array.isArray(schema.anyOf) && !schema.type) return { ...schema, anyOf: [...schema.anyOf, inferSchema(data)] };
+        return { anyOf: [schema, inferSchema(data)] };
+    }
+
+    const observed = jsonType(data);
+    if (observed === 'null') {
+        const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as string[];
+        return schema.nullable === true || types.includes('null') ? schema : { ...schema, nullable: true };
+    }
+    const declared = schema.type === undefined && schema.properties ? 'object' : schema.type;
+    if (declared === undefined) return schema;
+    const declaredTypes = Array.isArray(declared) ? declared : [declared];
+    const matchedType = declaredTypes.find(t => t === observed || (t === 'number' && observed === 'integer') || (t === 'integer' && observed === 'number'));
+    if (!matchedType) return { anyOf: [schema, inferSchema(data)] };
+
+    const merged: JsonSchema = { ...schema };
+    if (matchedType === 'integer' && observed === 'number') {
+        merged.type = Array.isArray(schema.type) ? schema.type.map(t => (t === 'integer' ? 'number' : t)) : 'number';
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(data))) {
+        merged.enum = [...schema.enum, data];
+    }
+    if (observed === 'object') {
+        const object = data as Record<string, unknown>;
+        const properties: Record<string, JsonSchema> = { ...(schema.properties || {}) };
+        Object.keys(object).forEach(key => {
+            properties[key] = (properties[key] !== undefined ? mergeObservedSchema(properties[key], object[key], root) : inferSchema(object[key])) as JsonSchema;
+        });
+        merged.properties = properties;
+        if (Array.isArray(schema.required)) {
+            const required = schema.required.filter(name => object[name] !== undefined);
+            if (required.length > 0) merged.required = required;
+            else delete merged.required;
+        }
+    }
+    if (observed === 'array' && !Array.isArray(schema.items)) {
+        merged.items = (data as unknown[]).reduce<JsonSchema | undefined>((items, item) => mergeObservedSchema(items, item, root), schema.items);
+        if (merged.items === undefined) delete merged.items;
+    }
+    return merged;
+}
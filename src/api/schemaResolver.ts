@@ -0,0 +1,188 @@
+/**
+ * WxO Builder - OpenAPI Schema Resolver
+ * Dereferences `$ref`s in an OpenAPI spec before tool specs are built, so parameter,
+ * request body and response schemas are inline:
+ *  - local refs (`#/components/schemas/Pet`) and external JSON/YAML file refs
+ *    (`common.json#/Pet`, `./pet.yaml`), relative to the referring file
+ *  - `allOf` is flattened into one schema (properties merged, required lists combined)
+ *  - `oneOf` / `anyOf` are kept, with their members resolved
+ *  - recursive refs are cut at the second visit and replaced by a plain object schema
+ *
+ * Remote (http) refs are not fetched. Unresolvable refs throw SchemaRefError.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseSpecText } from './oasImport';
+import { JsonSchema, OasDocument } from './types';
+
+export class SchemaRefError extends Error {
+    constructor(message: string, readonly ref: string) {
+        super(message);
+        this.name = 'SchemaRefError';
+    }
+}
+
+export interface ResolveOptions {
+    /**
+     * Directory external file refs in the root document are relative to (usually the folder
+     * of the file the spec came from). Without it, external refs in the root document fail.
+     */
+    baseDir?: string;
+}
+
+interface DocContext {
+    /** Absolute path of the document being walked; undefined for the root spec. */
+    file?: string;
+    doc: unknown;
+}
+
+/** Decode one JSON Pointer segment (~1 → /, ~0 → ~). */
+function decodePointerSegment(segment: string): string {
+    return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function resolvePointer(doc: unknown, pointer: string): unknown {
+    if (!pointer || pointer === '/') return doc;
+    let node = doc;
+    for (const segment of pointer.replace(/^\//, '').split('/').map(decodePointerSegment)) {
+        if (node === null || typeof node !== 'object' || !(segment in node)) return undefined;
+        node = (node as Record<string, unknown>)[segment];
+    }
+    return node;
+}
+
+/** Merge allOf members (already resolved) into one schema. */
+function mergeAllOf(base: JsonSchema, members: unknown[]): JsonSchema {
+    const merged: JsonSchema = { ...base };
+    const required = new Set<string>(Array.isArray(base.required) ? base.required : []);
+    for (const member of members) {
+        if (!member || typeof member !== 'object') continue;
+        for (const [key, value] of Object.entries(member)) {
+            if (key === 'properties') {
+                merged.properties = { ...(merged.properties || {}), ...(value as Record<string, JsonSchema>) };
+            } else if (key === 'required' && Array.isArray(value)) {
+                value.forEach(r => required.add(r));
+            } else if (merged[key] === undefined) {
+                merged[key] = value;
+            }
+        }
+    }
+    if (required.size) merged.required = Array.from(required);
+    if (merged.properties && !merged.type) merged.type = 'object';
+    return merged;
+}
+
+class Resolver {
+    private readonly _files = new Map<string, unknown>();
+
+    constructor(private readonly _baseDir: string | undefined) { }
+
+    private async _loadFile(file: string, ref: string): Promise<unknown> {
+        if (this._files.has(file)) return this._files.get(file);
+        let text: string;
+        try {
+            text = await fs.promises.readFile(file, 'utf8');
+        } catch (e) {
+            const err = e as NodeJS.ErrnoException;
+            throw new SchemaRefError(`Cannot resolve $ref "${ref}": ${file} could not be read (${err.code || err.message})`, ref);
+        }
+        let doc: unknown;
+        try {
+            doc = parseSpecText(text, file);
+        } catch (e) {
+            throw new SchemaRefError(`Cannot resolve $ref "${ref}": ${(e as Error).message}`, ref);
+        }
+        this._files.set(file, doc);
+        return doc;
+    }
+
+    /**
+     * @param node   value to resolve
+     * @param ctx    document the value lives in (refs without a file part point into it)
+     * @param active refs currently being expanded, to detect cycles
+     */
+    async resolve(node: unknown, ctx: DocContext, active: string[]): Promise<unknown> {
+        if (Array.isArray(node)) {
+            const out: unknown[] = [];
+            for (const item of node) out.push(await this.resolve(item, ctx, active));
+            return out;
+        }
+        if (!node || typeof node !== 'object') return node;
+
+        const fields = node as Record<string, unknown>;
+        if (typeof fields.$ref === 'string') return this._resolveRef(fields, ctx, active);
+
+        const out: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(fields)) {
+            out[key] = await this.resolve(value, ctx, active);
+        }
+        if (Array.isArray(out.allOf)) {
+            const { allOf, ...rest } = out;
+            return mergeAllOf(rest, allOf as unknown[]);
+        }
+        return out;
+    }
+
+    private async _resolveRef(node: Record<string, unknown>, ctx: DocContext, active: string[]): Promise<unknown> {
+        const ref = node.$ref as string;
+        if (/^[a-z][a-z0-9+.-]*:\/\//i.test(ref)) {
+            throw new SchemaRefError(`Cannot resolve $ref "${ref}": remote references are not supported; download the file and reference it by path`, ref);
+        }
+        const hash = ref.indexOf('#');
+        const filePart = hash === -1 ? ref : ref.slice(0, hash);
+        const pointer = hash === -1 ? '' : ref.slice(hash + 1);
+
+        let target: DocContext = ctx;
+        if (filePart) {
+            const dir = ctx.file ? path.dirname(ctx.file) : this._baseDir;
+            if (!dir) {
+                throw new SchemaRefError(`Cannot resolve $ref "${ref}": an external $ref needs a source file; import or open the spec from a file so relative paths can be resolved`, ref);
+            }
+            const file = path.resolve(dir, filePart);
+            target = { file, doc: await this._loadFile(file, ref) };
+        }
+
+        const key = `${target.file || ''}#${pointer}`;
+        const siblings = { ...node };
+        delete siblings.$ref;
+        if (active.includes(key)) {
+            // Recursive schema: stop here rather than expanding forever
+            const name = pointer.split('/').pop() || ref;
+            return { type: 'object', description: `Recursive reference to ${name}`, ...siblings };
+        }
+
+        const where = target.file ? ` in ${target.file}` : '';
+        let resolvedTarget: unknown;
+        try {
+            resolvedTarget = resolvePointer(target.doc, pointer);
+        } catch (e) {
+            // decodeURIComponent: a malformed %-escape in the pointer
+            throw new SchemaRefError(`Cannot resolve $ref "${ref}": invalid escape in JSON pointer ${pointer}${where} (${(e as Error).message})`, ref);
+        }
+        if (resolvedTarget === undefined) {
+            throw new SchemaRefError(`Cannot resolve $ref "${ref}": ${pointer || '/'} not found${where}`, ref);
+        }
+
+        const resolved = await this.resolve(resolvedTarget, target, [...active, key]);
+        // OpenAPI 3.1 allows siblings next to $ref (e.g. description); they win over the target
+        if (Object.keys(siblings).length && resolved && typeof resolved === 'object' && !Array.isArray(resolved)) {
+            return { ...resolved, ...(await this.resolve(siblings, ctx, active) as Record<string, unknown>) };
+        }
+        return resolved;
+    }
+}
+
+/**
+ * Copy of the spec with every `$ref` under `paths` replaced by its target and `allOf`
+ * flattened. Other top-level sections (components, info, servers) are left as-is.
+ * @throws SchemaRefError for refs that cannot be resolved
+ */
+export async function resolveSpecRefs(spec: OasDocument, options: ResolveOptions = {}): Promise<OasDocument> {
+    if (!spec || typeof spec !== 'object' || !spec.paths) return spec;
+    const resolver = new Resolver(options.baseDir);
+    return { ...spec, paths: await resolver.resolve(spec.paths, { doc: spec }, []) as OasDocument['paths'] };
+}
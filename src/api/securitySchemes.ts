@@ -0,0 +1,235 @@
+/**
+ * WxO Builder - Security Schemes
+ * Maps between OpenAPI security (components.securitySchemes + security requirements) and
+ * the flat list of schemes a WxO tool binding carries in binding.openapi.security:
+ *  - apiKey in query, header or cookie
+ *  - http basic, bearer (and other http schemes, passed through)
+ *  - oauth2 with its flows (implicit, password, clientCredentials, authorizationCode)
+ *  - openIdConnect
+ *
+ * A security requirement lists schemes that apply together, so one requirement becomes
+ * several binding entries. Of alternative requirements, the first one that can be mapped
+ * completely is used. Schemes that cannot be mapped are left out rather than guessed.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import { httpFetch } from './http';
+import { Connection, OasDocument, OasOAuthFlow, OasOperation, OasSecurityRequirement, OasSecurityScheme, ToolBinding } from './types';
+
+/** One entry of binding.openapi.security: an OpenAPI security scheme without its name. */
+export interface BindingSecurityScheme {
+    type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect';
+    /** apiKey: where the key goes. */
+    in?: 'query' | 'header' | 'cookie';
+    /** apiKey: parameter, header or cookie name; other types: the header carrying credentials. */
+    name?: string;
+    /** http: basic, bearer, ... (lower case). */
+    scheme?: string;
+    bearerFormat?: string;
+    /** oauth2: flows as in OpenAPI (tokenUrl, authorizationUrl, refreshUrl, scopes). */
+    flows?: Record<string, OasOAuthFlow>;
+    openIdConnectUrl?: string;
+    description?: string;
+}
+
+export type OAuth2FlowType = 'implicit' | 'password' | 'clientCredentials' | 'authorizationCode';
+
+const OAUTH2_FLOWS: OAuth2FlowType[] = ['clientCredentials', 'password', 'authorizationCode', 'implicit'];
+const FLOW_FIELDS = ['authorizationUrl', 'tokenUrl', 'refreshUrl', 'scopes'];
+
+/** Binding entry for one OpenAPI security scheme; undefined when the scheme is not usable. */
+export function schemeToBinding(scheme: OasSecurityScheme | undefined): BindingSecurityScheme | undefined {
+    if (!scheme || typeof scheme !== 'object') return undefined;
+    const description = typeof scheme.description === 'string' && scheme.description ? { description: scheme.description } : {};
+    switch (scheme.type) {
+        case 'apiKey': {
+            if (!scheme.name) return undefined;
+            const location = scheme.in === 'header' || scheme.in === 'cookie' ? scheme.in : 'query';
+            return { type: 'apiKey', in: location, name: scheme.name, ...description };
+        }
+        case 'http': {
+            const httpScheme = String(scheme.scheme || 'bearer').toLowerCase();
+            return {
+                type: 'http',
+                scheme: httpScheme,
+                name: 'Authorization',
+                ...(httpScheme === 'bearer' && scheme.bearerFormat ? { bearerFormat: scheme.bearerFormat } : {}),
+                ...description
+            };
+        }
+        case 'oauth2': {
+            const flows: Record<string, OasOAuthFlow> = {};
+            OAUTH2_FLOWS.forEach(flow => {
+                const source = scheme.flows?.[flow];
+                if (!source || typeof source !== 'object') return;
+                const cleaned: OasOAuthFlow = {};
+                FLOW_FIELDS.forEach(field => { if (source[field] !== undefined) cleaned[field] = source[field]; });
+                cleaned.scopes = cleaned.scopes || {};
+                flows[flow] = cleaned;
+            });
+            if (Object.keys(flows).length === 0) return undefined;
+            return { type: 'oauth2', name: 'Authorization', flows, ...description };
+        }
+        case 'openIdConnect':
+            if (!scheme.openIdConnectUrl) return undefined;
+            return { type: 'openIdConnect', name: 'Authorization', openIdConnectUrl: scheme.openIdConnectUrl, ...description };
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Binding security for an operation: `x-ibm-security` (or the tool's own binding) when
+ * present, else the operation's (or the document's) security requirements resolved
+ * against components.securitySchemes.
+ */
+export function deriveBindingSecurity(openApiSpec: OasDocument, op: OasOperation | undefined): BindingSecurityScheme[] {
+    const explicit = openApiSpec['x-ibm-security'] ?? (openApiSpec.binding as ToolBinding | undefined)?.openapi?.security;
+    if (Array.isArray(explicit) && explicit.length > 0) return explicit;
+    const schemes = openApiSpec.components?.securitySchemes ?? {};
+    const requirements: OasSecurityRequirement[] = op?.security ?? openApiSpec.security ?? [];
+    if (!Array.isArray(requirements)) return [];
+    for (const requirement of requirements) {
+        if (!requirement || typeof requirement !== 'object') continue;
+        const names = Object.keys(requirement);
+        // `{}` makes authentication optional; nothing to bind
+        if (names.length === 0) return [];
+        const mapped = names.map(name => schemeToBinding(schemes[name]));
+        if (mapped.every(entry => entry !== undefined)) return mapped as BindingSecurityScheme[];
+    }
+    return [];
+}
+
+function schemeName(entry: BindingSecurityScheme): string {
+    switch (entry.type) {
+        case 'apiKey': return 'ApiKeyAuth';
+        case 'http': return entry.scheme === 'basic' ? 'BasicAuth' : entry.scheme === 'bearer' ? 'BearerAuth' : 'HttpAuth';
+        case 'oauth2': return 'OAuth2';
+        case 'openIdConnect': return 'OpenIdConnect';
+        default: return 'Auth';
+    }
+}
+
+/**
+ * OpenAPI form of a binding's security: named components.securitySchemes and one
+ * requirement that lists them all (they apply together). OAuth2 requirements ask for
+ * every scope the flows declare.
+ */
+export function bindingSecurityToOas(security: BindingSecurityScheme[] | undefined): { securitySchemes: Record<string, OasSecurityScheme>; security: OasSecurityRequirement[] } {
+    const securitySchemes: Record<string, OasSecurityScheme> = {};
+    const requirement: Record<string, string[]> = {};
+    (Array.isArray(security) ? security : []).forEach(entry => {
+        if (!entry || typeof entry !== 'object') return;
+        const scheme: OasSecurityScheme = { type: entry.type };
+        let scopes: string[] = [];
+        if (entry.type === 'apiKey') {
+            scheme.in = entry.in || 'query';
+            scheme.name = entry.name || 'apiKey';
+        } else if (entry.type === 'http') {
+            scheme.scheme = entry.scheme || 'bearer';
+            if (entry.bearerFormat) scheme.bearerFormat = entry.bearerFormat;
+        } else if (entry.type === 'oauth2') {
+            const flows = entry.flows || {};
+            scheme.flows = flows;
+            scopes = Array.from(new Set(Object.keys(flows).flatMap(flow => Object.keys(flows[flow]?.scopes || {}))));
+        } else if (entry.type === 'openIdConnect') {
+            scheme.openIdConnectUrl = entry.openIdConnectUrl;
+        } else {
+            return;
+        }
+        if (entry.description) scheme.description = entry.description;
+        const base = schemeName(entry);
+        let name = base;
+        for (let n = 2; securitySchemes[name]; n++) name = `${base}${n}`;
+        securitySchemes[name] = scheme;
+        requirement[name] = scopes;
+    });
+    return { securitySchemes, security: Object.keys(requirement).length > 0 ? [requirement] : [] };
+}
+
+/**
+ * Binding security for a connection, from its security_scheme / auth_type. API keys default
+ * to a query parameter named apiKey (the connection does not say where the key goes; the
+ * editor lets you rename it). Connections whose scheme is unknown or carries no HTTP
+ * credentials (key/value) map to no security.
+ */
+export function connectionToSecurity(app: Partial<Connection> | undefined): BindingSecurityScheme[] {
+    // Some connections carry the scheme itself (or a list of them) instead of its name
+    const scheme: unknown = app?.security_scheme;
+    if (Array.isArray(scheme) && scheme.length > 0) return scheme;
+    if (scheme && typeof scheme === 'object' && (scheme as BindingSecurityScheme).type) return [scheme as BindingSecurityScheme];
+    const kind = String(typeof scheme === 'string' && scheme ? scheme : app?.auth_type || '').toLowerCase().replace(/-/g, '_');
+    if (/^(api_?key|api_key_auth)$/.test(kind)) {
+        return [{ type: 'apiKey', in: 'query', name: 'apiKey' }];
+    }
+    if (kind === 'basic' || kind === 'basic_auth') {
+        return [{ type: 'http', scheme: 'basic', name: 'Authorization' }];
+    }
+    if (kind === 'bearer' || kind === 'bearer_token') {
+        return [{ type: 'http', scheme: 'bearer', name: 'Authorization' }];
+    }
+    if (kind.startsWith('oauth')) {
+        const flow: OAuth2FlowType = kind.includes('password') ? 'password'
+            : kind.includes('client_credentials') ? 'clientCredentials'
+                : kind.includes('implicit') ? 'implicit'
+                    : kind.includes('code') ? 'authorizationCode'
+                        : 'clientCredentials';
+        const fields = flow === 'implicit' ? { authorizationUrl: '', scopes: {} }
+            : flow === 'authorizationCode' ? { authorizationUrl: '', tokenUrl: '', scopes: {} }
+                : { tokenUrl: '', scopes: {} };
+        return [{ type: 'oauth2', name: 'Authorization', flows: { [flow]: fields } }];
+    }
+    return [];
+}
+
+// ─── Local tests ──────────────────────────────────────────────────────────────
+
+export interface OAuth2TokenRequest {
+    tokenUrl: string;
+    grantType: 'client_credentials' | 'password';
+    clientId: string;
+    clientSecret?: string;
+    username?: string;
+    password?: string;
+    /** Space-separated scopes. */
+    scope?: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * Fetch an access token for a local test (client credentials or password grant). The
+ * client authenticates with HTTP basic, as RFC 6749 recommends.
+ */
+export async function requestOAuth2Token(request: OAuth2TokenRequest): Promise<string> {
+    if (!request.tokenUrl) throw new Error('The OAuth2 flow has no tokenUrl.');
+    const body = new URLSearchParams({ grant_type: request.grantType });
+    if (request.grantType === 'password') {
+        body.set('username', request.username || '');
+        body.set('password', request.password || '');
+    }
+    if (request.scope) body.set('scope', request.scope);
+    const basic = Buffer.from(`${encodeURIComponent(request.clientId)}:${encodeURIComponent(request.clientSecret || '')}`).toString('base64');
+    const response = await httpFetch(request.tokenUrl, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Accept': 'application/json',
+            'Authorization': `Basic ${basic}`
+        },
+        body: body.toString(),
+        signal: request.signal
+    });
+    const text = await response.text();
+    if (!response.ok) throw new Error(`OAuth2 token request failed: ${response.status} ${text.slice(0, 300)}`);
+    let token: string | undefined;
+    try {
+        token = JSON.parse(text).access_token;
+    } catch {
+        // Some servers answer form-encoded
+        token = new URLSearchParams(text).get('access_token') || undefined;
+    }
+    if (!token) throw new Error('The OAuth2 token response has no access_token.');
+    return token;
+}
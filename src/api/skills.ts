@@ -6,11 +6,23 @@
  * @date 17-Feb-2026
  * @license Apache-2.0
  */
-import { woFetch } from './client';
+import { woFetch, delay } from './client';
+import { httpFetch } from './http';
+import { WxoApiError } from './errors';
+import { normalizeList, normalizePage, Page } from './normalize';
+import { Paginator, PageRequest, DEFAULT_PAGE_SIZE, withPageParams } from './pagination';
+import { Tool, ToolBinding, ToolSecurity, Run, Message, JsonSchema, OasDocument, OasPathItem, OasOperation, OasParameter, OasRequestBody } from './types';
+import { resolveSpecRefs, ResolveOptions } from './schemaResolver';
+import { bindingSecurityToOas, deriveBindingSecurity, BindingSecurityScheme } from './securitySchemes';
+import { buildRequest, BuiltRequest, ParameterLocation, RequestParameter } from './requestBuilder';
 import archiver from 'archiver';
 
-/** Convert WxO skill format to OAS for use as Create New Tool content (copy flow). */
-export function skillToOas(skill: any): any {
+/**
+ * Convert WxO skill format to OAS. By default the result is a copy (" (Copy)" title,
+ * "-copy-v1" id) for Create New Tool; pass { copy: false } to keep the tool's own names.
+ */
+export function skillToOas(skill: Partial<Tool>, options: { copy?: boolean } = {}): OasDocument {
+    const copy = options.copy !== false;
     const b = skill?.binding?.openapi;
     const method = (b?.http_method || 'GET').toLowerCase();
     const path = b?.http_path || '/';
@@ -21,33 +33,75 @@ export function skillToOas(skill: any): any {
     const outputSchema = skill?.output_schema;
 
     const params: any[] = [];
+    const requiredKeys: string[] = inputSchema?.required || [];
+    let requestBody: OasRequestBody | undefined;
+    // Flattened body fields (in: body), gathered into one object schema
+    const bodyFields: { properties: Record<string, JsonSchema>; required: string[] } = { properties: {}, required: [] };
     if (inputSchema?.properties) {
         for (const [key, prop] of Object.entries(inputSchema.properties as Record<string, any>)) {
+            if (key === REQUEST_BODY_PROPERTY) {
+                const schema = { ...prop };
+                delete schema.in;
+                delete schema.description;
+                requestBody = {
+                    ...(prop.description ? { description: prop.description } : {}),
+                    required: requiredKeys.includes(key),
+                    content: { 'application/json': { schema } }
+                };
+                continue;
+            }
+            if (prop.in === 'body') {
+                const schema = { ...prop };
+                delete schema.in;
+                delete schema.aliasName;
+                const name = prop.aliasName ?? key;
+                bodyFields.properties[name] = schema;
+                if (requiredKeys.includes(key)) bodyFields.required.push(name);
+                continue;
+            }
             const name = prop.aliasName ?? key;
             params.push({
                 name,
                 in: prop.in || 'query',
-                required: (inputSchema.required || []).includes(key),
+                required: requiredKeys.includes(key),
                 description: prop.description || '',
                 schema: {
-                    type: prop.type || 'string',
+                    type: prop.type || (prop.oneOf || prop.anyOf ? undefined : 'string'),
                     title: prop.title,
                     default: prop.default,
-                    ...(prop.enum ? { enum: prop.enum } : {})
+                    ...(prop.enum ? { enum: prop.enum } : {}),
+                    ...(prop.items ? { items: prop.items } : {}),
+                    ...(prop.format ? { format: prop.format } : {}),
+                    ...(prop.oneOf ? { oneOf: prop.oneOf } : {}),
+                    ...(prop.anyOf ? { anyOf: prop.anyOf } : {})
                 }
             });
         }
     }
+    if (!requestBody && Object.keys(bodyFields.properties).length > 0) {
+        requestBody = {
+            required: bodyFields.required.length > 0,
+            content: {
+                'application/json': {
+                    schema: {
+                        type: 'object',
+                        properties: bodyFields.properties,
+                        ...(bodyFields.required.length ? { required: bodyFields.required } : {})
+                    }
+                }
+            }
+        };
+    }
 
-    const title = (skill?.display_name || skill?.name || 'Tool') + ' (Copy)';
+    const title = (skill?.display_name || skill?.name || 'Tool') + (copy ? ' (Copy)' : '');
     const baseId = (skill?.name || 'tool').replace(/[^a-zA-Z0-9_-]/g, '-');
-    const skillId = `${baseId}-copy-v1`;
+    const skillId = copy ? `${baseId}-copy-v1` : baseId;
 
     const oas: any = {
         openapi: '3.0.1',
         info: {
             title,
-            version: skill?.info?.version || '1.0.0',
+            version: (skill?.info as { version?: string } | undefined)?.version || '1.0.0',
             description: skill?.description || '',
             'x-ibm-skill-name': title,
             'x-ibm-skill-id': skillId
@@ -59,6 +113,7 @@ export function skillToOas(skill: any): any {
                     operationId: skill?.name || 'operation',
                     summary: skill?.display_name || skill?.name || 'Operation',
                     parameters: params,
+                    ...(requestBody ? { requestBody } : {}),
                     responses: {
                         '200': {
                             description: 'Success',
@@ -73,50 +128,73 @@ export function skillToOas(skill: any): any {
             }
         }
     };
-    if (security?.length) oas['x-ibm-security'] = security;
+    if (security?.length) {
+        const { securitySchemes, security: requirements } = bindingSecurityToOas(security as BindingSecurityScheme[]);
+        if (requirements.length > 0) {
+            oas.components = { securitySchemes };
+            oas.security = requirements;
+        }
+        oas['x-ibm-security'] = security;
+    }
     if (connectionId) oas['x-ibm-connection-id'] = connectionId;
     return oas;
 }
 
-export async function listSkills(limit: number = 20, offset: number = 0): Promise<any> {
-    const response = await woFetch(`/v1/orchestrate/tools?limit=${limit}&offset=${offset}`, {
-        method: 'GET'
+/** Fetch one page of tools. GET /v1/orchestrate/tools */
+export async function listSkillsPage(request: PageRequest): Promise<Page<Tool>> {
+    const response = await woFetch(withPageParams('/v1/orchestrate/tools', request), {
+        method: 'GET',
+        signal: request.signal
     });
 
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to list tools: ${response.status} ${response.statusText} - ${text}`);
+        throw await WxoApiError.fromResponse(response, 'list tools');
     }
 
-    const text = await response.text();
-    try {
-        return JSON.parse(text);
-    } catch {
-        return text;
-    }
+    return normalizePage('tool', await response.text());
+}
+
+/** List a single page of tools. Use iterateSkills to walk all of them. */
+export async function listSkills(limit: number = 20, offset: number = 0, signal?: AbortSignal): Promise<Tool[]> {
+    return (await listSkillsPage({ limit, offset, signal })).items;
 }
 
-export async function getSkill(skillId: string): Promise<any> {
-    const response = await woFetch(`/v1/orchestrate/tools/${skillId}`, { method: 'GET' });
+/** Page through every tool: `for await (const page of iterateSkills()) { ... }` */
+export function iterateSkills(pageSize: number = DEFAULT_PAGE_SIZE, signal?: AbortSignal): Paginator<Tool> {
+    return new Paginator(listSkillsPage, pageSize, signal);
+}
+
+export async function getSkill(skillId: string, signal?: AbortSignal): Promise<Tool> {
+    const response = await woFetch(`/v1/orchestrate/tools/${skillId}`, { method: 'GET', signal });
     if (!response.ok) {
-        throw new Error(`Failed to get skill: ${response.status} ${response.statusText}`);
+        throw await WxoApiError.fromResponse(response, 'get skill');
     }
     const text = await response.text();
     try {
         return JSON.parse(text);
     } catch {
-        return text;
+        return text as unknown as Tool;
     }
 }
 
 export async function deleteSkill(skillId: string): Promise<any> {
     const response = await woFetch(`/v1/orchestrate/tools/${skillId}`, { method: 'DELETE' });
     if (!response.ok) {
-        throw new Error(`Failed to delete skill: ${response.status} ${response.statusText}`);
+        throw await WxoApiError.fromResponse(response, 'delete skill');
     }
     return { success: true };
 }
 
+/** Tool names: letters, digits and underscores; cannot start with a digit. */
+export const TOOL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/** A valid tool name made from any text (other characters become underscores). */
+export function toToolName(text: string): string {
+    return String(text || '')
+        .replace(/[^a-zA-Z0-9_]/g, '_')
+        .replace(/^[^a-zA-Z_]+/, '');
+}
+
 /**
  * Update a tool. Per WxO Patch A Tool API, only these fields are editable:
  * - name, display_name, description, permission, restrictions, tags
@@ -127,9 +205,7 @@ export async function updateSkill(skillId: string, skillJson: any): Promise<any>
     const updatePayload: any = {};
     if (skillJson.name) {
         // API requires: only letters, digits, underscores; cannot start with digit
-        updatePayload.name = skillJson.name
-            .replace(/[^a-zA-Z0-9_]/g, '_')
-            .replace(/^[^a-zA-Z_]+/, '');
+        updatePayload.name = toToolName(skillJson.name);
     }
     if (skillJson.display_name) updatePayload.display_name = skillJson.display_name;
     if (skillJson.description) updatePayload.description = skillJson.description;
@@ -158,8 +234,7 @@ export async function updateSkill(skillId: string, skillJson: any): Promise<any>
     }
 
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to update skill: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'update skill');
     }
 
     // Handle 204 No Content or empty body
@@ -190,8 +265,7 @@ export async function invokeTool(toolId: string, parameters: any): Promise<any>
     });
 
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Failed to invoke tool: ${response.status} ${text}`);
+        throw await WxoApiError.fromResponse(response, 'invoke tool');
     }
 
     const text = await response.text();
@@ -231,6 +305,58 @@ export function formatAssistantContent(content: any[], options?: { includeToolRe
     return lines.join('\n').trim();
 }
 
+export interface LocalInvokeRequest {
+    /** Operation URL (server + path); `{name}` placeholders are filled from params. */
+    url: string;
+    method: string;
+    params?: Record<string, unknown>;
+    /** How each param is sent (see requestParametersOf); undeclared params follow buildRequest's defaults. */
+    parameters?: RequestParameter[];
+    /** Credentials sent as headers, e.g. an API key or Bearer token. */
+    authHeaders?: Record<string, string>;
+    /** Credentials sent in the query string, e.g. ?api_key=... */
+    authQueryParams?: Record<string, string>;
+    signal?: AbortSignal;
+}
+
+export interface LocalInvokeResult {
+    status: number;
+    statusText: string;
+    requestUrl: string;
+    /** Parsed JSON, or the raw text when the body is not JSON. */
+    data: unknown;
+}
+
+/** The HTTP request invokeToolLocal sends (also used for Copy as cURL). */
+export function buildLocalRequest(request: LocalInvokeRequest): BuiltRequest {
+    return buildRequest({
+        url: request.url,
+        method: request.method,
+        values: request.params,
+        parameters: request.parameters,
+        headers: request.authHeaders,
+        query: request.authQueryParams
+    });
+}
+
+/**
+ * Call a tool's API directly from VS Code, without Watson Orchestrate (the editor's Local test).
+ * Params are serialized by location and style as OpenAPI describes (see requestBuilder.ts).
+ * Auth query params always go in the URL.
+ */
+export async function invokeToolLocal(request: LocalInvokeRequest): Promise<LocalInvokeResult> {
+    const built = buildLocalRequest(request);
+    const response = await httpFetch(built.url, { method: built.method, headers: built.headers, body: built.body, signal: request.signal });
+    const text = await response.text();
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        data = text;
+    }
+    return { status: response.status, statusText: response.statusText, requestUrl: built.url, data };
+}
+
 /**
  * Invoke a tool remotely via the Watson Orchestrate Agentic Runs API.
  * This is the only supported path — direct /tools/{id}/run returns 404.
@@ -242,9 +368,10 @@ export function formatAssistantContent(content: any[], options?: { includeToolRe
  *
  * @param agentId Optional. Agent ID that has this tool in its toolkit. Set
  *        wxo-builder.agentId in settings for automatic use.
+ * @param signal Optional. Cancels the run request and stops polling.
  * @see Remote Tool Invocation doc: POST /v1/orchestrate/runs, poll threads/{id}/messages
  */
-export async function invokeToolRemote(toolId: string, parameters: Record<string, any> = {}, agentId?: string): Promise<{ data: any; threadId: string; reasoning?: string }> {
+export async function invokeToolRemote(toolId: string, parameters: Record<string, unknown> = {}, agentId?: string, signal?: AbortSignal): Promise<{ data: unknown; threadId: string; reasoning?: string }> {
     const directive = Object.keys(parameters).length > 0
         ? `Execute the tool with these parameters. Return the raw result data.\n\nParameters: ${JSON.stringify(parameters)}`
         : 'Execute the tool with default parameters. Return the raw result data.';
@@ -258,35 +385,34 @@ export async function invokeToolRemote(toolId: string, parameters: Record<string
 
     const runRes = await woFetch('/v1/orchestrate/runs', {
         method: 'POST',
-        body: JSON.stringify(payload)
+        body: JSON.stringify(payload),
+        signal
     });
 
     if (!runRes.ok) {
-        const errText = await runRes.text();
-        throw new Error(`Run failed (${runRes.status}): ${errText}`);
+        throw await WxoApiError.fromResponse(runRes, 'start run');
     }
 
-    const runData = (await runRes.json()) as { thread_id?: string };
+    const runData = (await runRes.json()) as Run;
     const threadId = runData.thread_id;
     if (!threadId) {
         throw new Error('No thread_id returned from run. Response: ' + JSON.stringify(runData));
     }
 
     const maxAttempts = 12;
-    let messages: any[] = [];
+    let messages: Message[] = [];
 
     for (let i = 0; i < maxAttempts; i++) {
-        await new Promise(r => setTimeout(r, 4000));
-        const msgRes = await woFetch(`/v1/orchestrate/threads/${threadId}/messages`);
+        await delay(4000, signal);
+        const msgRes = await woFetch(`/v1/orchestrate/threads/${threadId}/messages`, { signal });
         if (msgRes.ok) {
-            const msgData = (await msgRes.json()) as any;
-            messages = Array.isArray(msgData) ? msgData : (msgData.messages || msgData.data || []);
-            const assistantMsg = messages.find((m: any) => m.role === 'assistant');
+            messages = normalizeList('message', await msgRes.json());
+            const assistantMsg = messages.find(m => m.role === 'assistant');
             if (assistantMsg) break;
         }
     }
 
-    const assistantMsg = messages.find((m: any) => m.role === 'assistant') || messages[0];
+    const assistantMsg = messages.find(m => m.role === 'assistant') || messages[0];
     let responseData: any = null;
     let reasoning: string | undefined;
 
@@ -318,184 +444,352 @@ export async function invokeToolRemote(toolId: string, parameters: Record<string
     return { data: responseData, threadId, reasoning };
 }
 
-export async function deploySkill(toolSpec: any, openApiSpec: any): Promise<any> {
+/**
+ * Create a tool from the first operation of an OpenAPI spec and upload the spec as its artifact.
+ * $refs are resolved first (external files relative to options.baseDir).
+ */
+export async function deploySkill(toolSpec: Partial<Tool>, openApiSpec: OasDocument, options: ResolveOptions = {}): Promise<{ success: boolean; toolId: string }> {
+    return deployResolvedSkill(toolSpec, await resolveSpecRefs(openApiSpec, options));
+}
+
+/** deploySkill for a spec whose $refs are already resolved. */
+async function deployResolvedSkill(toolSpec: Partial<Tool>, openApiSpec: OasDocument): Promise<{ success: boolean; toolId: string }> {
     // Build a complete tool definition matching the working deploy-skill-api.ts pattern
     const enrichedSpec = buildToolSpec(toolSpec, openApiSpec);
 
     console.log('Creating tool with enriched spec:', JSON.stringify(enrichedSpec, null, 2));
 
+    const toolId = (await createToolRecord(enrichedSpec)).id;
+
+    // Step 2: Upload OpenAPI artifact ZIP (optional enhancement)
+    try {
+        await uploadToolArtifact(toolId, await createOpenApiZip(openApiSpec));
+    } catch (uploadErr) {
+        console.warn('Artifact upload error (tool still created):', (uploadErr as Error).message);
+    }
+
+    return { success: true, toolId };
+}
+
+/** POST a complete tool definition; returns the created tool (with its id). */
+export async function createToolRecord(toolSpec: Partial<Tool>): Promise<Tool> {
     const createRes = await woFetch('/v1/orchestrate/tools', {
         method: 'POST',
-        body: JSON.stringify(enrichedSpec)
+        body: JSON.stringify(toolSpec)
     });
 
     if (!createRes.ok) {
-        const text = await createRes.text();
-        console.error('Create tool failed:', createRes.status, text);
-        throw new Error(`Failed to create tool: ${createRes.status} ${text}`);
+        const err = await WxoApiError.fromResponse(createRes, 'create tool');
+        console.error('Create tool failed:', err.status, err.body);
+        throw err;
     }
 
     const text = await createRes.text();
-    let toolData: any;
     try {
-        toolData = JSON.parse(text);
+        return JSON.parse(text);
     } catch {
         throw new Error(`Failed to parse tool response: ${text}`);
     }
-    const toolId = toolData.id;
+}
 
-    // Step 2: Upload OpenAPI artifact ZIP (optional enhancement)
-    try {
-        const zipBuffer = await createOpenApiZip(openApiSpec);
-        const boundary = '----WebKitFormBoundary' + Math.random().toString(36).substring(2);
-        const filename = `${toolId}.zip`;
-
-        const head = `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${filename}"\r\nContent-Type: application/zip\r\n\r\n`;
-        const tail = `\r\n--${boundary}--\r\n`;
-
-        const body = Buffer.concat([
-            Buffer.from(head),
-            zipBuffer,
-            Buffer.from(tail)
-        ]);
-
-        const uploadRes = await woFetch(`/v1/orchestrate/tools/${toolId}/upload`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': `multipart/form-data; boundary=${boundary}`
-            },
-            body: body
+/** Upload a tool's artifact bundle (zip) as multipart form data. */
+export async function uploadToolArtifact(toolId: string, zipBuffer: Buffer): Promise<void> {
+    const boundary = '----WebKitFormBoundary' + Math.random().toString(36).substring(2);
+    const filename = `${toolId}.zip`;
+
+    const head = `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${filename}"\r\nContent-Type: application/zip\r\n\r\n`;
+    const tail = `\r\n--${boundary}--\r\n`;
+
+    const body = Buffer.concat([
+        Buffer.from(head),
+        zipBuffer,
+        Buffer.from(tail)
+    ]);
+
+    const uploadRes = await woFetch(`/v1/orchestrate/tools/${toolId}/upload`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': `multipart/form-data; boundary=${boundary}`
+        },
+        body: body
+    });
+
+    if (!uploadRes.ok) {
+        throw await WxoApiError.fromResponse(uploadRes, 'upload tool artifact');
+    }
+}
+
+/**
+ * input_schema property that carries an operation's JSON request body, as in the
+ * Orchestrate ADK. Its value is the body schema, marked `in: 'body'`.
+ */
+export const REQUEST_BODY_PROPERTY = '__requestBody__';
+
+/**
+ * How each input of a tool or OpenAPI operation is sent, for buildRequest. Tools: the
+ * `in` (and aliasName) of each input_schema property. OpenAPI: the operation's parameters
+ * with their style, explode and allowReserved, plus its JSON request body. The operation is
+ * the one matching `method` and the path of `url`, else the first.
+ */
+export function requestParametersOf(definition: (Partial<Tool> & OasDocument) | undefined, method?: string, url?: string): RequestParameter[] {
+    if (!definition || typeof definition !== 'object') return [];
+    const binding = definition.binding?.openapi;
+    if (binding || definition.input_schema) {
+        const properties = definition.input_schema?.properties || {};
+        return Object.keys(properties).map(key => {
+            const prop = properties[key] || {};
+            if (key === REQUEST_BODY_PROPERTY) return { name: key, in: 'body', wholeBody: true } as RequestParameter;
+            const location = ['path', 'query', 'header', 'cookie', 'body'].includes(prop.in as string) ? prop.in : 'query';
+            return { name: prop.aliasName ?? key, in: location } as RequestParameter;
         });
+    }
 
-        if (!uploadRes.ok) {
-            console.warn('Artifact upload failed (tool still created):', uploadRes.status);
+    const operations = listOperations(definition);
+    const pathname = (() => {
+        try { return decodeURI(new URL(url || '').pathname); } catch { return ''; }
+    })();
+    const target = operations.find(op => op.method === (method || '').toLowerCase()
+        && new RegExp(op.path.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace(/\{[^}]+\}/g, '[^/]+') + '/?$').test(pathname))
+        || operations.find(op => op.method === (method || '').toLowerCase())
+        || operations[0];
+    if (!target) return [];
+    const pathItem: OasPathItem = definition.paths![target.path] || {};
+    const op = (pathItem[target.method] || {}) as OasOperation;
+    const byKey = new Map<string, OasParameter>();
+    [...(pathItem.parameters || []), ...(op.parameters || [])].forEach(p => {
+        if (p && p.name && p.in) byKey.set(`${p.in}:${p.name}`, p);
+    });
+    const parameters: RequestParameter[] = Array.from(byKey.values()).map(p => ({
+        name: p.name,
+        in: p.in as ParameterLocation,
+        ...(p.style ? { style: p.style as string } : {}),
+        ...(typeof p.explode === 'boolean' ? { explode: p.explode } : {}),
+        ...(p.allowReserved ? { allowReserved: true } : {}),
+        ...(p.content && !p.schema ? { json: true } : {})
+    }));
+    const body = jsonRequestBody(op);
+    if (body) {
+        parameters.push({ name: REQUEST_BODY_PROPERTY, in: 'body', wholeBody: true });
+        Object.keys(body.schema.properties || {}).forEach(name => {
+            if (!parameters.some(p => p.name === name)) parameters.push({ name, in: 'body' });
+        });
+    }
+    return parameters;
+}
+
+/** The operation's JSON request body schema (application/json or any +json type), if any. */
+function jsonRequestBody(op: OasOperation | undefined): { mediaType: string; schema: JsonSchema } | undefined {
+    const content = op?.requestBody?.content;
+    if (!content || typeof content !== 'object') return undefined;
+    const mediaType = Object.keys(content).find(type => /^application\/(.+\+)?json\b/i.test(type));
+    const schema = mediaType ? content[mediaType]?.schema : undefined;
+    return mediaType && schema ? { mediaType, schema: JSON.parse(JSON.stringify(schema)) } : undefined;
+}
+
+/** One HTTP operation of an OpenAPI spec. method is lower-case. */
+export interface OpenApiOperation {
+    path: string;
+    method: string;
+    operationId?: string;
+    summary?: string;
+    description?: string;
+}
+
+/** Methods a tool binding can use, in the order operations are listed. */
+const TOOL_HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/** Every operation in the spec, in path order. */
+export function listOperations(openApiSpec: OasDocument): OpenApiOperation[] {
+    const operations: OpenApiOperation[] = [];
+    const paths = openApiSpec?.paths;
+    if (!paths || typeof paths !== 'object') return operations;
+    for (const path of Object.keys(paths)) {
+        const pathObj: OasPathItem = paths[path] || {};
+        for (const method of TOOL_HTTP_METHODS) {
+            const op = pathObj[method] as OasOperation | undefined;
+            if (!op || typeof op !== 'object') continue;
+            operations.push({ path, method, operationId: op.operationId, summary: op.summary, description: op.description });
         }
-    } catch (uploadErr: any) {
-        console.warn('Artifact upload error (tool still created):', uploadErr.message);
     }
+    return operations;
+}
 
-    return { success: true, toolId };
+/**
+ * Tool name for an operation: its operationId (or method + path) reduced to letters,
+ * digits and underscores. `used` holds names already taken in the batch; clashes get _2, _3...
+ */
+export function toolNameForOperation(operation: OpenApiOperation, used: Set<string>): string {
+    const raw = operation.operationId || `${operation.method}_${operation.path}`;
+    const base = raw
+        .replace(/[^a-zA-Z0-9_]/g, '_')
+        .replace(/_+/g, '_')
+        .replace(/^[^a-zA-Z]+/, '')
+        .replace(/_$/, '') || 'operation';
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base}_${i}`;
+    used.add(name);
+    return name;
 }
 
-/** Derive WxO binding security from OpenAPI spec (x-ibm-security, components.securitySchemes, or security). */
-function deriveBindingSecurity(openApiSpec: any, op: any): any[] {
-    const explicit = openApiSpec['x-ibm-security'] ?? openApiSpec.binding?.openapi?.security;
-    if (Array.isArray(explicit) && explicit.length > 0) return explicit;
-    const schemes = openApiSpec.components?.securitySchemes ?? {};
-    const secRefs = op?.security ?? openApiSpec.security ?? [];
-    if (!Array.isArray(secRefs) || secRefs.length === 0) return [];
-    const flat: any[] = [];
-    for (const ref of secRefs) {
-        if (typeof ref !== 'object' || !ref) continue;
-        const name = Object.keys(ref)[0];
-        const scheme = schemes[name];
-        if (scheme?.type === 'apiKey') {
-            flat.push({
-                type: 'apiKey',
-                in: scheme.in || 'query',
-                name: scheme.name || 'apiKey'
-            });
-        } else if (scheme?.type === 'http' || scheme?.scheme === 'bearer') {
-            flat.push({
-                type: 'http',
-                scheme: scheme.scheme || 'bearer',
-                name: scheme.name || 'Authorization'
-            });
+/** Copy of the spec with only one operation under `paths` (path-level fields are kept). */
+export function singleOperationSpec(openApiSpec: OasDocument, operation: OpenApiOperation): OasDocument {
+    const pathObj = openApiSpec.paths?.[operation.path] || {};
+    const pathLevel: Record<string, unknown> = {};
+    Object.keys(pathObj).forEach(key => {
+        if (!TOOL_HTTP_METHODS.includes(key) && !['head', 'options', 'trace'].includes(key)) pathLevel[key] = pathObj[key];
+    });
+    return {
+        ...openApiSpec,
+        paths: { [operation.path]: { ...pathLevel, [operation.method]: pathObj[operation.method] } }
+    };
+}
+
+export interface OperationDeployResult {
+    operation: OpenApiOperation;
+    toolName: string;
+    success: boolean;
+    toolId?: string;
+    error?: string;
+}
+
+/**
+ * Create one tool per operation. Names come from operationId (see toolNameForOperation);
+ * each tool's artifact holds only its own operation. Operations are deployed one after
+ * another and a failure does not stop the batch. $refs are resolved once, for the whole spec.
+ * @throws SchemaRefError before anything is created if the spec has unresolvable $refs
+ */
+export async function deployOperations(
+    openApiSpec: OasDocument,
+    operations: OpenApiOperation[],
+    options: ResolveOptions & { onProgress?: (result: OperationDeployResult, index: number) => void } = {}
+): Promise<OperationDeployResult[]> {
+    openApiSpec = await resolveSpecRefs(openApiSpec, options);
+    const used = new Set<string>();
+    const results: OperationDeployResult[] = [];
+    for (const operation of operations) {
+        const toolName = toolNameForOperation(operation, used);
+        const toolSpec = {
+            name: toolName,
+            display_name: operation.summary || operation.operationId || toolName,
+            description: operation.description || operation.summary || openApiSpec.info?.description || 'No description',
+            tool_type: 'openapi',
+            permission: 'read_write'
+        };
+        let result: OperationDeployResult;
+        try {
+            const deployed = await deployResolvedSkill(toolSpec, singleOperationSpec(openApiSpec, operation));
+            result = { operation, toolName, success: true, toolId: deployed.toolId };
+        } catch (e) {
+            result = { operation, toolName, success: false, error: (e as Error).message };
         }
+        results.push(result);
+        options.onProgress?.(result, results.length - 1);
     }
-    return flat;
+    return results;
 }
 
-function buildToolSpec(toolSpec: any, openApiSpec: any): any {
-    const spec: any = {
+/**
+ * Build the tool create payload (binding, input_schema, output_schema) from one
+ * operation of an OpenAPI spec (the first one unless `operation` is given).
+ */
+export function buildToolSpec(toolSpec: Partial<Tool>, openApiSpec: OasDocument, operation?: OpenApiOperation): Partial<Tool> {
+    const spec: Partial<Tool> = {
         name: toolSpec.name,
-        display_name: openApiSpec.info?.['x-ibm-skill-name'] || openApiSpec.info?.title || toolSpec.name,
+        display_name: toolSpec.display_name || (openApiSpec.info?.['x-ibm-skill-name'] as string | undefined) || openApiSpec.info?.title || toolSpec.name,
         description: toolSpec.description,
         permission: toolSpec.permission || 'read_write',
         restrictions: toolSpec.restrictions || undefined,
         tags: toolSpec.tags || undefined
     };
 
-    // Extract the first operation from the OpenAPI spec
-    if (openApiSpec.paths) {
-        const pathKeys = Object.keys(openApiSpec.paths);
-        if (pathKeys.length > 0) {
-            const pathKey = pathKeys[0];
-            const pathObj = openApiSpec.paths[pathKey];
-            const methods = ['get', 'post', 'put', 'patch', 'delete'];
-
-            for (const method of methods) {
-                if (!pathObj[method]) continue;
-                const op = pathObj[method];
-
-                // Build binding
-                const servers = (openApiSpec.servers || []).map((s: any) =>
-                    typeof s === 'string' ? s : s.url
-                );
-
-                const connectionId = openApiSpec['x-ibm-connection-id'] ?? openApiSpec.binding?.openapi?.connection_id ?? null;
-                const security = deriveBindingSecurity(openApiSpec, op);
-                spec.binding = {
-                    openapi: {
-                        http_method: method.toUpperCase(),
-                        http_path: pathKey,
-                        security: security,
-                        servers: servers,
-                        connection_id: connectionId || null
-                    }
-                };
-
-                // Build input_schema from parameters. Each property MUST have "in" (query/path/etc)
-                // for tools like news_search - WxO maps these to HTTP params correctly.
-                const properties: any = {};
-                const required: string[] = [];
-                const usedKeys = new Set<string>();
-
-                if (op.parameters && op.parameters.length > 0) {
-                    op.parameters.forEach((p: any) => {
-                        const paramIn = p.in || 'query';
-                        const paramName = p.name;
-                        let propKey = paramName;
-                        if (usedKeys.has(propKey)) {
-                            propKey = `${paramIn}_${paramName}`;
-                        }
-                        usedKeys.add(propKey);
-                        const propSchema: any = {
-                            type: p.schema?.type || 'string',
-                            title: p.schema?.title ?? paramName,
-                            description: p.description || p.schema?.description || '',
-                            in: paramIn
-                        };
-                        if (p.schema?.default !== undefined && p.schema?.default !== null) {
-                            propSchema.default = p.schema.default;
-                        }
-                        if (propKey !== paramName) {
-                            propSchema.aliasName = paramName;
-                        }
-                        properties[propKey] = propSchema;
-                        if (p.required) {
-                            required.push(propKey);
-                        }
-                    });
+    // Use the requested operation, or the first one in the spec
+    const target = operation || listOperations(openApiSpec)[0];
+    const op = target ? openApiSpec.paths?.[target.path]?.[target.method] as OasOperation | undefined : undefined;
+    if (target && op) {
+        const pathKey = target.path;
+        const method = target.method;
+
+        // Build binding
+        const servers = (openApiSpec.servers || []).map((s: { url: string } | string) =>
+            typeof s === 'string' ? s : s.url
+        );
+
+        const binding = openApiSpec.binding as ToolBinding | undefined;
+        const connectionId = (openApiSpec['x-ibm-connection-id'] as string | undefined) ?? binding?.openapi?.connection_id ?? null;
+        const security = deriveBindingSecurity(openApiSpec, op);
+        spec.binding = {
+            openapi: {
+                http_method: method.toUpperCase(),
+                http_path: pathKey,
+                security: security as ToolSecurity[],
+                servers: servers,
+                connection_id: connectionId || null
+            }
+        };
+
+        // Build input_schema from parameters. Each property MUST have "in" (query/path/etc)
+        // for tools like news_search - WxO maps these to HTTP params correctly.
+        const properties: Record<string, JsonSchema> = {};
+        const required: string[] = [];
+        const usedKeys = new Set<string>();
+
+        if (op.parameters && op.parameters.length > 0) {
+            op.parameters.forEach(p => {
+                const paramIn = p.in || 'query';
+                const paramName = p.name;
+                let propKey = paramName;
+                if (usedKeys.has(propKey)) {
+                    propKey = `${paramIn}_${paramName}`;
                 }
-
-                spec.input_schema = {
-                    type: 'object',
-                    properties,
-                    required: required.length > 0 ? required : undefined
+                usedKeys.add(propKey);
+                const propSchema: JsonSchema = {
+                    // oneOf/anyOf schemas have no single type; keep the alternatives instead
+                    type: p.schema?.type || (p.schema?.oneOf || p.schema?.anyOf ? undefined : 'string'),
+                    title: p.schema?.title ?? paramName,
+                    description: p.description || p.schema?.description || '',
+                    in: paramIn
                 };
-
-                // Build output_schema from responses
-                if (op.responses?.['200']?.content?.['application/json']?.schema) {
-                    const responseSchema = op.responses['200'].content['application/json'].schema;
-                    spec.output_schema = {
-                        ...responseSchema,
-                        description: responseSchema.description || op.responses['200'].description || 'Success'
-                    };
+                if (p.schema?.default !== undefined && p.schema?.default !== null) {
+                    propSchema.default = p.schema.default;
+                }
+                if (p.schema?.enum) propSchema.enum = p.schema.enum;
+                if (p.schema?.items) propSchema.items = p.schema.items;
+                if (p.schema?.format) propSchema.format = p.schema.format;
+                if (p.schema?.oneOf) propSchema.oneOf = p.schema.oneOf;
+                if (p.schema?.anyOf) propSchema.anyOf = p.schema.anyOf;
+                if (propKey !== paramName) {
+                    propSchema.aliasName = paramName;
+                }
+                properties[propKey] = propSchema;
+                if (p.required) {
+                    required.push(propKey);
                 }
+            });
+        }
 
-                break; // Only first operation
-            }
+        // JSON request body: one __requestBody__ property holding the full body schema
+        // (nested objects, arrays, enums and required lists are kept as-is)
+        const body = jsonRequestBody(op);
+        if (body) {
+            const bodyProp: JsonSchema = { ...body.schema, in: 'body' };
+            if (!bodyProp.description && op.requestBody?.description) bodyProp.description = op.requestBody.description;
+            properties[REQUEST_BODY_PROPERTY] = bodyProp;
+            if (op.requestBody?.required) required.push(REQUEST_BODY_PROPERTY);
+        }
+
+        spec.input_schema = {
+            type: 'object',
+            properties,
+            required: required.length > 0 ? required : undefined
+        };
+
+        // Build output_schema from responses
+        if (op.responses?.['200']?.content?.['application/json']?.schema) {
+            const responseSchema = op.responses['200'].content['application/json'].schema;
+            spec.output_schema = {
+                ...responseSchema,
+                description: responseSchema.description || op.responses['200'].description || 'Success'
+            };
         }
     }
 
@@ -503,13 +797,18 @@ function buildToolSpec(toolSpec: any, openApiSpec: any): any {
 }
 
 function createOpenApiZip(openApiSpec: any): Promise<Buffer> {
+    return createArtifactZip({ 'skill_v2.json': JSON.stringify(openApiSpec, null, 2) });
+}
+
+/** Zip tool artifact files (name → contents) together with the `bundle-format` marker. */
+export function createArtifactZip(files: Record<string, string | Buffer>): Promise<Buffer> {
     return new Promise((resolve, reject) => {
         const archive = archiver('zip', { zlib: { level: 9 } });
         const chunks: Buffer[] = [];
         archive.on('data', (chunk: Buffer) => chunks.push(chunk));
         archive.on('error', (err: any) => reject(err));
         archive.on('end', () => resolve(Buffer.concat(chunks)));
-        archive.append(JSON.stringify(openApiSpec, null, 2), { name: 'skill_v2.json' });
+        Object.keys(files).forEach(name => archive.append(files[name], { name }));
         archive.append('2.0.0\n', { name: 'bundle-format' });
         archive.finalize();
     });
@@ -0,0 +1,215 @@
+/**
+ * WxO Builder - Tool History
+ * Local snapshots of tool definitions, recorded whenever a tool is created, saved, replaced,
+ * restored or deleted from the extension, so earlier versions can be compared and restored.
+ *
+ * Snapshots live in the extension's workspace storage (global storage when no folder is open),
+ * one file per profile and tool name: tool-history/<profile>/<tool name>.json. The name is the
+ * key because replacing or re-creating a tool gives it a new ID. At most MAX_SNAPSHOTS are kept
+ * per tool, oldest dropped first.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { getConfig } from './client';
+import { Scope } from './profiles';
+import { getSkill, updateSkill, iterateSkills } from './skills';
+import { collectAll } from './pagination';
+import { WxoApiError } from './errors';
+import { Tool } from './types';
+import { canonicalJson, createToolFromDefinition, executeToolReplacement, immutableChanges, planToolReplacement, toolDefinition, ToolReplacementPlan } from './toolReplace';
+
+const HISTORY_FOLDER = 'tool-history';
+const MAX_SNAPSHOTS = 50;
+
+/** 'observed' is the tenant state found before a change, when history did not have it yet. */
+export type SnapshotAction = 'observed' | 'create' | 'update' | 'replace' | 'restore' | 'delete';
+
+export interface ToolSnapshot {
+    id: string;
+    /** ISO timestamp. */
+    timestamp: string;
+    action: SnapshotAction;
+    /** OS user that made the change. */
+    author: string;
+    profile: string;
+    scope: Scope;
+    toolId: string;
+    toolName: string;
+    /** The tool's definition fields (see toolDefinition). */
+    definition: Partial<Tool>;
+}
+
+export interface ToolHistory {
+    toolName: string;
+    /** Oldest first. */
+    snapshots: ToolSnapshot[];
+}
+
+let storageRoot: vscode.Uri | undefined;
+const changeEmitter = new vscode.EventEmitter<void>();
+
+/** Fires whenever a snapshot is recorded or a history is deleted. */
+export const onDidChangeToolHistory = changeEmitter.event;
+
+/** Wire up the storage folder. Called once from activate(). */
+export function initToolHistory(storageUri: vscode.Uri): void {
+    storageRoot = storageUri;
+}
+
+function safeFileName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9_.-]/g, '_') || '_';
+}
+
+function profileFolder(): vscode.Uri | undefined {
+    return storageRoot ? vscode.Uri.joinPath(storageRoot, HISTORY_FOLDER, safeFileName(getConfig().profileName)) : undefined;
+}
+
+function historyFile(toolName: string): vscode.Uri | undefined {
+    const folder = profileFolder();
+    return folder ? vscode.Uri.joinPath(folder, `${safeFileName(toolName)}.json`) : undefined;
+}
+
+async function readHistory(file: vscode.Uri): Promise<ToolHistory | undefined> {
+    try {
+        const history = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8'));
+        return history && Array.isArray(history.snapshots) ? history : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function currentAuthor(): string {
+    try {
+        return os.userInfo().username;
+    } catch {
+        return process.env.USER || process.env.USERNAME || 'unknown';
+    }
+}
+
+async function recordToolSnapshot(tool: Tool, action: SnapshotAction): Promise<void> {
+    const file = historyFile(tool.name);
+    if (!file) return;
+    const history: ToolHistory = (await readHistory(file)) || { toolName: tool.name, snapshots: [] };
+    const definition = toolDefinition(tool);
+    const latest = history.snapshots[history.snapshots.length - 1];
+    if (action === 'observed' && latest && latest.action !== 'delete' && canonicalJson(latest.definition) === canonicalJson(definition)) {
+        return;
+    }
+    const { profileName, scope } = getConfig();
+    history.snapshots.push({
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: new Date().toISOString(),
+        action,
+        author: currentAuthor(),
+        profile: profileName,
+        scope,
+        toolId: tool.id,
+        toolName: tool.name,
+        definition
+    });
+    history.snapshots.splice(0, Math.max(0, history.snapshots.length - MAX_SNAPSHOTS));
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(file, '..'));
+    await vscode.workspace.fs.writeFile(file, Buffer.from(JSON.stringify(history, null, 2), 'utf8'));
+    changeEmitter.fire();
+}
+
+/**
+ * Record a snapshot of a tool (fetched first when given an ID). History is a side record:
+ * failures are logged, never thrown, so they cannot fail the save or delete that triggered them.
+ */
+export async function snapshotTool(tool: Tool | string, action: SnapshotAction): Promise<void> {
+    try {
+        await recordToolSnapshot(typeof tool === 'string' ? await getSkill(tool) : tool, action);
+    } catch (e) {
+        console.warn(`[WxO] Tool history: could not record ${action}:`, (e as Error).message);
+    }
+}
+
+/** Histories of the active profile, sorted by tool name. */
+export async function listToolHistories(): Promise<ToolHistory[]> {
+    const folder = profileFolder();
+    if (!folder) return [];
+    let entries: [string, vscode.FileType][];
+    try {
+        entries = await vscode.workspace.fs.readDirectory(folder);
+    } catch {
+        return [];
+    }
+    const histories: ToolHistory[] = [];
+    for (const [name, type] of entries) {
+        if (type !== vscode.FileType.File || !name.endsWith('.json')) continue;
+        const history = await readHistory(vscode.Uri.joinPath(folder, name));
+        if (history && history.snapshots.length > 0) histories.push(history);
+    }
+    return histories.sort((a, b) => a.toolName.localeCompare(b.toolName));
+}
+
+export async function getToolHistory(toolName: string): Promise<ToolHistory | undefined> {
+    const file = historyFile(toolName);
+    return file ? readHistory(file) : undefined;
+}
+
+export async function deleteToolHistory(toolName: string): Promise<void> {
+    const file = historyFile(toolName);
+    if (!file) return;
+    await vscode.workspace.fs.delete(file);
+    changeEmitter.fire();
+}
+
+/** Short label for pickers and diff titles, e.g. "19/10/2026, 14:03:11 (update)". */
+export function snapshotLabel(snapshot: ToolSnapshot): string {
+    return `${new Date(snapshot.timestamp).toLocaleString()} (${snapshot.action})`;
+}
+
+// ─── Restore ──────────────────────────────────────────────────────────────────
+
+export interface SnapshotRestorePlan {
+    snapshot: ToolSnapshot;
+    /** The tenant tool the snapshot is restored onto; undefined when it no longer exists. */
+    current?: Tool;
+    /** Set when the snapshot's binding or schemas differ, so restoring replaces the tool. */
+    replacement?: ToolReplacementPlan;
+}
+
+/** The tenant tool a snapshot belongs to: by ID, else by name (it may have been replaced). */
+export async function findSnapshotTool(snapshot: ToolSnapshot, signal?: AbortSignal): Promise<Tool | undefined> {
+    try {
+        return await getSkill(snapshot.toolId, signal);
+    } catch (e) {
+        if (!(e instanceof WxoApiError && e.status === 404)) throw e;
+    }
+    const tools = await collectAll(iterateSkills(undefined, signal));
+    return tools.find(tool => tool.name === snapshot.toolName);
+}
+
+/** Work out how a snapshot would be restored: update in place, replace, or re-create. Nothing is changed. */
+export async function planSnapshotRestore(snapshot: ToolSnapshot, signal?: AbortSignal): Promise<SnapshotRestorePlan> {
+    const current = await findSnapshotTool(snapshot, signal);
+    if (current && immutableChanges(current, snapshot.definition).length > 0) {
+        return { snapshot, current, replacement: await planToolReplacement(current, snapshot.definition, signal) };
+    }
+    return { snapshot, current };
+}
+
+/** Restore a snapshot and record the result. Resolves with the ID of the restored tool. */
+export async function executeSnapshotRestore(plan: SnapshotRestorePlan, onProgress?: (step: string) => void): Promise<string> {
+    const { snapshot, current, replacement } = plan;
+    let toolId: string;
+    if (current) await snapshotTool(current, 'observed');
+    if (replacement) {
+        toolId = (await executeToolReplacement(replacement, onProgress)).newToolId;
+    } else if (current) {
+        onProgress?.(`Updating ${current.name}`);
+        await updateSkill(current.id, snapshot.definition);
+        toolId = current.id;
+    } else {
+        onProgress?.(`Re-creating ${snapshot.toolName}`);
+        toolId = await createToolFromDefinition(snapshot.definition, snapshot.toolName);
+    }
+    await snapshotTool(toolId, 'restore');
+    return toolId;
+}
@@ -0,0 +1,240 @@
+/**
+ * WxO Builder - Tool Replacement
+ * Applies edits the tools API cannot make in place (binding, input_schema, output_schema —
+ * which includes the server URL and connection_id of the binding) by replacing the tool:
+ *   1. create the edited tool under a temporary name
+ *   2. point every agent that uses the old tool at the new one
+ *   3. delete the old tool
+ *   4. rename the new tool from the temporary name to the (edited) tool name
+ *
+ * planToolReplacement works out the steps without changing anything, so they can be shown
+ * first. If a step before the delete fails, the completed steps are rolled back; if only the
+ * rename fails, ToolRenameError carries the finished replacement. The result keeps the old
+ * definition, so a finished replacement can be undone by replacing back.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import { createToolRecord, uploadToolArtifact, createArtifactZip, deleteSkill, updateSkill, getSkill, skillToOas, toToolName } from './skills';
+import { iterateAgents, updateAgent } from './agents';
+import { collectAll } from './pagination';
+import { Tool, ToolBinding, Agent } from './types';
+
+/** Fields that cannot be changed after a tool is created. */
+export const IMMUTABLE_TOOL_FIELDS = ['binding', 'input_schema', 'output_schema'];
+
+/** Fields copied into the replacement tool; server-managed fields (id, timestamps) are left out. */
+const DEFINITION_FIELDS = ['name', 'display_name', 'description', 'permission', 'restrictions', 'tags', ...IMMUTABLE_TOOL_FIELDS];
+
+export interface ToolReplacementPlan {
+    oldTool: Tool;
+    /** Definition the replacement is created from. */
+    newSpec: Partial<Tool> & { name: string };
+    /** Immutable fields that differ, e.g. `binding.openapi.servers`, `input_schema`. */
+    changes: string[];
+    /** Agents that use the old tool and will be moved to the new one. */
+    agents: Agent[];
+    /** Human-readable steps, in order. */
+    steps: string[];
+}
+
+export interface ToolReplacementResult {
+    newToolId: string;
+    /** Names of the agents that now use the new tool. */
+    reboundAgents: string[];
+    /** The old tool's definition, for undo (replace back). */
+    previousDefinition: Partial<Tool>;
+}
+
+/**
+ * The old tool was deleted and its agents use the new one, but renaming the new tool from its
+ * temporary name failed. `result` is the finished replacement; the tool is `temporaryName`.
+ */
+export class ToolRenameError extends Error {
+    constructor(message: string, readonly result: ToolReplacementResult, readonly temporaryName: string) {
+        super(message);
+        this.name = 'ToolRenameError';
+    }
+}
+
+/** The definition fields of a tool, without server-managed fields. */
+export function toolDefinition(tool: Partial<Tool> | undefined): Partial<Tool> {
+    const definition: Partial<Tool> = {};
+    DEFINITION_FIELDS.forEach(field => {
+        if (tool?.[field] !== undefined && tool[field] !== null) definition[field] = tool[field];
+    });
+    return definition;
+}
+
+/**
+ * Create a tool from a definition (as kept by toolDefinition) and upload its OpenAPI artifact.
+ * Artifact upload failures are only logged, as in deploySkill. Resolves with the new tool ID.
+ */
+export async function createToolFromDefinition(definition: Partial<Tool>, name = definition.name): Promise<string> {
+    if (definition.binding?.python) {
+        throw new Error('Python tools cannot be re-created from a definition; run Create Python Tool on the .py file instead.');
+    }
+    const created = await createToolRecord({ ...definition, name });
+    const toolId = created.id;
+    try {
+        const oas = skillToOas({ ...definition, id: toolId }, { copy: false });
+        await uploadToolArtifact(toolId, await createArtifactZip({ 'skill_v2.json': JSON.stringify(oas, null, 2) }));
+    } catch (uploadErr) {
+        console.warn('Artifact upload error (tool still created):', (uploadErr as Error).message);
+    }
+    return toolId;
+}
+
+/** JSON with sorted keys, so key order does not count as a change. */
+export function canonicalJson(value: unknown): string {
+    const sort = (v: unknown): unknown => {
+        if (Array.isArray(v)) return v.map(sort);
+        if (v && typeof v === 'object') {
+            const obj = v as Record<string, unknown>;
+            const out: Record<string, unknown> = {};
+            Object.keys(obj).sort().forEach(k => { if (obj[k] !== undefined) out[k] = sort(obj[k]); });
+            return out;
+        }
+        return v;
+    };
+    return JSON.stringify(sort(value));
+}
+
+/**
+ * Immutable fields that differ between the tenant's tool and an edited copy. Binding
+ * changes are reported per key (`binding.openapi.servers`, `binding.openapi.connection_id`).
+ */
+export function immutableChanges(current: Tool, edited: Partial<Tool> | undefined): string[] {
+    const changes: string[] = [];
+    for (const field of IMMUTABLE_TOOL_FIELDS) {
+        if (edited?.[field] === undefined || canonicalJson(edited[field]) === canonicalJson(current[field])) continue;
+        if (field !== 'binding') {
+            changes.push(field);
+            continue;
+        }
+        const before: ToolBinding = current.binding || {};
+        const after: ToolBinding = edited.binding || {};
+        for (const kind of Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))) {
+            const a = (before[kind] || {}) as Record<string, unknown>;
+            const b = (after[kind] || {}) as Record<string, unknown>;
+            if (typeof a !== 'object' || typeof b !== 'object') {
+                if (canonicalJson(a) !== canonicalJson(b)) changes.push(`binding.${kind}`);
+                continue;
+            }
+            for (const key of Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))) {
+                if (canonicalJson(a[key]) !== canonicalJson(b[key])) changes.push(`binding.${kind}.${key}`);
+            }
+        }
+    }
+    return changes;
+}
+
+function toolLabel(tool: { display_name?: string; name?: string; id?: string }): string {
+    return tool.display_name || tool.name || tool.id || 'tool';
+}
+
+/**
+ * Work out how to replace `oldTool` with its edited definition. Nothing is changed.
+ * @throws Error for Python tools, whose code cannot be re-uploaded from here
+ */
+export async function planToolReplacement(oldTool: Tool, edited: Partial<Tool> | undefined, signal?: AbortSignal): Promise<ToolReplacementPlan> {
+    if (oldTool.binding?.python) {
+        throw new Error('Python tools cannot be replaced from the editor; run Create Python Tool on the updated .py file instead.');
+    }
+    const merged: Tool = { ...oldTool };
+    DEFINITION_FIELDS.forEach(field => {
+        if (edited?.[field] !== undefined) merged[field] = edited[field];
+    });
+    const newSpec = { ...toolDefinition(merged), name: toToolName(merged.name) };
+
+    const agents = (await collectAll(iterateAgents(100, signal)))
+        .filter(agent => Array.isArray(agent.tools) && agent.tools.includes(oldTool.id));
+    const label = toolLabel(oldTool);
+    const steps = [
+        `Create a new "${label}" tool with the edited definition (temporary name ${tempName(newSpec.name)})`,
+        ...agents.map(agent => `Move agent "${agent.display_name || agent.name}" from the old tool to the new one`),
+        `Delete the old tool (${oldTool.id})`,
+        `Rename the new tool to ${newSpec.name}`
+    ];
+    return { oldTool, newSpec, changes: immutableChanges(oldTool, edited), agents, steps };
+}
+
+function tempName(name: string): string {
+    return `${name}_replacement`;
+}
+
+/**
+ * Run a replacement plan. Failures before the old tool is deleted roll back the steps
+ * already done (agents re-pointed, new tool deleted) and rethrow.
+ */
+export async function executeToolReplacement(
+    plan: ToolReplacementPlan,
+    onProgress?: (step: string) => void
+): Promise<ToolReplacementResult> {
+    const { oldTool, newSpec } = plan;
+    const undo: Array<() => Promise<unknown>> = [];
+    let step = plan.steps[0];
+    let newToolId: string | undefined;
+    const reboundAgents: string[] = [];
+
+    try {
+        onProgress?.(step);
+        const createdId = await createToolFromDefinition(newSpec, tempName(newSpec.name));
+        newToolId = createdId;
+        undo.push(() => deleteSkill(createdId));
+
+        for (let i = 0; i < plan.agents.length; i++) {
+            const agent = plan.agents[i];
+            step = plan.steps[1 + i];
+            onProgress?.(step);
+            const before = agent.tools || [];
+            await updateAgent(agent.id, { tools: before.map(id => id === oldTool.id ? createdId : id) });
+            undo.push(() => updateAgent(agent.id, { tools: before }));
+            reboundAgents.push(agent.display_name || agent.name);
+        }
+
+        step = plan.steps[plan.steps.length - 2];
+        onProgress?.(step);
+        await deleteSkill(oldTool.id);
+    } catch (e) {
+        const failures: string[] = [];
+        for (const action of undo.reverse()) {
+            try {
+                await action();
+            } catch (rollbackErr) {
+                failures.push((rollbackErr as Error).message);
+            }
+        }
+        const rollback = failures.length ? `Rollback was incomplete: ${failures.join('; ')}` : 'All changes were rolled back.';
+        throw new Error(`Replacing "${toolLabel(oldTool)}" failed at "${step}": ${(e as Error).message}. ${rollback}`);
+    }
+
+    // The old tool is gone; from here on the replacement stays even if the rename fails
+    const result: ToolReplacementResult = { newToolId, reboundAgents, previousDefinition: toolDefinition(oldTool) };
+    step = plan.steps[plan.steps.length - 1];
+    onProgress?.(step);
+    try {
+        await updateSkill(newToolId, {
+            name: newSpec.name,
+            display_name: newSpec.display_name,
+            description: newSpec.description,
+            permission: newSpec.permission,
+            restrictions: newSpec.restrictions,
+            tags: newSpec.tags
+        });
+    } catch (e) {
+        throw new ToolRenameError(
+            `The tool was replaced (new ID ${newToolId}) but renaming it to ${newSpec.name} failed: ${(e as Error).message}`,
+            result,
+            tempName(newSpec.name)
+        );
+    }
+    return result;
+}
+
+/** Replace the tool created by `result` with the definition it replaced. */
+export async function planReplacementUndo(result: ToolReplacementResult, signal?: AbortSignal): Promise<ToolReplacementPlan> {
+    const current = await getSkill(result.newToolId, signal);
+    return planToolReplacement(current, result.previousDefinition, signal);
+}
@@ -0,0 +1,231 @@
+/**
+ * WxO Builder - API Types
+ * TypeScript shapes for the Watson Orchestrate resources the extension reads.
+ *
+ * Only the fields the extension uses are listed; the API returns more, so every
+ * resource keeps an index signature and extra fields pass through untouched.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+
+/** JSON Schema fragment as used by tool input/output schemas. */
+export interface JsonSchema {
+    type?: string | string[];
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+    description?: string;
+    [key: string]: unknown;
+}
+
+/** Flattened security entry on an OpenAPI tool binding, e.g. { type: 'apiKey', in: 'query', name: 'appid' }. */
+export interface ToolSecurity {
+    type: string;
+    in?: string;
+    name?: string;
+    scheme?: string;
+    [key: string]: unknown;
+}
+
+export interface OpenApiBinding {
+    http_method?: string;
+    http_path?: string;
+    servers?: string[];
+    security?: ToolSecurity[];
+    connection_id?: string | null;
+    [key: string]: unknown;
+}
+
+export interface ToolBinding {
+    openapi?: OpenApiBinding;
+    python?: { function?: string; requirements?: string[]; [key: string]: unknown };
+    [key: string]: unknown;
+}
+
+/** A tool (skill). Flows are tools with type "flow" / "workflow". GET /v1/orchestrate/tools */
+export interface Tool {
+    id: string;
+    name: string;
+    display_name?: string;
+    description?: string;
+    type?: string;
+    permission?: string;
+    restrictions?: string;
+    tags?: string[];
+    input_schema?: JsonSchema;
+    output_schema?: JsonSchema;
+    binding?: ToolBinding;
+    [key: string]: unknown;
+}
+
+/** GET /v1/orchestrate/agents */
+export interface Agent {
+    id: string;
+    name: string;
+    display_name?: string;
+    description?: string;
+    agent_type?: string;
+    llm?: string;
+    model_id?: string;
+    instructions?: string;
+    style?: string;
+    tools?: string[];
+    [key: string]: unknown;
+}
+
+/** Configured application connection. GET /v1/orchestrate/connections/applications */
+export interface Connection {
+    app_id: string;
+    connection_id?: string;
+    security_scheme?: string;
+    auth_type?: string;
+    environment?: string;
+    preference?: string;
+    credentials_entered?: boolean;
+    [key: string]: unknown;
+}
+
+/** Catalog application connector. GET /v1/orchestrate/catalog/applications */
+export interface Connector {
+    name?: string;
+    group_name?: string;
+    catalog_ref_id?: string;
+    app_id?: string;
+    ids?: string[];
+    [key: string]: unknown;
+}
+
+/** Response of POST /v1/orchestrate/runs */
+export interface Run {
+    thread_id?: string;
+    run_id?: string;
+    id?: string;
+    status?: string;
+    [key: string]: unknown;
+}
+
+/** One block of structured message content (text, tool_use, tool_result, ...). */
+export interface MessageContent {
+    type: string;
+    text?: string | { value: string };
+    content?: unknown;
+    output?: unknown;
+    result?: unknown;
+    [key: string]: unknown;
+}
+
+/** GET /v1/orchestrate/threads/{id}/messages */
+export interface Message {
+    id?: string;
+    role: string;
+    content: string | MessageContent[];
+    [key: string]: unknown;
+}
+
+/** GET /v1/models/list */
+export interface ModelResource {
+    id: string;
+    label?: string;
+    lifecycle?: Array<{ id: string; start_date?: string | null }>;
+    type?: string;
+    tags?: string[];
+}
+
+// ─── OpenAPI documents ────────────────────────────────────────────────────────
+// The parts of an OpenAPI 3 document that tools are built from. Extensions (x-ibm-*)
+// and fields the extension does not read pass through the index signatures.
+
+/** A request body or response content entry, keyed by media type. */
+export interface OasMediaType {
+    schema?: JsonSchema;
+    example?: unknown;
+    examples?: Record<string, { value?: unknown; [key: string]: unknown }>;
+    [key: string]: unknown;
+}
+
+export interface OasParameter {
+    name: string;
+    in: string;
+    required?: boolean;
+    description?: string;
+    schema?: JsonSchema;
+    [key: string]: unknown;
+}
+
+export interface OasRequestBody {
+    description?: string;
+    required?: boolean;
+    content?: Record<string, OasMediaType>;
+    [key: string]: unknown;
+}
+
+export interface OasResponse {
+    description?: string;
+    content?: Record<string, OasMediaType>;
+    [key: string]: unknown;
+}
+
+/** Security requirement: scheme name → required scopes. */
+export type OasSecurityRequirement = Record<string, string[]>;
+
+/** An OAuth2 flow of a security scheme. */
+export interface OasOAuthFlow {
+    authorizationUrl?: string;
+    tokenUrl?: string;
+    refreshUrl?: string;
+    scopes?: Record<string, string>;
+    [key: string]: unknown;
+}
+
+/** An entry of components.securitySchemes. */
+export interface OasSecurityScheme {
+    type?: string;
+    description?: string;
+    /** apiKey */
+    in?: string;
+    name?: string;
+    /** http */
+    scheme?: string;
+    bearerFormat?: string;
+    /** oauth2, by flow type */
+    flows?: Record<string, OasOAuthFlow>;
+    openIdConnectUrl?: string;
+    [key: string]: unknown;
+}
+
+export interface OasOperation {
+    operationId?: string;
+    summary?: string;
+    description?: string;
+    parameters?: OasParameter[];
+    requestBody?: OasRequestBody;
+    responses?: Record<string, OasResponse>;
+    security?: OasSecurityRequirement[];
+    [key: string]: unknown;
+}
+
+/** Path item: operations by lower-case HTTP method, plus parameters shared by them. */
+export interface OasPathItem {
+    parameters?: OasParameter[];
+    get?: OasOperation;
+    put?: OasOperation;
+    post?: OasOperation;
+    delete?: OasOperation;
+    patch?: OasOperation;
+    head?: OasOperation;
+    options?: OasOperation;
+    trace?: OasOperation;
+    [key: string]: unknown;
+}
+
+export interface OasDocument {
+    openapi?: string;
+    info?: { title?: string; description?: string; version?: string; [key: string]: unknown };
+    servers?: Array<{ url: string; description?: string; variables?: Record<string, { default?: string; [key: string]: unknown }>; [key: string]: unknown }>;
+    paths?: Record<string, OasPathItem>;
+    components?: { schemas?: Record<string, JsonSchema>; securitySchemes?: Record<string, OasSecurityScheme>; [key: string]: unknown };
+    security?: OasSecurityRequirement[];
+    [key: string]: unknown;
+}
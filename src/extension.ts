@@ -9,19 +9,46 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
-import { promisify } from 'util';
 import { SkillsTreeProvider } from './views/skillsView.js';
 import { AgentsTreeProvider } from './views/agentsView.js';
 import { FlowsTreeProvider } from './views/flowsView.js';
 import { ConnectionsTreeProvider } from './views/connectionsView.js';
 import { DiagnosticsTreeProvider } from './views/diagnosticsView.js';
-
-const readFile = promisify(fs.readFile);
+import { ToolHistoryTreeProvider, ToolHistoryItem, ToolSnapshotItem } from './views/toolHistoryView.js';
+import { ProfileStatusBar, pickProfile } from './views/profileStatusBar.js';
+import { clearTokenCache, getConfig, resolveApiKey, describeApiKeySource, isAbortError } from './api/client';
+import { resetHttpAgents } from './api/http';
+import { activateMockProfile } from './api/profiles';
+import { stopMockBackend } from './mock/mockBackend';
+import { initAuthStore, migratePlaintextApiKeys, storeApiKey, deleteStoredApiKey, onDidChangeStoredApiKey } from './api/authStore';
+import { registerToolTests, runAllToolTests, runToolTestsAfterDeploy } from './testing/testController';
+import { NetworkPanel, exportNetworkHar } from './panels/NetworkPanel';
+import { syncToolsWithWorkspace } from './sync/toolSync';
+import { readPythonToolFile, deployPythonTool } from './api/pythonTools';
+import { deleteSkill, getSkill } from './api/skills';
+import { toolDefinition } from './api/toolReplace';
+import { Tool } from './api/types';
+import { SkillEditorPanel } from './panels/SkillEditorPanel';
+import { runTemplateWizard } from './templates/templateWizard';
+import { initToolHistory, onDidChangeToolHistory, snapshotTool, getToolHistory, deleteToolHistory, snapshotLabel, findSnapshotTool, planSnapshotRestore, executeSnapshotRestore, ToolSnapshot } from './api/toolHistory';
 
 export async function activate(context: vscode.ExtensionContext) {
     console.log('WxO Builder is now active!');
 
+    // API keys live in SecretStorage; move any plaintext settings there first
+    initAuthStore(context.secrets);
+    try {
+        const migrated = await migratePlaintextApiKeys();
+        if (migrated > 0) {
+            vscode.window.showInformationMessage(`WxO Builder moved ${migrated} API key(s) from settings.json to secure storage.`);
+        }
+    } catch (e) {
+        console.error('[WxO] API key migration failed:', e);
+    }
+
+    // Tool snapshots go to workspace storage, or global storage when no folder is open
+    initToolHistory(context.storageUri || context.globalStorageUri);
+
     // Register Tree Data Providers
     const skillsProvider = new SkillsTreeProvider();
     vscode.window.registerTreeDataProvider('watsonx-skills', skillsProvider);
@@ -38,9 +65,86 @@ export async function activate(context: vscode.ExtensionContext) {
     const diagnosticsProvider = new DiagnosticsTreeProvider();
     vscode.window.registerTreeDataProvider('watsonx-diagnostics', diagnosticsProvider);
 
+    const toolHistoryProvider = new ToolHistoryTreeProvider();
+    vscode.window.registerTreeDataProvider('watsonx-tool-history', toolHistoryProvider);
+    context.subscriptions.push(onDidChangeToolHistory(() => toolHistoryProvider.refresh()));
+
+    // .wxotest suites in the Test Explorer
+    registerToolTests(context);
+
+    // Profile status bar: switching profiles (or editing connection settings) drops the
+    // cached token and reloads every view against the new tenant.
+    const profileStatusBar = new ProfileStatusBar();
+    context.subscriptions.push(profileStatusBar);
+
+    const refreshAllViews = () => {
+        skillsProvider.refresh();
+        agentsProvider.refresh();
+        flowsProvider.refresh();
+        connectionsProvider.refresh();
+        diagnosticsProvider.refresh();
+        toolHistoryProvider.refresh();
+    };
+
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+        const connectionSettings = ['apiKey', 'instanceUrl', 'scope', 'profiles', 'activeProfile'];
+        if (connectionSettings.some(key => e.affectsConfiguration(`wxo-builder.${key}`))) {
+            clearTokenCache();
+            profileStatusBar.update();
+            refreshAllViews();
+        }
+        // Proxy / TLS changes: rebuild the shared agents so the next request picks them up
+        if (e.affectsConfiguration('http') || e.affectsConfiguration('wxo-builder.caCertificates')) {
+            resetHttpAgents();
+        }
+    }));
+    context.subscriptions.push(onDidChangeStoredApiKey(() => {
+        clearTokenCache();
+        refreshAllViews();
+    }));
+
     // Register Commands
-    let disposable = vscode.commands.registerCommand('watsonx.configure', () => {
-        vscode.commands.executeCommand('workbench.action.openSettings', 'wxo-builder');
+    let disposable = vscode.commands.registerCommand('watsonx.configure', async () => {
+        const { profileName } = getConfig();
+        const { source } = await resolveApiKey();
+        const choice = await vscode.window.showQuickPick([
+            { label: '$(key) Set API Key', description: `current: ${describeApiKeySource(source)}`, action: 'setApiKey' },
+            { label: '$(cloud) Switch Profile', description: `active: ${profileName}`, action: 'switchProfile' },
+            { label: '$(settings-gear) Open Settings', action: 'openSettings' }
+        ], {
+            title: 'Configure WxO Builder',
+            placeHolder: `Profile "${profileName}" — API key from ${describeApiKeySource(source)}`
+        });
+        if (choice?.action === 'setApiKey') {
+            vscode.commands.executeCommand('watsonx.setApiKey');
+        } else if (choice?.action === 'switchProfile') {
+            vscode.commands.executeCommand('watsonx.switchProfile');
+        } else if (choice?.action === 'openSettings') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'wxo-builder');
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand('watsonx.setApiKey', async () => {
+        const { profileName } = getConfig();
+        const value = await vscode.window.showInputBox({
+            title: `Set API Key — profile "${profileName}"`,
+            prompt: 'Stored in VS Code secret storage (OS keychain), not in settings.json. Leave empty to remove the stored key.',
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (value === undefined) return;
+        try {
+            if (value.trim()) {
+                await storeApiKey(profileName, value.trim());
+                vscode.window.showInformationMessage(`API key for profile "${profileName}" saved to secure storage.`);
+            } else {
+                await deleteStoredApiKey(profileName);
+                vscode.window.showInformationMessage(`Stored API key for profile "${profileName}" removed.`);
+            }
+        } catch (e) {
+            vscode.window.showErrorMessage(`Failed to store API key: ${(e as Error).message}`);
+        }
     });
     context.subscriptions.push(disposable);
 
@@ -49,12 +153,23 @@ export async function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(disposable);
 
+    disposable = vscode.commands.registerCommand('watsonx.switchProfile', async () => {
+        // The configuration listener above clears the token and refreshes the views
+        const changed = await pickProfile();
+        if (changed) {
+            vscode.window.showInformationMessage(`Switched WxO profile. Reloading resources...`);
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand('watsonx.useMockBackend', async () => {
+        await activateMockProfile();
+        vscode.window.showInformationMessage('Switched to the mock backend. Tools, agents and connections are served locally and reset when VS Code restarts.');
+    });
+    context.subscriptions.push(disposable);
+
     disposable = vscode.commands.registerCommand('watsonx.refreshSkills', () => {
-        skillsProvider.refresh();
-        agentsProvider.refresh();
-        flowsProvider.refresh();
-        connectionsProvider.refresh();
-        diagnosticsProvider.refresh();
+        refreshAllViews();
         vscode.window.showInformationMessage('Refreshing Watson Orchestrate resources...');
     });
     context.subscriptions.push(disposable);
@@ -65,6 +180,16 @@ export async function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(disposable);
 
+    // "Load more..." tree nodes (not contributed to the palette)
+    disposable = vscode.commands.registerCommand('watsonx.loadMoreSkills', () => skillsProvider.loadMore());
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand('watsonx.loadMoreAgents', () => agentsProvider.loadMore());
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand('watsonx.loadMoreConnectors', () => connectionsProvider.loadMoreConnectors());
+    context.subscriptions.push(disposable);
+
     disposable = vscode.commands.registerCommand('watsonx.deleteConnection', async (node: any) => {
         if (node && node.appId) {
             const confirm = await vscode.window.showWarningMessage(
@@ -113,23 +238,103 @@ export async function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(disposable);
 
+    // Pick a template, fill in its {{variables}} and open the result in the tool editor
+    disposable = vscode.commands.registerCommand('watsonx.createToolFromTemplate', async () => {
+        try {
+            const result = await runTemplateWizard();
+            if (!result) return;
+            await SkillEditorPanel.render(context.extensionUri, null, result.definition, result.template.file ? vscode.Uri.file(result.template.file) : undefined);
+        } catch (e) {
+            vscode.window.showErrorMessage(`Create Tool from Template failed: ${(e as Error).message}`);
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    // Python @tool functions: from the explorer context menu, the active editor or a file picker
+    disposable = vscode.commands.registerCommand('watsonx.createPythonTool', async (uri?: vscode.Uri) => {
+        if (!uri) {
+            const active = vscode.window.activeTextEditor?.document;
+            if (active && active.languageId === 'python' && active.uri.scheme === 'file') {
+                uri = active.uri;
+            } else {
+                const picked = await vscode.window.showOpenDialog({
+                    canSelectMany: false,
+                    openLabel: 'Create Python Tool',
+                    filters: { 'Python': ['py'] }
+                });
+                uri = picked?.[0];
+            }
+        }
+        if (!uri) return;
+        try {
+            const toolFile = await readPythonToolFile(uri.fsPath);
+            const fileName = path.basename(uri.fsPath);
+            if (toolFile.tools.length === 0) {
+                vscode.window.showWarningMessage(`No @tool functions found in ${fileName}.`);
+                return;
+            }
+            let tool = toolFile.tools[0];
+            if (toolFile.tools.length > 1) {
+                const pick = await vscode.window.showQuickPick(
+                    toolFile.tools.map(t => ({
+                        label: t.name,
+                        description: `${t.functionName}() · line ${t.line}`,
+                        detail: t.description,
+                        tool: t
+                    })),
+                    { title: `Create Python Tool from ${fileName}`, placeHolder: 'Select the @tool function to deploy' }
+                );
+                if (!pick) return;
+                tool = pick.tool;
+            }
+            const inputs = tool.parameters.map(p => p.name).join(', ') || 'none';
+            const requirements = toolFile.requirementsText === undefined ? 'no requirements.txt' : 'with requirements.txt';
+            const confirm = await vscode.window.showInformationMessage(
+                `Create Python tool "${tool.name}" from ${fileName} (${requirements})?\n\nInputs: ${inputs}`,
+                { modal: true },
+                'Create'
+            );
+            if (confirm !== 'Create') return;
+            const result = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Creating Python tool "${tool.name}"...` },
+                () => deployPythonTool(toolFile, tool)
+            );
+            await snapshotTool(result.toolId, 'create');
+            skillsProvider.refresh();
+            runToolTestsAfterDeploy();
+            vscode.window.showInformationMessage(`Python tool "${tool.name}" created (${result.toolId}).`);
+        } catch (e) {
+            vscode.window.showErrorMessage(`Failed to create Python tool: ${(e as Error).message}`);
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand('watsonx.syncTools', async () => {
+        try {
+            const changed = await syncToolsWithWorkspace();
+            if (changed) refreshAllViews();
+        } catch (e) {
+            if (isAbortError(e)) return;
+            vscode.window.showErrorMessage(`Tool sync failed: ${(e as Error).message}`);
+        }
+    });
+    context.subscriptions.push(disposable);
+
     // New command to handle import from the UI
     disposable = vscode.commands.registerCommand('watsonx.importToolFile', async (panelInstance: any) => {
         const fileUri = await vscode.window.showOpenDialog({
             canSelectMany: false,
             openLabel: 'Import Tool Definition',
             filters: {
-                'OpenAPI Definition': ['json']
+                'OpenAPI / Swagger, Postman or HAR': ['json', 'yaml', 'yml', 'har']
             }
         });
 
         if (fileUri && fileUri[0]) {
             try {
-                const contentValues = await readFile(fileUri[0].fsPath, 'utf8');
-                const jsonContent = JSON.parse(contentValues);
-                // Call reload on the panel instance
-                if (panelInstance && panelInstance.reloadWithContent) {
-                    await panelInstance.reloadWithContent(jsonContent);
+                // The panel parses JSON/YAML, converts Swagger 2.0 and expands Postman/HAR files
+                if (panelInstance && panelInstance.importFile) {
+                    await panelInstance.importFile(fileUri[0]);
                 }
             } catch (error: any) {
                 vscode.window.showErrorMessage(`Failed to import file: ${error.message}`);
@@ -176,8 +381,9 @@ export async function activate(context: vscode.ExtensionContext) {
             );
             if (confirm === "Delete") {
                 try {
-                    const { deleteSkill } = require('./api/skills');
+                    const deleted = await getSkill(node.skillId).catch(() => undefined);
                     await deleteSkill(node.skillId);
+                    if (deleted) await snapshotTool(deleted, 'delete');
                     vscode.window.showInformationMessage('Tool deleted successfully.');
                     vscode.commands.executeCommand('watsonx.refreshSkills');
                 } catch (e: any) {
@@ -209,8 +415,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
             if (action === 'Open WxO Connections UI') {
                 // Open the Watson Orchestrate connections settings page
-                const { woFetch } = require('./api/client');
-                const instanceUrl = vscode.workspace.getConfiguration('wxo-builder').get<string>('instanceUrl') || process.env.WO_INSTANCE_URL || '';
+                const instanceUrl = getConfig().instanceUrl;
                 const connectionsUrl = instanceUrl
                     ? `${instanceUrl.replace(/\/instances\/.*/, '')}/settings/connections`
                     : 'https://www.ibm.com/docs/en/watsonx/watson-orchestrate/base?topic=managing-app-connections-credentials';
@@ -339,6 +544,16 @@ export async function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(disposable);
 
+    disposable = vscode.commands.registerCommand('watsonx.runToolTests', async () => {
+        try {
+            await runAllToolTests();
+            vscode.commands.executeCommand('workbench.view.testing.focus');
+        } catch (e) {
+            vscode.window.showErrorMessage(`Failed to run tool tests: ${(e as Error).message}`);
+        }
+    });
+    context.subscriptions.push(disposable);
+
     disposable = vscode.commands.registerCommand('watsonx.createAgent', async () => {
         const { AgentEditorPanel } = require('./panels/AgentEditorPanel');
         await AgentEditorPanel.render(context.extensionUri, null);
@@ -445,7 +660,9 @@ export async function activate(context: vscode.ExtensionContext) {
         if (node && node.skillId) {
             try {
                 const { updateSkill } = require('./api/skills');
+                await snapshotTool(node.skillId, 'observed');
                 await updateSkill(node.skillId, { permission: state });
+                await snapshotTool(node.skillId, 'update');
                 vscode.window.showInformationMessage(`Tool set to ${state === 'read_write' ? 'Active' : 'Inactive'} (Permission: ${state})`);
                 vscode.commands.executeCommand('watsonx.refreshSkills');
             } catch (e: any) {
@@ -462,6 +679,99 @@ export async function activate(context: vscode.ExtensionContext) {
     disposable = vscode.commands.registerCommand('watsonx.deactivateSkill', (node: any) => toggleSkillState(node, 'read_only'));
     context.subscriptions.push(disposable);
 
+    // ─── Tool History ─────────────────────────────────────────────────────────
+    const snapshotDocument = (snapshot: ToolSnapshot) =>
+        vscode.workspace.openTextDocument({ content: JSON.stringify(snapshot.definition, null, 2), language: 'json' });
+
+    disposable = vscode.commands.registerCommand('watsonx.refreshToolHistory', () => toolHistoryProvider.refresh());
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand('watsonx.openToolSnapshot', async (node: ToolSnapshotItem) => {
+        if (!node?.snapshot) return;
+        await vscode.window.showTextDocument(await snapshotDocument(node.snapshot), { preview: true });
+    });
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand('watsonx.compareToolSnapshot', async (node: ToolSnapshotItem) => {
+        if (!node?.snapshot) return;
+        const snapshot = node.snapshot;
+        const history = await getToolHistory(snapshot.toolName);
+        const others = (history?.snapshots || []).filter(s => s.id !== snapshot.id).reverse();
+        const picked = await vscode.window.showQuickPick([
+            { label: '$(cloud) Current tenant version', description: snapshot.toolName, snapshot: undefined as ToolSnapshot | undefined },
+            ...others.map(s => ({ label: snapshotLabel(s), description: `${s.author} · ${s.scope}`, snapshot: s as ToolSnapshot | undefined }))
+        ], { title: `Compare ${snapshotLabel(snapshot)} with…` });
+        if (!picked) return;
+        try {
+            let other: { label: string; definition: Partial<Tool> };
+            if (picked.snapshot) {
+                other = { label: snapshotLabel(picked.snapshot), definition: picked.snapshot.definition };
+            } else {
+                const current = await findSnapshotTool(snapshot);
+                if (!current) {
+                    vscode.window.showWarningMessage(`Tool "${snapshot.toolName}" no longer exists in the tenant.`);
+                    return;
+                }
+                other = { label: 'current', definition: toolDefinition(current) };
+            }
+            // Older version on the left
+            const otherIsOlder = !!picked.snapshot && picked.snapshot.timestamp < snapshot.timestamp;
+            const mine = { label: snapshotLabel(snapshot), definition: snapshot.definition };
+            const [left, right] = otherIsOlder ? [other, mine] : [mine, other];
+            const leftDoc = await vscode.workspace.openTextDocument({ content: JSON.stringify(left.definition, null, 2), language: 'json' });
+            const rightDoc = await vscode.workspace.openTextDocument({ content: JSON.stringify(right.definition, null, 2), language: 'json' });
+            await vscode.commands.executeCommand('vscode.diff', leftDoc.uri, rightDoc.uri, `${snapshot.toolName}: ${left.label} ↔ ${right.label}`);
+        } catch (e) {
+            vscode.window.showErrorMessage(`Diff failed: ${(e as Error).message}`);
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand('watsonx.restoreToolSnapshot', async (node: ToolSnapshotItem) => {
+        if (!node?.snapshot) return;
+        const snapshot = node.snapshot;
+        try {
+            const plan = await planSnapshotRestore(snapshot);
+            const version = snapshotLabel(snapshot);
+            const detail = plan.replacement
+                ? `This version has a different ${plan.replacement.changes.join(', ')}, so restoring replaces the tool:\n\n` +
+                  plan.replacement.steps.map((step, i) => `${i + 1}. ${step}`).join('\n')
+                : plan.current
+                    ? 'Name, description, permission, restrictions and tags are updated in place.'
+                    : `The tool no longer exists and will be re-created with a new ID.`;
+            const confirm = await vscode.window.showWarningMessage(
+                `Restore "${snapshot.toolName}" to the version of ${version}?\n\n${detail}`,
+                { modal: true }, 'Restore', 'Cancel'
+            );
+            if (confirm !== 'Restore') return;
+            const toolId = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Restoring "${snapshot.toolName}"` },
+                progress => executeSnapshotRestore(plan, step => progress.report({ message: step }))
+            );
+            skillsProvider.refresh();
+            agentsProvider.refresh();
+            vscode.window.showInformationMessage(`Tool "${snapshot.toolName}" restored to the version of ${version} (${toolId}).`);
+        } catch (e) {
+            vscode.window.showErrorMessage(`Failed to restore tool: ${(e as Error).message}`);
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand('watsonx.deleteToolHistory', async (node: ToolHistoryItem) => {
+        if (!node?.history) return;
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete the local history of "${node.history.toolName}"? The tool itself is not changed.`,
+            { modal: true }, 'Delete History', 'Cancel'
+        );
+        if (confirm !== 'Delete History') return;
+        try {
+            await deleteToolHistory(node.history.toolName);
+        } catch (e) {
+            vscode.window.showErrorMessage(`Failed to delete history: ${(e as Error).message}`);
+        }
+    });
+    context.subscriptions.push(disposable);
+
     disposable = vscode.commands.registerCommand('watsonx.openDiagnostics', () => {
         try {
             const { DiagnosticsPanel } = require('./panels/DiagnosticsPanel');
@@ -472,6 +782,20 @@ export async function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(disposable);
 
+    disposable = vscode.commands.registerCommand('watsonx.openNetworkInspector', () => {
+        NetworkPanel.render();
+    });
+    context.subscriptions.push(disposable);
+
+    disposable = vscode.commands.registerCommand('watsonx.exportNetworkHar', async () => {
+        try {
+            await exportNetworkHar();
+        } catch (e) {
+            vscode.window.showErrorMessage(`Failed to export HAR: ${(e as Error).message}`);
+        }
+    });
+    context.subscriptions.push(disposable);
+
     disposable = vscode.commands.registerCommand('watsonx.openDocumentation', () => {
         // Open README in preview
         const readmePath = vscode.Uri.file(path.join(context.extensionPath, 'README.md'));
@@ -488,4 +812,5 @@ export async function activate(context: vscode.ExtensionContext) {
 }
 
 export async function deactivate() {
+    await stopMockBackend();
 }
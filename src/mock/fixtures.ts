@@ -0,0 +1,138 @@
+/**
+ * WxO Builder - Mock Fixtures
+ * Seed data for the mock Orchestrate server: a few tools, agents, connections,
+ * catalog connectors and models that look like a small real tenant.
+ *
+ * Plain data with no VS Code dependency, so tests can import and tweak it.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import { Tool, Agent, Connection, Connector, ModelResource } from '../api/types';
+
+/** A tool plus the canned result the mock returns when a run invokes it. */
+export interface MockTool extends Tool {
+    mock_response?: unknown;
+}
+
+export interface MockFixtures {
+    tools: MockTool[];
+    agents: Agent[];
+    connections: Connection[];
+    connectors: Connector[];
+    models: ModelResource[];
+}
+
+/** A fresh copy of the default fixtures (safe to mutate). */
+export function createDefaultFixtures(): MockFixtures {
+    return {
+        tools: [
+            {
+                id: 'mock-tool-weather',
+                name: 'get_weather',
+                display_name: 'Get Weather',
+                description: 'Current weather for a city.',
+                permission: 'read_write',
+                tags: ['mock'],
+                input_schema: {
+                    type: 'object',
+                    properties: {
+                        city: { type: 'string', title: 'city', description: 'City name', in: 'query' }
+                    },
+                    required: ['city']
+                },
+                output_schema: { type: 'object', description: 'Success' },
+                binding: {
+                    openapi: {
+                        http_method: 'GET',
+                        http_path: '/weather',
+                        servers: ['https://api.example.com'],
+                        security: []
+                    }
+                },
+                mock_response: { city: 'Toronto', temperature_c: 18, conditions: 'Partly cloudy' }
+            },
+            {
+                id: 'mock-tool-news',
+                name: 'news_search',
+                display_name: 'News Search',
+                description: 'Search recent news articles.',
+                permission: 'read_only',
+                input_schema: {
+                    type: 'object',
+                    properties: {
+                        q: { type: 'string', title: 'q', description: 'Search query', in: 'query' },
+                        pageSize: { type: 'integer', title: 'pageSize', description: 'Results per page', in: 'query', default: 5 }
+                    },
+                    required: ['q']
+                },
+                output_schema: { type: 'object', description: 'Success' },
+                binding: {
+                    openapi: {
+                        http_method: 'GET',
+                        http_path: '/v2/everything',
+                        servers: ['https://newsapi.example.com'],
+                        security: [{ type: 'apiKey', in: 'query', name: 'apiKey' }],
+                        connection_id: 'mock-conn-news'
+                    }
+                },
+                mock_response: { status: 'ok', totalResults: 1, articles: [{ title: 'Mock headline', source: { name: 'Mock News' } }] }
+            },
+            {
+                id: 'mock-flow-onboarding',
+                name: 'employee_onboarding',
+                display_name: 'Employee Onboarding',
+                description: 'Multi-step onboarding flow.',
+                type: 'flow',
+                permission: 'read_write',
+                input_schema: { type: 'object', properties: { employee: { type: 'string', title: 'employee' } } }
+            }
+        ],
+        agents: [
+            {
+                id: 'mock-agent-helpdesk',
+                name: 'helpdesk_agent',
+                display_name: 'Helpdesk Agent',
+                description: 'Answers weather and news questions.',
+                agent_type: 'watsonx',
+                llm: 'groq/openai/gpt-oss-120b',
+                instructions: 'Use the tools to answer questions.',
+                style: 'default',
+                tools: ['mock-tool-weather', 'mock-tool-news']
+            }
+        ],
+        connections: [
+            {
+                app_id: 'mock-conn-news',
+                connection_id: 'mock-conn-news-id',
+                security_scheme: 'api_key_auth',
+                auth_type: 'api_key',
+                environment: 'draft',
+                preference: 'team',
+                credentials_entered: true
+            }
+        ],
+        connectors: [
+            { name: 'Salesforce', group_name: 'CRM', catalog_ref_id: 'salesforce', app_id: 'salesforce' },
+            { name: 'ServiceNow', group_name: 'ITSM', catalog_ref_id: 'servicenow', app_id: 'servicenow' },
+            { name: 'Slack', group_name: 'Collaboration', catalog_ref_id: 'slack', app_id: 'slack' }
+        ],
+        models: [
+            { id: 'groq/openai/gpt-oss-120b', label: 'gpt-oss-120b', type: 'chat' },
+            { id: 'watsonx/ibm/granite-3-8b-instruct', label: 'granite-3-8b-instruct', type: 'chat' }
+        ]
+    };
+}
+
+/**
+ * Merge partial fixtures over the defaults. Each list that is given replaces the
+ * default list of that kind; omitted kinds keep the defaults.
+ */
+export function mergeFixtures(partial: Partial<MockFixtures> = {}): MockFixtures {
+    const fixtures = createDefaultFixtures();
+    (Object.keys(fixtures) as Array<keyof MockFixtures>).forEach(kind => {
+        if (Array.isArray(partial[kind])) Object.assign(fixtures, { [kind]: JSON.parse(JSON.stringify(partial[kind])) });
+    });
+    return fixtures;
+}
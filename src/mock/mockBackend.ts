@@ -0,0 +1,78 @@
+/**
+ * WxO Builder - Mock Backend
+ * Runs the mock Orchestrate server inside the extension host for profiles with
+ * `"mock": true`, so the whole UI can be tried offline.
+ *
+ * The server starts on the first API call made with a mock profile and keeps its
+ * in-memory state until VS Code closes. Fixtures come from `.wxo/mock-fixtures.json`
+ * in the first workspace folder when present, otherwise the built-in defaults.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getActiveProfile } from '../api/profiles';
+import { MockOrchestrateServer } from './mockServer';
+import { MockFixtures } from './fixtures';
+
+const FIXTURES_FILE = path.join('.wxo', 'mock-fixtures.json');
+
+let server: MockOrchestrateServer | undefined;
+let starting: Promise<MockOrchestrateServer> | undefined;
+
+/** True when the active profile uses the mock backend. */
+export function isMockBackendActive(): boolean {
+    return getActiveProfile()?.mock === true;
+}
+
+/** Base URL of the running mock server, or undefined before it has started. */
+export function getMockBackendUrl(): string | undefined {
+    return server?.url || undefined;
+}
+
+function loadWorkspaceFixtures(): Partial<MockFixtures> | undefined {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) return undefined;
+    const file = path.join(folder.uri.fsPath, FIXTURES_FILE);
+    if (!fs.existsSync(file)) return undefined;
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+        vscode.window.showWarningMessage(`WxO Builder: ignoring ${FIXTURES_FILE}: ${(e as Error).message}`);
+        return undefined;
+    }
+}
+
+/**
+ * Start the mock server if the active profile needs it. No-op for real profiles.
+ * Concurrent callers share one start-up.
+ */
+export async function ensureMockBackend(): Promise<void> {
+    if (!isMockBackendActive() || server) return;
+    if (!starting) {
+        const candidate = new MockOrchestrateServer({ fixtures: loadWorkspaceFixtures() });
+        starting = candidate.start().then(
+            url => {
+                console.log(`[WxO] Mock backend listening on ${url}`);
+                server = candidate;
+                starting = undefined;
+                return candidate;
+            },
+            err => {
+                starting = undefined;
+                throw err;
+            }
+        );
+    }
+    await starting;
+}
+
+/** Stop the mock server and drop its state (next use starts fresh). */
+export async function stopMockBackend(): Promise<void> {
+    const running = server;
+    server = undefined;
+    if (running) await running.stop();
+}
@@ -0,0 +1,456 @@
+/**
+ * WxO Builder - Mock Orchestrate Server
+ * In-process HTTP server that imitates the Watson Orchestrate endpoints the extension
+ * uses, backed by in-memory state seeded from fixtures:
+ *  - POST /identity/token, /icp4d-api/v1/authorize   stub token endpoints (IAM / MCSP / CPD)
+ *  - /v1/orchestrate/tools[/{id}[/upload]]            list (limit/offset), get, create, update, delete
+ *  - /v1/orchestrate/agents[/{id}]                    list, get, create, patch, delete
+ *  - POST /v1/orchestrate/runs, GET /threads/{id}/messages   runs complete immediately
+ *  - /v1/orchestrate/connections/applications[...]    list, create, delete, runtime credentials
+ *  - GET /v1/orchestrate/catalog/applications         connector catalog (limit/offset)
+ *  - GET /v1/models/list
+ *
+ * No VS Code dependency: integration tests can start one directly, and
+ * `node out/mock/mockServer.js [port]` runs it standalone. Tests can also revoke the
+ * issued tokens (revokeTokens) and make API requests fail (failNext) to exercise the
+ * client's 401 replay and retries.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { MockFixtures, MockTool, mergeFixtures } from './fixtures';
+import { Agent, Connection, Message, MessageContent } from '../api/types';
+
+/** Any non-empty API key is accepted; this one is used when none is configured. */
+export const MOCK_API_KEY = 'mock-api-key';
+const TOKEN_LIFETIME_SECONDS = 3600;
+/** Tool and agent names must be identifiers, as on the real API. */
+const NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const TOOL_EDITABLE_FIELDS = ['name', 'display_name', 'description', 'permission', 'restrictions', 'tags'];
+
+export interface MockServerOptions {
+    /** Replaces the default fixtures per kind (see mergeFixtures). */
+    fixtures?: Partial<MockFixtures>;
+    /** Reject API calls without a token issued by this server. Default true. */
+    requireAuth?: boolean;
+}
+
+interface MockRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    /** Captured groups from the route pattern, URI-decoded. */
+    params: string[];
+    headers: http.IncomingHttpHeaders;
+    body: unknown;
+}
+
+interface MockResult {
+    status: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+}
+
+type Handler = (req: MockRequest) => MockResult;
+
+function newId(prefix: string): string {
+    return `${prefix}-${randomBytes(6).toString('hex')}`;
+}
+
+function json(status: number, body?: unknown): MockResult {
+    return { status, body };
+}
+
+function error(status: number, detail: string): MockResult {
+    return { status, body: { detail } };
+}
+
+/** Apply limit/offset query params; without a limit the whole list is returned. */
+function paginate<T>(items: T[], query: URLSearchParams): T[] {
+    const offset = Math.max(0, parseInt(query.get('offset') || '0', 10) || 0);
+    const limit = parseInt(query.get('limit') || '', 10);
+    return limit > 0 ? items.slice(offset, offset + limit) : items.slice(offset);
+}
+
+function parseBody(raw: Buffer, contentType: string | undefined): unknown {
+    if (raw.length === 0) return undefined;
+    const text = raw.toString('utf8');
+    if (contentType?.includes('application/x-www-form-urlencoded')) {
+        const out: Record<string, string> = {};
+        new URLSearchParams(text).forEach((value, key) => { out[key] = value; });
+        return out;
+    }
+    if (contentType?.includes('multipart/form-data')) return raw;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/** The fields of a JSON object body; any other body has none. */
+function fields(body: unknown): Record<string, unknown> {
+    return body && typeof body === 'object' && !Array.isArray(body) && !Buffer.isBuffer(body) ? body as Record<string, unknown> : {};
+}
+
+export class MockOrchestrateServer {
+    private _server: http.Server | undefined;
+    private _url = '';
+    private _state: MockFixtures;
+    private readonly _requireAuth: boolean;
+    private readonly _tokens = new Set<string>();
+    private readonly _threads = new Map<string, Message[]>();
+    /** Runtime credentials per `${app_id}|${env}`; stored but never returned. */
+    private readonly _runtimeCredentials = new Map<string, unknown>();
+    private readonly _routes: Array<{ method: string; pattern: RegExp; handler: Handler }> = [];
+    /** Canned failures for the next API requests (see failNext). */
+    private readonly _failures: MockResult[] = [];
+    /** Every request received, e.g. "GET /v1/orchestrate/tools", newest last. */
+    readonly requests: string[] = [];
+
+    constructor(options: MockServerOptions = {}) {
+        this._state = mergeFixtures(options.fixtures);
+        this._requireAuth = options.requireAuth !== false;
+        this._registerRoutes();
+    }
+
+    /** Base URL (use as the instance URL), e.g. http://127.0.0.1:53121. Empty until started. */
+    get url(): string {
+        return this._url;
+    }
+
+    /** Stub IAM/MCSP token endpoint (use as a profile tokenUrl). */
+    get tokenUrl(): string {
+        return `${this._url}/identity/token`;
+    }
+
+    /** Current in-memory data; mutate freely between requests. */
+    get state(): MockFixtures {
+        return this._state;
+    }
+
+    /** Reseed all data and forget threads, credentials, pending failures and the request log. Issued tokens stay valid. */
+    reset(fixtures?: Partial<MockFixtures>): void {
+        this._state = mergeFixtures(fixtures);
+        this._threads.clear();
+        this._runtimeCredentials.clear();
+        this._failures.length = 0;
+        this.requests.length = 0;
+    }
+
+    /** Invalidate every issued token, as when a token is revoked or expires server-side. */
+    revokeTokens(): void {
+        this._tokens.clear();
+    }
+
+    /**
+     * Answer the next `count` API requests (token requests excluded) with `status` instead of
+     * handling them, e.g. 503 with `{ 'Retry-After': '0' }` to test retries.
+     */
+    failNext(status: number, count: number = 1, headers: Record<string, string> = {}): void {
+        for (let i = 0; i < count; i++) {
+            this._failures.push({ status, body: { detail: `Injected failure (${status})` }, headers });
+        }
+    }
+
+    /** Listen on 127.0.0.1. Port 0 (default) picks a free port. Resolves with the base URL. */
+    start(port: number = 0): Promise<string> {
+        if (this._server) return Promise.resolve(this._url);
+        return new Promise((resolve, reject) => {
+            const server = http.createServer((req, res) => this._handle(req, res));
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => {
+                this._server = server;
+                this._url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+                resolve(this._url);
+            });
+        });
+    }
+
+    stop(): Promise<void> {
+        const server = this._server;
+        this._server = undefined;
+        this._url = '';
+        if (!server) return Promise.resolve();
+        return new Promise(resolve => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        });
+    }
+
+    // ─── Request handling ─────────────────────────────────────────────────────
+
+    private _handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+            const url = new URL(req.url || '/', 'http://127.0.0.1');
+            const method = (req.method || 'GET').toUpperCase();
+            this.requests.push(`${method} ${url.pathname}`);
+
+            let result: MockResult;
+            try {
+                result = this._dispatch({
+                    method,
+                    path: url.pathname.replace(/\/+$/, '') || '/',
+                    query: url.searchParams,
+                    params: [],
+                    headers: req.headers,
+                    body: parseBody(Buffer.concat(chunks), req.headers['content-type'])
+                });
+            } catch (e) {
+                result = error(500, `Mock server error: ${(e as Error).message}`);
+            }
+
+            const headers: Record<string, string> = { 'x-request-id': newId('mock-req'), ...result.headers };
+            if (result.body !== undefined) headers['Content-Type'] = 'application/json';
+            res.writeHead(result.status, headers);
+            res.end(result.body !== undefined ? JSON.stringify(result.body) : undefined);
+        });
+    }
+
+    private _dispatch(req: MockRequest): MockResult {
+        let pathMatched = false;
+        for (const route of this._routes) {
+            const match = route.pattern.exec(req.path);
+            if (!match) continue;
+            pathMatched = true;
+            if (route.method !== req.method) continue;
+            req.params = match.slice(1).map(decodeURIComponent);
+            const isTokenRoute = req.path === '/identity/token' || req.path === '/icp4d-api/v1/authorize';
+            if (!isTokenRoute && this._failures.length > 0) return this._failures.shift() as MockResult;
+            if (!isTokenRoute && !this._isAuthorized(req)) {
+                return error(401, 'Missing or invalid bearer token');
+            }
+            return route.handler(req);
+        }
+        return pathMatched ? error(405, `Method ${req.method} not allowed`) : error(404, `No mock route for ${req.method} ${req.path}`);
+    }
+
+    private _isAuthorized(req: MockRequest): boolean {
+        if (!this._requireAuth) return true;
+        const header = String(req.headers['authorization'] || '');
+        if (/^ZenApiKey\s+\S+/.test(header)) return true;
+        const bearer = /^Bearer\s+(\S+)$/.exec(header);
+        return !!bearer && this._tokens.has(bearer[1]);
+    }
+
+    private _route(method: string, pattern: RegExp, handler: Handler): void {
+        this._routes.push({ method, pattern, handler });
+    }
+
+    private _registerRoutes(): void {
+        const r = (method: string, pattern: RegExp, handler: Handler) => this._route(method, pattern, handler);
+
+        // Auth
+        r('POST', /^\/identity\/token$/, req => this._issueToken(req));
+        r('POST', /^\/icp4d-api\/v1\/authorize$/, req => this._issueToken(req));
+
+        // Tools
+        r('GET', /^\/v1\/orchestrate\/tools$/, req => json(200, paginate(this._state.tools.map(publicTool), req.query)));
+        r('POST', /^\/v1\/orchestrate\/tools$/, req => this._createTool(req.body));
+        r('GET', /^\/v1\/orchestrate\/tools\/([^/]+)$/, req => {
+            const tool = this._findTool(req.params[0]);
+            return tool ? json(200, publicTool(tool)) : error(404, `Tool ${req.params[0]} not found`);
+        });
+        r('PUT', /^\/v1\/orchestrate\/tools\/([^/]+)$/, req => this._updateTool(req.params[0], req.body));
+        r('PATCH', /^\/v1\/orchestrate\/tools\/([^/]+)$/, req => this._updateTool(req.params[0], req.body));
+        r('DELETE', /^\/v1\/orchestrate\/tools\/([^/]+)$/, req => this._remove(this._state.tools, req.params[0], 'Tool'));
+        r('POST', /^\/v1\/orchestrate\/tools\/([^/]+)\/upload$/, req =>
+            this._findTool(req.params[0]) ? json(200, { success: true }) : error(404, `Tool ${req.params[0]} not found`));
+        r('DELETE', /^\/v1\/orchestrate\/flows\/([^/]+)$/, req => {
+            const tool = this._findTool(req.params[0]);
+            if (!tool || !['flow', 'workflow'].includes(tool.type || '')) return error(404, `Flow ${req.params[0]} not found`);
+            return this._remove(this._state.tools, tool.id, 'Flow');
+        });
+
+        // Agents
+        r('GET', /^\/v1\/orchestrate\/agents$/, req => json(200, paginate(this._state.agents, req.query)));
+        r('POST', /^\/v1\/orchestrate\/agents$/, req => this._createAgent(req.body));
+        r('GET', /^\/v1\/orchestrate\/agents\/([^/]+)$/, req => {
+            const agent = this._findAgent(req.params[0]);
+            return agent ? json(200, agent) : error(404, `Agent ${req.params[0]} not found`);
+        });
+        r('PATCH', /^\/v1\/orchestrate\/agents\/([^/]+)$/, req => {
+            const agent = this._findAgent(req.params[0]);
+            if (!agent) return error(404, `Agent ${req.params[0]} not found`);
+            const changes = { ...fields(req.body) };
+            delete changes.id;
+            Object.assign(agent, changes);
+            return json(200, agent);
+        });
+        r('DELETE', /^\/v1\/orchestrate\/agents\/([^/]+)$/, req => this._remove(this._state.agents, req.params[0], 'Agent'));
+
+        // Runs
+        r('POST', /^\/v1\/orchestrate\/runs$/, req => this._startRun(req.body));
+        r('GET', /^\/v1\/orchestrate\/threads\/([^/]+)\/messages$/, req => {
+            const messages = this._threads.get(req.params[0]);
+            return messages ? json(200, messages) : error(404, `Thread ${req.params[0]} not found`);
+        });
+
+        // Connections
+        r('GET', /^\/v1\/orchestrate\/connections\/applications$/, req => {
+            const appId = req.query.get('app_id');
+            const applications = appId ? this._state.connections.filter(c => c.app_id === appId) : this._state.connections;
+            return json(200, { applications });
+        });
+        r('POST', /^\/v1\/orchestrate\/connections\/applications$/, req => this._createConnection(req.body));
+        r('DELETE', /^\/v1\/orchestrate\/connections\/applications\/([^/]+)$/, req => {
+            const index = this._state.connections.findIndex(c => c.app_id === req.params[0]);
+            if (index === -1) return error(404, `Connection ${req.params[0]} not found`);
+            this._state.connections.splice(index, 1);
+            return json(204);
+        });
+        r('PATCH', /^\/v1\/orchestrate\/connections\/applications\/([^/]+)\/configs\/([^/]+)\/runtime_credentials$/, req =>
+            this._setRuntimeCredentials(req.params[0], req.params[1], req.body, false));
+        r('POST', /^\/v1\/orchestrate\/connections\/applications\/([^/]+)\/configs\/([^/]+)\/runtime_credentials$/, req =>
+            this._setRuntimeCredentials(req.params[0], req.params[1], req.body, true));
+
+        // Catalog and models
+        r('GET', /^\/v1\/orchestrate\/catalog\/applications$/, req =>
+            json(200, { items: paginate(this._state.connectors, req.query), total: this._state.connectors.length }));
+        r('GET', /^\/v1\/models\/list$/, () => json(200, { resources: this._state.models }));
+    }
+
+    // ─── Handlers ─────────────────────────────────────────────────────────────
+
+    private _issueToken(req: MockRequest): MockResult {
+        const body = fields(req.body);
+        if (!(body.apikey || body.api_key)) return error(400, 'apikey is required');
+        const token = newId('mock-token');
+        this._tokens.add(token);
+        // IAM reads access_token, MCSP and CPD read token
+        return json(200, { access_token: token, token, token_type: 'Bearer', expires_in: TOKEN_LIFETIME_SECONDS });
+    }
+
+    private _findTool(id: string): MockTool | undefined {
+        return this._state.tools.find(t => t.id === id);
+    }
+
+    private _findAgent(id: string): Agent | undefined {
+        return this._state.agents.find(a => a.id === id);
+    }
+
+    private _remove(list: Array<{ id: string }>, id: string, label: string): MockResult {
+        const index = list.findIndex(item => item.id === id);
+        if (index === -1) return error(404, `${label} ${id} not found`);
+        list.splice(index, 1);
+        return json(204);
+    }
+
+    private _createTool(body: unknown): MockResult {
+        const input = fields(body);
+        const name = input.name;
+        if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+            return error(400, 'name is required and may only contain letters, digits and underscores');
+        }
+        if (this._state.tools.some(t => t.name === name)) {
+            return error(409, `A tool named ${name} already exists`);
+        }
+        const tool: MockTool = { ...input, name, id: newId('mock-tool') };
+        this._state.tools.push(tool);
+        return json(200, publicTool(tool));
+    }
+
+    /** Only the fields the real API lets you change are applied; binding and schemas are immutable. */
+    private _updateTool(id: string, body: unknown): MockResult {
+        const tool = this._findTool(id);
+        if (!tool) return error(404, `Tool ${id} not found`);
+        const input = fields(body);
+        if (input.name !== undefined && !NAME_PATTERN.test(String(input.name))) {
+            return error(400, 'name may only contain letters, digits and underscores');
+        }
+        TOOL_EDITABLE_FIELDS.forEach(field => {
+            if (input[field] !== undefined) tool[field] = input[field];
+        });
+        return json(200, publicTool(tool));
+    }
+
+    private _createAgent(body: unknown): MockResult {
+        const input = fields(body);
+        const name = input.name;
+        if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+            return error(400, 'name is required and may only contain letters, digits and underscores');
+        }
+        const agent: Agent = { tools: [], ...input, name, id: newId('mock-agent') };
+        this._state.agents.push(agent);
+        return json(200, agent);
+    }
+
+    /** Runs finish synchronously: the thread already holds the assistant reply when this returns. */
+    private _startRun(body: unknown): MockResult {
+        const input = fields(body);
+        const content = fields(input.message).content as Message['content'] | undefined;
+        if (!content) return error(400, 'message.content is required');
+        const agent = input.agent_id ? this._findAgent(String(input.agent_id)) : undefined;
+        if (input.agent_id && !agent) return error(404, `Agent ${input.agent_id} not found`);
+        const tool = input.tool_id ? this._findTool(String(input.tool_id)) : undefined;
+        if (input.tool_id && !tool) return error(404, `Tool ${input.tool_id} not found`);
+
+        let reply: MessageContent[];
+        if (tool) {
+            const parameters = input.parameters || {};
+            reply = [
+                { type: 'tool_use', name: tool.name, input: parameters },
+                { type: 'tool_result', name: tool.name, content: tool.mock_response ?? { tool: tool.name, parameters, mock: true } },
+                { type: 'text', text: `Ran ${tool.display_name || tool.name} against the mock backend.` }
+            ];
+        } else {
+            const speaker = agent ? (agent.display_name || agent.name) : 'Mock assistant';
+            reply = [{ type: 'text', text: `${speaker} (mock) received: ${typeof content === 'string' ? content : JSON.stringify(content)}` }];
+        }
+
+        const threadId = String(input.thread_id || newId('mock-thread'));
+        const messages = this._threads.get(threadId) || [];
+        messages.push(
+            { id: newId('mock-msg'), role: 'user', content },
+            { id: newId('mock-msg'), role: 'assistant', content: reply }
+        );
+        this._threads.set(threadId, messages);
+        return json(200, { thread_id: threadId, run_id: newId('mock-run'), status: 'completed' });
+    }
+
+    private _createConnection(body: unknown): MockResult {
+        const appId = fields(body).app_id;
+        if (!appId || typeof appId !== 'string') return error(400, 'app_id is required');
+        if (this._state.connections.some(c => c.app_id === appId)) {
+            return error(409, `Connection ${appId} already exists`);
+        }
+        const connection: Connection = { app_id: appId, connection_id: newId('mock-conn'), environment: 'draft', credentials_entered: false };
+        this._state.connections.push(connection);
+        return json(200, connection);
+    }
+
+    /** PATCH only updates existing credentials (404 otherwise), like the real API; POST creates them. */
+    private _setRuntimeCredentials(appId: string, env: string, body: unknown, create: boolean): MockResult {
+        const connection = this._state.connections.find(c => c.app_id === appId);
+        if (!connection) return error(404, `Connection ${appId} not found`);
+        const key = `${appId}|${env}`;
+        if (!create && !this._runtimeCredentials.has(key)) return error(404, `No runtime credentials for ${appId} (${env})`);
+        const credentials = fields(body).runtime_credentials;
+        if (!credentials) return error(400, 'runtime_credentials is required');
+        this._runtimeCredentials.set(key, credentials);
+        connection.credentials_entered = true;
+        return json(create ? 201 : 200, { success: true });
+    }
+}
+
+/** Strip mock-only fields before returning a tool. */
+function publicTool(tool: MockTool): MockTool {
+    const rest = { ...tool };
+    delete rest.mock_response;
+    return rest;
+}
+
+// Standalone: node out/mock/mockServer.js [port]
+if (require.main === module) {
+    const server = new MockOrchestrateServer();
+    server.start(Number(process.argv[2]) || 0).then(url => {
+        console.log(`Mock Orchestrate server listening on ${url}`);
+        console.log(`Token endpoint: ${server.tokenUrl} (any API key, e.g. "${MOCK_API_KEY}")`);
+    });
+}
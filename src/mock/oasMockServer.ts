@@ -0,0 +1,394 @@
+/**
+ * WxO Builder - OpenAPI Mock Server
+ * In-process HTTP server that stands in for a tool's upstream API, generated from its
+ * OpenAPI document, so tools can be designed and tested before the backend exists or
+ * without spending a rate-limited key.
+ *
+ * For each request the matching operation is found by method and path (the first
+ * server's base path is optional), then:
+ *  - path, query and header parameters and the JSON request body are validated against
+ *    their schemas (400 with the list of problems when they do not match)
+ *  - the operation's security requirements are checked for the presence of credentials (401)
+ *  - the response is the first 2xx response (or the one named by a `Prefer: code=404`
+ *    header), with its example, first named example, or data generated from its schema
+ *
+ * The spec must already be dereferenced (see resolveSpecRefs). No VS Code dependency.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { validateJsonSchema } from '../api/jsonSchema';
+import { JsonSchema, OasDocument, OasOperation, OasParameter, OasSecurityRequirement } from '../api/types';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+const MAX_SAMPLE_DEPTH = 8;
+
+interface MockOperation {
+    method: string;
+    /** Path template from the spec, e.g. /pets/{petId}. */
+    path: string;
+    pattern: RegExp;
+    /** Path parameter names in the order of the pattern's groups. */
+    pathParams: string[];
+    operation: OasOperation;
+    /** Path-level and operation-level parameters (operation wins on name + in). */
+    parameters: OasParameter[];
+}
+
+interface MockResponse {
+    status: number;
+    contentType?: string;
+    body?: unknown;
+}
+
+/** Example data for a schema: its example, default, first enum value, else a value of its type. */
+export function sampleFromSchema(schema: JsonSchema | undefined, depth: number = 0): unknown {
+    if (!schema || typeof schema !== 'object' || depth > MAX_SAMPLE_DEPTH) return null;
+    if (schema.example !== undefined) return schema.example;
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+    if (schema.default !== undefined) return schema.default;
+    if (schema.const !== undefined) return schema.const;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+    if (Array.isArray(schema.allOf)) {
+        return schema.allOf.reduce((merged: Record<string, unknown>, sub: JsonSchema) => {
+            const value = sampleFromSchema(sub, depth + 1);
+            return value && typeof value === 'object' && !Array.isArray(value) ? { ...merged, ...value } : merged;
+        }, {});
+    }
+    const alternatives = schema.oneOf || schema.anyOf;
+    if (Array.isArray(alternatives) && alternatives.length > 0) return sampleFromSchema(alternatives[0], depth + 1);
+
+    const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type || (schema.properties ? 'object' : undefined);
+    switch (type) {
+        case 'string':
+            return sampleString(schema);
+        case 'integer':
+        case 'number': {
+            const min = typeof schema.minimum === 'number' ? schema.minimum : typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum + 1 : undefined;
+            const max = typeof schema.maximum === 'number' ? schema.maximum : undefined;
+            const value = min !== undefined ? min : max !== undefined && max < 1 ? max : 1;
+            return type === 'integer' ? Math.ceil(value) : value;
+        }
+        case 'boolean':
+            return true;
+        case 'array': {
+            const count = Math.max(1, typeof schema.minItems === 'number' ? schema.minItems : 1);
+            const item = sampleFromSchema(schema.items, depth + 1);
+            return Array.from({ length: count }, () => item);
+        }
+        case 'object': {
+            const out: Record<string, unknown> = {};
+            const properties = schema.properties || {};
+            Object.keys(properties).forEach(key => {
+                if (properties[key]?.writeOnly) return;
+                out[key] = sampleFromSchema(properties[key], depth + 1);
+            });
+            return out;
+        }
+        default:
+            return null;
+    }
+}
+
+function sampleString(schema: JsonSchema): string {
+    switch (schema.format) {
+        case 'date-time': return '2026-01-01T12:00:00Z';
+        case 'date': return '2026-01-01';
+        case 'time': return '12:00:00';
+        case 'email': return 'user@example.com';
+        case 'uri':
+        case 'url': return 'https://example.com';
+        case 'uuid': return '3fa85f64-5717-4562-b3fc-2c963f66afa6';
+        case 'ipv4': return '192.0.2.1';
+        case 'byte': return 'c3RyaW5n';
+    }
+    const text = 'string';
+    if (typeof schema.minLength === 'number' && schema.minLength > text.length) return text.padEnd(schema.minLength, 'x');
+    if (typeof schema.maxLength === 'number' && schema.maxLength < text.length) return text.slice(0, schema.maxLength);
+    return text;
+}
+
+/** Query/path/header strings converted to the parameter's schema type where they look like one. */
+function coerceParameter(raw: string[], schema: JsonSchema | undefined, explode: boolean): unknown {
+    const type = schema?.type;
+    if (type === 'array') {
+        const items = explode ? raw : raw.flatMap(value => value.split(','));
+        return items.map(item => coerceParameter([item], schema?.items, explode));
+    }
+    const value = raw[raw.length - 1];
+    if ((type === 'integer' || type === 'number') && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+    if (type === 'boolean' && (value === 'true' || value === 'false')) return value === 'true';
+    return value;
+}
+
+function parseJsonBody(raw: Buffer, contentType: string | undefined): unknown {
+    if (raw.length === 0) return undefined;
+    const text = raw.toString('utf8');
+    if (contentType?.includes('application/x-www-form-urlencoded')) {
+        const out: Record<string, string> = {};
+        new URLSearchParams(text).forEach((value, key) => { out[key] = value; });
+        return out;
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/** Pathname of the first server URL (variables take their defaults), e.g. "/v2"; "" for none. */
+function serverBasePath(spec: OasDocument): string {
+    const server = Array.isArray(spec?.servers) ? spec.servers[0] : undefined;
+    if (!server?.url) return '';
+    const url = String(server.url).replace(/\{([^}]+)\}/g, (_match: string, name: string) => String(server.variables?.[name]?.default ?? name));
+    try {
+        return new URL(url, 'http://localhost').pathname.replace(/\/+$/, '');
+    } catch {
+        return '';
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class OasMockServer {
+    private _server: http.Server | undefined;
+    private _url = '';
+    private readonly _operations: MockOperation[] = [];
+    private readonly _basePath: string;
+    /** Every request received with its status, e.g. "GET /pets/1 → 200", newest last. */
+    readonly requests: string[] = [];
+
+    constructor(private readonly _spec: OasDocument) {
+        this._basePath = serverBasePath(_spec);
+        const paths = _spec?.paths && typeof _spec.paths === 'object' ? _spec.paths : {};
+        Object.keys(paths).forEach(path => {
+            const pathItem = paths[path] || {};
+            HTTP_METHODS.forEach(method => {
+                const operation = pathItem[method] as OasOperation | undefined;
+                if (!operation || typeof operation !== 'object') return;
+                const pathParams: string[] = [];
+                const pattern = new RegExp('^' + path.split(/(\{[^}]+\})/).map(part => {
+                    const param = /^\{([^}]+)\}$/.exec(part);
+                    if (!param) return escapeRegExp(part);
+                    pathParams.push(param[1]);
+                    return '([^/]+)';
+                }).join('') + '/?$');
+                const parameters = new Map<string, OasParameter>();
+                [...(pathItem.parameters || []), ...(operation.parameters || [])].forEach(p => {
+                    if (p && p.name && p.in) parameters.set(`${p.in}:${p.name}`, p);
+                });
+                this._operations.push({ method: method.toUpperCase(), path, pattern, pathParams, operation, parameters: Array.from(parameters.values()) });
+            });
+        });
+    }
+
+    /** Base URL of the mocked API including the spec's base path, e.g. http://127.0.0.1:53121/v2. Empty until started. */
+    get url(): string {
+        return this._url ? this._url + this._basePath : '';
+    }
+
+    /** "GET /pets/{petId}" for every mocked operation. */
+    get operations(): string[] {
+        return this._operations.map(op => `${op.method} ${op.path}`);
+    }
+
+    /** Listen on 127.0.0.1. Port 0 (default) picks a free port. Resolves with the base URL. */
+    start(port: number = 0): Promise<string> {
+        if (this._server) return Promise.resolve(this.url);
+        return new Promise((resolve, reject) => {
+            const server = http.createServer((req, res) => this._handle(req, res));
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => {
+                this._server = server;
+                this._url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+                resolve(this.url);
+            });
+        });
+    }
+
+    stop(): Promise<void> {
+        const server = this._server;
+        this._server = undefined;
+        this._url = '';
+        if (!server) return Promise.resolve();
+        return new Promise(resolve => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        });
+    }
+
+    // ─── Request handling ─────────────────────────────────────────────────────
+
+    private _handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+            const url = new URL(req.url || '/', 'http://127.0.0.1');
+            const method = (req.method || 'GET').toUpperCase();
+            let result: MockResponse;
+            try {
+                result = this._respond(method, url, req.headers, Buffer.concat(chunks));
+            } catch (e) {
+                result = { status: 500, body: { detail: `Mock server error: ${(e as Error).message}` } };
+            }
+            this.requests.push(`${method} ${url.pathname}${url.search} → ${result.status}`);
+
+            const headers: Record<string, string> = { 'x-mock-server': 'wxo-builder' };
+            let payload: string | undefined;
+            if (result.body !== undefined) {
+                const contentType = result.contentType || 'application/json';
+                headers['Content-Type'] = contentType;
+                payload = /json/i.test(contentType) ? JSON.stringify(result.body) : String(result.body);
+            }
+            res.writeHead(result.status, headers);
+            res.end(method === 'HEAD' ? undefined : payload);
+        });
+    }
+
+    private _findOperation(method: string, pathname: string): { op?: MockOperation; match?: RegExpExecArray; pathMatched: boolean } {
+        const candidates = [pathname];
+        if (this._basePath && (pathname === this._basePath || pathname.startsWith(this._basePath + '/'))) {
+            candidates.unshift(pathname.slice(this._basePath.length) || '/');
+        }
+        let pathMatched = false;
+        for (const candidate of candidates) {
+            for (const op of this._operations) {
+                const match = op.pattern.exec(candidate);
+                if (!match) continue;
+                pathMatched = true;
+                if (op.method === method) return { op, match, pathMatched };
+            }
+        }
+        return { pathMatched };
+    }
+
+    private _respond(method: string, url: URL, headers: http.IncomingHttpHeaders, rawBody: Buffer): MockResponse {
+        const { op, match, pathMatched } = this._findOperation(method, url.pathname);
+        if (!op || !match) {
+            return pathMatched
+                ? { status: 405, body: { detail: `Method ${method} is not defined for ${url.pathname}` } }
+                : { status: 404, body: { detail: `No operation in the spec matches ${method} ${url.pathname}` } };
+        }
+
+        const credentialsProblem = this._checkSecurity(op, url, headers);
+        if (credentialsProblem) return { status: 401, body: { detail: credentialsProblem } };
+
+        const errors = this._validateRequest(op, match, url, headers, rawBody);
+        if (errors.length > 0) {
+            return { status: 400, body: { detail: `Request does not match ${method} ${op.path} in the spec`, errors } };
+        }
+        return this._sampleResponse(op, headers);
+    }
+
+    /** Problems with the request's parameters and body, one line each. */
+    private _validateRequest(op: MockOperation, match: RegExpExecArray, url: URL, headers: http.IncomingHttpHeaders, rawBody: Buffer): string[] {
+        const errors: string[] = [];
+        for (const param of op.parameters) {
+            let raw: string[] = [];
+            if (param.in === 'path') {
+                const index = op.pathParams.indexOf(param.name);
+                if (index >= 0) raw = [decodeURIComponent(match[index + 1])];
+            } else if (param.in === 'query') {
+                raw = url.searchParams.getAll(param.name);
+            } else if (param.in === 'header') {
+                const value = headers[String(param.name).toLowerCase()];
+                if (value !== undefined) raw = Array.isArray(value) ? value : [value];
+            } else {
+                continue;
+            }
+            if (raw.length === 0) {
+                if (param.required || param.in === 'path') errors.push(`Missing required ${param.in} parameter "${param.name}"`);
+                continue;
+            }
+            const value = coerceParameter(raw, param.schema, param.explode !== false);
+            validateJsonSchema(value, param.schema || {}).forEach(e => {
+                errors.push(`${param.in} parameter "${param.name}"${e.path.slice(1)}: ${e.message}`);
+            });
+        }
+
+        const requestBody = op.operation.requestBody;
+        if (requestBody) {
+            const contentType = String(headers['content-type'] || '');
+            const body = parseJsonBody(rawBody, contentType);
+            if (body === undefined) {
+                if (requestBody.required) errors.push('Missing required request body');
+            } else {
+                const content = requestBody.content || {};
+                const mediaType = Object.keys(content).find(type => contentType.includes(type.split(';')[0]))
+                    || (content['application/json'] ? 'application/json' : undefined);
+                const schema = mediaType ? content[mediaType]?.schema : undefined;
+                if (schema) {
+                    validateJsonSchema(body, schema).forEach(e => errors.push(`body${e.path.slice(1)}: ${e.message}`));
+                }
+            }
+        }
+        return errors;
+    }
+
+    /**
+     * Undefined when one of the security alternatives has all of its credentials present.
+     * Only presence is checked; any value is accepted.
+     */
+    private _checkSecurity(op: MockOperation, url: URL, headers: http.IncomingHttpHeaders): string | undefined {
+        const requirements: OasSecurityRequirement[] = op.operation.security || this._spec.security || [];
+        const schemes = this._spec.components?.securitySchemes || {};
+        if (!Array.isArray(requirements) || requirements.length === 0) return undefined;
+        const cookies = String(headers.cookie || '').split(';').map(c => c.trim().split('=')[0]);
+        const missing: string[] = [];
+        const satisfied = requirements.some(requirement => Object.keys(requirement || {}).every(name => {
+            const scheme = schemes[name];
+            if (!scheme) return true;
+            let present: boolean;
+            let what: string;
+            if (scheme.type === 'apiKey') {
+                present = scheme.in === 'query' ? url.searchParams.has(String(scheme.name))
+                    : scheme.in === 'cookie' ? cookies.includes(String(scheme.name))
+                        : headers[String(scheme.name).toLowerCase()] !== undefined;
+                what = `${scheme.in || 'header'} "${scheme.name}"`;
+            } else if (scheme.type === 'http') {
+                const prefix = String(scheme.scheme || '').toLowerCase();
+                present = String(headers.authorization || '').toLowerCase().startsWith(prefix ? prefix + ' ' : '');
+                what = `Authorization: ${scheme.scheme || ''} …`.replace(/\s+…$/, ' …');
+            } else {
+                present = /^bearer\s+\S+/i.test(String(headers.authorization || ''));
+                what = 'Authorization: Bearer …';
+            }
+            if (!present) missing.push(what);
+            return present;
+        }));
+        return satisfied ? undefined : `Missing credentials: ${Array.from(new Set(missing)).join(' or ')}`;
+    }
+
+    private _sampleResponse(op: MockOperation, headers: http.IncomingHttpHeaders): MockResponse {
+        const responses = op.operation.responses || {};
+        const preferred = /code=(\d{3})/.exec(String(headers.prefer || ''));
+        const codes = Object.keys(responses);
+        const code = (preferred && responses[preferred[1]] ? preferred[1] : undefined)
+            || codes.find(c => /^2\d\d$/.test(c))
+            || (responses['2XX'] ? '2XX' : undefined)
+            || (responses.default ? 'default' : undefined);
+        if (!code) return { status: 200 };
+        const status = /^\d{3}$/.test(code) ? parseInt(code, 10) : 200;
+        const content = responses[code]?.content;
+        if (!content || typeof content !== 'object' || Object.keys(content).length === 0) return { status };
+
+        const contentType = content['application/json'] ? 'application/json' : Object.keys(content)[0];
+        const media = content[contentType] || {};
+        let body: unknown;
+        if (media.example !== undefined) {
+            body = media.example;
+        } else if (media.examples && typeof media.examples === 'object' && Object.keys(media.examples).length > 0) {
+            const first = media.examples[Object.keys(media.examples)[0]];
+            body = first && typeof first === 'object' && 'value' in first ? first.value : first;
+        } else {
+            body = sampleFromSchema(media.schema);
+        }
+        if (body === null && !/json/i.test(contentType)) body = '';
+        return { status, contentType, body };
+    }
+}
@@ -8,8 +8,10 @@
  */
 import * as vscode from "vscode";
 import { getAgent, updateAgent, createAgent, deleteAgent, invokeAgent } from "../api/agents";
-import { listSkills } from "../api/skills";
+import { iterateSkills } from "../api/skills";
+import { collectAll } from "../api/pagination";
 import { listModels, getDefaultModelId, ModelResource } from "../api/models";
+import { isAbortError } from "../api/client";
 
 export class AgentEditorPanel {
     public static currentPanel: AgentEditorPanel | undefined;
@@ -18,6 +20,8 @@ export class AgentEditorPanel {
     private _agentId: string | null;
     private _extensionUri: vscode.Uri;
     private _isCreateMode: boolean;
+    /** Cancels in-flight loads and chat runs when the panel is closed. */
+    private readonly _abort = new AbortController();
 
     private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, agentId: string | null) {
         this._panel = panel;
@@ -71,9 +75,9 @@ export class AgentEditorPanel {
         try {
             let agent: any = {};
             if (!this._isCreateMode && this._agentId) {
-                agent = await getAgent(this._agentId);
+                agent = await getAgent(this._agentId, this._abort.signal);
             } else {
-                const defaultModelId = await getDefaultModelId();
+                const defaultModelId = await getDefaultModelId(this._abort.signal);
                 agent = {
                     name: "New Agent",
                     description: "A helpful AI agent.",
@@ -85,31 +89,23 @@ export class AgentEditorPanel {
 
             let availableModels: ModelResource[] = [];
             try {
-                availableModels = await listModels();
+                availableModels = await listModels(this._abort.signal);
             } catch {
                 // Keep empty; dropdown will use fallback options
             }
 
-            const skills = await listSkills(100);
-
-            // Normalize skills to a flat list of tools
-            let availableTools: any[] = [];
-            if (Array.isArray(skills)) {
-                availableTools = skills;
-            } else if (skills && skills.tools && Array.isArray(skills.tools)) {
-                availableTools = skills.tools;
-            } else if (skills && skills.data && Array.isArray(skills.data)) {
-                availableTools = skills.data;
-            }
+            const availableTools = await collectAll(iterateSkills(100, this._abort.signal));
 
             this._panel.webview.html = this._getWebviewContent(agent, availableTools, availableModels);
         } catch (e: any) {
+            if (isAbortError(e)) return;
             vscode.window.showErrorMessage(`Failed to load agent data: ${e.message}`);
         }
     }
 
     public dispose() {
         AgentEditorPanel.currentPanel = undefined;
+        this._abort.abort();
         this._panel.dispose();
         while (this._disposables.length) {
             const disposable = this._disposables.pop();
@@ -518,7 +514,7 @@ export class AgentEditorPanel {
                     case "invokeAgent":
                         try {
                             if (this._agentId) {
-                                const result = await invokeAgent(this._agentId, message.message);
+                                const result = await invokeAgent(this._agentId, message.message, this._abort.signal);
                                 this._panel.webview.postMessage({
                                     command: 'chatResponse',
                                     response: result.response,
@@ -526,6 +522,7 @@ export class AgentEditorPanel {
                                 });
                             }
                         } catch (e: any) {
+                            if (isAbortError(e)) return;
                             this._panel.webview.postMessage({ command: 'chatResponse', error: e.message });
                         }
                         return;
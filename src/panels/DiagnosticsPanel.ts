@@ -7,13 +7,16 @@
  * @license Apache-2.0
  */
 import * as vscode from "vscode";
-import { getIamToken } from "../api/client";
+import { getIamToken, getConfig, resolveApiKey, describeApiKeySource } from "../api/client";
 import { listSkills } from "../api/skills";
+import { WxoApiError } from "../api/errors";
 
 export class DiagnosticsPanel {
     public static currentPanel: DiagnosticsPanel | undefined;
     private readonly _panel: vscode.WebviewPanel;
     private _disposables: vscode.Disposable[] = [];
+    /** Cancels a running connectivity check when the panel is closed. */
+    private readonly _abort = new AbortController();
 
     private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
         this._panel = panel;
@@ -41,6 +44,7 @@ export class DiagnosticsPanel {
 
     public dispose() {
         DiagnosticsPanel.currentPanel = undefined;
+        this._abort.abort();
         this._panel.dispose();
         while (this._disposables.length) {
             const disposable = this._disposables.pop();
@@ -118,6 +122,7 @@ export class DiagnosticsPanel {
             async (message: any) => {
                 if (message.command === "runDiagnostics") {
                     const results = await this._runChecks();
+                    if (this._abort.signal.aborted) return;
                     webview.postMessage({ command: "diagnosticResults", results });
                 }
             },
@@ -130,30 +135,33 @@ export class DiagnosticsPanel {
         const results = [];
 
         // 1. Check Configuration
-        const cfg = vscode.workspace.getConfiguration('wxo-builder');
-        const apiKey = cfg.get<string>('apiKey') || process.env.WO_API_KEY;
-        const instanceUrl = cfg.get<string>('instanceUrl') || process.env.WO_INSTANCE_URL;
+        const cfg = getConfig();
+        const { apiKey, source } = await resolveApiKey();
+        const instanceUrl = cfg.instanceUrl;
 
         if (apiKey && instanceUrl) {
-            results.push({ name: 'Configuration', status: 'PASS', message: 'API Key and Instance URL found.' });
+            results.push({ name: 'Configuration', status: 'PASS', message: `API Key (from ${describeApiKeySource(source)}) and Instance URL found (profile: ${cfg.profileName}, scope: ${cfg.scope}).` });
         } else {
-            results.push({ name: 'Configuration', status: 'FAIL', message: 'Missing API Key or Instance URL.', details: { apiKey: !!apiKey, instanceUrl: !!instanceUrl } });
+            results.push({ name: 'Configuration', status: 'FAIL', message: `Missing API Key or Instance URL (profile: ${cfg.profileName}).`, details: { apiKey: !!apiKey, instanceUrl: !!instanceUrl } });
         }
 
-        // 2. Check Auth (IAM Token Request)
+        // 2. Check Auth (token request for the profile's auth method)
         try {
             const token = await getIamToken();
-            results.push({ name: 'Authentication', status: 'PASS', message: 'Successfully acquired IAM Token.' });
+            results.push({ name: 'Authentication', status: 'PASS', message: `Successfully authenticated (${cfg.authMethod}).` });
         } catch (err: any) {
-            results.push({ name: 'Authentication', status: 'FAIL', message: 'Failed to acquire IAM Token.', details: err.message });
+            results.push({ name: 'Authentication', status: 'FAIL', message: `Failed to authenticate (${cfg.authMethod}).`, details: err.message });
         }
 
         // 3. Check API Connectivity (List Skills)
         try {
-            const data = await listSkills(1);
+            await listSkills(1, 0, this._abort.signal);
             results.push({ name: 'API Connectivity', status: 'PASS', message: 'Successfully connected to Watson Orchestrate API.' });
         } catch (err: any) {
-            results.push({ name: 'API Connectivity', status: 'FAIL', message: 'Failed to connect to Watson Orchestrate API.', details: err.message });
+            const details = err instanceof WxoApiError
+                ? { status: err.status, endpoint: err.endpoint, requestId: err.requestId, body: err.body }
+                : err.message;
+            results.push({ name: 'API Connectivity', status: 'FAIL', message: 'Failed to connect to Watson Orchestrate API.', details });
         }
 
         return results;
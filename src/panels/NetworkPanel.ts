@@ -0,0 +1,269 @@
+/**
+ * WxO Builder - Network Inspector Panel
+ * "WxO Network" webview listing every Watson Orchestrate API request with status,
+ * latency and redacted headers/bodies; supports filtering and HAR export.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from "vscode";
+import { getNetworkEntries, onDidChangeNetworkLog, clearNetworkLog, toHar } from "../api/networkLog";
+
+/** Coalesce bursts of log updates (a request fires several) into one webview refresh. */
+const UPDATE_DEBOUNCE_MS = 200;
+
+/**
+ * Ask for a file and write the current network log as HAR 1.2.
+ * Entries are already redacted when recorded.
+ */
+export async function exportNetworkHar(): Promise<void> {
+    const entries = getNetworkEntries();
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage('The WxO network log is empty. Make some requests first.');
+        return;
+    }
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(`wxo-network-${stamp}.har`),
+        filters: { 'HAR': ['har'], 'JSON': ['json'] },
+        title: 'Export WxO Network Log as HAR'
+    });
+    if (!uri) return;
+    const version = vscode.extensions.getExtension('markusvankempen.wxo-builder')?.packageJSON?.version || '0.0.0';
+    const har = toHar(entries, version);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(har, null, 2), 'utf8'));
+    vscode.window.showInformationMessage(`Exported ${entries.length} requests to ${uri.fsPath}`);
+}
+
+export class NetworkPanel {
+    public static currentPanel: NetworkPanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    private _updateTimer: NodeJS.Timeout | undefined;
+
+    private constructor(panel: vscode.WebviewPanel) {
+        this._panel = panel;
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        this._panel.webview.html = this._getWebviewContent();
+        this._setWebviewMessageListener(this._panel.webview);
+        onDidChangeNetworkLog(() => this._scheduleUpdate(), null, this._disposables);
+    }
+
+    public static render() {
+        if (NetworkPanel.currentPanel) {
+            NetworkPanel.currentPanel._panel.reveal(vscode.ViewColumn.Beside);
+            return;
+        }
+        const panel = vscode.window.createWebviewPanel(
+            "wxoNetwork",
+            "WxO Network",
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+        NetworkPanel.currentPanel = new NetworkPanel(panel);
+    }
+
+    public dispose() {
+        NetworkPanel.currentPanel = undefined;
+        if (this._updateTimer) clearTimeout(this._updateTimer);
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+
+    private _scheduleUpdate() {
+        if (this._updateTimer) return;
+        this._updateTimer = setTimeout(() => {
+            this._updateTimer = undefined;
+            this._postEntries();
+        }, UPDATE_DEBOUNCE_MS);
+    }
+
+    private _postEntries() {
+        this._panel.webview.postMessage({ command: 'entries', entries: getNetworkEntries() });
+    }
+
+    private _setWebviewMessageListener(webview: vscode.Webview) {
+        webview.onDidReceiveMessage(
+            async (message: { command: string }) => {
+                switch (message.command) {
+                    case 'ready':
+                        this._postEntries();
+                        return;
+                    case 'clear':
+                        clearNetworkLog();
+                        return;
+                    case 'exportHar':
+                        await exportNetworkHar();
+                        return;
+                }
+            },
+            undefined,
+            this._disposables
+        );
+    }
+
+    private _getWebviewContent() {
+        return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>WxO Network</title>
+        <style>
+            body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); padding: 0 12px; color: var(--vscode-editor-foreground); }
+            .toolbar { display: flex; gap: 8px; align-items: center; padding: 10px 0; position: sticky; top: 0; background: var(--vscode-editor-background); }
+            .toolbar input { flex: 1; }
+            input, select { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 4px 6px; }
+            button { background-color: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 5px 10px; cursor: pointer; }
+            button:hover { background-color: var(--vscode-button-hoverBackground); }
+            button.secondary { background-color: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+            table { width: 100%; border-collapse: collapse; }
+            th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid var(--vscode-widget-border, rgba(128,128,128,0.2)); white-space: nowrap; }
+            td.url { max-width: 0; width: 100%; overflow: hidden; text-overflow: ellipsis; }
+            tr.row { cursor: pointer; }
+            tr.row:hover { background: var(--vscode-list-hoverBackground); }
+            tr.selected { background: var(--vscode-list-activeSelectionBackground); color: var(--vscode-list-activeSelectionForeground); }
+            .s-ok { color: var(--vscode-testing-iconPassed); }
+            .s-warn { color: var(--vscode-list-warningForeground); }
+            .s-err { color: var(--vscode-testing-iconFailed); }
+            #details { margin-top: 12px; }
+            #details h3 { margin: 12px 0 4px; font-size: 1em; }
+            pre { background-color: var(--vscode-textBlockQuote-background); padding: 8px; overflow: auto; max-height: 320px; white-space: pre-wrap; word-break: break-all; }
+            .empty { opacity: 0.7; padding: 16px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="toolbar">
+            <input id="filter" type="text" placeholder="Filter by method, URL or status">
+            <select id="status">
+                <option value="all">All</option>
+                <option value="2">2xx</option>
+                <option value="3">3xx</option>
+                <option value="4">4xx</option>
+                <option value="5">5xx</option>
+                <option value="failed">Failed / cancelled</option>
+            </select>
+            <button id="export-btn">Export as HAR</button>
+            <button id="clear-btn" class="secondary">Clear</button>
+        </div>
+        <table>
+            <thead><tr><th>Time</th><th>Method</th><th>Status</th><th>Latency</th><th>URL</th></tr></thead>
+            <tbody id="rows"></tbody>
+        </table>
+        <div id="empty" class="empty">No requests recorded yet.</div>
+        <div id="details"></div>
+
+        <script>
+            const vscode = acquireVsCodeApi();
+            let entries = [];
+            let selectedId = null;
+            const rowsEl = document.getElementById('rows');
+            const emptyEl = document.getElementById('empty');
+            const detailsEl = document.getElementById('details');
+            const filterEl = document.getElementById('filter');
+            const statusEl = document.getElementById('status');
+
+            document.getElementById('export-btn').addEventListener('click', () => vscode.postMessage({ command: 'exportHar' }));
+            document.getElementById('clear-btn').addEventListener('click', () => vscode.postMessage({ command: 'clear' }));
+            filterEl.addEventListener('input', render);
+            statusEl.addEventListener('change', render);
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                if (message.command === 'entries') {
+                    entries = message.entries || [];
+                    render();
+                }
+            });
+
+            function matches(e) {
+                const status = statusEl.value;
+                if (status === 'failed' && e.status !== 0) return false;
+                if (status !== 'all' && status !== 'failed' && String(e.status).charAt(0) !== status) return false;
+                const text = filterEl.value.trim().toLowerCase();
+                if (!text) return true;
+                return (e.method + ' ' + e.url + ' ' + e.status + ' ' + e.statusText).toLowerCase().indexOf(text) !== -1;
+            }
+
+            function statusClass(e) {
+                if (e.status === 0) return e.statusText === 'pending' ? '' : 's-err';
+                if (e.status >= 500) return 's-err';
+                if (e.status >= 400) return 's-warn';
+                return 's-ok';
+            }
+
+            function cell(row, text, cls) {
+                const td = document.createElement('td');
+                td.textContent = text;
+                if (cls) td.className = cls;
+                row.appendChild(td);
+            }
+
+            function render() {
+                const visible = entries.filter(matches).slice().reverse();
+                rowsEl.textContent = '';
+                visible.forEach(e => {
+                    const tr = document.createElement('tr');
+                    tr.className = 'row' + (e.id === selectedId ? ' selected' : '');
+                    cell(tr, new Date(e.startedDateTime).toLocaleTimeString());
+                    cell(tr, e.method);
+                    cell(tr, e.status ? String(e.status) : e.statusText, statusClass(e));
+                    cell(tr, e.statusText === 'pending' ? '…' : e.durationMs + ' ms');
+                    cell(tr, e.url + (e.attempt > 0 ? '  (retry ' + e.attempt + ')' : ''), 'url');
+                    tr.title = e.url;
+                    tr.addEventListener('click', () => { selectedId = e.id; render(); });
+                    rowsEl.appendChild(tr);
+                });
+                emptyEl.style.display = visible.length ? 'none' : 'block';
+                emptyEl.textContent = entries.length ? 'No requests match the filter.' : 'No requests recorded yet.';
+                renderDetails(entries.find(e => e.id === selectedId));
+            }
+
+            function section(title, text) {
+                const h = document.createElement('h3');
+                h.textContent = title;
+                const pre = document.createElement('pre');
+                pre.textContent = text;
+                detailsEl.appendChild(h);
+                detailsEl.appendChild(pre);
+            }
+
+            function headersText(headers) {
+                return Object.keys(headers || {}).map(k => k + ': ' + headers[k]).join('\\n') || '(none)';
+            }
+
+            function renderDetails(e) {
+                detailsEl.textContent = '';
+                if (!e) return;
+                section('General', [
+                    'Request URL: ' + e.url,
+                    'Method: ' + e.method,
+                    'Status: ' + (e.status || '-') + ' ' + e.statusText,
+                    'Latency: ' + e.durationMs + ' ms',
+                    'Started: ' + e.startedDateTime,
+                    'Attempt: ' + e.attempt
+                ].join('\\n'));
+                if (e.error) section('Error', e.error);
+                section('Request Headers', headersText(e.requestHeaders));
+                if (e.requestBody) section('Request Body', e.requestBody);
+                section('Response Headers', headersText(e.responseHeaders));
+                section('Response Body', e.responseBody || '(empty)');
+            }
+
+            vscode.postMessage({ command: 'ready' });
+        </script>
+      </body>
+      </html>
+    `;
+    }
+}
@@ -1,18 +1,3 @@
-/** Derive WxO security array from connection/application. */
-function connectionToSecurity(app: any): any[] {
-    const scheme = app?.security_scheme;
-    if (Array.isArray(scheme) && scheme.length > 0) return scheme;
-    if (scheme && typeof scheme === 'object' && scheme.type) return [scheme];
-    const auth = (app?.auth_type || '').toLowerCase();
-    if (auth === 'api_key' || auth === 'apikey' || auth === 'api-key') {
-        return [{ type: 'apiKey', in: 'query', name: 'apiKey' }];
-    }
-    if (auth === 'bearer' || auth === 'oauth2') {
-        return [{ type: 'http', scheme: 'bearer', name: 'Authorization' }];
-    }
-    return [{ type: 'apiKey', in: 'query', name: 'apiKey' }];
-}
-
 /**
  * WxO Builder - Skill/Tool Editor Panel (BETA)
  * Webview panel for viewing, editing, testing, and deploying tools/skills.
@@ -22,10 +7,27 @@ function connectionToSecurity(app: any): any[] {
  * @license Apache-2.0
  */
 import * as vscode from "vscode";
-import { getSkill, updateSkill, deleteSkill, invokeToolRemote, deploySkill } from "../api/skills";
+import * as path from "path";
+import * as fs from "fs";
+import { getSkill, updateSkill, deleteSkill, invokeToolRemote, invokeToolLocal, buildLocalRequest, requestParametersOf, toToolName, deploySkill, listOperations, deployOperations, skillToOas, OpenApiOperation, OperationDeployResult } from "../api/skills";
+import { buildRequest, toCurl } from "../api/requestBuilder";
 import { ensureTestAgentForTool } from "../api/agents";
 import { listConnections } from "../api/connections";
-import fetch from "node-fetch";
+import { loadTemplateLibrary, findTemplate, groupTemplates, ToolTemplate } from "../templates/toolTemplates";
+import { runTemplateWizard } from "../templates/templateWizard";
+import { isAbortError } from "../api/client";
+import { httpFetch } from "../api/http";
+import { isSwagger2, normalizeSpec, parseSpecText } from "../api/oasImport";
+import { resolveSpecRefs } from "../api/schemaResolver";
+import { connectionToSecurity, requestOAuth2Token } from "../api/securitySchemes";
+import { OasMockServer } from "../mock/oasMockServer";
+import { executeToolReplacement, immutableChanges, planReplacementUndo, planToolReplacement, ToolReplacementPlan, ToolReplacementResult, ToolRenameError } from "../api/toolReplace";
+import { snapshotTool } from "../api/toolHistory";
+import { checkOutputSchema, mergeResponseIntoOutputSchema } from "../api/outputSchema";
+import { runToolTestsAfterDeploy } from "../testing/testController";
+import { Tool, OasDocument, OasParameter, OasRequestBody, JsonSchema } from "../api/types";
+import { CapturedRequest, capturedRequestsFrom, looksLikeApiCall, parseCurlCommand, requestsToOas } from "../api/requestImport";
+import { inferSchema } from "../api/schemaInference";
 
 const log = (msg: string, ...args: any[]) => {
     if (vscode.workspace.getConfiguration('wxo-builder').get<boolean>('debug', true)) {
@@ -33,9 +35,50 @@ const log = (msg: string, ...args: any[]) => {
     }
 };
 
-function validateOas(oas: any): string[] {
+/**
+ * Parameters for an operation generated from a test call: values whose name appears as
+ * `{name}` in the path become required path parameters; the rest are query parameters for
+ * GET / HEAD / DELETE / OPTIONS and a JSON request body otherwise. Values are kept as
+ * defaults (e.g. to store an API key in the tool JSON).
+ */
+function inferOperationInputs(pathTemplate: string, method: string, params: unknown): { parameters: OasParameter[]; requestBody?: OasRequestBody } {
+    const values = (params && typeof params === 'object' ? params : {}) as Record<string, unknown>;
+    const parameters: OasParameter[] = [];
+    const body: Record<string, unknown> = {};
+    const queryMethod = ['GET', 'HEAD', 'DELETE', 'OPTIONS'].includes(String(method || 'GET').toUpperCase());
+    Object.keys(values).forEach(key => {
+        const val = values[key];
+        const inPath = pathTemplate.includes(`{${key}}`);
+        if (!inPath && !queryMethod) {
+            body[key] = val;
+            return;
+        }
+        const schema: JsonSchema = inferSchema(val);
+        if (val !== undefined && val !== null) schema.default = val;
+        parameters.push({ name: key, in: inPath ? 'path' : 'query', required: inPath, schema });
+    });
+    const requestBody = Object.keys(body).length > 0
+        ? { required: true, content: { 'application/json': { schema: inferSchema(body) } } }
+        : undefined;
+    return { parameters, requestBody };
+}
+
+/** Editor content: a WxO tool (binding.openapi, input_schema) or an OpenAPI document. */
+type EditorContent = Partial<Tool> & OasDocument;
+
+/**
+ * Structural problems with the editor content. `conversionWarnings` (from a Swagger 2.0
+ * import) are listed after the errors so they show up wherever validation results do.
+ */
+function validateOas(oas: EditorContent, conversionWarnings: string[] = []): string[] {
+    const warnings = conversionWarnings.map(w => `Conversion warning: ${w}`);
+    return [...validateOasStructure(oas), ...warnings];
+}
+
+function validateOasStructure(oas: EditorContent): string[] {
     const errors: string[] = [];
     if (!oas || typeof oas !== 'object') return ['Content is not a valid object.'];
+    if (isSwagger2(oas)) return ['Swagger 2.0 documents are not supported directly; use Import to convert the file to OpenAPI 3.'];
 
     // WxO skill format (from Edit / API response): binding.openapi, input_schema
     const binding = oas?.binding?.openapi;
@@ -60,6 +103,16 @@ function validateOas(oas: any): string[] {
     return errors;
 }
 
+/** Markdown table of a multi-operation create, one row per operation. */
+function formatDeployResults(results: OperationDeployResult[]): string {
+    const rows = results.map(r => {
+        const op = `${r.operation.method.toUpperCase()} ${r.operation.path}`;
+        const outcome = r.success ? `✅ created (${r.toolId})` : `❌ ${String(r.error || 'failed').replace(/\|/g, '\\|').replace(/\n/g, ' ')}`;
+        return `| \`${op}\` | ${r.toolName} | ${outcome} |`;
+    });
+    return ['# Create Tools', '', '| Operation | Tool | Result |', '| :--- | :--- | :--- |', ...rows, ''].join('\n');
+}
+
 export class SkillEditorPanel {
     public static currentPanel: SkillEditorPanel | undefined;
     private readonly _panel: vscode.WebviewPanel;
@@ -68,6 +121,16 @@ export class SkillEditorPanel {
     private _extensionUri: vscode.Uri;
     private _isCreateMode: boolean;
     private _customContent: any;
+    /** File the content was imported from; external $refs resolve relative to it. */
+    private _sourceUri: vscode.Uri | undefined;
+    /** Swagger 2.0 conversion notes for the imported file; reported by validation. */
+    private _importWarnings: string[] = [];
+    /** Cancels in-flight loads and test runs when the panel is closed. */
+    private readonly _abort = new AbortController();
+    /** Template file errors last reported, so re-renders do not repeat the warning. */
+    private _reportedTemplateErrors = '';
+    /** Mock of the tool's upstream API (Start Mock Server); stopped with the panel. */
+    private _mockServer: OasMockServer | undefined;
 
     private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, skillId: string | null, customContent?: any) {
         this._panel = panel;
@@ -80,7 +143,8 @@ export class SkillEditorPanel {
         this._setWebviewMessageListener(this._panel.webview);
     }
 
-    public static async render(extensionUri: vscode.Uri, skillId: string | null, customContent?: any) {
+    /** `sourceUri`: file the custom content came from; its external $refs resolve relative to it. */
+    public static async render(extensionUri: vscode.Uri, skillId: string | null, customContent?: EditorContent, sourceUri?: vscode.Uri) {
         log('render() called:', { skillId: skillId ?? '(create)', hasCustomContent: !!customContent });
         let panelTitle = skillId ? `Edit Tool: ${skillId}` : `Create New Tool`;
 
@@ -93,6 +157,8 @@ export class SkillEditorPanel {
                 // If creating, we might want to update content if customContent is provided
                 if (!skillId && customContent) {
                     SkillEditorPanel.currentPanel._customContent = customContent;
+                    SkillEditorPanel.currentPanel._sourceUri = sourceUri;
+                    SkillEditorPanel.currentPanel._importWarnings = [];
                     await SkillEditorPanel.currentPanel._loadData();
                 }
                 SkillEditorPanel.currentPanel._panel.reveal(vscode.ViewColumn.One);
@@ -113,6 +179,7 @@ export class SkillEditorPanel {
         );
 
         SkillEditorPanel.currentPanel = new SkillEditorPanel(panel, extensionUri, skillId, customContent);
+        SkillEditorPanel.currentPanel._sourceUri = sourceUri;
         await SkillEditorPanel.currentPanel._loadData();
     }
 
@@ -127,7 +194,7 @@ export class SkillEditorPanel {
             } else if (!host.startsWith('www.')) {
                 baseUrl = `${urlObj.protocol}//www.${host}`;
             }
-            const res = await fetch(baseUrl, { headers: { 'Accept': 'text/html' } });
+            const res = await httpFetch(baseUrl, { headers: { 'Accept': 'text/html' }, signal: this._abort.signal });
             const html = await res.text();
             let title: string | undefined;
             let description: string | undefined;
@@ -171,11 +238,10 @@ export class SkillEditorPanel {
             if (this._isCreateMode) {
                 let connections: Array<{ connection_id: string; app_id: string; security?: any[] }> = [];
                 try {
-                    const connData = await listConnections();
-                    const apps = connData?.applications ?? (Array.isArray(connData) ? connData : []);
+                    const apps = await listConnections(this._abort.signal);
                     connections = apps
-                        .filter((a: any) => a.connection_id || a.app_id)
-                        .map((a: any) => ({
+                        .filter(a => a.connection_id || a.app_id)
+                        .map(a => ({
                             connection_id: a.connection_id || a.app_id,
                             app_id: a.app_id || a.connection_id || 'Unknown',
                             security: connectionToSecurity(a)
@@ -207,7 +273,7 @@ export class SkillEditorPanel {
             } else {
                 if (this._skillId) {
                     log('_loadData: fetching skill from API:', this._skillId);
-                    const skill = await getSkill(this._skillId);
+                    const skill = await getSkill(this._skillId, this._abort.signal);
                     log('_loadData: skill fetched, keys:', Object.keys(skill || {}));
                     // Update panel title with friendly name
                     const friendlyName = skill.display_name || skill.name || this._skillId;
@@ -217,6 +283,7 @@ export class SkillEditorPanel {
             }
             log('_loadData() complete');
         } catch (e: any) {
+            if (isAbortError(e)) return;
             console.error('[WxO Editor] _loadData failed:', e);
             vscode.window.showErrorMessage(`Failed to load tool: ${e.message}`);
         }
@@ -224,6 +291,8 @@ export class SkillEditorPanel {
 
     public dispose() {
         SkillEditorPanel.currentPanel = undefined;
+        this._abort.abort();
+        this._stopMockServer();
         this._panel.dispose();
         while (this._disposables.length) {
             const disposable = this._disposables.pop();
@@ -314,21 +383,13 @@ export class SkillEditorPanel {
         <div class="create-actions">
             <label style="margin-top:0;">Quick Start Template:</label>
             <div style="display: flex; gap: 8px; align-items: center; flex-wrap: wrap;">
+                <input type="search" id="template-search" placeholder="Search templates..." style="min-width: 160px; padding: 7px; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border);">
                 <select id="template-select" style="flex-grow: 1; min-width: 180px; padding: 8px; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border);">
-                    <option value="blank">Blank (no URL)</option>
-                    <option value="weather">Weather (weatherapi.com) - Current weather by location</option>
-                    <option value="world-time">World Time Tool (timeapi.io) - Get time for any timezone</option>
-                    <option value="aviation-weather">Aviation Weather METAR (aviationweather.gov)</option>
-                    <option value="dad-jokes">Dad Jokes (icanhazdadjoke.com) - Random dad jokes</option>
-                    <option value="news-search">News Search - q, qInTitle, sources, domains (correct schema)</option>
-                    <option value="news-app">News App (NewsAPI) - q, apiKey, pageSize</option>
-                    <option value="universities">University Search (hipolabs.com)</option>
-                    <option value="zip-code">Zip Code Info (zippopotam.us)</option>
-                    <option value="currency">Currency Exchange (frankfurter.app)</option>
-                    <option value="finance-yahoo">Yahoo Finance (Stocks)</option>
+                    ${this._templateOptions(escapeHtml)}
                 </select>
                 <button class="secondary" onclick="loadSelectedTemplate()">Load Template</button>
-                <button class="secondary" onclick="requestImport()">Import OpenAPI File</button>
+                <button class="secondary" onclick="requestImport()" title="OpenAPI / Swagger (JSON or YAML), Postman collection or HAR file">Import File</button>
+                <button class="secondary" onclick="requestCurlImport()">Paste cURL</button>
             </div>
         </div>
         ` : ''}
@@ -466,6 +527,14 @@ export class SkillEditorPanel {
                 <button id="run-test-btn">▶ Run Local</button>
                 <button id="run-remote-btn" class="secondary" title="Invoke via Watson Orchestrate">☁️ Run Remote</button>
                 <button id="copy-curl-btn" class="secondary" title="Copy last request as cURL">Copy as cURL</button>
+                <button id="mock-server-btn" class="secondary" title="Serve the spec's operations locally with example or schema-generated responses" data-mock-url="${escapeHtml(this._mockServer?.url || '')}">${this._mockServer ? '■ Stop Mock Server' : 'Start Mock Server'}</button>
+            </div>
+            <div id="schema-check" style="display:none; margin-bottom:8px; padding:8px; border:1px solid var(--vscode-widget-border); border-radius:4px; font-size:0.85em;">
+                <div style="display:flex; justify-content:space-between; align-items:center; gap:8px;">
+                    <strong id="schema-check-title">Output schema</strong>
+                    <button id="update-schema-btn" class="secondary" type="button" style="font-size:0.85em; padding:2px 8px;" title="Add the fields and types seen in this response to the output schema">Update schema from this response</button>
+                </div>
+                <ul id="schema-check-issues" style="margin:4px 0 0 16px; padding:0;"></ul>
             </div>
             <label style="font-size:0.9em;">Response</label>
             <div id="test-response" class="response-area">Waiting...</div>
@@ -490,430 +559,199 @@ export class SkillEditorPanel {
         return html;
     }
 
-    private _getTemplate(templateId: string): any {
-        switch (templateId) {
-            case 'weather':
-                return {
-                    "openapi": "3.0.1",
-                    "info": {
-                        "title": "Weather Tool",
-                        "version": "1.0.0",
-                        "description": "Get current weather for a location. Uses WeatherAPI.com. Optionally assign a connection for the API key at creation.",
-                        "x-ibm-skill-name": "Weather Tool",
-                        "x-ibm-skill-id": "weather-tool-v1"
-                    },
-                    "components": {
-                        "securitySchemes": {
-                            "ApiKeyAuth": { "type": "apiKey", "in": "query", "name": "key" }
-                        }
-                    },
-                    "security": [{ "ApiKeyAuth": [] }],
-                    "servers": [{ "url": "https://api.weatherapi.com/v1" }],
-                    "paths": {
-                        "/current.json": {
-                            "get": {
-                                "operationId": "getCurrentWeather",
-                                "summary": "Get Current Weather",
-                                "description": "Get current weather for a city or location (e.g. Toronto,On). API key required via connection or key param.",
-                                "parameters": [
-                                    { "name": "q", "in": "query", "required": true, "description": "City name or lat,lon (e.g. Toronto,On or 43.65,-79.38)", "schema": { "type": "string", "default": "Toronto,On" } },
-                                    { "name": "key", "in": "query", "required": false, "description": "API key (or use connection)", "schema": { "type": "string", "title": "key" } }
-                                ],
-                                "responses": {
-                                    "200": {
-                                        "description": "Current weather data",
-                                        "content": {
-                                            "application/json": {
-                                                "schema": {
-                                                    "type": "object",
-                                                    "properties": {
-                                                        "location": { "type": "object", "properties": { "name": { "type": "string" }, "region": { "type": "string" }, "country": { "type": "string" } } },
-                                                        "current": { "type": "object", "properties": { "temp_c": { "type": "number" }, "condition": { "type": "object" }, "wind_kph": { "type": "number" }, "humidity": { "type": "integer" } } }
-                                                    }
-                                                }
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                };
-
-            case 'world-time':
-                return {
-                    "openapi": "3.0.0",
-                    "info": {
-                        "title": "World Time Skill",
-                        "version": "2.0.0",
-                        "description": "Get current time for any timezone.",
-                        "x-ibm-skill-name": "World Time Skill",
-                        "x-ibm-skill-id": "world-time-skill-v2"
-                    },
-                    "servers": [{ "url": "https://timeapi.io/api" }],
-                    "paths": {
-                        "/Time/current/zone": {
-                            "get": {
-                                "operationId": "getCityTime",
-                                "summary": "Get Time",
-                                "description": "Get current time for a specific timezone (e.g. Europe/Amsterdam).",
-                                "parameters": [{
-                                    "name": "timeZone",
-                                    "in": "query",
-                                    "required": true,
-                                    "description": "The IANA time zone identifier (e.g. 'Europe/Amsterdam', 'America/New_York').",
-                                    "schema": { "type": "string" }
-                                }],
-                                "responses": {
-                                    "200": {
-                                        "description": "Success",
-                                        "content": {
-                                            "application/json": {
-                                                "schema": {
-                                                    "type": "object",
-                                                    "properties": {
-                                                        "dateTime": { "type": "string", "description": "Current date/time in ISO format." },
-                                                        "time": { "type": "string", "description": "Current time in HH:mm format." },
-                                                        "timeZone": { "type": "string" },
-                                                        "dayOfWeek": { "type": "string" }
-                                                    }
-                                                }
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                };
-
-            case 'aviation-weather':
-                return {
-                    "openapi": "3.0.1",
-                    "info": {
-                        "title": "Aviation Weather METAR Skill",
-                        "version": "1.0.0",
-                        "description": "Get latest METAR weather report for a given airport ICAO code.",
-                        "x-ibm-skill-name": "Aviation Weather METAR Skill",
-                        "x-ibm-skill-id": "aviation-weather-metar-skill-v1"
-                    },
-                    "servers": [{ "url": "https://aviationweather.gov/api/data/metar" }],
-                    "paths": {
-                        "/": {
-                            "get": {
-                                "operationId": "getMetar",
-                                "summary": "Get METAR Weather Report",
-                                "description": "Retrieve the latest METAR weather report for a specified airport ICAO code.",
-                                "parameters": [
-                                    {
-                                        "name": "ids",
-                                        "in": "query",
-                                        "required": true,
-                                        "description": "ICAO airport code (e.g., 'KJFK', 'EHAM').",
-                                        "schema": { "type": "string" }
-                                    },
-                                    {
-                                        "name": "format",
-                                        "in": "query",
-                                        "required": false,
-                                        "description": "Response format (default: 'json').",
-                                        "schema": { "type": "string", "default": "json" }
-                                    }
-                                ],
-                                "responses": {
-                                    "200": {
-                                        "description": "Successful METAR weather report response.",
-                                        "content": {
-                                            "application/json": {
-                                                "schema": {
-                                                    "type": "object",
-                                                    "properties": {
-                                                        "data": {
-                                                            "type": "array",
-                                                            "items": {
-                                                                "type": "object",
-                                                                "properties": {
-                                                                    "raw_text": { "type": "string" },
-                                                                    "station_id": { "type": "string" },
-                                                                    "temp_c": { "type": "number" },
-                                                                    "wind_speed_kt": { "type": "integer" }
-                                                                }
-                                                            }
-                                                        }
-                                                    }
-                                                }
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                };
+    /** Template picker options: Blank, then one group per category (see toolTemplates.ts). */
+    private _templateOptions(escapeHtml: (s: string) => string): string {
+        const { templates, errors } = loadTemplateLibrary();
+        const errorKey = errors.join('\n');
+        if (errorKey && errorKey !== this._reportedTemplateErrors) {
+            vscode.window.showWarningMessage(`WxO Builder: ${errors.length} template file(s) could not be loaded: ${errors.join('; ')}`);
+        }
+        this._reportedTemplateErrors = errorKey;
+        const option = (t: ToolTemplate) => {
+            const label = `${t.name}${t.description ? ` - ${t.description}` : ''}${t.source !== 'built-in' ? ` [${t.source}]` : ''}`;
+            const title = [t.file, t.connection ? `Needs connection: ${t.connection}` : ''].filter(Boolean).join('\n');
+            return `<option value="${escapeHtml(t.id)}" title="${escapeHtml(title)}">${escapeHtml(label)}</option>`;
+        };
+        return ['<option value="blank">Blank (no URL)</option>',
+            ...groupTemplates(templates).map(group =>
+                `<optgroup label="${escapeHtml(group.category)}">${group.templates.map(option).join('')}</optgroup>`)
+        ].join('\n                    ');
+    }
 
-            case 'dad-jokes':
-                return {
-                    "openapi": "3.0.1",
-                    "info": {
-                        "title": "Dad Jokes Skill",
-                        "version": "1.0.0",
-                        "description": "Get a random dad joke. Guaranteed to make you groan.",
-                        "x-ibm-skill-name": "Dad Jokes Skill",
-                        "x-ibm-skill-id": "dad-jokes-skill-v1"
-                    },
-                    "servers": [{ "url": "https://icanhazdadjoke.com" }],
-                    "paths": {
-                        "/": {
-                            "get": {
-                                "operationId": "getRandomJoke",
-                                "summary": "Get Random Dad Joke",
-                                "description": "Fetch a random dad joke.",
-                                "parameters": [],
-                                "responses": {
-                                    "200": {
-                                        "description": "A random dad joke.",
-                                        "content": {
-                                            "application/json": {
-                                                "schema": {
-                                                    "type": "object",
-                                                    "properties": {
-                                                        "id": { "type": "string", "description": "Unique joke ID." },
-                                                        "joke": { "type": "string", "description": "The dad joke text." },
-                                                        "status": { "type": "integer", "description": "HTTP status code." }
-                                                    }
-                                                }
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                };
+    /** Directory for external $refs: the imported file's folder, else the workspace folder. */
+    private _refBaseDir(): string | undefined {
+        if (this._sourceUri) return path.dirname(this._sourceUri.fsPath);
+        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    }
 
-            case 'news-search':
-                return {
-                    "openapi": "3.0.1",
-                    "info": {
-                        "title": "News Search",
-                        "version": "1.0.0",
-                        "description": "Search for news articles. Requires at least one of: q, qInTitle, sources, domains. Assign a connection (NewsAPI, etc.) when creating.",
-                        "x-ibm-skill-name": "News Search Skill",
-                        "x-ibm-skill-id": "news-search-skill-v1"
-                    },
-                    "components": {
-                        "securitySchemes": {
-                            "ApiKeyAuth": { "type": "apiKey", "in": "query", "name": "apiKey" }
-                        }
-                    },
-                    "security": [{ "ApiKeyAuth": [] }],
-                    "servers": [{ "url": "https://newsapi.org/v2" }],
-                    "paths": {
-                        "/everything": {
-                            "get": {
-                                "operationId": "searchNews",
-                                "summary": "Search News",
-                                "description": "Search news articles. Set at least one of q, qInTitle, sources, or domains.",
-                                "parameters": [
-                                    { "name": "q", "in": "query", "required": false, "description": "Topic to search for", "schema": { "type": "string", "title": "Topic" } },
-                                    { "name": "qInTitle", "in": "query", "required": false, "description": "Search in article titles only", "schema": { "type": "string", "title": "Title Search" } },
-                                    { "name": "sources", "in": "query", "required": false, "description": "Comma-separated source IDs", "schema": { "type": "string", "title": "Sources" } },
-                                    { "name": "domains", "in": "query", "required": false, "description": "Comma-separated domains (e.g. bbc.co.uk)", "schema": { "type": "string", "title": "Domains" } },
-                                    { "name": "pageSize", "in": "query", "required": false, "description": "Number of articles to return", "schema": { "type": "integer", "title": "Page Size", "default": 5 } }
-                                ],
-                                "responses": {
-                                    "200": {
-                                        "description": "News articles",
-                                        "content": {
-                                            "application/json": {
-                                                "schema": {
-                                                    "type": "object",
-                                                    "properties": {
-                                                        "articles": { "type": "array", "items": { "type": "object" } },
-                                                        "totalResults": { "type": "integer" }
-                                                    }
-                                                }
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                };
+    /**
+     * Multi-operation spec: let the user tick operations, create one tool per operation
+     * and report each one's result.
+     */
+    private async _createToolsFromOperations(oas: OasDocument, operations: OpenApiOperation[]) {
+        const picked = await vscode.window.showQuickPick(
+            operations.map(op => ({
+                label: `${op.method.toUpperCase()} ${op.path}`,
+                description: op.operationId,
+                detail: op.summary,
+                picked: true,
+                operation: op
+            })),
+            {
+                title: `Create Tools: ${operations.length} operations in "${oas.info?.title || 'spec'}"`,
+                placeHolder: 'Select the operations to create as separate tools',
+                canPickMany: true
+            }
+        );
+        if (!picked || picked.length === 0) return;
 
-            case 'news-app':
-                return {
-                    "openapi": "3.0.1",
-                    "info": {
-                        "title": "News App",
-                        "version": "1.0.0",
-                        "description": "Get news articles from NewsAPI. Assign a NewsAPI connection for apiKey, or pass it as a parameter.",
-                        "x-ibm-skill-name": "News App Skill",
-                        "x-ibm-skill-id": "news-app-skill-v1"
-                    },
-                    "components": {
-                        "securitySchemes": {
-                            "ApiKeyAuth": { "type": "apiKey", "in": "query", "name": "apiKey" }
-                        }
-                    },
-                    "security": [{ "ApiKeyAuth": [] }],
-                    "servers": [{ "url": "https://newsapi.org" }],
-                    "paths": {
-                        "/v2/everything": {
-                            "get": {
-                                "operationId": "getNews",
-                                "summary": "Get News",
-                                "description": "Get news articles. Use connection for apiKey or pass q, apiKey, pageSize.",
-                                "parameters": [
-                                    { "name": "q", "in": "query", "required": false, "description": "Topic to search for", "schema": { "type": "string", "title": "q", "default": "tesla" } },
-                                    { "name": "apiKey", "in": "query", "required": false, "description": "API key (or use connection)", "schema": { "type": "string", "title": "apiKey" } },
-                                    { "name": "pageSize", "in": "query", "required": false, "description": "Number of articles to return", "schema": { "type": "string", "title": "pageSize", "default": "5" } }
-                                ],
-                                "responses": {
-                                    "200": {
-                                        "description": "News articles",
-                                        "content": {
-                                            "application/json": {
-                                                "schema": {
-                                                    "type": "object",
-                                                    "description": "Success",
-                                                    "properties": {
-                                                        "status": { "type": "string" },
-                                                        "articles": {
-                                                            "type": "array",
-                                                            "items": {
-                                                                "type": "object",
-                                                                "properties": {
-                                                                    "url": { "type": "string" },
-                                                                    "title": { "type": "string" },
-                                                                    "author": { "type": "string" },
-                                                                    "source": { "type": "object", "properties": { "id": { "type": "string" }, "name": { "type": "string" } } },
-                                                                    "content": { "type": "string" },
-                                                                    "urlToImage": { "type": "string" },
-                                                                    "description": { "type": "string" },
-                                                                    "publishedAt": { "type": "string" }
-                                                                }
-                                                            }
-                                                        },
-                                                        "totalResults": { "type": "integer" }
-                                                    }
-                                                }
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                };
+        const selected = picked.map(p => p.operation);
+        let results: OperationDeployResult[];
+        try {
+            results = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Creating ${selected.length} tools` },
+                progress => deployOperations(oas, selected, {
+                    baseDir: this._refBaseDir(),
+                    onProgress: result => progress.report({ message: result.toolName, increment: 100 / selected.length })
+                })
+            );
+        } catch (e) {
+            vscode.window.showErrorMessage(`Failed to create tools: ${(e as Error).message}`);
+            return;
+        }
+        for (const result of results) {
+            if (result.success && result.toolId) await snapshotTool(result.toolId, 'create');
+        }
+        runToolTestsAfterDeploy();
+        vscode.commands.executeCommand('watsonx.refreshSkills');
+
+        const failed = results.filter(r => !r.success);
+        const summary = `Created ${results.length - failed.length} of ${results.length} tools.`;
+        const action = failed.length
+            ? await vscode.window.showErrorMessage(`${summary} ${failed.length} failed: ${failed.map(r => r.toolName).join(', ')}`, 'Show Details')
+            : await vscode.window.showInformationMessage(summary, 'Show Details');
+        if (action === 'Show Details') {
+            const doc = await vscode.workspace.openTextDocument({ content: formatDeployResults(results), language: 'markdown' });
+            await vscode.window.showTextDocument(doc, { preview: true });
+        }
+        if (failed.length === 0) this.dispose();
+    }
 
-            case 'universities':
-                return {
-                    "openapi": "3.0.1",
-                    "info": {
-                        "title": "University Search",
-                        "version": "1.0.0",
-                        "description": "Search for universities by name or country.",
-                        "x-ibm-skill-name": "University Search Skill",
-                        "x-ibm-skill-id": "uni-search-skill-v1"
-                    },
-                    "servers": [{ "url": "http://universities.hipolabs.com" }],
-                    "paths": {
-                        "/search": {
-                            "get": {
-                                "operationId": "searchUniversities",
-                                "summary": "Search Universities",
-                                "parameters": [
-                                    { "name": "country", "in": "query", "required": false, "schema": { "type": "string", "default": "United States" }, "description": "Country to search in" },
-                                    { "name": "name", "in": "query", "required": false, "schema": { "type": "string", "default": "Stanford" }, "description": "Name of university" }
-                                ],
-                                "responses": { "200": { "description": "List of universities" } }
-                            }
-                        }
-                    }
-                };
+    /**
+     * Save edits that touch immutable fields by replacing the tool (see toolReplace.ts).
+     * The plan is shown before anything changes; "Save Editable Fields Only" keeps the old behaviour.
+     */
+    private async _saveWithReplacement(currentTool: Tool, edited: Partial<Tool>) {
+        let plan: ToolReplacementPlan;
+        try {
+            plan = await planToolReplacement(currentTool, edited, this._abort.signal);
+        } catch (e) {
+            if (isAbortError(e)) return;
+            vscode.window.showErrorMessage(`Failed to update tool: ${(e as Error).message}`);
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(
+            `Changes to ${plan.changes.join(', ')} cannot be saved in place. Replace the tool?\n\n` +
+            plan.steps.map((step, i) => `${i + 1}. ${step}`).join('\n') +
+            `\n\nThe tool gets a new ID. If a step fails before the old tool is deleted, the earlier steps are rolled back. You can undo the replacement afterwards.`,
+            { modal: true },
+            "Replace Tool", "Save Editable Fields Only"
+        );
+        if (choice === "Save Editable Fields Only") {
+            try {
+                await snapshotTool(currentTool, 'observed');
+                await updateSkill(currentTool.id, edited);
+                await snapshotTool(currentTool.id, 'update');
+                vscode.window.showInformationMessage(`Tool updated. Changes to ${plan.changes.join(', ')} were not saved.`);
+                this._loadData();
+            } catch (e) {
+                vscode.window.showErrorMessage(`Failed to update tool: ${(e as Error).message}`);
+            }
+            return;
+        }
+        if (choice === "Replace Tool") await this._runReplacement(plan, true);
+    }
 
-            case 'zip-code':
-                return {
-                    "openapi": "3.0.1",
-                    "info": {
-                        "title": "Zip Code Info",
-                        "version": "1.0.0",
-                        "description": "Get location information for a US Zip Code.",
-                        "x-ibm-skill-name": "Zip Code Skill",
-                        "x-ibm-skill-id": "zip-code-skill-v1"
-                    },
-                    "servers": [{ "url": "http://api.zippopotam.us" }],
-                    "paths": {
-                        "/us/{zipcode}": {
-                            "get": {
-                                "operationId": "getZipInfo",
-                                "summary": "Get Zip Code Info",
-                                "parameters": [
-                                    { "name": "zipcode", "in": "path", "required": true, "schema": { "type": "string", "default": "90210" }, "description": "US Zip Code" }
-                                ],
-                                "responses": { "200": { "description": "Location info" } }
-                            }
-                        }
-                    }
-                };
+    private async _runReplacement(plan: ToolReplacementPlan, offerUndo: boolean) {
+        const label = plan.oldTool.display_name || plan.oldTool.name;
+        let result: ToolReplacementResult;
+        let renameError: ToolRenameError | undefined;
+        await snapshotTool(plan.oldTool, 'observed');
+        try {
+            result = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `${offerUndo ? 'Replacing' : 'Restoring'} tool "${label}"` },
+                progress => executeToolReplacement(plan, step => progress.report({ message: step }))
+            );
+        } catch (e) {
+            if (!(e instanceof ToolRenameError)) {
+                vscode.window.showErrorMessage((e as Error).message);
+                vscode.commands.executeCommand('watsonx.refreshSkills');
+                return;
+            }
+            // The replacement itself went through; only the rename back to the original name failed
+            renameError = e;
+            result = e.result;
+        }
+        await snapshotTool(result.newToolId, offerUndo ? 'replace' : 'restore');
+        runToolTestsAfterDeploy();
+        this._skillId = result.newToolId;
+        this._loadData();
+        vscode.commands.executeCommand('watsonx.refreshSkills');
+
+        const rebound = result.reboundAgents.length ? ` Agents moved to the new tool: ${result.reboundAgents.join(', ')}.` : '';
+        const done = renameError
+            ? `${renameError.message}. The tool still has the temporary name ${renameError.temporaryName}; rename it in the editor.${rebound}`
+            : `Tool "${label}" ${offerUndo ? 'replaced (new ID' : 'restored (ID'} ${result.newToolId}).${rebound}`;
+        const show = (text: string, ...actions: string[]) => renameError
+            ? vscode.window.showWarningMessage(text, ...actions)
+            : vscode.window.showInformationMessage(text, ...actions);
+        if (!offerUndo) {
+            show(done);
+            return;
+        }
+        const action = await show(done, "Undo");
+        if (action !== "Undo") return;
+        try {
+            await this._runReplacement(await planReplacementUndo(result), false);
+        } catch (e) {
+            vscode.window.showErrorMessage(`Failed to undo the replacement: ${(e as Error).message}`);
+        }
+    }
 
-            case 'currency':
-                return {
-                    "openapi": "3.0.1",
-                    "info": {
-                        "title": "Currency Exchange",
-                        "version": "1.0.0",
-                        "description": "Get current exchange rates.",
-                        "x-ibm-skill-name": "Currency Skill",
-                        "x-ibm-skill-id": "currency-skill-v1"
-                    },
-                    "servers": [{ "url": "https://api.frankfurter.app" }],
-                    "paths": {
-                        "/latest": {
-                            "get": {
-                                "operationId": "getExchangeRates",
-                                "summary": "Get Latest Rates",
-                                "parameters": [
-                                    { "name": "from", "in": "query", "required": false, "schema": { "type": "string", "default": "USD" }, "description": "Base currency" },
-                                    { "name": "to", "in": "query", "required": false, "schema": { "type": "string", "default": "EUR,GBP" }, "description": "Target currencies (comma separated)" }
-                                ],
-                                "responses": { "200": { "description": "Exchange rates" } }
-                            }
-                        }
-                    }
-                };
+    /** Start a mock of the upstream API from the editor content, replacing any running one. */
+    private async _startMockServer(definition: EditorContent | undefined): Promise<void> {
+        this._stopMockServer();
+        try {
+            if (!definition || typeof definition !== 'object') throw new Error('The editor content is not valid JSON.');
+            const oas = definition.binding?.openapi ? skillToOas(definition, { copy: false }) : definition;
+            const spec = await resolveSpecRefs(oas, { baseDir: this._refBaseDir() });
+            const server = new OasMockServer(spec);
+            if (server.operations.length === 0) throw new Error('The definition has no operations to mock.');
+            const url = await server.start();
+            this._mockServer = server;
+            log('Mock server started:', url, server.operations);
+            this._panel.webview.postMessage({ command: 'mockServerState', url });
+            vscode.window.showInformationMessage(`Mock server running at ${url} (${server.operations.join(', ')}). Run Local now calls the mock.`);
+        } catch (e) {
+            this._panel.webview.postMessage({ command: 'mockServerState', url: '' });
+            vscode.window.showErrorMessage(`Could not start the mock server: ${(e as Error).message}`);
+        }
+    }
 
-            case 'finance-yahoo':
-                return {
-                    "openapi": "3.0.1",
-                    "info": {
-                        "title": "Stock Quote (Yahoo)",
-                        "version": "1.0.0",
-                        "description": "Get market data for a stock symbol from Yahoo Finance.",
-                        "x-ibm-skill-name": "Stock Quote Skill",
-                        "x-ibm-skill-id": "stock-quote-skill-v1"
-                    },
-                    "servers": [{ "url": "https://query1.finance.yahoo.com" }],
-                    "paths": {
-                        "/v8/finance/chart/{symbol}": {
-                            "get": {
-                                "operationId": "getChart",
-                                "summary": "Get Chart Data",
-                                "parameters": [
-                                    { "name": "symbol", "in": "path", "required": true, "schema": { "type": "string", "default": "IBM" }, "description": "Stock Symbol (e.g. IBM, AAPL)" },
-                                    { "name": "interval", "in": "query", "required": false, "schema": { "type": "string", "enum": ["1m", "5m", "15m", "1d", "1wk", "1mo"], "default": "1d" }, "description": "Data interval" },
-                                    { "name": "range", "in": "query", "required": false, "schema": { "type": "string", "enum": ["1d", "5d", "1mo", "3mo", "6mo", "1y", "5y", "max"], "default": "1mo" }, "description": "Data range" }
-                                ],
-                                "responses": { "200": { "description": "Chart data" } }
-                            }
-                        }
-                    }
-                };
+    private _stopMockServer(): void {
+        const server = this._mockServer;
+        this._mockServer = undefined;
+        if (server) server.stop().then(undefined, e => log('Mock server stop failed:', e.message));
+    }
 
-            default: // 'blank'
-                return null; // Will fall through to default template in _loadData
+    /** Output schema check for a test response; undefined when the webview sent no definition. */
+    private _schemaCheck(definition: EditorContent | undefined, data: unknown) {
+        if (!definition || typeof definition !== 'object') return undefined;
+        try {
+            return checkOutputSchema(definition, data);
+        } catch (e) {
+            log('Output schema check failed:', (e as Error).message);
+            return undefined;
         }
     }
 
@@ -922,11 +760,33 @@ export class SkillEditorPanel {
             async (message: any) => {
                 log('Message from webview:', message.command);
                 switch (message.command) {
-                    case "loadTemplate":
+                    case "loadTemplate": {
                         const templateId = message.templateId || 'blank';
-                        this._customContent = this._getTemplate(templateId);
+                        const template = templateId === 'blank' ? undefined : findTemplate(templateId);
+                        if (templateId !== 'blank' && !template) {
+                            vscode.window.showErrorMessage(`Template not found: ${templateId}. Its file may have been moved or deleted.`);
+                            return;
+                        }
+                        // Blank falls through to the default content in _loadData
+                        let content: EditorContent | null = null;
+                        if (template) {
+                            try {
+                                // Asks for the template's {{variables}}, if it has any
+                                const result = await runTemplateWizard({ template, signal: this._abort.signal });
+                                if (!result) return;
+                                content = result.definition;
+                            } catch (e) {
+                                vscode.window.showErrorMessage(`Could not load template: ${(e as Error).message}`);
+                                return;
+                            }
+                        }
+                        this._customContent = content;
+                        // External $refs in a template file resolve relative to that file
+                        this._sourceUri = template?.file ? vscode.Uri.file(template.file) : undefined;
+                        this._importWarnings = [];
                         await this._loadData();
                         return;
+                    }
 
                     case "importFile":
                         // We need to trigger this via main thread, but we can do it here reasonably if we accept some UI disjoint
@@ -934,6 +794,27 @@ export class SkillEditorPanel {
                         vscode.commands.executeCommand('watsonx.importToolFile', this);
                         return;
 
+                    case "importCurl":
+                        await this._importFromCurl();
+                        return;
+
+                    case "copyCurl": // The last local test's request, built exactly as it was sent
+                        try {
+                            const request = buildLocalRequest({
+                                url: message.url,
+                                method: message.method,
+                                params: message.params,
+                                parameters: requestParametersOf(message.definition, message.method, message.url),
+                                authHeaders: message.authHeaders,
+                                authQueryParams: message.authQueryParams
+                            });
+                            await vscode.env.clipboard.writeText(toCurl(request));
+                            vscode.window.showInformationMessage('Copied to clipboard.');
+                        } catch (e) {
+                            vscode.window.showErrorMessage(`Copy as cURL failed: ${(e as Error).message}`);
+                        }
+                        return;
+
                     case "copyToClipboard":
                         if (typeof message.text === 'string') {
                             vscode.env.clipboard.writeText(message.text);
@@ -970,7 +851,7 @@ export class SkillEditorPanel {
 
                     case "validateOpenAPI":
                         try {
-                            const errors = validateOas(message.content);
+                            const errors = validateOas(message.content, this._importWarnings);
                             this._panel.webview.postMessage({ command: 'validationResult', errors });
                         } catch (e: any) {
                             this._panel.webview.postMessage({ command: 'validationResult', errors: [e.message || 'Validation failed'] });
@@ -978,7 +859,7 @@ export class SkillEditorPanel {
                         return;
 
                     case "saveSkill": {
-                        const saveErrors = validateOas(message.content);
+                        const saveErrors = validateOas(message.content, this._importWarnings);
                         if (saveErrors.length > 0) {
                             const choice = await vscode.window.showWarningMessage(
                                 `OpenAPI validation issues:\n${saveErrors.join('\n')}\n\nContinue anyway?`,
@@ -986,7 +867,22 @@ export class SkillEditorPanel {
                                 "Update Anyway", "Cancel"
                             );
                             if (choice !== "Update Anyway") return;
-                        } else {
+                        }
+                        if (!this._skillId) return;
+                        let currentTool: Tool;
+                        try {
+                            currentTool = await getSkill(this._skillId, this._abort.signal);
+                        } catch (e) {
+                            if (isAbortError(e)) return;
+                            vscode.window.showErrorMessage(`Failed to update tool: ${(e as Error).message}`);
+                            return;
+                        }
+                        // Binding and schema edits cannot be saved in place; offer to replace the tool
+                        if (immutableChanges(currentTool, message.content).length > 0) {
+                            await this._saveWithReplacement(currentTool, message.content);
+                            return;
+                        }
+                        if (saveErrors.length === 0) {
                             const confirmSave = await vscode.window.showWarningMessage(
                                 `Are you sure you want to update tool "${this._skillId}"?`,
                                 { modal: true },
@@ -995,18 +891,19 @@ export class SkillEditorPanel {
                             if (confirmSave !== "Update") return;
                         }
                         try {
-                            if (this._skillId) {
-                                await updateSkill(this._skillId, message.content);
-                                vscode.window.showInformationMessage('Tool updated successfully.');
-                                this._loadData();
-                            }
+                            await snapshotTool(currentTool, 'observed');
+                            await updateSkill(this._skillId, message.content);
+                            await snapshotTool(this._skillId, 'update');
+                            runToolTestsAfterDeploy();
+                            vscode.window.showInformationMessage('Tool updated successfully.');
+                            this._loadData();
                         } catch (e: any) {
                             vscode.window.showErrorMessage(`Failed to update tool: ${e.message}`);
                         }
                         return; }
 
                     case "createTool": {
-                        const createErrors = validateOas(message.content);
+                        const createErrors = validateOas(message.content, this._importWarnings);
                         if (createErrors.length > 0) {
                             const choice = await vscode.window.showWarningMessage(
                                 `OpenAPI validation issues:\n${createErrors.join('\n')}\n\nContinue anyway?`,
@@ -1014,7 +911,14 @@ export class SkillEditorPanel {
                                 "Create Anyway", "Cancel"
                             );
                             if (choice !== "Create Anyway") return;
-                        } else {
+                        }
+                        // Specs with several operations: pick which ones become tools
+                        const operations = listOperations(message.content);
+                        if (operations.length > 1) {
+                            await this._createToolsFromOperations(message.content, operations);
+                            return;
+                        }
+                        if (createErrors.length === 0) {
                             const confirmCreate = await vscode.window.showInformationMessage(
                                 "Create new tool from this definition?",
                                 { modal: true },
@@ -1025,12 +929,14 @@ export class SkillEditorPanel {
                         try {
                             const oas = message.content;
                             const toolSpec = {
-                                name: (oas.info.title || "New Tool").replace(/[^a-zA-Z0-9_]/g, '_').replace(/^[^a-zA-Z_]+/, ''),
+                                name: toToolName(oas.info.title || "New Tool"),
                                 description: oas.info.description || "No description",
                                 tool_type: "openapi",
                                 permission: "read_write" // Fixed: API expects specific enum values
                             };
-                            const result = await deploySkill(toolSpec, oas);
+                            const result = await deploySkill(toolSpec, oas, { baseDir: this._refBaseDir() });
+                            await snapshotTool(result.toolId, 'create');
+                            runToolTestsAfterDeploy();
                             vscode.window.showInformationMessage(`Tool created successfully! ID: ${result.toolId}`);
                             this.dispose();
                             vscode.commands.executeCommand('watsonx.refreshSkills');
@@ -1042,14 +948,16 @@ export class SkillEditorPanel {
                     case "deleteSkill":
                         // Delete Logic 
                         const confirmDelete = await vscode.window.showWarningMessage(
-                            `Are you sure you want to DELETE tool "${this._skillId}"? This cannot be undone.`,
+                            `Are you sure you want to DELETE tool "${this._skillId}"? You can re-create it later from Tool History.`,
                             { modal: true },
                             "Delete Tool", "Cancel"
                         );
                         if (confirmDelete === "Delete Tool") {
                             try {
                                 if (this._skillId) {
+                                    const deleted = await getSkill(this._skillId).catch(() => undefined);
                                     await deleteSkill(this._skillId);
+                                    if (deleted) await snapshotTool(deleted, 'delete');
                                     vscode.window.showInformationMessage('Tool deleted successfully.');
                                     this.dispose();
                                     vscode.commands.executeCommand('watsonx.refreshSkills');
@@ -1065,92 +973,43 @@ export class SkillEditorPanel {
                             if (this._skillId) {
                                 const startMs = Date.now();
                                 let agentId = vscode.workspace.getConfiguration('wxo-builder').get<string>('agentId');
-                                if (!agentId) agentId = await ensureTestAgentForTool(this._skillId);
-                                const { data } = await invokeToolRemote(this._skillId, message.content || {}, agentId);
+                                if (!agentId) agentId = await ensureTestAgentForTool(this._skillId, this._abort.signal);
+                                const { data } = await invokeToolRemote(this._skillId, message.content || {}, agentId, this._abort.signal);
                                 const elapsed = Date.now() - startMs;
                                 this._panel.webview.postMessage({
                                     command: 'testResult',
-                                    result: { status: 200, elapsed_ms: elapsed, data }
+                                    result: { status: 200, elapsed_ms: elapsed, data, schemaCheck: this._schemaCheck(message.definition, data) }
                                 });
                             } else {
                                 this._panel.webview.postMessage({ command: 'testResult', result: { error: 'No tool ID — save the tool first before testing via WxO.' } });
                             }
                         } catch (e: any) {
+                            if (isAbortError(e)) return;
                             this._panel.webview.postMessage({ command: 'testResult', result: { error: e.message } });
                         }
                         return;
 
                     case "testLocal": // Local invoking directly via fetch
                         try {
-                            const { url, method, params } = message;
-                            const authHeaders: Record<string, string> = message.authHeaders || {};
-                            const authQueryParams: Record<string, string> = message.authQueryParams || {};
-
-                            let fetchOptions: any = {
-                                method: method,
-                                headers: {
-                                    'Content-Type': 'application/json',
-                                    'Accept': 'application/json',
-                                    ...authHeaders  // inject auth headers (API key, Bearer token, etc.)
-                                }
-                            };
-                            let requestUrl = '';
-
-                            if (method.toUpperCase() === 'GET') {
-                                let finalUrl = url;
-                                const queryParams = new URLSearchParams();
-
-                                // Inject auth query params first (e.g. ?api_key=...)
-                                Object.keys(authQueryParams).forEach(k => queryParams.append(k, authQueryParams[k]));
-
-                                if (params && Object.keys(params).length > 0) {
-                                    Object.keys(params).forEach(key => {
-                                        const placeholder = `{${key}}`;
-                                        if (finalUrl.includes(placeholder)) {
-                                            finalUrl = finalUrl.replace(placeholder, encodeURIComponent(params[key]));
-                                        } else {
-                                            queryParams.append(key, params[key]);
-                                        }
-                                    });
-                                }
-
-                                const queryStr = queryParams.toString();
-                                if (queryStr) {
-                                    finalUrl += (finalUrl.includes('?') ? '&' : '?') + queryStr;
-                                }
-
-                                requestUrl = finalUrl;
-                            } else {
-                                // For POST/PUT: auth query params go in URL, body params as JSON
-                                requestUrl = url;
-                                if (Object.keys(authQueryParams).length > 0) {
-                                    const aqp = new URLSearchParams(authQueryParams).toString();
-                                    requestUrl += (requestUrl.includes('?') ? '&' : '?') + aqp;
-                                }
-                                fetchOptions.body = JSON.stringify(params);
-                            }
-
-                            const response = await fetch(requestUrl, fetchOptions);
-                            const text = await response.text();
-
-                            let result;
-                            try {
-                                result = JSON.parse(text);
-                            } catch {
-                                result = text;
+                            const authHeaders = { ...(message.authHeaders || {}) };  // API key, Basic, Bearer token, etc.
+                            // OAuth2 client credentials / password flow: get a token first
+                            if (message.oauth2) {
+                                const token = await requestOAuth2Token({ ...message.oauth2, signal: this._abort.signal });
+                                authHeaders['Authorization'] = `Bearer ${token}`;
                             }
-
-                            this._panel.webview.postMessage({
-                                command: 'testResult',
-                                result: {
-                                    status: response.status,
-                                    statusText: response.statusText,
-                                    requestUrl: requestUrl,
-                                    data: result
-                                }
+                            const result = await invokeToolLocal({
+                                url: message.url,
+                                method: message.method,
+                                params: message.params,
+                                parameters: requestParametersOf(message.definition, message.method, message.url),
+                                authHeaders,
+                                authQueryParams: message.authQueryParams,
+                                signal: this._abort.signal
                             });
-
+                            const schemaCheck = result.status >= 200 && result.status < 300 ? this._schemaCheck(message.definition, result.data) : undefined;
+                            this._panel.webview.postMessage({ command: 'testResult', result: { ...result, schemaCheck, authHeaders: message.oauth2 ? authHeaders : undefined } });
                         } catch (e: any) {
+                            if (isAbortError(e)) return;
                             this._panel.webview.postMessage({ command: 'testResult', result: { error: e.message } });
                         }
                         return;
@@ -1168,31 +1027,45 @@ export class SkillEditorPanel {
                             }
                             const params = message.params || {};
                             let agentId = vscode.workspace.getConfiguration('wxo-builder').get<string>('agentId');
-                            if (!agentId) agentId = await ensureTestAgentForTool(toolId);
-                            const { data, threadId, reasoning } = await invokeToolRemote(toolId, params, agentId);
+                            if (!agentId) agentId = await ensureTestAgentForTool(toolId, this._abort.signal);
+                            const { data, threadId, reasoning } = await invokeToolRemote(toolId, params, agentId, this._abort.signal);
                             this._panel.webview.postMessage({
                                 command: 'testRemoteResult',
-                                result: { threadId, data, reasoning }
+                                result: { threadId, data, reasoning, schemaCheck: this._schemaCheck(message.definition, data) }
                             });
                         } catch (e: any) {
+                            if (isAbortError(e)) return;
                             this._panel.webview.postMessage({ command: 'testRemoteResult', result: { error: e.message } });
                         }
                         return;
                     }
+                    case "startMockServer":
+                        await this._startMockServer(message.definition);
+                        return;
+
+                    case "stopMockServer":
+                        this._stopMockServer();
+                        this._panel.webview.postMessage({ command: 'mockServerState', url: '' });
+                        return;
+
+                    case "mergeOutputSchema":
+                        try {
+                            const updated = mergeResponseIntoOutputSchema(message.definition, message.data);
+                            this._panel.webview.postMessage({ command: 'updateJson', content: updated });
+                            vscode.window.showInformationMessage(this._isCreateMode
+                                ? 'Output schema updated from the response.'
+                                : 'Output schema updated from the response. Save to apply it (output schema changes replace the tool).');
+                        } catch (e) {
+                            vscode.window.showErrorMessage(`Could not update the output schema: ${(e as Error).message}`);
+                        }
+                        return;
+
                     case "fetchAndGenerate": {
                         try {
                             const { url, method, params, apiKeyParamName } = message;
                             const m = (method || 'GET').trim().toUpperCase();
-                            let requestUrl = url;
-                            const fetchOpts: any = { method: m, headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' } };
-                            if (m === 'GET' && params && Object.keys(params).length > 0) {
-                                const u = new URL(url);
-                                Object.keys(params).forEach((k: string) => u.searchParams.set(k, params[k]));
-                                requestUrl = u.toString();
-                            } else if (m !== 'GET' && params) {
-                                fetchOpts.body = JSON.stringify(params);
-                            }
-                            const response = await fetch(requestUrl, fetchOpts);
+                            const request = buildRequest({ url, method: m, values: params });
+                            const response = await httpFetch(request.url, { method: m, headers: request.headers, body: request.body, signal: this._abort.signal });
                             const text = await response.text();
                             let responseBody: any;
                             try { responseBody = JSON.parse(text); } catch { responseBody = text; }
@@ -1201,20 +1074,8 @@ export class SkillEditorPanel {
                                 return;
                             }
                             const urlObj = new URL(url);
-                            const oasParams: any[] = [];
-                            if (params && typeof params === 'object') {
-                                Object.keys(params).forEach((key: string) => {
-                                    const val = params[key];
-                                    const schema: any = { type: typeof val };
-                                    if (val !== undefined && val !== null) schema.default = val;
-                                    oasParams.push({
-                                        name: key,
-                                        in: 'query',
-                                        required: false,
-                                        schema
-                                    });
-                                });
-                            }
+                            const pathTemplate = decodeURI(urlObj.pathname || '/');
+                            const { parameters: oasParams, requestBody } = inferOperationInputs(pathTemplate, m, params);
                             const serviceInfo = await this._fetchServiceInfo(urlObj);
                             const paramNames = params && typeof params === 'object' ? Object.keys(params) : [];
                             const apiKeyParam = (apiKeyParamName || 'apiKey').trim() || 'apiKey';
@@ -1234,11 +1095,12 @@ export class SkillEditorPanel {
                                 },
                                 servers: [{ url: urlObj.origin }],
                                 paths: {
-                                    [urlObj.pathname || '/']: {
+                                    [pathTemplate]: {
                                         [m.toLowerCase()]: {
-                                            operationId: this._pathToOperationId(urlObj.pathname || '/'),
-                                            summary: this._pathToSummary(urlObj.pathname || '/'),
-                                            parameters: m === 'GET' ? oasParams : [],
+                                            operationId: this._pathToOperationId(pathTemplate),
+                                            summary: this._pathToSummary(pathTemplate),
+                                            parameters: oasParams,
+                                            ...(requestBody ? { requestBody } : {}),
                                             responses: {
                                                 '200': {
                                                     description: 'Success',
@@ -1270,23 +1132,10 @@ export class SkillEditorPanel {
                             // Schema generation logic
                             const urlObj = new URL(url);
                             const baseUrl = urlObj.origin;
-                            const path = urlObj.pathname;
+                            const path = decodeURI(urlObj.pathname);
 
                             // Infer parameters (include default to store e.g. API key in tool JSON)
-                            const oasParams: any[] = [];
-                            if (params) {
-                                Object.keys(params).forEach(key => {
-                                    const val = params[key];
-                                    const schema: any = { type: typeof val };
-                                    if (val !== undefined && val !== null) schema.default = val;
-                                    oasParams.push({
-                                        name: key,
-                                        in: 'query',
-                                        required: false,
-                                        schema
-                                    });
-                                });
-                            }
+                            const { parameters: oasParams, requestBody } = inferOperationInputs(path, method, params);
 
                             // Infer response schema
                             const responseSchema = inferSchema(responseBody) || { type: "object" };
@@ -1314,7 +1163,8 @@ export class SkillEditorPanel {
                                         [method.toLowerCase()]: {
                                             "operationId": this._pathToOperationId(path),
                                             "summary": this._pathToSummary(path),
-                                            "parameters": method.toLowerCase() === 'get' ? oasParams : [],
+                                            "parameters": oasParams,
+                                            ...(requestBody ? { "requestBody": requestBody } : {}),
                                             "responses": {
                                                 "200": {
                                                     "description": "Success",
@@ -1355,38 +1205,105 @@ export class SkillEditorPanel {
         );
     }
 
-    // Public method to reload with new content (for import)
-    public async reloadWithContent(content: any) {
-        this._customContent = content;
-        await this._loadData();
+    /**
+     * Load a definition file into the editor: OpenAPI (JSON/YAML, Swagger 2.0 is converted),
+     * or a Postman collection / HAR file, whose requests are picked and turned into a spec.
+     */
+    public async importFile(uri: vscode.Uri) {
+        const fileName = path.basename(uri.fsPath);
+        const doc = parseSpecText(await fs.promises.readFile(uri.fsPath, 'utf8'), uri.fsPath);
+        const captured = capturedRequestsFrom(doc);
+        if (captured) {
+            await this._importCapturedRequests(captured.requests, `${captured.source} ${fileName}`);
+            return;
+        }
+        const { spec, converted, warnings } = normalizeSpec(doc);
+        await this.reloadWithContent(spec, uri, warnings);
+        if (converted) {
+            if (warnings.length > 0) {
+                vscode.window.showWarningMessage(`${fileName} was converted from Swagger 2.0 with ${warnings.length} warning(s); run Validate to see them.`);
+            } else {
+                vscode.window.showInformationMessage(`${fileName} was converted from Swagger 2.0 to OpenAPI 3.`);
+            }
+        }
     }
-}
 
-// Helper to infer JSON schema
-function inferSchema(data: any): any {
-    if (data === null) return { type: 'string', nullable: true };
-    if (typeof data === 'string') return { type: 'string' };
-    if (typeof data === 'number') return { type: Number.isInteger(data) ? 'integer' : 'number' };
-    if (typeof data === 'boolean') return { type: 'boolean' };
-    if (Array.isArray(data)) {
-        const itemSchema = data.length > 0 ? inferSchema(data[0]) : { type: 'string' };
-        return {
-            type: 'array',
-            items: itemSchema
-        };
-    }
-    if (typeof data === 'object') {
-        const properties: any = {};
-        Object.keys(data).forEach(key => {
-            properties[key] = inferSchema(data[key]);
-            if (data[key] && typeof data[key] === 'string' && data[key].length > 10) {
-                properties[key].description = `Example: ${data[key].substring(0, 30)}...`;
+    /** Ask for a cURL command (pre-filled from the clipboard) and load it as a spec. */
+    private async _importFromCurl() {
+        const clipboard = (await vscode.env.clipboard.readText()).trim();
+        const command = await vscode.window.showInputBox({
+            title: 'Create Tool from cURL',
+            prompt: 'Paste a cURL command (e.g. from "Copy as cURL" in the browser dev tools)',
+            value: /^curl\s/i.test(clipboard) ? clipboard.replace(/\\\r?\n/g, ' ').replace(/\s*\r?\n\s*/g, ' ') : '',
+            ignoreFocusOut: true,
+            validateInput: value => {
+                if (!value.trim()) return undefined;
+                try {
+                    parseCurlCommand(value);
+                    return undefined;
+                } catch (e) {
+                    return (e as Error).message;
+                }
             }
         });
-        return {
-            type: 'object',
-            properties: properties
-        };
+        if (!command?.trim()) return;
+        try {
+            await this._importCapturedRequests([parseCurlCommand(command)], 'cURL command');
+        } catch (e) {
+            vscode.window.showErrorMessage(`cURL import failed: ${(e as Error).message}`);
+        }
+    }
+
+    /** Let the user pick requests (when there are several) and load them as one spec. */
+    private async _importCapturedRequests(requests: CapturedRequest[], source: string) {
+        if (requests.length === 0) {
+            vscode.window.showWarningMessage(`No requests found in ${source}.`);
+            return;
+        }
+        let selected = requests;
+        if (requests.length > 1) {
+            const isHar = source.startsWith('HAR');
+            const items = requests.map(request => {
+                let location = request.url;
+                try {
+                    const u = new URL(request.url);
+                    location = decodeURIComponent(u.pathname) + u.search;
+                } catch { /* keep the raw URL */ }
+                return {
+                    label: request.name || `${request.method} ${location}`,
+                    description: request.name ? `${request.method} ${location}` : request.response?.status ? `HTTP ${request.response.status}` : undefined,
+                    detail: request.folder,
+                    picked: isHar ? looksLikeApiCall(request) : true,
+                    request
+                };
+            });
+            const picks = await vscode.window.showQuickPick(items, {
+                title: `Import from ${source}`,
+                placeHolder: 'Select the requests to turn into tool operations',
+                canPickMany: true,
+                matchOnDescription: true,
+                matchOnDetail: true,
+                ignoreFocusOut: true
+            });
+            if (!picks || picks.length === 0) return;
+            selected = picks.map(p => p.request);
+        }
+        const { spec, warnings } = requestsToOas(selected);
+        await this.reloadWithContent(spec, undefined, warnings);
+        const count = Object.values(spec.paths || {}).reduce((n, item) => n + Object.keys(item).length, 0);
+        const summary = `Imported ${count} operation(s) from ${source}.`;
+        if (warnings.length > 0) {
+            vscode.window.showWarningMessage(`${summary} ${warnings.length} warning(s); run Validate to see them.`);
+        } else {
+            vscode.window.showInformationMessage(summary);
+        }
+    }
+
+    // Public method to reload with new content (for import)
+    public async reloadWithContent(content: OasDocument, sourceUri?: vscode.Uri, warnings: string[] = []) {
+        this._customContent = content;
+        this._sourceUri = sourceUri;
+        this._importWarnings = warnings;
+        await this._loadData();
     }
-    return { type: 'string' };
 }
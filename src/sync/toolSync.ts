@@ -0,0 +1,314 @@
+/**
+ * WxO Builder - Tools as Code
+ * Two-way sync between the `wxo/` workspace folder and the tenant's OpenAPI tools.
+ *
+ * Convention: one OpenAPI JSON file per tool, `wxo/<tool name>.json`, in the same
+ * format as the editor's export. The file name is the tool name, made valid with
+ * toToolName (`my tool-v2.json` syncs as `my_tool_v2`); the document is compared with
+ * the tenant's tool after both go through buildToolSpec, so only differences the API
+ * would see count as changes.
+ *
+ * JSON files without `paths` (e.g. shared schemas referenced via $ref) are not tools.
+ * Python tools and flows are not synced.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+import { iterateSkills, skillToOas, buildToolSpec, deploySkill, updateSkill, deleteSkill, getSkill, toToolName } from '../api/skills';
+import { snapshotTool } from '../api/toolHistory';
+import { collectAll } from '../api/pagination';
+import { resolveSpecRefs } from '../api/schemaResolver';
+import { canonicalJson, IMMUTABLE_TOOL_FIELDS } from '../api/toolReplace';
+import { Tool, OasDocument } from '../api/types';
+
+/** Workspace folder holding one OpenAPI file per tool. */
+export const TOOLS_FOLDER = 'wxo';
+
+/** Fields updateSkill can change in place; anything else needs the tool to be re-created. */
+const EDITABLE_FIELDS = ['display_name', 'description'];
+
+export type ToolSyncStatus = 'workspace-only' | 'tenant-only' | 'changed';
+
+export interface ToolSyncEntry {
+    name: string;
+    status: ToolSyncStatus;
+    /** wxo/<name>.json, when the file exists. */
+    file?: vscode.Uri;
+    /** Parsed workspace document. */
+    localOas?: OasDocument;
+    remote?: Tool;
+    /** For 'changed': fields that differ (display_name, description, binding, ...). */
+    changedFields?: string[];
+}
+
+export interface ToolSyncComparison {
+    /** Differences, by tool name; tools that match are left out. */
+    entries: ToolSyncEntry[];
+    /** wxo/ files synced under a different name than their file name, or skipped. */
+    warnings: string[];
+}
+
+function toolsFolderUri(): vscode.Uri | undefined {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? vscode.Uri.joinPath(folder.uri, TOOLS_FOLDER) : undefined;
+}
+
+function isOpenApiTool(tool: Tool): boolean {
+    return !!tool.binding?.openapi && !['flow', 'workflow'].includes((tool.type || '').toLowerCase());
+}
+
+/** The tool payload the API would receive for a workspace document. */
+function specFromOas(name: string, oas: OasDocument): Record<string, unknown> {
+    return buildToolSpec({ name, description: oas.info?.description || '' }, oas);
+}
+
+/** Workspace document for a tenant tool (what Pull writes). */
+export function toolToWorkspaceOas(tool: Tool): OasDocument {
+    return skillToOas(tool, { copy: false });
+}
+
+function changedFields(name: string, localOas: OasDocument, remote: Tool): string[] {
+    const local = specFromOas(name, localOas);
+    const fromRemote = specFromOas(name, toolToWorkspaceOas(remote));
+    return [...EDITABLE_FIELDS, ...IMMUTABLE_TOOL_FIELDS].filter(field => canonicalJson(local[field]) !== canonicalJson(fromRemote[field]));
+}
+
+async function readWorkspaceTools(warnings: string[]): Promise<Map<string, { file: vscode.Uri; oas: OasDocument }>> {
+    const tools = new Map<string, { file: vscode.Uri; oas: OasDocument }>();
+    const fileNames = new Map<string, string>();
+    const folder = toolsFolderUri();
+    if (!folder) return tools;
+    let entries: [string, vscode.FileType][] = [];
+    try {
+        entries = await vscode.workspace.fs.readDirectory(folder);
+    } catch {
+        return tools; // no wxo/ folder yet
+    }
+    entries.sort((a, b) => a[0].localeCompare(b[0]));
+    for (const [fileName, type] of entries) {
+        if (type !== vscode.FileType.File || !fileName.toLowerCase().endsWith('.json')) continue;
+        const file = vscode.Uri.joinPath(folder, fileName);
+        const text = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+        let oas: OasDocument;
+        try {
+            oas = JSON.parse(text);
+        } catch (e) {
+            throw new Error(`${TOOLS_FOLDER}/${fileName} is not valid JSON: ${(e as Error).message}`);
+        }
+        // Other JSON files (e.g. shared schemas referenced via $ref) are not tools
+        if (!oas || typeof oas !== 'object' || !oas.paths) continue;
+        const baseName = fileName.slice(0, -'.json'.length);
+        const name = toToolName(baseName);
+        if (!name) {
+            warnings.push(`${TOOLS_FOLDER}/${fileName} was skipped: its name has no letters or underscores to make a tool name from.`);
+            continue;
+        }
+        const other = fileNames.get(name);
+        if (other) {
+            warnings.push(`${TOOLS_FOLDER}/${fileName} was skipped: ${TOOLS_FOLDER}/${other} already syncs as tool ${name}.`);
+            continue;
+        }
+        if (name !== baseName) warnings.push(`${TOOLS_FOLDER}/${fileName} syncs as tool ${name} (tool names allow only letters, digits and underscores).`);
+        fileNames.set(name, fileName);
+        tools.set(name, { file, oas });
+    }
+    return tools;
+}
+
+/** Compare wxo/ with the tenant. Tools that match are left out. */
+export async function computeToolSync(signal?: AbortSignal): Promise<ToolSyncComparison> {
+    const warnings: string[] = [];
+    const [local, remoteTools] = await Promise.all([
+        readWorkspaceTools(warnings),
+        collectAll(iterateSkills(100, signal))
+    ]);
+    const remote = new Map<string, Tool>();
+    remoteTools.filter(isOpenApiTool).forEach(t => remote.set(t.name, t));
+
+    const entries: ToolSyncEntry[] = [];
+    for (const [name, { file, oas }] of Array.from(local.entries())) {
+        const tool = remote.get(name);
+        if (!tool) {
+            entries.push({ name, status: 'workspace-only', file, localOas: oas });
+            continue;
+        }
+        // Compare what the API would see, with $refs (e.g. to shared wxo/ schema files) inlined
+        const resolved = await resolveSpecRefs(oas, { baseDir: toolsFolderUri()!.fsPath });
+        const fields = changedFields(name, resolved, tool);
+        if (fields.length) entries.push({ name, status: 'changed', file, localOas: oas, remote: tool, changedFields: fields });
+    }
+    remote.forEach((tool, name) => {
+        if (!local.has(name)) entries.push({ name, status: 'tenant-only', remote: tool });
+    });
+    return { entries: entries.sort((a, b) => a.name.localeCompare(b.name)), warnings };
+}
+
+/**
+ * Push one entry to the tenant: create workspace-only tools, update changed ones,
+ * delete tenant-only ones. Each change is recorded in Tool History like an editor save,
+ * so deleted tools can be re-created from there.
+ * Returns a warning when part of the change could not be applied.
+ */
+export async function pushTool(entry: ToolSyncEntry): Promise<string | undefined> {
+    switch (entry.status) {
+        case 'workspace-only': {
+            const oas = entry.localOas!;
+            const result = await deploySkill({
+                name: entry.name,
+                description: oas.info?.description || 'No description',
+                tool_type: 'openapi',
+                permission: 'read_write'
+            }, oas, { baseDir: toolsFolderUri()?.fsPath });
+            await snapshotTool(result.toolId, 'create');
+            return undefined;
+        }
+        case 'changed': {
+            const remote = entry.remote!;
+            const spec = specFromOas(entry.name, await resolveSpecRefs(entry.localOas!, { baseDir: toolsFolderUri()?.fsPath }));
+            await snapshotTool(await getSkill(remote.id).catch(() => remote), 'observed');
+            // Keep the tenant's permission (active/inactive) rather than resetting it
+            await updateSkill(remote.id, {
+                name: remote.name,
+                display_name: spec.display_name,
+                description: spec.description,
+                permission: remote.permission
+            });
+            await snapshotTool(remote.id, 'update');
+            const immutable = (entry.changedFields || []).filter(f => IMMUTABLE_TOOL_FIELDS.includes(f));
+            return immutable.length
+                ? `${entry.name}: ${immutable.join(', ')} cannot be updated in place; open the tool in the editor and save with Replace Tool to apply them.`
+                : undefined;
+        }
+        case 'tenant-only': {
+            // The full tool (binding included) so it can be re-created from Tool History
+            const deleted = await getSkill(entry.remote!.id).catch(() => entry.remote!);
+            await snapshotTool(deleted, 'observed');
+            await deleteSkill(entry.remote!.id);
+            await snapshotTool(deleted, 'delete');
+            return undefined;
+        }
+    }
+}
+
+/** Pull one entry into wxo/: write tenant tools to files, delete workspace-only files. */
+export async function pullTool(entry: ToolSyncEntry): Promise<void> {
+    const folder = toolsFolderUri();
+    if (!folder) throw new Error('Open a workspace folder to sync tools.');
+    if (entry.status === 'workspace-only') {
+        if (entry.file) await vscode.workspace.fs.delete(entry.file);
+        return;
+    }
+    await vscode.workspace.fs.createDirectory(folder);
+    const file = entry.file || vscode.Uri.joinPath(folder, `${entry.name}.json`);
+    const text = JSON.stringify(toolToWorkspaceOas(entry.remote!), null, 2) + '\n';
+    await vscode.workspace.fs.writeFile(file, Buffer.from(text, 'utf8'));
+}
+
+// ─── Sync command ─────────────────────────────────────────────────────────────
+
+const STATUS_LABELS: Record<ToolSyncStatus, { icon: string; text: string }> = {
+    'workspace-only': { icon: '$(diff-added)', text: 'only in workspace' },
+    'tenant-only': { icon: '$(diff-removed)', text: 'only in tenant' },
+    'changed': { icon: '$(diff-modified)', text: 'changed' }
+};
+
+async function showToolDiff(entry: ToolSyncEntry): Promise<void> {
+    const remoteText = entry.remote ? JSON.stringify(toolToWorkspaceOas(entry.remote), null, 2) : '';
+    const left = await vscode.workspace.openTextDocument({ content: remoteText, language: 'json' });
+    const right = entry.file ? entry.file : (await vscode.workspace.openTextDocument({ content: '', language: 'json' })).uri;
+    await vscode.commands.executeCommand('vscode.diff', left.uri, right, `${entry.name}: Tenant ↔ ${TOOLS_FOLDER}/`);
+}
+
+/**
+ * "WxO Builder: Sync Tools with Workspace": list differences between wxo/ and the
+ * tenant, then push, pull or diff the selected tools.
+ * Returns true when the tenant changed (so the Tools view should refresh).
+ */
+export async function syncToolsWithWorkspace(): Promise<boolean> {
+    if (!toolsFolderUri()) {
+        vscode.window.showErrorMessage('Open a workspace folder to sync tools as code.');
+        return false;
+    }
+    const { entries, warnings: fileWarnings } = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Comparing ${TOOLS_FOLDER}/ with Watson Orchestrate...`, cancellable: true },
+        (_progress, token) => {
+            const abort = new AbortController();
+            token.onCancellationRequested(() => abort.abort());
+            return computeToolSync(abort.signal);
+        }
+    );
+    if (fileWarnings.length) vscode.window.showWarningMessage(fileWarnings.join(' '));
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage(`${TOOLS_FOLDER}/ and the tenant are in sync.`);
+        return false;
+    }
+
+    const action = await vscode.window.showQuickPick([
+        { label: '$(cloud-upload) Push to tenant', detail: 'Create or update tenant tools to match the workspace; tools only in the tenant can be deleted', value: 'push' },
+        { label: '$(cloud-download) Pull into workspace', detail: `Write tenant tools to ${TOOLS_FOLDER}/; files for tools the tenant does not have can be deleted`, value: 'pull' },
+        { label: '$(diff) Show diffs', detail: 'Open a diff editor per selected tool', value: 'diff' }
+    ], { title: 'Sync Tools', placeHolder: `${entries.length} difference(s) between ${TOOLS_FOLDER}/ and the tenant` });
+    if (!action) return false;
+
+    // Deletions are never selected by default
+    const deletes = (entry: ToolSyncEntry) => action.value === 'push' ? entry.status === 'tenant-only' : action.value === 'pull' && entry.status === 'workspace-only';
+    const picked = await vscode.window.showQuickPick(
+        entries.map(entry => ({
+            label: `${STATUS_LABELS[entry.status].icon} ${entry.name}`,
+            description: deletes(entry) ? `${STATUS_LABELS[entry.status].text} — selecting deletes it` : STATUS_LABELS[entry.status].text,
+            detail: entry.changedFields?.join(', '),
+            picked: !deletes(entry),
+            entry
+        })),
+        { title: `Sync Tools: select tools to ${action.value}`, canPickMany: true }
+    );
+    if (!picked || picked.length === 0) return false;
+    const selected = picked.map(p => p.entry);
+
+    if (action.value === 'diff') {
+        for (const entry of selected) await showToolDiff(entry);
+        return false;
+    }
+
+    const destructive = selected.filter(deletes);
+    if (destructive.length) {
+        const where = action.value === 'push' ? 'from the tenant' : `from ${TOOLS_FOLDER}/`;
+        const confirm = await vscode.window.showWarningMessage(
+            `This will delete ${destructive.length} tool(s) ${where}: ${destructive.map(e => e.name).join(', ')}. Continue?`,
+            { modal: true }, 'Delete and Sync'
+        );
+        if (confirm !== 'Delete and Sync') return false;
+    }
+
+    const failures: string[] = [];
+    const warnings: string[] = [];
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: action.value === 'push' ? 'Pushing tools' : 'Pulling tools' },
+        async progress => {
+            for (const entry of selected) {
+                progress.report({ message: entry.name, increment: 100 / selected.length });
+                try {
+                    if (action.value === 'push') {
+                        const warning = await pushTool(entry);
+                        if (warning) warnings.push(warning);
+                    } else {
+                        await pullTool(entry);
+                    }
+                } catch (e) {
+                    failures.push(`${entry.name}: ${(e as Error).message}`);
+                }
+            }
+        }
+    );
+
+    const done = selected.length - failures.length;
+    if (failures.length) {
+        vscode.window.showErrorMessage(`Synced ${done} of ${selected.length} tool(s). Failed: ${failures.join('; ')}`);
+    } else {
+        vscode.window.showInformationMessage(`${action.value === 'push' ? 'Pushed' : 'Pulled'} ${done} tool(s).`);
+    }
+    if (warnings.length) vscode.window.showWarningMessage(warnings.join(' '));
+    return action.value === 'push' && done > 0;
+}
@@ -0,0 +1,152 @@
+/**
+ * WxO Builder - Template Variables
+ * Templates can leave values for the user to fill in with `{{name}}` placeholders, in any
+ * string or property name of the definition, e.g. `"servers": [{ "url": "{{baseUrl}}" }]`
+ * or `"title": "{{toolName}}"`. (Single braces stay OpenAPI path parameters.)
+ *
+ * Each variable has a kind that decides how the wizard asks for it and how it is checked:
+ *  - name        a tool name: letters, digits and underscores, not starting with a digit
+ *  - url         an http(s) URL; a trailing slash is dropped
+ *  - connection  a connection id, picked from the tenant's connections; optional
+ *  - text        anything non-empty
+ * `toolName`, `baseUrl` and `connectionId` have these kinds built in; other variables are
+ * text unless the template's `variables` metadata says otherwise.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import { TOOL_NAME_PATTERN } from '../api/skills';
+
+export type TemplateVariableKind = 'name' | 'url' | 'connection' | 'text';
+
+/** Variable metadata, as written in a template's `variables` block. */
+export interface TemplateVariableMeta {
+    kind?: TemplateVariableKind;
+    /** Shown as the wizard prompt. */
+    description?: string;
+    default?: string;
+    /** False makes an empty value acceptable (connection variables are optional by default). */
+    required?: boolean;
+}
+
+export interface TemplateVariable {
+    name: string;
+    kind: TemplateVariableKind;
+    description: string;
+    default?: string;
+    required: boolean;
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+/** A string that is nothing but one placeholder. */
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}$/;
+
+const KINDS: TemplateVariableKind[] = ['name', 'url', 'connection', 'text'];
+
+const WELL_KNOWN: Record<string, { kind: TemplateVariableKind; description: string }> = {
+    toolName: { kind: 'name', description: 'Tool name (letters, digits and underscores; cannot start with a digit)' },
+    baseUrl: { kind: 'url', description: 'Base URL of the API, e.g. https://api.example.com/v1' },
+    connectionId: { kind: 'connection', description: 'Connection that supplies the credentials' }
+};
+
+/** Placeholder names used in a definition, in order of first use. */
+export function findPlaceholders(definition: unknown): string[] {
+    const names: string[] = [];
+    const scan = (text: string) => {
+        text.replace(PLACEHOLDER, (match, name) => {
+            if (!names.includes(name)) names.push(name);
+            return match;
+        });
+    };
+    const walk = (node: unknown) => {
+        if (typeof node === 'string') scan(node);
+        else if (Array.isArray(node)) node.forEach(walk);
+        else if (node && typeof node === 'object') {
+            Object.entries(node).forEach(([key, value]) => {
+                scan(key);
+                walk(value);
+            });
+        }
+    };
+    walk(definition);
+    return names;
+}
+
+/**
+ * The variables a definition needs: those declared in the metadata first (in declaration
+ * order), then any other placeholder in the order it appears.
+ */
+export function templateVariables(definition: unknown, declared: Record<string, TemplateVariableMeta> = {}): TemplateVariable[] {
+    const used = findPlaceholders(definition);
+    const names = [...Object.keys(declared).filter(name => used.includes(name)), ...used.filter(name => !declared[name])];
+    return names.map(name => {
+        const meta = declared[name] || {};
+        const known = WELL_KNOWN[name];
+        const kind = meta.kind && KINDS.includes(meta.kind) ? meta.kind : known?.kind || 'text';
+        return {
+            name,
+            kind,
+            description: meta.description || known?.description || name,
+            default: meta.default !== undefined ? String(meta.default) : undefined,
+            required: meta.required ?? kind !== 'connection'
+        };
+    });
+}
+
+/** Why a value is not acceptable for a variable; undefined when it is. */
+export function validateVariable(variable: TemplateVariable, value: string): string | undefined {
+    const text = value.trim();
+    if (!text) return variable.required ? `${variable.name} is required.` : undefined;
+    switch (variable.kind) {
+        case 'name':
+            if (!TOOL_NAME_PATTERN.test(text)) {
+                return /^[0-9]/.test(text)
+                    ? 'Names cannot start with a digit.'
+                    : 'Use only letters, digits and underscores.';
+            }
+            return undefined;
+        case 'url':
+            try {
+                const url = new URL(text);
+                return url.protocol === 'http:' || url.protocol === 'https:' ? undefined : 'Use an http:// or https:// URL.';
+            } catch {
+                return 'Not a valid URL.';
+            }
+        default:
+            return undefined;
+    }
+}
+
+/** The value as it goes into the definition (trimmed; URLs without a trailing slash). */
+export function normalizeVariable(variable: TemplateVariable, value: string): string {
+    const text = value.trim();
+    return variable.kind === 'url' ? text.replace(/\/+$/, '') : text;
+}
+
+/**
+ * A copy of the definition with every placeholder replaced. Properties whose whole value
+ * is a placeholder left empty (e.g. an optional `{{connectionId}}`) are removed; unknown
+ * placeholders are kept as they are.
+ */
+export function fillTemplate<T>(definition: T, values: Record<string, string>): T {
+    const replace = (text: string) => text.replace(PLACEHOLDER, (match, name) => (values[name] !== undefined ? values[name] : match));
+    const isEmptyPlaceholder = (node: unknown) => {
+        const match = typeof node === 'string' ? node.match(WHOLE_PLACEHOLDER) : null;
+        return !!match && values[match[1]] === '';
+    };
+    const walk = (node: unknown): unknown => {
+        if (typeof node === 'string') return replace(node);
+        if (Array.isArray(node)) return node.filter(item => !isEmptyPlaceholder(item)).map(walk);
+        if (node && typeof node === 'object') {
+            const result: Record<string, unknown> = {};
+            Object.entries(node).forEach(([key, value]) => {
+                if (isEmptyPlaceholder(value)) return;
+                result[replace(key)] = walk(value);
+            });
+            return result;
+        }
+        return node;
+    };
+    return walk(definition) as T;
+}
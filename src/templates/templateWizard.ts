@@ -0,0 +1,208 @@
+/**
+ * WxO Builder - Create Tool from Template Wizard
+ * A multi-step QuickPick: choose a template (skipped when the caller already has one), then
+ * one step per `{{variable}}` in it (see templateVariables.ts). Each step has a Back button;
+ * Escape cancels. Connection variables pick from the tenant's connections.
+ *
+ * Templates that name a `connection` (an app id) are bound to that connection when the
+ * tenant has it and no connection variable was filled in.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+import { listConnections } from '../api/connections';
+import { OasDocument } from '../api/types';
+import { loadTemplateLibrary, groupTemplates, ToolTemplate } from './toolTemplates';
+import { templateVariables, validateVariable, normalizeVariable, fillTemplate, TemplateVariable } from './templateVariables';
+
+export interface TemplateWizardOptions {
+    /** Start with this template instead of asking for one. */
+    template?: ToolTemplate;
+    signal?: AbortSignal;
+}
+
+export interface TemplateWizardResult {
+    template: ToolTemplate;
+    /** The filled-in definition, ready for the tool editor. */
+    definition: OasDocument;
+}
+
+const TITLE = 'Create Tool from Template';
+const BACK = Symbol('back');
+
+type StepResult<T> = T | typeof BACK | undefined;
+
+interface ConnectionChoice {
+    connectionId: string;
+    appId: string;
+}
+
+/** One input step; resolves to the accepted value, BACK or undefined (cancelled). */
+function askText(variable: TemplateVariable, value: string, step: number, totalSteps: number, canGoBack: boolean): Promise<StepResult<string>> {
+    return new Promise(resolve => {
+        const input = vscode.window.createInputBox();
+        input.title = TITLE;
+        input.step = step;
+        input.totalSteps = totalSteps;
+        input.prompt = variable.description;
+        input.placeholder = variable.name;
+        input.value = value;
+        input.ignoreFocusOut = true;
+        input.buttons = canGoBack ? [vscode.QuickInputButtons.Back] : [];
+        let done = false;
+        const finish = (result: StepResult<string>) => {
+            if (done) return;
+            done = true;
+            resolve(result);
+            input.dispose();
+        };
+        input.onDidChangeValue(text => { input.validationMessage = validateVariable(variable, text); });
+        input.onDidAccept(() => {
+            const message = validateVariable(variable, input.value);
+            if (message) input.validationMessage = message;
+            else finish(input.value);
+        });
+        input.onDidTriggerButton(() => finish(BACK));
+        input.onDidHide(() => finish(undefined));
+        input.show();
+    });
+}
+
+/** One QuickPick step; resolves to the picked item, BACK or undefined (cancelled). */
+function askPick<T extends vscode.QuickPickItem>(items: T[], placeholder: string, active: T | undefined, step: number, totalSteps: number, canGoBack: boolean): Promise<StepResult<T>> {
+    return new Promise(resolve => {
+        const pick = vscode.window.createQuickPick<T>();
+        pick.title = TITLE;
+        pick.step = step;
+        pick.totalSteps = totalSteps;
+        pick.placeholder = placeholder;
+        pick.items = items;
+        pick.matchOnDescription = true;
+        pick.matchOnDetail = true;
+        pick.ignoreFocusOut = true;
+        if (active) pick.activeItems = [active];
+        pick.buttons = canGoBack ? [vscode.QuickInputButtons.Back] : [];
+        let done = false;
+        const finish = (result: StepResult<T>) => {
+            if (done) return;
+            done = true;
+            resolve(result);
+            pick.dispose();
+        };
+        pick.onDidAccept(() => { if (pick.selectedItems[0]) finish(pick.selectedItems[0]); });
+        pick.onDidTriggerButton(() => finish(BACK));
+        pick.onDidHide(() => finish(undefined));
+        pick.show();
+    });
+}
+
+type TemplateItem = vscode.QuickPickItem & { template?: ToolTemplate };
+
+function templateItems(templates: ToolTemplate[]): TemplateItem[] {
+    return groupTemplates(templates).flatMap(group => [
+        { label: group.category, kind: vscode.QuickPickItemKind.Separator } as TemplateItem,
+        ...group.templates.map(template => ({
+            label: template.name,
+            description: template.source === 'built-in' ? undefined : template.source,
+            detail: template.description || undefined,
+            template
+        }))
+    ]);
+}
+
+/**
+ * Run the wizard. Resolves to undefined when cancelled.
+ * @throws Error when the tenant's connections are needed but cannot be listed
+ */
+export async function runTemplateWizard(options: TemplateWizardOptions = {}): Promise<TemplateWizardResult | undefined> {
+    let connections: ConnectionChoice[] | undefined;
+    const loadConnections = async (): Promise<ConnectionChoice[]> => {
+        if (!connections) {
+            const apps = await listConnections(options.signal);
+            connections = apps
+                .filter(a => a.connection_id || a.app_id)
+                .map(a => ({ connectionId: a.connection_id || a.app_id, appId: a.app_id || a.connection_id || 'Unknown' }));
+        }
+        return connections as ConnectionChoice[];
+    };
+
+    const pickTemplate = !options.template;
+    let library: ToolTemplate[] = [];
+    if (pickTemplate) {
+        const { templates, errors } = loadTemplateLibrary();
+        if (errors.length > 0) vscode.window.showWarningMessage(`WxO Builder: ${errors.length} template file(s) could not be loaded: ${errors.join('; ')}`);
+        library = templates;
+    }
+
+    let template = options.template;
+    let variables: TemplateVariable[] = template ? templateVariables(template.definition, template.variables) : [];
+    const values: Record<string, string> = {};
+    const offset = pickTemplate ? 1 : 0;
+    let index = pickTemplate ? -1 : 0;
+
+    while (index < variables.length) {
+        const totalSteps = offset + variables.length;
+        if (index < 0) {
+            const items = templateItems(library);
+            const picked = await askPick(items, 'Choose a template', items.find(i => i.template === template), 1, Math.max(totalSteps, 1), false);
+            if (!picked || picked === BACK || !picked.template) return undefined;
+            if (picked.template !== template) {
+                template = picked.template;
+                variables = templateVariables(template.definition, template.variables);
+            }
+            index = 0;
+            continue;
+        }
+
+        const variable = variables[index];
+        const canGoBack = index > 0 || pickTemplate;
+        const step = offset + index + 1;
+        let result: StepResult<string>;
+        if (variable.kind === 'connection') {
+            result = await askConnection(variable, values[variable.name] ?? variable.default, template as ToolTemplate, await loadConnections(), step, totalSteps, canGoBack);
+        } else {
+            result = await askText(variable, values[variable.name] ?? variable.default ?? '', step, totalSteps, canGoBack);
+        }
+        if (result === undefined) return undefined;
+        if (result === BACK) {
+            index--;
+            continue;
+        }
+        values[variable.name] = normalizeVariable(variable, result);
+        index++;
+    }
+
+    if (!template) return undefined;
+    const definition = fillTemplate(template.definition, values);
+    if (template.connection && !definition['x-ibm-connection-id']) {
+        const match = (await loadConnections()).find(c => c.appId === template?.connection || c.connectionId === template?.connection);
+        if (match) {
+            definition['x-ibm-connection-id'] = match.connectionId;
+        } else {
+            vscode.window.showWarningMessage(`Template "${template.name}" needs the connection "${template.connection}". Create it (Connections view) and select it before creating the tool.`);
+        }
+    }
+    return { template, definition };
+}
+
+type ConnectionItem = vscode.QuickPickItem & { connectionId: string };
+
+/** Connection step: the tenant's connections plus "None" when the variable is optional. */
+async function askConnection(variable: TemplateVariable, value: string | undefined, template: ToolTemplate, connections: ConnectionChoice[], step: number, totalSteps: number, canGoBack: boolean): Promise<StepResult<string>> {
+    const items: ConnectionItem[] = connections.map(c => ({
+        label: c.appId,
+        description: c.connectionId !== c.appId ? c.connectionId : undefined,
+        connectionId: c.connectionId
+    }));
+    if (!variable.required) items.unshift({ label: 'None', description: 'Assign a connection later', connectionId: '' });
+    if (items.length === 0) {
+        vscode.window.showWarningMessage('No connections found. Create one in the Connections view first.');
+        return undefined;
+    }
+    const wanted = value ?? template.connection;
+    const active = items.find(i => i.connectionId && (i.connectionId === wanted || i.label === wanted));
+    const picked = await askPick(items, variable.description, active, step, totalSteps, canGoBack);
+    return picked === undefined || picked === BACK ? picked : picked.connectionId;
+}
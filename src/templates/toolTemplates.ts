@@ -0,0 +1,177 @@
+/**
+ * WxO Builder - Tool Template Library
+ * Templates for the Create Tool panel come from three places:
+ *  - built-in: the Quick Start templates shipped with the extension (builtinTemplates.ts)
+ *  - workspace: `.wxo/templates/*.json|yaml|yml` in each workspace folder
+ *  - shared: the same files in `wxo-builder.templates.sharedFolder` (e.g. a team drive
+ *    or a checked-out templates repository)
+ *
+ * A template file is either an OpenAPI document with an optional `x-wxo-template` block,
+ * or a wrapper with the metadata next to the document:
+ *
+ *     { "template": { "name": "...", "category": "...", "description": "...", "connection": "my_app",
+ *                     "variables": { "region": { "kind": "text", "default": "us-south" } } },
+ *       "definition": { "openapi": "3.0.1", ... } }
+ *
+ * Missing metadata falls back to the document (`info.title`, `info.description`) and the
+ * file name. `connection` is the app id of the connection the tool needs. `variables`
+ * describes the `{{name}}` placeholders the wizard asks for (see templateVariables.ts).
+ * Swagger 2.0 documents are converted to OpenAPI 3 when the template is loaded.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseSpecText, normalizeSpec, isSwagger2 } from '../api/oasImport';
+import { BUILTIN_TEMPLATES } from './builtinTemplates';
+import { TemplateVariableMeta } from './templateVariables';
+import { OasDocument } from '../api/types';
+
+export type TemplateSource = 'built-in' | 'workspace' | 'shared';
+
+export interface ToolTemplate {
+    /** Built-in ids are plain (`weather`); file templates are `workspace:<path>` / `shared:<path>`. */
+    id: string;
+    name: string;
+    category: string;
+    description: string;
+    /** App id of the connection the tool needs, if any. */
+    connection?: string;
+    /** Metadata for the definition's `{{name}}` placeholders. */
+    variables?: Record<string, TemplateVariableMeta>;
+    source: TemplateSource;
+    /** Absolute path of the template file (workspace and shared templates). */
+    file?: string;
+    /** OpenAPI 3 document. */
+    definition: OasDocument;
+}
+
+export interface TemplateLibrary {
+    templates: ToolTemplate[];
+    /** One line per template file that could not be read. */
+    errors: string[];
+}
+
+export const WORKSPACE_TEMPLATES_DIR = path.join('.wxo', 'templates');
+
+const TEMPLATE_FILE = /\.(json|ya?ml)$/i;
+
+/** Template metadata as written in a file; values are checked before use. */
+interface TemplateFileMeta {
+    name?: unknown;
+    category?: unknown;
+    description?: unknown;
+    connection?: unknown;
+    variables?: unknown;
+}
+
+/** A template file: a wrapper around the definition, or the definition itself. */
+interface TemplateFile {
+    template?: TemplateFileMeta;
+    definition?: unknown;
+    'x-wxo-template'?: TemplateFileMeta;
+    [key: string]: unknown;
+}
+
+function text(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Template from a file's content.
+ * @throws Error when the file is not an OpenAPI / Swagger document (or a wrapper around one)
+ */
+export function parseTemplate(content: string, file: string, source: TemplateSource, id: string): ToolTemplate {
+    const doc = parseSpecText(content, file) as TemplateFile | undefined;
+    if (!doc || typeof doc !== 'object') throw new Error('not a JSON or YAML object');
+    const wrapped = doc.definition && typeof doc.definition === 'object';
+    const meta: TemplateFileMeta = (wrapped ? doc.template : doc['x-wxo-template']) || {};
+    const definition = (wrapped ? doc.definition : { ...doc }) as Record<string, unknown>;
+    delete definition['x-wxo-template'];
+    if (!definition.openapi && !isSwagger2(definition)) throw new Error('not an OpenAPI or Swagger document');
+    const { spec } = normalizeSpec(definition);
+    return {
+        id,
+        name: text(meta.name) || text(spec.info?.title) || path.basename(file).replace(TEMPLATE_FILE, ''),
+        category: text(meta.category) || (source === 'shared' ? 'Shared' : 'Workspace'),
+        description: text(meta.description) || text(spec.info?.description) || '',
+        connection: text(meta.connection),
+        variables: meta.variables && typeof meta.variables === 'object' && !Array.isArray(meta.variables) ? meta.variables as Record<string, TemplateVariableMeta> : undefined,
+        source,
+        file,
+        definition: spec
+    };
+}
+
+/** Templates in one folder (not recursive). A missing folder has no templates. */
+export function readTemplateFolder(folder: string, source: TemplateSource): TemplateLibrary {
+    const library: TemplateLibrary = { templates: [], errors: [] };
+    let names: string[];
+    try {
+        names = fs.readdirSync(folder).filter(name => TEMPLATE_FILE.test(name)).sort();
+    } catch (e) {
+        const err = e as NodeJS.ErrnoException;
+        if (err.code !== 'ENOENT') library.errors.push(`${folder}: ${err.message}`);
+        return library;
+    }
+    names.forEach(name => {
+        const file = path.join(folder, name);
+        try {
+            library.templates.push(parseTemplate(fs.readFileSync(file, 'utf8'), file, source, `${source}:${file}`));
+        } catch (e) {
+            // Parse errors already name the file
+            const message = (e as Error).message;
+            library.errors.push(String(message).startsWith(name) ? message : `${name}: ${message}`);
+        }
+    });
+    return library;
+}
+
+/** wxo-builder.templates.sharedFolder: absolute, `~`-relative or relative to the first workspace folder. */
+function sharedFolder(): string | undefined {
+    const configured = text(vscode.workspace.getConfiguration('wxo-builder').get<string>('templates.sharedFolder'));
+    if (!configured) return undefined;
+    if (configured.startsWith('~')) return path.join(os.homedir(), configured.slice(1));
+    if (path.isAbsolute(configured)) return configured;
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? path.join(folder.uri.fsPath, configured) : undefined;
+}
+
+/** All templates: workspace, then shared, then built-in. Files are read on every call. */
+export function loadTemplateLibrary(): TemplateLibrary {
+    const library: TemplateLibrary = { templates: [], errors: [] };
+    const add = (part: TemplateLibrary) => {
+        library.templates.push(...part.templates);
+        library.errors.push(...part.errors);
+    };
+    (vscode.workspace.workspaceFolders || []).forEach(folder => add(readTemplateFolder(path.join(folder.uri.fsPath, WORKSPACE_TEMPLATES_DIR), 'workspace')));
+    const shared = sharedFolder();
+    if (shared) add(readTemplateFolder(shared, 'shared'));
+    library.templates.push(...BUILTIN_TEMPLATES);
+    return library;
+}
+
+/** A template by id, with a fresh copy of its definition; undefined when it no longer exists. */
+export function findTemplate(id: string): ToolTemplate | undefined {
+    const builtin = BUILTIN_TEMPLATES.find(t => t.id === id);
+    const template = builtin || loadTemplateLibrary().templates.find(t => t.id === id);
+    return template ? { ...template, definition: JSON.parse(JSON.stringify(template.definition)) } : undefined;
+}
+
+/** Templates grouped by category (categories and names sorted, built-in last within a category). */
+export function groupTemplates(templates: ToolTemplate[]): Array<{ category: string; templates: ToolTemplate[] }> {
+    const groups = new Map<string, ToolTemplate[]>();
+    templates.forEach(t => {
+        if (!groups.has(t.category)) groups.set(t.category, []);
+        (groups.get(t.category) as ToolTemplate[]).push(t);
+    });
+    const rank = (t: ToolTemplate) => (t.source === 'built-in' ? 1 : 0);
+    return Array.from(groups.keys()).sort((a, b) => a.localeCompare(b)).map(category => ({
+        category,
+        templates: (groups.get(category) as ToolTemplate[]).sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name))
+    }));
+}
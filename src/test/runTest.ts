@@ -0,0 +1,54 @@
+/**
+ * WxO Builder - Test Runner
+ * Entry point for `npm test` (after `npm run compile`). Runs every mocha suite in
+ * out/test/suite (`*.tests.js`, TDD interface) in plain Node: the modules under test
+ * only need the small `vscode` test double in vscodeDouble.ts, which is registered as the
+ * `vscode` module here, and the integration suites start a MockOrchestrateServer instead
+ * of talking to a tenant. No VS Code download is needed, so the tests also run in CI.
+ *
+ * `npm test -- --grep <text>` runs only the matching tests.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as path from 'path';
+import Module from 'module';
+import Mocha from 'mocha';
+import { glob } from 'glob';
+
+/** Node's module resolver, which the public typings leave out. */
+type ResolveFilename = (this: unknown, request: string, ...rest: unknown[]) => string;
+
+/** Resolve `require('vscode')` to the test double. */
+function registerVscodeDouble(): void {
+    const double = path.join(__dirname, 'vscodeDouble.js');
+    const loader = Module as unknown as { _resolveFilename: ResolveFilename };
+    const resolve = loader._resolveFilename;
+    loader._resolveFilename = function (request, ...rest) {
+        return request === 'vscode' ? double : resolve.call(this, request, ...rest);
+    };
+}
+
+async function main(): Promise<void> {
+    registerVscodeDouble();
+    const grepIndex = process.argv.indexOf('--grep');
+    const mocha = new Mocha({
+        ui: 'tdd',
+        timeout: 10000,
+        grep: grepIndex !== -1 ? process.argv[grepIndex + 1] : undefined
+    });
+    const suiteRoot = path.join(__dirname, 'suite');
+    const files = await glob('**/*.tests.js', { cwd: suiteRoot });
+    files.sort().forEach(file => mocha.addFile(path.join(suiteRoot, file)));
+
+    const failures = await new Promise<number>(resolve => mocha.run(resolve));
+    if (failures > 0) console.error(`${failures} test(s) failed.`);
+    // Exit even if a suite left a socket or timer behind
+    process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+    console.error('Failed to run tests:', err);
+    process.exit(1);
+});
@@ -0,0 +1,51 @@
+/**
+ * WxO Builder - Mock Tenant for Integration Suites
+ * Starts a MockOrchestrateServer with seeded fixtures and points the client at it through
+ * an ordinary (non-mock) profile, so requests go through the real token exchange,
+ * woFetch and the API modules.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import { MockOrchestrateServer, MOCK_API_KEY } from '../../mock/mockServer';
+import { MockFixtures, MockTool, createDefaultFixtures } from '../../mock/fixtures';
+import { clearTokenCache } from '../../api/client';
+import { WxoProfile } from '../../api/profiles';
+import { resetSettings } from '../vscodeDouble';
+
+export const TEST_PROFILE_NAME = 'Integration';
+
+/** `count` simple tools named tool_1 … tool_n (ids mock-tool-1 …). */
+export function seededTools(count: number): MockTool[] {
+    const template = createDefaultFixtures().tools[0];
+    return Array.from({ length: count }, (_, i) => ({
+        ...template,
+        id: `mock-tool-${i + 1}`,
+        name: `tool_${i + 1}`,
+        display_name: `Tool ${i + 1}`
+    }));
+}
+
+/**
+ * Start a mock server and make it the active profile. Extra settings (e.g. pageSize) are
+ * merged in. Call `server.stop()` in suiteTeardown.
+ */
+export async function startMockTenant(fixtures: Partial<MockFixtures> = {}, extraSettings: Record<string, unknown> = {}): Promise<MockOrchestrateServer> {
+    const server = new MockOrchestrateServer({ fixtures });
+    await server.start();
+    const profile: WxoProfile = {
+        name: TEST_PROFILE_NAME,
+        instanceUrl: server.url,
+        authMethod: 'iam',
+        tokenUrl: server.tokenUrl,
+        apiKey: MOCK_API_KEY
+    };
+    resetSettings({
+        'wxo-builder.profiles': [profile],
+        'wxo-builder.activeProfile': TEST_PROFILE_NAME,
+        ...extraSettings
+    });
+    clearTokenCache();
+    return server;
+}
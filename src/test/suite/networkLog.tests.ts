@@ -0,0 +1,68 @@
+/**
+ * WxO Builder - Network Log Tests
+ * Redaction of headers, URLs and bodies, and response bodies being logged when the
+ * caller reads them (the stream is never cloned).
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { recordRequest, getNetworkEntries, clearNetworkLog, redactHeaders, redactUrl, redactBody, REDACTED } from '../../api/networkLog';
+
+/** A fetch Response stand-in that counts body reads and has no clone(). */
+function fakeResponse(status: number, body: string) {
+    const response = {
+        status,
+        statusText: 'OK',
+        headers: new Map([['content-type', 'application/json']]),
+        reads: 0,
+        async text() {
+            response.reads++;
+            return body;
+        },
+        async json() {
+            return JSON.parse(await response.text());
+        }
+    };
+    return response;
+}
+
+suite('Network log', () => {
+    setup(() => clearNetworkLog());
+
+    test('redacts credential headers, query parameters and body fields', () => {
+        assert.deepStrictEqual(redactHeaders({ Authorization: 'Bearer t', 'X-API-Key': 'k', Accept: 'application/json' }), {
+            Authorization: REDACTED, 'X-API-Key': REDACTED, Accept: 'application/json'
+        });
+        assert.strictEqual(redactUrl('https://x.io/a?api_key=s3cret&q=1'), `https://x.io/a?api_key=${REDACTED}&q=1`);
+        assert.strictEqual(redactUrl('not a url'), 'not a url');
+        assert.deepStrictEqual(JSON.parse(redactBody('{"name":"t","runtime_credentials":{"a":"b"},"nested":[{"password":"p"}]}')), {
+            name: 't', runtime_credentials: REDACTED, nested: [{ password: REDACTED }]
+        });
+        assert.strictEqual(redactBody('grant_type=x&apikey=s3cret'), `grant_type=x&apikey=${REDACTED}`);
+    });
+
+    test('logs the response body when the caller reads it, without reading it twice', async () => {
+        const record = recordRequest({ method: 'GET', url: 'https://x.io/tools', headers: {}, attempt: 0 });
+        const response = fakeResponse(200, '{"token":"t","name":"tool"}');
+        record.complete(response);
+        const [entry] = getNetworkEntries();
+        assert.deepStrictEqual([entry.status, entry.responseHeaders, entry.responseBody], [200, { 'content-type': 'application/json' }, undefined]);
+
+        assert.deepStrictEqual(await response.json(), { token: 't', name: 'tool' });
+        assert.strictEqual(response.reads, 1);
+        assert.deepStrictEqual(JSON.parse(entry.responseBody || ''), { token: REDACTED, name: 'tool' });
+    });
+
+    test('records failures and cancellations without a response', () => {
+        recordRequest({ method: 'GET', url: 'https://x.io/a', headers: {}, attempt: 0 }).fail(new Error('socket hang up'));
+        const abort = new Error('aborted');
+        abort.name = 'AbortError';
+        recordRequest({ method: 'GET', url: 'https://x.io/b', headers: {}, attempt: 1 }).fail(abort);
+        assert.deepStrictEqual(getNetworkEntries().map(e => [e.status, e.statusText, e.error]), [
+            [0, 'failed', 'socket hang up'],
+            [0, 'cancelled', 'aborted']
+        ]);
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * WxO Builder - Response Normalisation Tests
+ * normalizeList / normalizePage over the envelopes the list endpoints use, and
+ * WxoApiError.fromResponse's status, endpoint, request id and body.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { normalizeList, normalizePage } from '../../api/normalize';
+import { WxoApiError } from '../../api/errors';
+
+suite('normalizeList', () => {
+    const tool = { id: 't1', name: 'tool' };
+
+    test('accepts a bare array or any of the kind\'s envelope keys', () => {
+        assert.deepStrictEqual(normalizeList('tool', [tool]), [tool]);
+        assert.deepStrictEqual(normalizeList('tool', { tools: [tool] }), [tool]);
+        assert.deepStrictEqual(normalizeList('agent', { assistants: [tool] }), [tool]);
+        assert.deepStrictEqual(normalizeList('connection', { applications: [tool] }), [tool]);
+        assert.deepStrictEqual(normalizeList('model', { resources: [tool] }), [tool]);
+    });
+
+    test('tries the envelope keys in order and skips non-array values', () => {
+        const other = { id: 'a2' };
+        assert.deepStrictEqual(normalizeList('agent', { assistants: [tool], data: [other] }), [tool]);
+        assert.deepStrictEqual(normalizeList('agent', { assistants: null, items: { count: 1 }, data: [other] }), [other]);
+    });
+
+    test('parses JSON text and drops entries that are not objects', () => {
+        assert.deepStrictEqual(normalizeList('tool', JSON.stringify({ items: [tool, null, 'x', 3] })), [tool]);
+    });
+
+    test('anything unrecognised is an empty list', () => {
+        assert.deepStrictEqual(normalizeList('tool', 'not json'), []);
+        assert.deepStrictEqual(normalizeList('tool', { assistants: [tool] }), [], 'agent keys do not apply to tools');
+        assert.deepStrictEqual(normalizeList('tool', undefined), []);
+        assert.deepStrictEqual(normalizeList('tool', 42), []);
+    });
+});
+
+suite('normalizePage', () => {
+    test('reads cursors and totals from the top level or a meta object', () => {
+        assert.deepStrictEqual(normalizePage('tool', { items: [], next_cursor: 'c2', total: 7 }), { items: [], nextCursor: 'c2', total: 7 });
+        assert.deepStrictEqual(normalizePage('tool', { items: [], meta: { next: 'c3', total_count: 9 } }), { items: [], nextCursor: 'c3', total: 9 });
+    });
+
+    test('ignores empty cursors and non-numeric totals', () => {
+        assert.deepStrictEqual(normalizePage('tool', { items: [], next_cursor: '', total: '7' }), { items: [] });
+        assert.deepStrictEqual(normalizePage('tool', '{oops'), { items: [] });
+    });
+});
+
+suite('WxoApiError.fromResponse', () => {
+    function response(status: number, text: string, headers: Record<string, string> = {}) {
+        return {
+            status,
+            statusText: 'Status text',
+            url: 'https://tenant.example.com/v1/orchestrate/tools?limit=20',
+            headers: { get: (name: string) => headers[name] },
+            text: async () => text
+        };
+    }
+
+    test('keeps the status, endpoint, parsed body and request id header', async () => {
+        const error = await WxoApiError.fromResponse(response(404, '{"detail":"missing"}', { 'x-global-transaction-id': 'txn-1' }), 'get tool');
+        assert.ok(error instanceof WxoApiError);
+        assert.deepStrictEqual(
+            [error.message, error.status, error.endpoint, error.requestId, error.body],
+            ['Failed to get tool: 404 {"detail":"missing"}', 404, '/v1/orchestrate/tools?limit=20', 'txn-1', { detail: 'missing' }]
+        );
+    });
+
+    test('falls back to a request id in the body, and to the status text without a body', async () => {
+        assert.strictEqual((await WxoApiError.fromResponse(response(500, '{"trace_id":"tr-9"}'), 'list tools')).requestId, 'tr-9');
+        const empty = await WxoApiError.fromResponse(response(502, ''), 'list tools');
+        assert.deepStrictEqual([empty.message, empty.body], ['Failed to list tools: 502 Status text', undefined]);
+    });
+
+    test('a body that cannot be read still yields an error', async () => {
+        const failing = { ...response(503, ''), text: async () => { throw new Error('stream closed'); } };
+        assert.strictEqual((await WxoApiError.fromResponse(failing, 'list agents')).status, 503);
+    });
+});
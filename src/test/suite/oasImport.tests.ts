@@ -0,0 +1,196 @@
+/**
+ * WxO Builder - OpenAPI Import Tests
+ * parseSpecText (JSON / YAML) and the Swagger 2.0 → OpenAPI 3.0 conversion in
+ * normalizeSpec, one table row per conversion rule.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { parseSpecText, normalizeSpec, isSwagger2 } from '../../api/oasImport';
+import { OasDocument, OasOperation } from '../../api/types';
+
+/** A Swagger 2.0 document with one operation at `GET /pets` (overridable). */
+function swagger(extra: Record<string, unknown> = {}, operation: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+        swagger: '2.0',
+        info: { title: 'Pets', version: '1.0.0' },
+        host: 'api.example.com',
+        paths: { '/pets': { get: { responses: { '200': { description: 'OK' } }, ...operation } } },
+        ...extra
+    };
+}
+
+/** The converted `GET <path>` operation. */
+function getOperation(spec: OasDocument, path = '/pets'): OasOperation {
+    return spec.paths?.[path]?.get || {};
+}
+
+suite('parseSpecText', () => {
+    const cases: Array<{ name: string; text: string; file: string; expected: unknown }> = [
+        { name: 'JSON by extension', text: '{"openapi":"3.0.1"}', file: 'api.json', expected: { openapi: '3.0.1' } },
+        { name: 'YAML by extension', text: 'openapi: 3.0.1\ninfo:\n  title: T\n', file: 'api.yaml', expected: { openapi: '3.0.1', info: { title: 'T' } } },
+        { name: 'YAML without a file name', text: 'swagger: "2.0"', file: '', expected: { swagger: '2.0' } },
+        { name: 'YAML merge keys', text: 'base: &b\n  a: 1\nderived:\n  <<: *b\n  c: 2\n', file: 'x.yml', expected: { base: { a: 1 }, derived: { a: 1, c: 2 } } }
+    ];
+
+    cases.forEach(c => test(c.name, () => assert.deepStrictEqual(parseSpecText(c.text, c.file), c.expected)));
+
+    test('names the file when JSON or YAML does not parse', () => {
+        assert.throws(() => parseSpecText('{ nope', 'dir/api.json'), /^Error: api\.json is not valid JSON/);
+        assert.throws(() => parseSpecText('a: [1', 'dir/api.yaml'), /^Error: api\.yaml is not valid YAML/);
+    });
+});
+
+suite('normalizeSpec (Swagger 2.0 → OpenAPI 3.0)', () => {
+    test('returns OpenAPI 3 documents unchanged', () => {
+        const doc = { openapi: '3.0.1', paths: {} };
+        assert.strictEqual(isSwagger2(doc), false);
+        assert.deepStrictEqual(normalizeSpec(doc), { spec: doc, converted: false, warnings: [] });
+    });
+
+    const cases: Array<{ name: string; doc: object; at: (spec: OasDocument) => unknown; expected: unknown; warning?: RegExp }> = [
+        {
+            name: 'host, basePath and schemes become servers',
+            doc: swagger({ basePath: '/v1/', schemes: ['https', 'http'] }),
+            at: s => s.servers,
+            expected: [{ url: 'https://api.example.com/v1' }, { url: 'http://api.example.com/v1' }]
+        },
+        {
+            name: 'a missing host keeps basePath and warns',
+            doc: swagger({ host: undefined, basePath: '/v1' }),
+            at: s => s.servers,
+            expected: [{ url: '/v1' }],
+            warning: /No "host"/
+        },
+        {
+            name: 'definitions move to components.schemas and refs follow',
+            doc: swagger({ definitions: { Pet: { type: 'object', properties: { tag: { $ref: '#/definitions/Tag' } } }, Tag: { type: 'string' } } }),
+            at: s => s.components?.schemas?.Pet.properties?.tag,
+            expected: { $ref: '#/components/schemas/Tag' }
+        },
+        {
+            name: 'x-nullable and string discriminators are upgraded',
+            doc: swagger({ definitions: { Pet: { type: 'object', discriminator: 'kind', properties: { name: { type: 'string', 'x-nullable': true } } } } }),
+            at: s => s.components?.schemas?.Pet,
+            expected: { type: 'object', discriminator: { propertyName: 'kind' }, properties: { name: { type: 'string', nullable: true } } }
+        },
+        {
+            name: 'query parameter keywords move into schema',
+            doc: swagger({}, { parameters: [{ name: 'limit', in: 'query', type: 'integer', minimum: 1, description: 'Max' }] }),
+            at: s => getOperation(s).parameters,
+            expected: [{ name: 'limit', in: 'query', description: 'Max', schema: { type: 'integer', minimum: 1 } }]
+        },
+        {
+            name: 'path parameters are always required',
+            doc: swagger({ paths: { '/pets/{id}': { get: { parameters: [{ name: 'id', in: 'path', type: 'string' }], responses: {} } } } }),
+            at: s => getOperation(s, '/pets/{id}').parameters?.[0].required,
+            expected: true
+        },
+        {
+            name: 'path-level parameters are folded into each operation, operation parameters win',
+            doc: swagger({
+                paths: {
+                    '/pets': {
+                        parameters: [{ name: 'q', in: 'query', type: 'string' }, { name: 'page', in: 'query', type: 'integer' }],
+                        get: { parameters: [{ name: 'q', in: 'query', type: 'integer' }], responses: {} }
+                    }
+                }
+            }),
+            at: s => getOperation(s).parameters?.map(p => `${p.name}:${p.schema?.type}`),
+            expected: ['page:integer', 'q:integer']
+        },
+        {
+            name: 'a body parameter becomes a requestBody per consumes type',
+            doc: swagger({ consumes: ['application/json', 'text/plain'] }, { parameters: [{ name: 'pet', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } }] }),
+            at: s => getOperation(s).requestBody,
+            expected: {
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } }, 'text/plain': { schema: { $ref: '#/components/schemas/Pet' } } },
+                required: true
+            }
+        },
+        {
+            name: 'formData parameters become a form request body and warn',
+            doc: swagger({}, { parameters: [{ name: 'file', in: 'formData', type: 'file', required: true }, { name: 'note', in: 'formData', type: 'string' }] }),
+            at: s => getOperation(s).requestBody,
+            expected: {
+                content: {
+                    'multipart/form-data': {
+                        schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' }, note: { type: 'string' } }, required: ['file'] }
+                    }
+                },
+                required: true
+            },
+            warning: /formData parameters were converted to a multipart\/form-data request body/
+        },
+        {
+            name: 'body and formData together keep the body and warn',
+            doc: swagger({}, { parameters: [{ name: 'pet', in: 'body', schema: { type: 'object' } }, { name: 'note', in: 'formData', type: 'string' }] }),
+            at: s => Object.keys(getOperation(s).requestBody?.content || {}),
+            expected: ['application/json'],
+            warning: /has both body and formData parameters/
+        },
+        {
+            name: 'global body parameters become requestBodies and their refs follow',
+            doc: swagger({ parameters: { PetBody: { name: 'pet', in: 'body', schema: { type: 'object' } }, Limit: { name: 'limit', in: 'query', type: 'integer' } } }, {
+                parameters: [{ $ref: '#/parameters/PetBody' }, { $ref: '#/parameters/Limit' }]
+            }),
+            at: s => [getOperation(s).requestBody, getOperation(s).parameters, Object.keys(s.components?.requestBodies as object), Object.keys(s.components?.parameters as object)],
+            expected: [{ $ref: '#/components/requestBodies/PetBody' }, [{ $ref: '#/components/parameters/Limit' }], ['PetBody'], ['Limit']]
+        },
+        {
+            name: 'response schemas become content per produces type, with examples',
+            doc: swagger({ produces: ['application/json'] }, {
+                responses: { '200': { description: 'OK', schema: { type: 'array', items: { type: 'string' } }, examples: { 'application/json': ['a'] } } }
+            }),
+            at: s => getOperation(s).responses?.['200'],
+            expected: { description: 'OK', content: { 'application/json': { schema: { type: 'array', items: { type: 'string' } }, example: ['a'] } } }
+        },
+        {
+            name: 'an operation without responses gets a default response',
+            doc: swagger({ paths: { '/pets': { get: {} } } }),
+            at: s => getOperation(s).responses,
+            expected: { default: { description: 'Default response' } }
+        }
+    ];
+
+    cases.forEach(c => test(c.name, () => {
+        const { spec, converted, warnings } = normalizeSpec(c.doc);
+        assert.strictEqual(converted, true);
+        assert.strictEqual(spec.openapi, '3.0.1');
+        assert.deepStrictEqual(c.at(spec), c.expected);
+        if (c.warning) assert.ok(warnings.some(w => c.warning?.test(w)), `expected a warning matching ${c.warning}, got ${JSON.stringify(warnings)}`);
+        else assert.deepStrictEqual(warnings, []);
+    }));
+
+    const collectionFormats: Array<[string, string, { style: string; explode?: boolean }]> = [
+        ['csv', 'query', { style: 'form', explode: false }],
+        ['csv', 'header', { style: 'simple' }],
+        ['multi', 'query', { style: 'form', explode: true }],
+        ['ssv', 'query', { style: 'spaceDelimited', explode: false }],
+        ['pipes', 'query', { style: 'pipeDelimited', explode: false }],
+        ['tsv', 'query', { style: 'form', explode: false }]
+    ];
+
+    collectionFormats.forEach(([format, location, expected]) => test(`collectionFormat ${format} in ${location} → ${JSON.stringify(expected)}`, () => {
+        const { spec, warnings } = normalizeSpec(swagger({}, { parameters: [{ name: 'ids', in: location, type: 'array', items: { type: 'string' }, collectionFormat: format }] }));
+        const { style, explode } = getOperation(spec).parameters![0];
+        assert.deepStrictEqual(explode === undefined ? { style } : { style, explode }, expected);
+        assert.strictEqual(warnings.length, format === 'tsv' ? 1 : 0);
+    }));
+
+    const securityCases: Array<[string, object, object]> = [
+        ['basic', { type: 'basic' }, { type: 'http', scheme: 'basic' }],
+        ['apiKey', { type: 'apiKey', name: 'X-Key', in: 'header' }, { type: 'apiKey', name: 'X-Key', in: 'header' }],
+        ['oauth2 application', { type: 'oauth2', flow: 'application', tokenUrl: 'https://t', scopes: { r: 'Read' } }, { type: 'oauth2', flows: { clientCredentials: { tokenUrl: 'https://t', scopes: { r: 'Read' } } } }],
+        ['oauth2 accessCode', { type: 'oauth2', flow: 'accessCode', authorizationUrl: 'https://a', tokenUrl: 'https://t' }, { type: 'oauth2', flows: { authorizationCode: { authorizationUrl: 'https://a', tokenUrl: 'https://t', scopes: {} } } }],
+        ['oauth2 implicit', { type: 'oauth2', flow: 'implicit', authorizationUrl: 'https://a' }, { type: 'oauth2', flows: { implicit: { authorizationUrl: 'https://a', scopes: {} } } }],
+        ['oauth2 password', { type: 'oauth2', flow: 'password', tokenUrl: 'https://t' }, { type: 'oauth2', flows: { password: { tokenUrl: 'https://t', scopes: {} } } }]
+    ];
+
+    securityCases.forEach(([name, scheme, expected]) => test(`security definition ${name}`, () => {
+        const { spec } = normalizeSpec(swagger({ securityDefinitions: { auth: scheme } }));
+        assert.deepStrictEqual((spec.components?.securitySchemes as Record<string, unknown>).auth, expected);
+    }));
+});
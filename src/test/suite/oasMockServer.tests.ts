@@ -0,0 +1,152 @@
+/**
+ * WxO Builder - OpenAPI Mock Server Tests
+ * OasMockServer routing (base path, path templates, 404/405), request validation,
+ * credential checks and the responses it picks, plus sampleFromSchema.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { OasMockServer, sampleFromSchema } from '../../mock/oasMockServer';
+import { RequestInit } from 'node-fetch';
+import { httpFetch } from '../../api/http';
+import { JsonSchema, OasDocument } from '../../api/types';
+
+const PET = { type: 'object', properties: { id: { type: 'integer' }, name: { type: 'string' } }, required: ['name'] };
+
+const SPEC: OasDocument = {
+    openapi: '3.0.1',
+    info: { title: 'Pets', version: '1' },
+    servers: [{ url: 'https://{host}/v2', variables: { host: { default: 'api.pets.io' } } }],
+    components: {
+        securitySchemes: { key: { type: 'apiKey', in: 'header', name: 'X-API-Key' }, basic: { type: 'http', scheme: 'basic' } }
+    },
+    paths: {
+        '/pets': {
+            get: {
+                parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer', maximum: 50 } }],
+                responses: { '200': { description: 'ok', content: { 'application/json': { example: [{ id: 1, name: 'Rex' }] } } } }
+            },
+            post: {
+                security: [{ key: [] }, { basic: [] }],
+                requestBody: { required: true, content: { 'application/json': { schema: PET } } },
+                responses: { '201': { description: 'created', content: { 'application/json': { schema: PET } } } }
+            }
+        },
+        '/pets/{petId}': {
+            parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+            get: {
+                responses: {
+                    '200': { description: 'ok', content: { 'application/json': { examples: { rex: { value: { id: 7, name: 'Rex' } } } } } },
+                    '404': { description: 'missing', content: { 'application/json': { schema: { type: 'object', properties: { detail: { type: 'string', default: 'Not found' } } } } } }
+                }
+            }
+        }
+    }
+};
+
+suite('OasMockServer', () => {
+    let server: OasMockServer;
+    let base: string;
+
+    async function call(path: string, init: RequestInit = {}): Promise<{ status: number; body: { errors: string[] } }> {
+        const response = await httpFetch(base + path, init);
+        const text = await response.text();
+        return { status: response.status, body: text ? JSON.parse(text) : undefined };
+    }
+
+    suiteSetup(async () => {
+        server = new OasMockServer(SPEC);
+        base = await server.start();
+    });
+
+    suiteTeardown(() => server.stop());
+
+    test('serves under the first server\'s base path and lists its operations', () => {
+        assert.match(base, /^http:\/\/127\.0\.0\.1:\d+\/v2$/);
+        assert.deepStrictEqual(server.operations, ['GET /pets', 'POST /pets', 'GET /pets/{petId}']);
+    });
+
+    test('answers with the media example, or the first named example', async () => {
+        assert.deepStrictEqual(await call('/pets?limit=10'), { status: 200, body: [{ id: 1, name: 'Rex' }] });
+        assert.deepStrictEqual(await call('/pets/7'), { status: 200, body: { id: 7, name: 'Rex' } });
+    });
+
+    test('the base path is optional', async () => {
+        const response = await httpFetch(base.replace(/\/v2$/, '') + '/pets/3');
+        assert.strictEqual(response.status, 200);
+    });
+
+    test('Prefer: code= picks another response, generated from its schema', async () => {
+        assert.deepStrictEqual(await call('/pets/7', { headers: { Prefer: 'code=404' } }), { status: 404, body: { detail: 'Not found' } });
+    });
+
+    test('unknown paths are 404, known paths with another method 405', async () => {
+        assert.strictEqual((await call('/owners')).status, 404);
+        assert.strictEqual((await call('/pets/7', { method: 'DELETE' })).status, 405);
+    });
+
+    test('invalid parameters are 400 with one line per problem', async () => {
+        const { status, body } = await call('/pets?limit=500');
+        assert.strictEqual(status, 400);
+        assert.deepStrictEqual(body.errors.map((e: string) => e.split(':')[0]), ['query parameter "limit"']);
+        assert.strictEqual((await call('/pets/abc')).status, 400);
+    });
+
+    test('checks that one security alternative has its credentials', async () => {
+        const post = (headers: Record<string, string>, body: unknown) =>
+            call('/pets', { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) });
+
+        const denied = await post({}, { name: 'Rex' });
+        assert.deepStrictEqual(denied, { status: 401, body: { detail: 'Missing credentials: header "X-API-Key" or Authorization: basic …' } });
+        assert.deepStrictEqual(await post({ 'X-API-Key': 'k' }, { name: 'Rex' }), { status: 201, body: { id: 1, name: 'string' } });
+        assert.strictEqual((await post({ Authorization: 'Basic dTpw' }, { name: 'Rex' })).status, 201);
+    });
+
+    test('validates the JSON request body', async () => {
+        const invalid = await call('/pets', { method: 'POST', headers: { 'X-API-Key': 'k', 'Content-Type': 'application/json' }, body: '{"id":"x"}' });
+        assert.strictEqual(invalid.status, 400);
+        assert.strictEqual(invalid.body.errors.length, 2, 'name is missing and id is not an integer');
+        const missing = await call('/pets', { method: 'POST', headers: { 'X-API-Key': 'k' } });
+        assert.deepStrictEqual(missing.body.errors, ['Missing required request body']);
+    });
+
+    test('records each request with its status', async () => {
+        await call('/pets?limit=2');
+        await call('/owners');
+        assert.deepStrictEqual(server.requests.slice(-2), ['GET /v2/pets?limit=2 → 200', 'GET /v2/owners → 404']);
+    });
+});
+
+suite('sampleFromSchema', () => {
+    test('prefers example, default and enum over generated values', () => {
+        assert.strictEqual(sampleFromSchema({ type: 'string', example: 'e', default: 'd' }), 'e');
+        assert.strictEqual(sampleFromSchema({ type: 'string', default: 'd', enum: ['a'] }), 'd');
+        assert.strictEqual(sampleFromSchema({ type: 'string', enum: ['a', 'b'] }), 'a');
+    });
+
+    test('generates values that respect formats and bounds', () => {
+        assert.deepStrictEqual(sampleFromSchema({
+            type: 'object',
+            properties: {
+                when: { type: 'string', format: 'date-time' },
+                code: { type: 'string', minLength: 8 },
+                size: { type: 'integer', minimum: 3 },
+                ratio: { type: 'number', maximum: 0.5 },
+                tags: { type: 'array', items: { type: 'boolean' }, minItems: 2 },
+                secret: { type: 'string', writeOnly: true },
+                both: { allOf: [{ properties: { a: { type: 'integer' } } }, { properties: { b: { type: 'string' } } }] }
+            }
+        }), { when: '2026-01-01T12:00:00Z', code: 'stringxx', size: 3, ratio: 0.5, tags: [true, true], both: { a: 1, b: 'string' } });
+    });
+
+    test('stops at recursive schemas', () => {
+        type Sample = { child?: Sample } | null | undefined;
+        const node: JsonSchema = { type: 'object', properties: {} };
+        node.properties!.child = node;
+        let depth = 0;
+        for (let value = sampleFromSchema(node) as Sample; value; value = value.child) depth++;
+        assert.ok(depth > 1 && depth < 20);
+    });
+});
@@ -0,0 +1,151 @@
+/**
+ * WxO Builder - Orchestrate API Integration Tests
+ * Tools, agents and connections against a MockOrchestrateServer seeded with the default
+ * fixtures, through the real API modules and woFetch.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { MockOrchestrateServer } from '../../mock/mockServer';
+import { createDefaultFixtures } from '../../mock/fixtures';
+import { listSkills, getSkill, updateSkill, deleteSkill, createToolRecord, deployOperations, listOperations } from '../../api/skills';
+import { SchemaRefError } from '../../api/schemaResolver';
+import { listAgents, getAgent, createAgent, updateAgent, deleteAgent } from '../../api/agents';
+import { Connection } from '../../api/types';
+import { listConnections, getConnection, createConnection, deleteConnection, listConnectors } from '../../api/connections';
+import { WxoApiError } from '../../api/errors';
+import { startMockTenant } from './mockTenant';
+
+suite('Orchestrate API against the mock server', () => {
+    let server: MockOrchestrateServer;
+
+    suiteSetup(async () => {
+        server = await startMockTenant();
+    });
+
+    setup(() => server.reset());
+
+    suiteTeardown(() => server.stop());
+
+    suite('tools', () => {
+        test('lists the seeded tools', async () => {
+            const tools = await listSkills(50);
+            assert.deepStrictEqual(tools.map(t => t.id), createDefaultFixtures().tools.map(t => t.id));
+        });
+
+        test('gets one tool by id', async () => {
+            const tool = await getSkill('mock-tool-weather');
+            assert.strictEqual(tool.name, 'get_weather');
+            assert.strictEqual(tool.binding?.openapi?.http_path, '/weather');
+        });
+
+        test('creates a tool record', async () => {
+            const created = await createToolRecord({ name: 'new_tool', description: 'Created in a test', permission: 'read_write' });
+            const id = created.id || (created.data as { id?: string } | undefined)?.id;
+            assert.ok(id, 'the create response carries the new id');
+            assert.strictEqual((await getSkill(id)).name, 'new_tool');
+        });
+
+        test('updates only the editable fields and sanitizes the name', async () => {
+            await updateSkill('mock-tool-weather', { name: 'weather-now', description: 'Updated', input_schema: { type: 'object' } });
+            const tool = await getSkill('mock-tool-weather');
+            assert.strictEqual(tool.name, 'weather_now');
+            assert.strictEqual(tool.description, 'Updated');
+            assert.ok(tool.input_schema?.properties?.city, 'input_schema is not editable');
+        });
+
+        test('deletes a tool; getting it afterwards is a 404 WxoApiError', async () => {
+            await deleteSkill('mock-tool-news');
+            await assert.rejects(getSkill('mock-tool-news'), (e: unknown) => e instanceof WxoApiError && e.status === 404);
+        });
+    });
+
+    suite('agents', () => {
+        test('lists and gets the seeded agent', async () => {
+            const agents = await listAgents(50);
+            assert.deepStrictEqual(agents.map(a => a.id), ['mock-agent-helpdesk']);
+            const agent = await getAgent('mock-agent-helpdesk');
+            assert.deepStrictEqual(agent.tools, ['mock-tool-weather', 'mock-tool-news']);
+        });
+
+        test('creates, updates and deletes an agent', async () => {
+            const created = await createAgent('test_agent', 'Test agent', 'groq/openai/gpt-oss-120b', 'Be brief.');
+            const id = created.id || created.data?.id;
+            assert.ok(id);
+            await updateAgent(id, { tools: ['mock-tool-weather'] });
+            assert.deepStrictEqual((await getAgent(id)).tools, ['mock-tool-weather']);
+            await deleteAgent(id);
+            await assert.rejects(getAgent(id), (e: unknown) => e instanceof WxoApiError && e.status === 404);
+        });
+    });
+
+    suite('connections', () => {
+        test('lists the seeded connections', async () => {
+            const connections = await listConnections();
+            assert.deepStrictEqual(connections.map(c => c.app_id), ['mock-conn-news']);
+        });
+
+        test('creates, finds and deletes a connection', async () => {
+            await createConnection('test_app');
+            const found = await getConnection('test_app');
+            assert.deepStrictEqual(found.applications.map((c: Connection) => c.app_id), ['test_app']);
+            await deleteConnection('test_app');
+            assert.deepStrictEqual((await listConnections()).map(c => c.app_id), ['mock-conn-news']);
+        });
+
+        test('lists catalog connectors', async () => {
+            const connectors = await listConnectors();
+            assert.deepStrictEqual(connectors.map(c => c.app_id), ['salesforce', 'servicenow', 'slack']);
+        });
+    });
+    suite('deploy per operation', () => {
+        const spec = {
+            openapi: '3.0.1',
+            info: { title: 'Shop', version: '1' },
+            servers: [{ url: 'https://api.shop.io' }],
+            paths: {
+                '/orders': {
+                    post: {
+                        operationId: 'create-order',
+                        requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Order' } } } },
+                        responses: { '200': { description: 'ok' } }
+                    }
+                },
+                '/orders/{id}': {
+                    get: {
+                        operationId: 'getOrder',
+                        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+                        responses: { '200': { description: 'ok', content: { 'application/json': { schema: { $ref: '#/components/schemas/Order' } } } } }
+                    }
+                }
+            },
+            components: { schemas: { Order: { type: 'object', properties: { sku: { type: 'string' } } } } }
+        };
+
+        test('creates one tool per operation with its $refs inlined', async () => {
+            const results = await deployOperations(spec, listOperations(spec));
+            assert.deepStrictEqual(results.map(r => [r.toolName, r.success]), [['create_order', true], ['getOrder', true]]);
+            const created = await getSkill(results[0].toolId as string);
+            assert.strictEqual(created.binding?.openapi?.http_path, '/orders');
+            assert.strictEqual(JSON.stringify(created.input_schema).indexOf('$ref'), -1);
+            assert.ok(JSON.stringify(created.input_schema).includes('sku'));
+        });
+
+        test('an unresolvable $ref fails before any tool is created', async () => {
+            const broken = JSON.parse(JSON.stringify(spec));
+            broken.paths['/orders'].post.requestBody.content['application/json'].schema.$ref = '#/components/schemas/Missing';
+            const before = (await listSkills(50)).length;
+            await assert.rejects(deployOperations(broken, listOperations(broken)), (e: unknown) => e instanceof SchemaRefError);
+            assert.strictEqual((await listSkills(50)).length, before);
+        });
+
+        test('a failed operation does not stop the batch', async () => {
+            server.failNext(400);
+            const results = await deployOperations(spec, listOperations(spec));
+            assert.deepStrictEqual(results.map(r => r.success), [false, true]);
+            assert.ok(results[0].error);
+        });
+    });
+});
@@ -0,0 +1,161 @@
+/**
+ * WxO Builder - Output Schema Tests
+ * validateJsonSchema's error kinds and OpenAPI dialect, checkOutputSchema for tools and
+ * OpenAPI documents, and widening schemas from observed responses.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { validateJsonSchema, formatSchemaErrors, SchemaError } from '../../api/jsonSchema';
+import { checkOutputSchema, mergeResponseIntoOutputSchema, parseToolOutput } from '../../api/outputSchema';
+import { mergeObservedSchema } from '../../api/schemaInference';
+import { JsonSchema } from '../../api/types';
+
+const WEATHER_SCHEMA = {
+    type: 'object',
+    properties: {
+        city: { type: 'string' },
+        temp: { type: 'number' },
+        unit: { type: 'string', enum: ['C', 'F'] },
+        updated: { type: 'string', format: 'date-time' },
+        alerts: { type: 'array', items: { type: 'string' }, nullable: true }
+    },
+    required: ['city', 'temp']
+};
+
+function kinds(errors: SchemaError[]): Array<[string, string]> {
+    return errors.map(e => [e.path, e.kind] as [string, string]).sort();
+}
+
+suite('validateJsonSchema', () => {
+    test('a matching value has no errors; nullable allows null', () => {
+        const value = { city: 'Oslo', temp: -3, unit: 'C', updated: '2026-10-19T08:00:00Z', alerts: null };
+        assert.deepStrictEqual(validateJsonSchema(value, WEATHER_SCHEMA), []);
+    });
+
+    test('reports missing, type and value errors by path', () => {
+        const errors = validateJsonSchema({ temp: '3', unit: 'K', updated: 'yesterday', alerts: [1] }, WEATHER_SCHEMA);
+        assert.deepStrictEqual(kinds(errors), [
+            ['$', 'missing'],
+            ['$.alerts[0]', 'type'],
+            ['$.temp', 'type'],
+            ['$.unit', 'value'],
+            ['$.updated', 'value']
+        ]);
+        assert.ok(formatSchemaErrors(errors).every(line => /^\$\S*: ./.test(line)));
+    });
+
+    test('additionalProperties: false makes extra fields errors; reportUndeclared flags them anyway', () => {
+        const closed = { ...WEATHER_SCHEMA, additionalProperties: false };
+        assert.deepStrictEqual(kinds(validateJsonSchema({ city: 'a', temp: 1, wind: 3 }, closed)), [['$.wind', 'extra']]);
+        assert.deepStrictEqual(kinds(validateJsonSchema({ city: 'a', temp: 1, wind: 3 }, WEATHER_SCHEMA)), []);
+        assert.deepStrictEqual(kinds(validateJsonSchema({ city: 'a', temp: 1, wind: 3 }, WEATHER_SCHEMA, { reportUndeclared: true })), [['$.wind', 'undeclared']]);
+    });
+
+    test('resolves local $refs and reports an unresolvable one as a single error', () => {
+        const root = { $ref: '#/components/schemas/Weather', components: { schemas: { Weather: WEATHER_SCHEMA } } };
+        assert.deepStrictEqual(kinds(validateJsonSchema({ city: 'a' }, root)), [['$', 'missing']]);
+        const broken = validateJsonSchema({}, { $ref: '#/components/schemas/Missing' });
+        assert.strictEqual(broken.length, 1);
+        assert.match(broken[0].message, /^the schema cannot be used/);
+    });
+
+    test('schemas that are true or absent accept anything; false accepts nothing', () => {
+        assert.deepStrictEqual(validateJsonSchema(1, true), []);
+        assert.deepStrictEqual(validateJsonSchema(1, undefined), []);
+        assert.deepStrictEqual(kinds(validateJsonSchema(1, false)), [['$', 'value']]);
+    });
+});
+
+suite('checkOutputSchema', () => {
+    const tool = { name: 'get_weather', binding: { openapi: {} }, output_schema: WEATHER_SCHEMA };
+    const spec = {
+        openapi: '3.0.1',
+        paths: {
+            '/weather': {
+                get: { responses: { '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Weather' } } } } } }
+            }
+        },
+        components: { schemas: { Weather: WEATHER_SCHEMA } }
+    };
+
+    test('checks a tool against its output_schema, parsing JSON text results', () => {
+        const check = checkOutputSchema(tool, '{"city":"Oslo","temp":"cold","wind":3}');
+        assert.strictEqual(check.hasSchema, true);
+        assert.deepStrictEqual(kinds(check.issues), [['$.temp', 'type'], ['$.wind', 'undeclared']]);
+    });
+
+    test('checks an OpenAPI document against its first 200 JSON response', () => {
+        assert.deepStrictEqual(kinds(checkOutputSchema(spec, { city: 'Oslo' }).issues), [['$', 'missing']]);
+    });
+
+    test('a definition without an output schema has nothing to check', () => {
+        assert.deepStrictEqual(checkOutputSchema({ ...spec, components: undefined, paths: { '/a': { get: {} } } }, {}), { hasSchema: false, issues: [] });
+        assert.deepStrictEqual(checkOutputSchema({ name: 't', binding: {} }, {}), { hasSchema: false, issues: [] });
+    });
+
+    test('parseToolOutput leaves text that is not JSON alone', () => {
+        assert.strictEqual(parseToolOutput('Sunny, 21°C'), 'Sunny, 21°C');
+        assert.deepStrictEqual(parseToolOutput('[1]'), [1]);
+    });
+});
+
+suite('mergeObservedSchema', () => {
+    test('adds new fields and keeps the declared ones', () => {
+        const merged = mergeObservedSchema(WEATHER_SCHEMA, { city: 'Oslo', temp: 3, wind: { speed: 4 } }) as JsonSchema;
+        assert.deepStrictEqual(merged.properties!.wind, { type: 'object', properties: { speed: { type: 'integer' } } });
+        assert.deepStrictEqual(merged.properties!.city, WEATHER_SCHEMA.properties.city);
+        assert.deepStrictEqual(merged.required, ['city', 'temp']);
+    });
+
+    test('widens instead of replacing: required, nullable, number, enum and anyOf', () => {
+        const schema = {
+            type: 'object',
+            properties: { count: { type: 'integer' }, unit: { type: 'string', enum: ['C'] }, note: { type: 'string' }, id: { type: 'string' } },
+            required: ['count', 'note']
+        };
+        const merged = mergeObservedSchema(schema, { count: 2.5, unit: 'F', note: null, id: 7 });
+        assert.deepStrictEqual(merged, {
+            type: 'object',
+            properties: {
+                count: { type: 'number' },
+                unit: { type: 'string', enum: ['C', 'F'] },
+                note: { type: 'string', nullable: true },
+                id: { anyOf: [{ type: 'string' }, { type: 'integer' }] }
+            },
+            required: ['count', 'note']
+        });
+        assert.deepStrictEqual(mergeObservedSchema(schema, { note: 'x' })!.required, ['note'], 'absent fields are no longer required');
+        assert.deepStrictEqual(schema.properties.count, { type: 'integer' }, 'the input is not modified');
+    });
+
+    test('merges into the target of a local $ref', () => {
+        const root = { components: { schemas: { Item: { type: 'object', properties: { id: { type: 'integer' } } } } } };
+        const schema = { type: 'array', items: { $ref: '#/components/schemas/Item' } };
+        assert.deepStrictEqual(mergeObservedSchema(schema, [{ id: 1, name: 'a' }], root), schema);
+        assert.deepStrictEqual(Object.keys(root.components.schemas.Item.properties), ['id', 'name']);
+    });
+});
+
+suite('mergeResponseIntoOutputSchema', () => {
+    test('creates the 200 response schema of an OpenAPI document', () => {
+        const spec = { openapi: '3.0.1', paths: { '/a': { get: {} } } };
+        const updated = mergeResponseIntoOutputSchema(spec, '{"ok":true}');
+        assert.deepStrictEqual(updated.paths!['/a'].get!.responses!['200'], {
+            description: 'Success',
+            content: { 'application/json': { schema: { type: 'object', properties: { ok: { type: 'boolean' } } } } }
+        });
+        assert.deepStrictEqual(spec.paths['/a'].get, {}, 'returns a copy');
+    });
+
+    test('widens a tool\'s output_schema', () => {
+        const updated = mergeResponseIntoOutputSchema({ name: 't', binding: {}, output_schema: { type: 'object', properties: {} } }, { a: 1 });
+        assert.deepStrictEqual(updated.output_schema, { type: 'object', properties: { a: { type: 'integer' } } });
+    });
+
+    test('an OpenAPI document without operations cannot take a schema', () => {
+        assert.throws(() => mergeResponseIntoOutputSchema({ openapi: '3.0.1', paths: {} }, {}), /no operation to attach an output schema/);
+    });
+});
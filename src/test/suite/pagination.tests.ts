@@ -0,0 +1,154 @@
+/**
+ * WxO Builder - Pagination Tests
+ * Paginator and the tree views' "Load more" (PagedItems) against a mock server seeded with
+ * more tools than fit on one page, plus the Paginator's end-of-list rules with fake pages.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { MockOrchestrateServer } from '../../mock/mockServer';
+import { iterateSkills, listSkills } from '../../api/skills';
+import { iterateConnectors } from '../../api/connections';
+import { Paginator, PageRequest, collectAll, withPageParams } from '../../api/pagination';
+import { Page } from '../../api/normalize';
+import { PagedItems } from '../../views/loadMore';
+import { startMockTenant, seededTools } from './mockTenant';
+
+const TOOL_COUNT = 7;
+const PAGE_SIZE = 3;
+
+suite('Pagination against the mock server', () => {
+    let server: MockOrchestrateServer;
+    const fixtures = { tools: seededTools(TOOL_COUNT) };
+
+    suiteSetup(async () => {
+        server = await startMockTenant(fixtures, { 'wxo-builder.pageSize': PAGE_SIZE });
+    });
+
+    setup(() => server.reset(fixtures));
+
+    suiteTeardown(() => server.stop());
+
+    test('listSkills returns a single page at the given offset', async () => {
+        const page = await listSkills(PAGE_SIZE, 3);
+        assert.deepStrictEqual(page.map(t => t.name), ['tool_4', 'tool_5', 'tool_6']);
+    });
+
+    test('iterateSkills walks every page and stops after the short one', async () => {
+        const pages: string[][] = [];
+        for await (const page of iterateSkills(PAGE_SIZE)) pages.push(page.map(t => t.name));
+        assert.deepStrictEqual(pages, [['tool_1', 'tool_2', 'tool_3'], ['tool_4', 'tool_5', 'tool_6'], ['tool_7']]);
+        assert.strictEqual(server.requests.filter(r => r === 'GET /v1/orchestrate/tools').length, 3);
+    });
+
+    test('an exact multiple of the page size ends on an empty page', async () => {
+        server.reset({ tools: seededTools(2 * PAGE_SIZE) });
+        const tools = await collectAll(iterateSkills(PAGE_SIZE));
+        assert.strictEqual(tools.length, 2 * PAGE_SIZE);
+        assert.strictEqual(server.requests.filter(r => r === 'GET /v1/orchestrate/tools').length, 3);
+    });
+
+    test('iterateConnectors stops at the reported total without an extra request', async () => {
+        const pages: number[] = [];
+        for await (const page of iterateConnectors(PAGE_SIZE)) pages.push(page.length);
+        assert.deepStrictEqual(pages, [3]);
+        assert.strictEqual(server.requests.filter(r => r === 'GET /v1/orchestrate/catalog/applications').length, 1);
+    });
+
+    test('PagedItems loads one page per loadMore (wxo-builder.pageSize) until done', async () => {
+        const items = new PagedItems((pageSize, signal) => iterateSkills(pageSize, signal));
+        const signal = new AbortController().signal;
+        assert.strictEqual(items.started, false);
+
+        const progress: Array<[number, boolean]> = [];
+        for (let i = 0; i < 3; i++) {
+            await items.loadMore(signal);
+            progress.push([items.items.length, items.hasMore]);
+        }
+        assert.deepStrictEqual(progress, [[3, true], [6, true], [7, false]]);
+
+        await items.loadMore(signal);
+        assert.strictEqual(items.items.length, TOOL_COUNT, 'loadMore after the end is a no-op');
+    });
+
+    test('concurrent loadMore calls share one request', async () => {
+        const items = new PagedItems((pageSize, signal) => iterateSkills(pageSize, signal));
+        const signal = new AbortController().signal;
+        await Promise.all([items.loadMore(signal), items.loadMore(signal)]);
+        assert.strictEqual(items.items.length, PAGE_SIZE);
+        assert.strictEqual(server.requests.filter(r => r === 'GET /v1/orchestrate/tools').length, 1);
+    });
+
+    test('a failed first page is retried from the start by the next loadMore', async () => {
+        const items = new PagedItems((pageSize, signal) => iterateSkills(pageSize, signal));
+        const signal = new AbortController().signal;
+        server.failNext(500);
+        await assert.rejects(items.loadMore(signal));
+        assert.strictEqual(items.started, false);
+        await items.loadMore(signal);
+        assert.deepStrictEqual(items.items.map(t => t.name), ['tool_1', 'tool_2', 'tool_3']);
+    });
+
+    test('reset drops the loaded items', async () => {
+        const items = new PagedItems((pageSize, signal) => iterateSkills(pageSize, signal));
+        await items.loadMore(new AbortController().signal);
+        items.reset();
+        assert.deepStrictEqual([items.items.length, items.started, items.hasMore], [0, false, false]);
+    });
+});
+
+suite('Paginator', () => {
+    /** A fetcher serving `pages` in order and recording each request. */
+    const fakePages = <T>(pages: Array<Page<T>>) => {
+        const requests: PageRequest[] = [];
+        const fetch = async (request: PageRequest): Promise<Page<T>> => {
+            requests.push(request);
+            return pages[requests.length - 1] || { items: [] };
+        };
+        return { fetch, requests };
+    };
+
+    const cases: Array<{ name: string; pages: Array<Page<{ id: string }>>; expected: string[][]; requests: number }> = [
+        {
+            name: 'stops when the endpoint ignores offset and repeats the first page',
+            pages: [{ items: [{ id: 'a' }, { id: 'b' }] }, { items: [{ id: 'a' }, { id: 'b' }] }],
+            expected: [['a', 'b']],
+            requests: 2
+        },
+        {
+            name: 'follows cursors until a page comes without one',
+            pages: [{ items: [{ id: 'a' }, { id: 'b' }], nextCursor: 'c1' }, { items: [{ id: 'c' }, { id: 'd' }] }],
+            expected: [['a', 'b'], ['c', 'd']],
+            requests: 2
+        },
+        {
+            name: 'stops once the reported total is reached',
+            pages: [{ items: [{ id: 'a' }, { id: 'b' }], total: 4 }, { items: [{ id: 'c' }, { id: 'd' }], total: 4 }],
+            expected: [['a', 'b'], ['c', 'd']],
+            requests: 2
+        },
+        {
+            name: 'stops after a short page',
+            pages: [{ items: [{ id: 'a' }] }],
+            expected: [['a']],
+            requests: 1
+        }
+    ];
+
+    cases.forEach(c => test(c.name, async () => {
+        const { fetch, requests } = fakePages(c.pages);
+        const seen: string[][] = [];
+        for await (const page of new Paginator(fetch, 2)) seen.push(page.map(item => item.id));
+        assert.deepStrictEqual(seen, c.expected);
+        assert.strictEqual(requests.length, c.requests);
+    }));
+
+    test('sends the cursor instead of the offset once one was returned', async () => {
+        const { fetch, requests } = fakePages([{ items: [{ id: 'a' }, { id: 'b' }], nextCursor: 'next/1' }, { items: [] }]);
+        await collectAll(new Paginator(fetch, 2));
+        assert.strictEqual(withPageParams('/v1/x', requests[0]), '/v1/x?limit=2&offset=0');
+        assert.strictEqual(withPageParams('/v1/x?scope=draft', requests[1]), '/v1/x?scope=draft&limit=2&cursor=next%2F1');
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * WxO Builder - Python Tools Tests
+ * parsePythonTools (decorators, signatures, docstring styles) and the JSON schemas that
+ * buildPythonToolSpec derives from type annotations and classes in the same file.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { parsePythonTools, parseRequirements, buildPythonToolSpec } from '../../api/pythonTools';
+import { JsonSchema } from '../../api/types';
+
+/** A module with one `@tool` function whose body starts with `docstring`. */
+function toolSource(signature: string, docstring = '', preamble = ''): string {
+    const doc = docstring ? `    """${docstring}"""\n` : '';
+    return `${preamble}from ibm_watsonx_orchestrate.agent_builder.tools import tool\n\n@tool\ndef ${signature}:\n${doc}    return None\n`;
+}
+
+suite('parsePythonTools', () => {
+    test('reads the decorator arguments, signature and position', () => {
+        const source = [
+            'from ibm_watsonx_orchestrate.agent_builder.tools import tool, ToolPermission',
+            '',
+            'def helper(x):',
+            '    return x',
+            '',
+            '@tool(',
+            '    name="get_weather",  # the tool name',
+            '    description="Current weather, (celsius)",',
+            '    permission=ToolPermission.READ_WRITE,',
+            ')',
+            '@cache',
+            'async def weather(self, city: str, units: Literal["metric", "imperial"] = "metric", *args, days: int = 3, **kwargs) -> dict[str, float]:',
+            '    return {}'
+        ].join('\n');
+        assert.deepStrictEqual(parsePythonTools(source), [{
+            functionName: 'weather',
+            name: 'get_weather',
+            description: 'Current weather, (celsius)',
+            permission: 'read_write',
+            parameters: [
+                { name: 'city', annotation: 'str' },
+                { name: 'units', annotation: 'Literal["metric", "imperial"]', defaultSource: '"metric"' },
+                { name: 'days', annotation: 'int', defaultSource: '3' }
+            ],
+            returnAnnotation: 'dict[str, float]',
+            returnDescription: undefined,
+            line: 12
+        }]);
+    });
+
+    test('finds every decorated function and defaults the name, description and permission', () => {
+        const source = '@tool\ndef first(a):\n    pass\n\ndef plain():\n    pass\n\n@tool()\ndef second(\n    b: int,  # count, at least 1\n) -> None:  # done\n    pass\n';
+        const tools = parsePythonTools(source);
+        assert.deepStrictEqual(tools.map(t => [t.name, t.description, t.permission, t.line, t.returnAnnotation]), [
+            ['first', 'first', 'read_only', 2, undefined],
+            ['second', 'second', 'read_only', 9, 'None']
+        ]);
+        assert.deepStrictEqual(tools[1].parameters, [{ name: 'b', annotation: 'int' }]);
+    });
+
+    const docstrings: Array<{ name: string; docstring: string; description: string; params: Record<string, string>; returns?: string }> = [
+        {
+            name: 'Google style',
+            docstring: `Get the forecast.
+
+    Longer text that is not the summary.
+
+    Args:
+        city (str): The city name,
+            e.g. "Paris".
+        days: How many days.
+
+    Returns:
+        dict: The forecast per day.
+    `,
+            description: 'Get the forecast.',
+            params: { city: 'The city name, e.g. "Paris".', days: 'How many days.' },
+            returns: 'The forecast per day.'
+        },
+        {
+            name: 'reST style',
+            docstring: `Get the forecast
+    for a city.
+
+    :param str city: The city name.
+    :param days: How many days.
+    :type days: int
+    :returns: The forecast.
+    :rtype: dict
+    `,
+            description: 'Get the forecast for a city.',
+            params: { city: 'The city name.', days: 'How many days.' },
+            returns: 'The forecast.'
+        },
+        {
+            name: 'NumPy style',
+            docstring: `Get the forecast.
+
+    Parameters
+    ----------
+    city : str
+        The city name.
+    days : int
+        How many days.
+
+    Returns
+    -------
+    dict
+        The forecast.
+    `,
+            description: 'Get the forecast.',
+            params: { city: 'The city name.', days: 'How many days.' },
+            returns: 'The forecast.'
+        },
+        {
+            name: 'a one-line docstring',
+            docstring: 'Get the forecast.',
+            description: 'Get the forecast.',
+            params: {}
+        }
+    ];
+
+    docstrings.forEach(c => test(`docstring: ${c.name}`, () => {
+        const [tool] = parsePythonTools(toolSource('forecast(city: str, days: int = 1) -> dict', c.docstring));
+        const described: Record<string, string> = {};
+        tool.parameters.forEach(p => { if (p.description) described[p.name] = p.description; });
+        assert.deepStrictEqual([tool.description, described, tool.returnDescription], [c.description, c.params, c.returns]);
+    }));
+
+    test('the decorator description wins over the docstring', () => {
+        const source = '@tool(description=\'From "the" decorator\')\ndef f():\n    """From the docstring."""\n';
+        assert.strictEqual(parsePythonTools(source)[0].description, 'From "the" decorator');
+    });
+});
+
+suite('buildPythonToolSpec', () => {
+    const models = [
+        'from enum import Enum',
+        'from pydantic import BaseModel, Field',
+        '',
+        'class Unit(str, Enum):',
+        '    METRIC = "metric"',
+        '    IMPERIAL = "imperial"',
+        '',
+        'class Place(BaseModel):',
+        '    """A place on the map.',
+        '',
+        '    Extra details.',
+        '    """',
+        '    name: str = Field(..., description="Place name")',
+        '    lat: float = Field(default=0.0)',
+        '    unit: Unit = "metric"',
+        '    parent: Optional["Place"] = None',
+        ''
+    ].join('\n') + '\n';
+
+    const annotations: Array<[string, JsonSchema]> = [
+        ['str', { type: 'string' }],
+        ['int', { type: 'integer' }],
+        ['float', { type: 'number' }],
+        ['bool', { type: 'boolean' }],
+        ['bytes', { type: 'string', format: 'byte' }],
+        ['datetime', { type: 'string', format: 'date-time' }],
+        ['Any', {}],
+        ['typing.Optional[int]', { type: 'integer' }],
+        ['int | None', { type: 'integer' }],
+        ['Union[int, str]', { anyOf: [{ type: 'integer' }, { type: 'string' }] }],
+        ['Annotated[str, "meta"]', { type: 'string' }],
+        ['Literal["a", "b"]', { type: 'string', enum: ['a', 'b'] }],
+        ['Literal[1, "a"]', { enum: [1, 'a'] }],
+        ['list[str]', { type: 'array', items: { type: 'string' } }],
+        ['Tuple[int, ...]', { type: 'array', items: { type: 'integer' } }],
+        ['List', { type: 'array', items: {} }],
+        ['dict[str, int]', { type: 'object', additionalProperties: { type: 'integer' } }],
+        ['Dict[str, Any]', { type: 'object' }],
+        ['ImportedModel', { type: 'object' }],
+        ['Unit', { type: 'string', enum: ['metric', 'imperial'] }],
+        ['Place', {
+            type: 'object',
+            description: 'A place on the map.',
+            properties: {
+                name: { type: 'string', title: 'name', description: 'Place name' },
+                lat: { type: 'number', default: 0, title: 'lat' },
+                unit: { type: 'string', enum: ['metric', 'imperial'], default: 'metric', title: 'unit' },
+                parent: { type: 'object', description: 'Recursive reference to Place', title: 'parent' }
+            },
+            required: ['name']
+        }]
+    ];
+
+    annotations.forEach(([annotation, expected]) => test(`annotation ${annotation}`, () => {
+        const source = toolSource(`f(x: ${annotation}) -> ${annotation}`, '', models);
+        const spec = buildPythonToolSpec(parsePythonTools(source)[0], source, 'm', []);
+        assert.deepStrictEqual(spec.input_schema!.properties!.x, { ...expected, title: 'x' });
+        assert.deepStrictEqual(spec.output_schema, expected);
+    }));
+
+    test('builds the input schema, defaults and binding', () => {
+        const source = toolSource('lookup(query: str, limit=10, ratio=0.5, exact: bool = False, tags: list[str] = None) -> list[str]', 'Look things up.\n\n    Args:\n        query: What to find.\n\n    Returns:\n        The matches.\n    ');
+        const spec = buildPythonToolSpec(parsePythonTools(source)[0], source, 'search', ['requests']);
+        assert.deepStrictEqual(spec, {
+            name: 'lookup',
+            description: 'Look things up.',
+            permission: 'read_only',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    query: { type: 'string', title: 'query', description: 'What to find.' },
+                    limit: { type: 'integer', default: 10, title: 'limit' },
+                    ratio: { type: 'number', default: 0.5, title: 'ratio' },
+                    exact: { type: 'boolean', default: false, title: 'exact' },
+                    tags: { type: 'array', items: { type: 'string' }, title: 'tags' }
+                },
+                required: ['query']
+            },
+            output_schema: { type: 'array', items: { type: 'string' }, description: 'The matches.' },
+            binding: { python: { function: 'search:lookup', requirements: ['requests'], connections: {} } }
+        });
+    });
+});
+
+suite('parseRequirements', () => {
+    test('drops comments, blank lines and pip options', () => {
+        const text = '# deps\r\nrequests==2.31.0\n\n-r base.txt\n--index-url https://x\npydantic>=2  # models\n';
+        assert.deepStrictEqual(parseRequirements(text), ['requests==2.31.0', 'pydantic>=2']);
+    });
+});
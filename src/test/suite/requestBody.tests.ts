@@ -0,0 +1,112 @@
+/**
+ * WxO Builder - Request Body Tests
+ * JSON request bodies between an OpenAPI operation and a tool's input_schema, in both
+ * directions: buildToolSpec (OAS → tool) and skillToOas (tool → OAS, the copy flow).
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { buildToolSpec, skillToOas, REQUEST_BODY_PROPERTY } from '../../api/skills';
+import { Tool, JsonSchema, OasDocument, OasRequestBody } from '../../api/types';
+
+const ORDER_SCHEMA = {
+    type: 'object',
+    properties: {
+        sku: { type: 'string' },
+        quantity: { type: 'integer', minimum: 1 },
+        priority: { type: 'string', enum: ['low', 'high'] },
+        lines: { type: 'array', items: { type: 'object', properties: { note: { type: 'string' } } } },
+        shipTo: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+    },
+    required: ['sku', 'quantity']
+};
+
+/** A one-operation spec: POST /orders with a `dryRun` query parameter and `requestBody`. */
+function orderSpec(requestBody?: OasRequestBody): OasDocument {
+    return {
+        openapi: '3.0.1',
+        info: { title: 'Orders', version: '1' },
+        servers: [{ url: 'https://api.shop.io' }],
+        paths: {
+            '/orders': {
+                post: {
+                    operationId: 'createOrder',
+                    parameters: [
+                        { name: 'dryRun', in: 'query', schema: { type: 'boolean' } },
+                        { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } } }
+                    ],
+                    ...(requestBody ? { requestBody } : {}),
+                    responses: { '200': { description: 'Created' } }
+                }
+            }
+        }
+    };
+}
+
+/** Every spec here has parameters, so the built tool always has input_schema.properties. */
+type BuiltTool = Tool & { input_schema: { properties: Record<string, JsonSchema>; required?: string[] } };
+
+function toolFrom(spec: OasDocument): BuiltTool {
+    return { ...buildToolSpec({ name: 'create_order', description: 'Create an order' }, spec), id: 'tool-1' } as BuiltTool;
+}
+
+suite('JSON request bodies', () => {
+    test('an application/json body becomes one required __requestBody__ property, schema intact', () => {
+        const tool = toolFrom(orderSpec({ required: true, description: 'The order', content: { 'application/json': { schema: ORDER_SCHEMA } } }));
+        assert.deepStrictEqual(tool.input_schema.properties[REQUEST_BODY_PROPERTY], { ...ORDER_SCHEMA, in: 'body', description: 'The order' });
+        assert.ok((tool.input_schema.required || []).includes(REQUEST_BODY_PROPERTY));
+        assert.deepStrictEqual(tool.input_schema.properties.tags.items, { type: 'string' }, 'array parameters keep their items');
+    });
+
+    test('an optional +json body is not required', () => {
+        const tool = toolFrom(orderSpec({ content: { 'application/merge-patch+json': { schema: { type: 'object' } } } }));
+        assert.deepStrictEqual(tool.input_schema.properties[REQUEST_BODY_PROPERTY], { type: 'object', in: 'body' });
+        assert.ok(!(tool.input_schema.required || []).includes(REQUEST_BODY_PROPERTY));
+    });
+
+    test('non-JSON bodies are left out', () => {
+        const tool = toolFrom(orderSpec({ content: { 'application/x-www-form-urlencoded': { schema: { type: 'object' } } } }));
+        assert.deepStrictEqual(Object.keys(tool.input_schema.properties), ['dryRun', 'tags']);
+    });
+
+    test('skillToOas turns __requestBody__ back into the requestBody, not a query parameter', () => {
+        const requestBody = { required: true, description: 'The order', content: { 'application/json': { schema: ORDER_SCHEMA } } };
+        const op = skillToOas(toolFrom(orderSpec(requestBody)), { copy: false }).paths!['/orders'].post!;
+        assert.deepStrictEqual(op.requestBody, requestBody);
+        assert.deepStrictEqual(op.parameters!.map(p => [p.name, p.in]), [['dryRun', 'query'], ['tags', 'query']]);
+    });
+
+    test('OAS → tool → OAS → tool gives the same input_schema', () => {
+        const first = toolFrom(orderSpec({ required: true, content: { 'application/json': { schema: ORDER_SCHEMA } } }));
+        const second = toolFrom(skillToOas(first, { copy: false }));
+        assert.deepStrictEqual(second.input_schema, first.input_schema);
+    });
+
+    test('flattened in: body fields are gathered into one object body, with aliases and required names', () => {
+        const tool = {
+            name: 'create_order',
+            binding: { openapi: { http_method: 'POST', http_path: '/orders', servers: ['https://api.shop.io'] } },
+            input_schema: {
+                type: 'object',
+                properties: {
+                    sku: { type: 'string', in: 'body' },
+                    qty: { type: 'integer', in: 'body', aliasName: 'quantity' },
+                    dryRun: { type: 'boolean', in: 'query' }
+                },
+                required: ['qty']
+            }
+        };
+        const op = skillToOas(tool, { copy: false }).paths!['/orders'].post!;
+        assert.deepStrictEqual(op.requestBody, {
+            required: true,
+            content: {
+                'application/json': {
+                    schema: { type: 'object', properties: { sku: { type: 'string' }, quantity: { type: 'integer' } }, required: ['quantity'] }
+                }
+            }
+        });
+        assert.deepStrictEqual(op.parameters!.map(p => p.name), ['dryRun']);
+    });
+});
@@ -0,0 +1,168 @@
+/**
+ * WxO Builder - Request Builder Tests
+ * buildRequest's style/explode matrix for every parameter location, using the example
+ * values of the OpenAPI 3 specification, plus the placement of undeclared values and toCurl.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { buildRequest, toCurl, BuiltRequest, ParameterLocation } from '../../api/requestBuilder';
+
+const VALUES: Record<string, unknown> = {
+    primitive: 'blue',
+    array: ['blue', 'black', 'brown'],
+    object: { R: 100, G: 200, B: 150 }
+};
+
+/** The serialized `color` parameter wherever its location puts it. */
+function serialized(location: ParameterLocation, request: BuiltRequest): string | undefined {
+    switch (location) {
+        case 'path': return request.url.slice('https://x.io/p/'.length);
+        case 'query': return request.url.slice(request.url.indexOf('?') + 1);
+        case 'header': return request.headers.color;
+        default: return request.headers.Cookie;
+    }
+}
+
+suite('buildRequest style/explode matrix', () => {
+    const matrix: Array<[ParameterLocation, string | undefined, boolean | undefined, string, string]> = [
+        ['path', undefined, undefined, 'primitive', 'blue'],
+        ['path', 'simple', false, 'array', 'blue,black,brown'],
+        ['path', 'simple', true, 'array', 'blue,black,brown'],
+        ['path', 'simple', false, 'object', 'R,100,G,200,B,150'],
+        ['path', 'simple', true, 'object', 'R=100,G=200,B=150'],
+        ['path', 'label', false, 'primitive', '.blue'],
+        ['path', 'label', false, 'array', '.blue,black,brown'],
+        ['path', 'label', true, 'array', '.blue.black.brown'],
+        ['path', 'label', false, 'object', '.R,100,G,200,B,150'],
+        ['path', 'label', true, 'object', '.R=100.G=200.B=150'],
+        ['path', 'matrix', false, 'primitive', ';color=blue'],
+        ['path', 'matrix', false, 'array', ';color=blue,black,brown'],
+        ['path', 'matrix', true, 'array', ';color=blue;color=black;color=brown'],
+        ['path', 'matrix', false, 'object', ';color=R,100,G,200,B,150'],
+        ['path', 'matrix', true, 'object', ';R=100;G=200;B=150'],
+        ['query', undefined, undefined, 'primitive', 'color=blue'],
+        ['query', undefined, undefined, 'array', 'color=blue&color=black&color=brown'],
+        ['query', 'form', false, 'array', 'color=blue,black,brown'],
+        ['query', 'form', true, 'object', 'R=100&G=200&B=150'],
+        ['query', 'form', false, 'object', 'color=R,100,G,200,B,150'],
+        ['query', 'spaceDelimited', false, 'array', 'color=blue%20black%20brown'],
+        ['query', 'pipeDelimited', false, 'array', 'color=blue|black|brown'],
+        ['query', 'deepObject', true, 'object', 'color%5BR%5D=100&color%5BG%5D=200&color%5BB%5D=150'],
+        ['header', undefined, undefined, 'primitive', 'blue'],
+        ['header', 'simple', false, 'array', 'blue,black,brown'],
+        ['header', 'simple', false, 'object', 'R,100,G,200,B,150'],
+        ['header', 'simple', true, 'object', 'R=100,G=200,B=150'],
+        ['cookie', undefined, undefined, 'primitive', 'color=blue'],
+        ['cookie', 'form', true, 'array', 'color=blue; color=black; color=brown'],
+        ['cookie', 'form', false, 'array', 'color=blue,black,brown'],
+        ['cookie', 'form', true, 'object', 'R=100; G=200; B=150'],
+        ['cookie', 'form', false, 'object', 'color=R,100,G,200,B,150']
+    ];
+
+    matrix.forEach(([location, style, explode, kind, expected]) => {
+        test(`${location} ${style || 'default'}${explode === undefined ? '' : ` explode=${explode}`} ${kind} → ${expected}`, () => {
+            const request = buildRequest({
+                url: location === 'path' ? 'https://x.io/p/{color}' : 'https://x.io/p',
+                method: 'GET',
+                values: { color: VALUES[kind] },
+                parameters: [{ name: 'color', in: location, style, explode }]
+            });
+            assert.strictEqual(serialized(location, request), expected);
+        });
+    });
+
+    const encodings: Array<{ name: string; location: ParameterLocation; allowReserved?: boolean; json?: boolean; value: unknown; expected: string }> = [
+        { name: 'path values are percent-encoded', location: 'path', value: 'a/b c', expected: 'a%2Fb%20c' },
+        { name: 'query values are percent-encoded', location: 'query', value: 'a/b&c', expected: 'color=a%2Fb%26c' },
+        { name: 'allowReserved keeps reserved characters in query values', location: 'query', allowReserved: true, value: 'a/b?c=d', expected: 'color=a/b?c=d' },
+        { name: 'content parameters are sent as JSON in the query', location: 'query', json: true, value: { a: 1 }, expected: 'color=%7B%22a%22%3A1%7D' },
+        { name: 'content parameters are sent as JSON in headers', location: 'header', json: true, value: ['x'], expected: '["x"]' },
+        { name: 'header values are sent as written', location: 'header', value: 'a b/c', expected: 'a b/c' },
+        { name: 'null values serialize as empty strings', location: 'query', value: null, expected: 'color=' }
+    ];
+
+    encodings.forEach(c => test(c.name, () => {
+        const request = buildRequest({
+            url: c.location === 'path' ? 'https://x.io/p/{color}' : 'https://x.io/p',
+            method: 'GET',
+            values: { color: c.value },
+            parameters: [{ name: 'color', in: c.location, allowReserved: c.allowReserved, json: c.json }]
+        });
+        assert.strictEqual(serialized(c.location, request), c.expected);
+    }));
+});
+
+suite('buildRequest placement', () => {
+    const cases: Array<{ name: string; spec: Parameters<typeof buildRequest>[0]; expected: Partial<BuiltRequest> }> = [
+        {
+            name: 'undeclared values fill path placeholders, then the query for GET',
+            spec: { url: 'https://x.io/users/{id}?fixed=1', method: 'get', values: { id: 7, q: 'a b', skipped: undefined } },
+            expected: { method: 'GET', url: 'https://x.io/users/7?fixed=1&q=a%20b', body: undefined }
+        },
+        {
+            name: 'undeclared values go to a JSON body for POST',
+            spec: { url: 'https://x.io/users', method: 'POST', values: { name: 'Ada', tags: ['x'] } },
+            expected: { url: 'https://x.io/users', body: '{"name":"Ada","tags":["x"]}' }
+        },
+        {
+            name: 'a POST without values sends an empty object',
+            spec: { url: 'https://x.io/run', method: 'POST' },
+            expected: { body: '{}' }
+        },
+        {
+            name: 'a whole-body value is merged with body fields',
+            spec: {
+                url: 'https://x.io/users', method: 'PUT', values: { user: { name: 'Ada' }, active: true },
+                parameters: [{ name: 'user', in: 'body', wholeBody: true }]
+            },
+            expected: { body: '{"name":"Ada","active":true}' }
+        },
+        {
+            name: 'a whole-body array is sent as-is',
+            spec: { url: 'https://x.io/batch', method: 'POST', values: { items: [1, 2] }, parameters: [{ name: 'items', in: 'body', wholeBody: true }] },
+            expected: { body: '[1,2]' }
+        },
+        {
+            name: 'credential query parameters come first, credential headers win',
+            spec: {
+                url: 'https://x.io/a', method: 'GET', values: { q: '1' },
+                query: { api_key: 'k&1' }, headers: { Accept: 'text/plain', Authorization: 'Bearer t' }
+            },
+            expected: { url: 'https://x.io/a?api_key=k%261&q=1', headers: { Accept: 'text/plain', Authorization: 'Bearer t' } }
+        },
+        {
+            name: 'cookie parameters are added to a credential Cookie header',
+            spec: {
+                url: 'https://x.io/a', method: 'GET', values: { lang: 'en' },
+                parameters: [{ name: 'lang', in: 'cookie' }], headers: { Cookie: 'session=s' }
+            },
+            expected: { headers: { Accept: 'application/json', Cookie: 'session=s; lang=en' } }
+        },
+        {
+            name: 'declared query parameters stay in the query for POST',
+            spec: { url: 'https://x.io/a', method: 'POST', values: { dryRun: true }, parameters: [{ name: 'dryRun', in: 'query' }] },
+            expected: { url: 'https://x.io/a?dryRun=true', headers: { Accept: 'application/json', 'Content-Type': 'application/json' }, body: '{}' }
+        }
+    ];
+
+    cases.forEach(c => test(c.name, () => {
+        const request = buildRequest(c.spec);
+        const actual: Record<string, unknown> = {};
+        Object.keys(c.expected).forEach(key => { actual[key] = request[key as keyof BuiltRequest]; });
+        assert.deepStrictEqual(actual, c.expected);
+    }));
+});
+
+suite('toCurl', () => {
+    test('quotes the URL, headers and body for the shell', () => {
+        const curl = toCurl({ method: 'POST', url: 'https://x.io/a?q=1&b=2', headers: { 'Content-Type': 'application/json' }, body: `{"name":"O'Brien"}` });
+        assert.strictEqual(curl, `curl -X POST 'https://x.io/a?q=1&b=2' -H 'Content-Type: application/json' -d '{"name":"O'\\''Brien"}'`);
+    });
+
+    test('omits -d without a body', () => {
+        assert.strictEqual(toCurl(buildRequest({ url: 'https://x.io/a', method: 'GET' })), `curl -X GET 'https://x.io/a' -H 'Accept: application/json'`);
+    });
+});
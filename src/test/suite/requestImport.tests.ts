@@ -0,0 +1,361 @@
+/**
+ * WxO Builder - Request Importer Tests
+ * cURL, Postman v2.1 and HAR parsing into CapturedRequests, and requestsToOas (paths,
+ * parameters, bodies, security schemes and the skip/warning rules).
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import {
+    CapturedRequest, RequestImportResult, parseCurlCommand, parsePostmanCollection, parseHar, capturedRequestsFrom, looksLikeApiCall, requestsToOas
+} from '../../api/requestImport';
+import { OasOperation, OasParameter, OasRequestBody, OasResponse } from '../../api/types';
+
+/** The fields of `actual` named in `expected`. */
+function pick(actual: object, expected: object): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    Object.keys(expected).forEach(key => { out[key] = (actual as Record<string, unknown>)[key]; });
+    return out;
+}
+
+function request(url: string, extra: Partial<CapturedRequest> = {}): CapturedRequest {
+    return { method: 'GET', url, headers: [], ...extra };
+}
+
+suite('parseCurlCommand', () => {
+    const cases: Array<{ name: string; command: string; expected: Partial<CapturedRequest> }> = [
+        {
+            name: 'a bare URL is a GET',
+            command: 'curl https://api.example.com/users',
+            expected: { method: 'GET', url: 'https://api.example.com/users', headers: [] }
+        },
+        {
+            name: 'adds http:// to URLs without a scheme',
+            command: 'curl example.com/ping',
+            expected: { url: 'http://example.com/ping' }
+        },
+        {
+            name: '-X, -H and a JSON -d body',
+            command: `curl -X PUT 'https://api.example.com/users/7' -H 'Content-Type: application/json' -d '{"name":"Ada"}'`,
+            expected: { method: 'PUT', headers: [{ name: 'Content-Type', value: 'application/json' }], body: '{"name":"Ada"}', contentType: 'application/json' }
+        },
+        {
+            name: '-d without -X is a POST; JSON-looking bodies are JSON',
+            command: `curl https://api.example.com/users --data '{"a":1}'`,
+            expected: { method: 'POST', contentType: 'application/json' }
+        },
+        {
+            name: 'several -d values are joined as a form',
+            command: 'curl https://api.example.com/login -d user=ada -d pass=x',
+            expected: { method: 'POST', body: 'user=ada&pass=x', contentType: 'application/x-www-form-urlencoded' }
+        },
+        {
+            name: '--json sets the content type',
+            command: `curl --json '{"q":"x"}' https://api.example.com/search`,
+            expected: { method: 'POST', body: '{"q":"x"}', contentType: 'application/json', headers: [{ name: 'Content-Type', value: 'application/json' }] }
+        },
+        {
+            name: '-G moves -d data into the query string',
+            command: 'curl -G https://api.example.com/search -d q=cats -d limit=5',
+            expected: { method: 'GET', url: 'https://api.example.com/search?q=cats&limit=5', body: undefined }
+        },
+        {
+            name: '--data-urlencode encodes the value',
+            command: `curl -G https://api.example.com/s --data-urlencode 'q=a b&c'`,
+            expected: { url: 'https://api.example.com/s?q=a%20b%26c' }
+        },
+        {
+            name: '-F fields become a multipart form',
+            command: 'curl -F name=ada -F file=@photo.png https://api.example.com/upload',
+            expected: { method: 'POST', form: [{ name: 'name', value: 'ada' }, { name: 'file', value: '@photo.png' }], contentType: 'multipart/form-data' }
+        },
+        {
+            name: '-u records basic auth without the credentials',
+            command: 'curl -u ada:secret https://api.example.com/me',
+            expected: { auth: { type: 'basic' } }
+        },
+        {
+            name: 'attached short options and flag clusters',
+            command: `curl -sSL -XDELETE -H'Accept: application/json' https://api.example.com/users/7`,
+            expected: { method: 'DELETE', headers: [{ name: 'Accept', value: 'application/json' }] }
+        },
+        {
+            name: '-I is a HEAD request',
+            command: 'curl -I https://api.example.com/',
+            expected: { method: 'HEAD' }
+        },
+        {
+            name: 'options with values that do not shape the request are skipped',
+            command: 'curl --max-time 5 -A agent -o out.json --url https://api.example.com/x',
+            expected: { method: 'GET', url: 'https://api.example.com/x', headers: [] }
+        },
+        {
+            name: 'line continuations, double quotes and $\'...\' quoting',
+            command: `curl "https://api.example.com/a" \\\n  -H $'X-Note: line\\u0021' \\\n  -H "X-Q: \\"quoted\\""`,
+            expected: { headers: [{ name: 'X-Note', value: 'line!' }, { name: 'X-Q', value: '"quoted"' }] }
+        }
+    ];
+
+    cases.forEach(c => test(c.name, () => {
+        const parsed = parseCurlCommand(c.command);
+        assert.deepStrictEqual(pick(parsed, c.expected), c.expected);
+    }));
+
+    const errors: Array<[string, RegExp]> = [
+        ['wget https://x', /Not a cURL command/],
+        ['curl -X POST', /No URL found/],
+        [`curl 'https://x`, /Unterminated single quote/],
+        ['curl "https://x', /Unterminated double quote/],
+        ['curl https://x -H', /needs a value/]
+    ];
+
+    errors.forEach(([command, message]) => test(`rejects: ${command}`, () => {
+        assert.throws(() => parseCurlCommand(command), message);
+    }));
+});
+
+suite('Postman and HAR parsing', () => {
+    const collection = {
+        info: { name: 'Users', schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json' },
+        variable: [{ key: 'base', value: 'https://api.example.com' }, { key: 'token', value: 't' }],
+        auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] },
+        item: [
+            {
+                name: 'Admin',
+                auth: { type: 'apikey', apikey: [{ key: 'key', value: 'X-Admin-Key' }, { key: 'in', value: 'header' }] },
+                item: [{ name: 'Get user', request: { method: 'get', url: { raw: '{{base}}/users/:id?verbose={{flag}}', variable: [{ key: 'id', value: '7', description: 'User id' }] } } }]
+            },
+            {
+                name: 'Create user',
+                request: {
+                    method: 'POST',
+                    url: '{{base}}/users',
+                    header: [{ key: 'X-Trace', value: '{{token}}' }, { key: 'X-Off', value: 'x', disabled: true }],
+                    body: { mode: 'raw', raw: '{"name":"Ada"}', options: { raw: { language: 'json' } } }
+                },
+                response: [{ code: 201, _postman_previewlanguage: 'json', body: '{"id":1}' }]
+            },
+            { name: 'Unknown base', request: { method: 'GET', url: '{{undefinedBase}}/things/{{thingId}}' } }
+        ]
+    };
+
+    test('walks folders, substitutes variables and inherits auth', () => {
+        const [getUser, createUser, unknown] = parsePostmanCollection(collection);
+        assert.deepStrictEqual(pick(getUser, { name: 0, folder: 0, method: 0, url: 0, auth: 0, pathVariables: 0 }), {
+            name: 'Get user',
+            folder: 'Admin',
+            method: 'GET',
+            url: 'https://api.example.com/users/{id}?verbose=',
+            auth: { type: 'apiKey', name: 'X-Admin-Key', in: 'header' },
+            pathVariables: { id: { example: '7', description: 'User id' } }
+        });
+        assert.deepStrictEqual(pick(createUser, { headers: 0, body: 0, contentType: 0, auth: 0, response: 0 }), {
+            headers: [{ name: 'X-Trace', value: 't' }],
+            body: '{"name":"Ada"}',
+            contentType: 'application/json',
+            auth: { type: 'bearer' },
+            response: { status: 201, contentType: 'application/json', body: '{"id":1}' }
+        });
+        assert.strictEqual(unknown.url, 'https://api.example.com/things/{thingId}');
+    });
+
+    const formModes: Array<[string, string]> = [['urlencoded', 'application/x-www-form-urlencoded'], ['formdata', 'multipart/form-data']];
+    formModes.forEach(([mode, contentType]) => test(`Postman ${mode} bodies become form fields`, () => {
+        const [req] = parsePostmanCollection({
+            info: { _postman_id: '1' },
+            item: [{ name: 'Form', request: { method: 'POST', url: 'https://x.io/f', body: { mode, [mode]: [{ key: 'a', value: '1' }, { key: 'f', type: 'file', src: 'x' }, { key: 'off', value: 'z', disabled: true }] } } }]
+        });
+        assert.deepStrictEqual([req.form, req.contentType], [[{ name: 'a', value: '1' }, { name: 'f', value: '' }], contentType]);
+    }));
+
+    const har = {
+        log: {
+            entries: [
+                {
+                    request: { method: 'post', url: 'https://api.example.com/orders', headers: [{ name: ':authority', value: 'x' }, { name: 'X-Client', value: 'web' }], postData: { mimeType: 'application/json', text: '{"qty":2}' } },
+                    response: { status: 200, content: { mimeType: 'application/json', text: '{"ok":true}' } }
+                },
+                { request: { method: 'GET', url: 'https://cdn.example.com/app.js', headers: [] }, response: { status: 200, content: { mimeType: 'application/javascript', text: '' } } },
+                { request: { method: 'GET', url: 'https://api.example.com/img', headers: [] }, response: { status: 200, content: { mimeType: 'image/png', encoding: 'base64', text: 'AAAA' } } }
+            ]
+        }
+    };
+
+    test('reads HAR entries with their recorded responses', () => {
+        const [order, script, image] = parseHar(har);
+        assert.deepStrictEqual(pick(order, { method: 0, headers: 0, body: 0, contentType: 0, response: 0 }), {
+            method: 'POST',
+            headers: [{ name: 'X-Client', value: 'web' }],
+            body: '{"qty":2}',
+            contentType: 'application/json',
+            response: { status: 200, contentType: 'application/json', body: '{"ok":true}' }
+        });
+        assert.deepStrictEqual([looksLikeApiCall(order), looksLikeApiCall(script), looksLikeApiCall(image)], [true, false, false]);
+        assert.strictEqual(image.response?.body, undefined, 'base64 bodies are not kept');
+    });
+
+    test('capturedRequestsFrom recognises the source', () => {
+        assert.strictEqual(capturedRequestsFrom(collection)?.source, 'Postman collection');
+        assert.strictEqual(capturedRequestsFrom(har)?.source, 'HAR file');
+        assert.strictEqual(capturedRequestsFrom({ openapi: '3.0.1' }), undefined);
+    });
+});
+
+suite('requestsToOas', () => {
+    /** An imported operation; the rows only read the parts they expect to be there. */
+    type ImportedOperation = OasOperation & { parameters: OasParameter[]; requestBody: OasRequestBody; responses: Record<string, OasResponse> };
+    const operation = (result: RequestImportResult, path: string, method = 'get') => result.spec.paths?.[path]?.[method] as ImportedOperation;
+
+    const cases: Array<{ name: string; requests: CapturedRequest[]; check: (result: RequestImportResult) => void }> = [
+        {
+            name: 'numeric and UUID path segments become named path parameters',
+            requests: [request('https://api.example.com/users/42/orders/3f2b8c1e-1d2a-4c5b-9e8f-0a1b2c3d4e5f')],
+            check: r => {
+                const op = operation(r, '/users/{userId}/orders/{orderId}');
+                assert.deepStrictEqual(op.parameters.map(p => [p.name, p.schema?.type, p.example]), [
+                    ['userId', 'integer', 42],
+                    ['orderId', 'string', '3f2b8c1e-1d2a-4c5b-9e8f-0a1b2c3d4e5f']
+                ]);
+            }
+        },
+        {
+            name: 'query values are typed and repeated names become exploded arrays',
+            requests: [request('https://api.example.com/search?q=cats&limit=10&tag=a&tag=b&exact=true')],
+            check: r => {
+                const params = operation(r, '/search').parameters.map(p => ({ name: p.name, schema: p.schema, example: p.example, explode: p.explode }));
+                assert.deepStrictEqual(params, [
+                    { name: 'q', schema: { type: 'string' }, example: 'cats', explode: undefined },
+                    { name: 'limit', schema: { type: 'integer' }, example: 10, explode: undefined },
+                    { name: 'tag', schema: { type: 'array', items: { type: 'string' } }, example: ['a', 'b'], explode: true },
+                    { name: 'exact', schema: { type: 'boolean' }, example: true, explode: undefined }
+                ]);
+            }
+        },
+        {
+            name: 'custom headers become parameters; transport headers are dropped',
+            requests: [request('https://api.example.com/a', { headers: [{ name: 'User-Agent', value: 'x' }, { name: 'X-Tenant', value: 'acme' }, { name: 'sec-ch-ua', value: 'x' }] })],
+            check: r => assert.deepStrictEqual(operation(r, '/a').parameters, [{ name: 'X-Tenant', in: 'header', required: false, schema: { type: 'string' }, example: 'acme' }])
+        },
+        {
+            name: 'JSON bodies and responses get inferred schemas',
+            requests: [request('https://api.example.com/users', {
+                method: 'POST', body: '{"name":"Ada","age":36}', contentType: 'application/json', response: { status: 201, contentType: 'application/json', body: '{"id":7}' }
+            })],
+            check: r => {
+                const op = operation(r, '/users', 'post');
+                assert.deepStrictEqual(op.requestBody.content?.['application/json'].schema, { type: 'object', properties: { name: { type: 'string' }, age: { type: 'integer' } } });
+                assert.deepStrictEqual(op.responses['201'].content?.['application/json'].schema, { type: 'object', properties: { id: { type: 'integer' } } });
+            }
+        },
+        {
+            name: 'invalid JSON bodies are imported as strings with a warning',
+            requests: [request('https://api.example.com/users', { method: 'POST', body: '{oops', contentType: 'application/json' })],
+            check: r => {
+                assert.deepStrictEqual(operation(r, '/users', 'post').requestBody.content?.['application/json'].schema, { type: 'string' });
+                assert.ok(r.warnings.some(w => /not valid JSON/.test(w)));
+            }
+        },
+        {
+            name: 'urlencoded bodies become object schemas',
+            requests: [request('https://api.example.com/login', { method: 'POST', body: 'user=ada&remember=true', contentType: 'application/x-www-form-urlencoded' })],
+            check: r => assert.deepStrictEqual(operation(r, '/login', 'post').requestBody.content?.['application/x-www-form-urlencoded'].schema, {
+                type: 'object', properties: { user: { type: 'string', example: 'ada' }, remember: { type: 'boolean', example: true } }
+            })
+        },
+        {
+            name: 'the same auth on every request is declared once at the top',
+            requests: [
+                request('https://api.example.com/a', { headers: [{ name: 'Authorization', value: 'Bearer abc' }] }),
+                request('https://api.example.com/b', { auth: { type: 'bearer' } })
+            ],
+            check: r => {
+                assert.deepStrictEqual(r.spec.components?.securitySchemes, { BearerAuth: { type: 'http', scheme: 'bearer' } });
+                assert.deepStrictEqual(r.spec.security, [{ BearerAuth: [] }]);
+                assert.strictEqual(operation(r, '/a').security, undefined);
+                assert.ok(!JSON.stringify(r.spec).includes('abc'), 'credential values are not copied');
+            }
+        },
+        {
+            name: 'API keys in headers and query strings become apiKey schemes per operation',
+            requests: [
+                request('https://api.example.com/a?api_key=s3cret&q=1'),
+                request('https://api.example.com/b', { headers: [{ name: 'X-API-Key', value: 's3cret' }] }),
+                request('https://api.example.com/c')
+            ],
+            check: r => {
+                assert.deepStrictEqual(r.spec.components?.securitySchemes, {
+                    ApiKeyAuth: { type: 'apiKey', in: 'query', name: 'api_key' },
+                    ApiKeyAuth2: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+                });
+                assert.deepStrictEqual([operation(r, '/a').security, operation(r, '/b').security, operation(r, '/c').security], [[{ ApiKeyAuth: [] }], [{ ApiKeyAuth2: [] }], undefined]);
+                assert.deepStrictEqual(operation(r, '/a').parameters.map(p => p.name), ['q']);
+            }
+        },
+        {
+            name: 'other origins and duplicates are skipped with warnings',
+            requests: [request('https://api.shop.io/a'), request('https://other.shop.io/b'), request('https://api.shop.io/a')],
+            check: r => {
+                assert.deepStrictEqual(Object.keys(r.spec.paths || {}), ['/a']);
+                assert.strictEqual(r.warnings.length, 2);
+                assert.ok(/different server/.test(r.warnings[0]) && /duplicate/.test(r.warnings[1]));
+            }
+        },
+        {
+            name: 'requests with invalid URLs are skipped and the first valid one picks the server',
+            requests: [request('{{base}}/a', { name: 'Broken' }), request('/relative'), request('https://api.shop.io/ok')],
+            check: r => {
+                assert.deepStrictEqual(r.spec.servers, [{ url: 'https://api.shop.io' }]);
+                assert.deepStrictEqual(Object.keys(r.spec.paths || {}), ['/ok']);
+                assert.deepStrictEqual(r.warnings, ['Broken: invalid or relative URL "{{base}}/a", skipped.', 'GET /relative: invalid or relative URL "/relative", skipped.']);
+            }
+        },
+        {
+            name: 'names become operation ids and folders become tags; ids stay unique',
+            requests: [
+                request('https://api.example.com/a', { name: 'List items', folder: 'Items' }),
+                request('https://api.example.com/b', { name: 'List items' }),
+                request('https://api.example.com/users/7', { method: 'DELETE' })
+            ],
+            check: r => {
+                assert.deepStrictEqual([operation(r, '/a').operationId, operation(r, '/a').tags, operation(r, '/b').operationId], ['listItems', ['Items'], 'listItems2']);
+                assert.strictEqual(operation(r, '/users/{userId}', 'delete').operationId, 'deleteUsers');
+            }
+        },
+        {
+            name: 'a placeholder base URL from Postman is flagged',
+            requests: [request('https://api.example.com/things/{thingId}')],
+            check: r => assert.ok(/undefined collection variable/.test(r.warnings[0]))
+        },
+        {
+            name: 'the title comes from the host name unless given',
+            requests: [request('https://api.weather.example.com/now')],
+            check: r => assert.strictEqual(r.spec.info?.title, 'Weather API')
+        },
+        {
+            name: 'error responses are imported with a warning',
+            requests: [request('https://api.example.com/a', { response: { status: 404, contentType: 'application/json', body: '{"detail":"x"}' } })],
+            check: r => {
+                assert.ok(operation(r, '/a').responses['404']);
+                assert.ok(r.warnings.some(w => /HTTP 404/.test(w)));
+            }
+        }
+    ];
+
+    cases.forEach(c => test(c.name, () => c.check(requestsToOas(c.requests))));
+
+    test('uses the given title and description', () => {
+        const { spec } = requestsToOas([request('https://api.example.com/a')], { title: 'My Tool', description: 'Does things' });
+        assert.deepStrictEqual([spec.info?.title, spec.info?.description], ['My Tool', 'Does things']);
+    });
+
+    const failures: Array<[string, CapturedRequest[], RegExp]> = [
+        ['no requests', [], /No requests to import/],
+        ['no request with a valid URL', [request('{{base}}/a'), request('not a url')], /None of the requests has a valid absolute URL \(e\.g\. "\{\{base\}\}\/a"\)/]
+    ];
+
+    failures.forEach(([name, requests, message]) => test(`throws for ${name}`, () => {
+        assert.throws(() => requestsToOas(requests), message);
+    }));
+});
@@ -0,0 +1,135 @@
+/**
+ * WxO Builder - Schema Resolver Tests
+ * resolveSpecRefs: local and external refs, allOf flattening, cycles, sibling keywords
+ * and the SchemaRefError cases. External files are written to a temporary folder.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveSpecRefs, SchemaRefError } from '../../api/schemaResolver';
+import { JsonSchema, OasDocument } from '../../api/types';
+
+/** A spec whose single GET /x operation answers with `schema`. */
+function specWith(schema: JsonSchema, components: Record<string, JsonSchema> = {}): OasDocument {
+    return {
+        openapi: '3.0.1',
+        paths: { '/x': { get: { responses: { '200': { content: { 'application/json': { schema } } } } } } },
+        components: { schemas: components }
+    };
+}
+
+function responseSchema(spec: OasDocument): JsonSchema | undefined {
+    return spec.paths?.['/x'].get?.responses?.['200'].content?.['application/json'].schema;
+}
+
+suite('resolveSpecRefs', () => {
+    let dir: string;
+
+    suiteSetup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wxo-resolver-'));
+        fs.writeFileSync(path.join(dir, 'common.json'), JSON.stringify({ Pet: { type: 'object', properties: { owner: { $ref: '#/Owner' } } }, Owner: { type: 'string' } }));
+        fs.mkdirSync(path.join(dir, 'nested'));
+        fs.writeFileSync(path.join(dir, 'nested', 'tag.yaml'), 'type: object\nproperties:\n  label:\n    $ref: "../common.json#/Owner"\n');
+        fs.writeFileSync(path.join(dir, 'broken.json'), '{ not json');
+    });
+
+    suiteTeardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    const cases: Array<{ name: string; schema: JsonSchema; components?: Record<string, JsonSchema>; expected: JsonSchema }> = [
+        {
+            name: 'inlines a local component ref',
+            schema: { $ref: '#/components/schemas/Pet' },
+            components: { Pet: { type: 'object', properties: { name: { type: 'string' } } } },
+            expected: { type: 'object', properties: { name: { type: 'string' } } }
+        },
+        {
+            name: 'follows refs inside the referenced schema',
+            schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+            components: { Pet: { properties: { tag: { $ref: '#/components/schemas/Tag' } } }, Tag: { type: 'string' } },
+            expected: { type: 'array', items: { properties: { tag: { type: 'string' } } } }
+        },
+        {
+            name: 'decodes ~1 and %20 in pointer segments',
+            schema: { $ref: '#/components/schemas/a~1b%20c' },
+            components: { 'a/b c': { type: 'integer' } },
+            expected: { type: 'integer' }
+        },
+        {
+            name: 'flattens allOf, merging properties and required lists',
+            schema: { allOf: [{ $ref: '#/components/schemas/Base' }, { properties: { b: { type: 'integer' } }, required: ['b'] }] },
+            components: { Base: { properties: { a: { type: 'string' } }, required: ['a'] } },
+            expected: { type: 'object', properties: { a: { type: 'string' }, b: { type: 'integer' } }, required: ['a', 'b'] }
+        },
+        {
+            name: 'keeps oneOf with its members resolved',
+            schema: { oneOf: [{ $ref: '#/components/schemas/A' }, { type: 'null' }] },
+            components: { A: { type: 'string' } },
+            expected: { oneOf: [{ type: 'string' }, { type: 'null' }] }
+        },
+        {
+            name: 'cuts a recursive ref at the second visit',
+            schema: { $ref: '#/components/schemas/Node' },
+            components: { Node: { type: 'object', properties: { child: { $ref: '#/components/schemas/Node' } } } },
+            expected: { type: 'object', properties: { child: { type: 'object', description: 'Recursive reference to Node' } } }
+        },
+        {
+            name: 'lets sibling keywords win over the target',
+            schema: { $ref: '#/components/schemas/Id', description: 'The pet id' },
+            components: { Id: { type: 'string', description: 'An id' } },
+            expected: { type: 'string', description: 'The pet id' }
+        }
+    ];
+
+    cases.forEach(c => test(c.name, async () => {
+        const resolved = await resolveSpecRefs(specWith(c.schema, c.components));
+        assert.deepStrictEqual(responseSchema(resolved), c.expected);
+    }));
+
+    test('leaves components and specs without paths untouched', async () => {
+        const spec = specWith({ $ref: '#/components/schemas/A' }, { A: { $ref: '#/components/schemas/B' }, B: { type: 'string' } });
+        const resolved = await resolveSpecRefs(spec);
+        assert.deepStrictEqual(resolved.components, spec.components);
+        const noPaths = { openapi: '3.0.1' };
+        assert.strictEqual(await resolveSpecRefs(noPaths), noPaths);
+    });
+
+    const externalCases: Array<{ name: string; schema: JsonSchema; expected: JsonSchema }> = [
+        {
+            name: 'resolves a file ref with a pointer, and local refs inside that file',
+            schema: { $ref: 'common.json#/Pet' },
+            expected: { type: 'object', properties: { owner: { type: 'string' } } }
+        },
+        {
+            name: 'resolves a whole YAML file, with refs relative to that file',
+            schema: { $ref: './nested/tag.yaml' },
+            expected: { type: 'object', properties: { label: { type: 'string' } } }
+        }
+    ];
+
+    externalCases.forEach(c => test(c.name, async () => {
+        const resolved = await resolveSpecRefs(specWith(c.schema), { baseDir: dir });
+        assert.deepStrictEqual(responseSchema(resolved), c.expected);
+    }));
+
+    const errorCases: Array<{ name: string; schema: JsonSchema; baseDir?: boolean; message: RegExp }> = [
+        { name: 'a missing local target', schema: { $ref: '#/components/schemas/Nope' }, message: /\/components\/schemas\/Nope not found/ },
+        { name: 'a malformed %-escape', schema: { $ref: '#/components/schemas/%E0%A4%A' }, message: /invalid escape in JSON pointer/ },
+        { name: 'a remote ref', schema: { $ref: 'https://example.com/pet.json#/Pet' }, baseDir: true, message: /remote references are not supported/ },
+        { name: 'an external ref without a source file', schema: { $ref: 'common.json#/Pet' }, message: /needs a source file/ },
+        { name: 'a file that does not exist', schema: { $ref: 'missing.json' }, baseDir: true, message: /could not be read \(ENOENT\)/ },
+        { name: 'a file that does not parse', schema: { $ref: 'broken.json' }, baseDir: true, message: /Cannot resolve \$ref "broken.json"/ },
+        { name: 'a missing pointer in a file', schema: { $ref: 'common.json#/Cat' }, baseDir: true, message: /\/Cat not found in .*common\.json/ }
+    ];
+
+    errorCases.forEach(c => test(`throws SchemaRefError for ${c.name}`, async () => {
+        await assert.rejects(
+            resolveSpecRefs(specWith(c.schema), c.baseDir ? { baseDir: dir } : {}),
+            (e: unknown) => e instanceof SchemaRefError && e.ref === c.schema.$ref && c.message.test(e.message)
+        );
+    }));
+});
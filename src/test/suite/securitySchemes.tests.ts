@@ -0,0 +1,181 @@
+/**
+ * WxO Builder - Security Scheme Tests
+ * OpenAPI security schemes and requirements to binding security and back, connection auth
+ * types, and the OAuth2 token request used by local tests.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+    schemeToBinding, deriveBindingSecurity, bindingSecurityToOas, connectionToSecurity, requestOAuth2Token, BindingSecurityScheme
+} from '../../api/securitySchemes';
+import { Connection, OasSecurityRequirement } from '../../api/types';
+
+const SCHEMES = {
+    queryKey: { type: 'apiKey', in: 'query', name: 'appid' },
+    headerKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'Team key' },
+    basic: { type: 'http', scheme: 'Basic' },
+    jwt: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    oauth: {
+        type: 'oauth2',
+        flows: {
+            clientCredentials: { tokenUrl: 'https://auth.io/token', scopes: { read: 'Read', write: 'Write' }, 'x-extra': 1 },
+            implicit: { authorizationUrl: 'https://auth.io/authorize' }
+        }
+    },
+    mutual: { type: 'mutualTLS' }
+};
+
+function spec(security: OasSecurityRequirement[], opSecurity?: OasSecurityRequirement[]) {
+    return { components: { securitySchemes: SCHEMES }, security, op: opSecurity === undefined ? {} : { security: opSecurity } };
+}
+
+suite('OpenAPI security → binding', () => {
+    test('maps each scheme type, normalising http schemes and cleaning OAuth2 flows', () => {
+        assert.deepStrictEqual(schemeToBinding(SCHEMES.headerKey), { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'Team key' });
+        assert.deepStrictEqual(schemeToBinding(SCHEMES.basic), { type: 'http', scheme: 'basic', name: 'Authorization' });
+        assert.deepStrictEqual(schemeToBinding(SCHEMES.jwt), { type: 'http', scheme: 'bearer', name: 'Authorization', bearerFormat: 'JWT' });
+        assert.deepStrictEqual(schemeToBinding(SCHEMES.oauth), {
+            type: 'oauth2',
+            name: 'Authorization',
+            flows: {
+                clientCredentials: { tokenUrl: 'https://auth.io/token', scopes: { read: 'Read', write: 'Write' } },
+                implicit: { authorizationUrl: 'https://auth.io/authorize', scopes: {} }
+            }
+        });
+    });
+
+    test('schemes it cannot use map to nothing', () => {
+        assert.strictEqual(schemeToBinding(SCHEMES.mutual), undefined);
+        assert.strictEqual(schemeToBinding({ type: 'apiKey', in: 'header' }), undefined, 'no name');
+        assert.strictEqual(schemeToBinding({ type: 'oauth2', flows: {} }), undefined, 'no flows');
+        assert.strictEqual(schemeToBinding({ type: 'openIdConnect' }), undefined, 'no discovery URL');
+    });
+
+    test('schemes required together all become binding entries', () => {
+        const { op, ...doc } = spec([{ headerKey: [], basic: [] }]);
+        assert.deepStrictEqual(deriveBindingSecurity(doc, op).map(s => [s.type, s.in || s.scheme]), [['apiKey', 'header'], ['http', 'basic']]);
+    });
+
+    test('the operation\'s requirements win over the document\'s', () => {
+        const { op, ...doc } = spec([{ queryKey: [] }], [{ jwt: [] }]);
+        assert.deepStrictEqual(deriveBindingSecurity(doc, op).map(s => s.scheme), ['bearer']);
+    });
+
+    test('an unmappable alternative is skipped for the next one', () => {
+        const { op, ...doc } = spec([{ mutual: [] }, { queryKey: [], undeclared: [] }, { oauth: ['read'] }]);
+        assert.deepStrictEqual(deriveBindingSecurity(doc, op).map(s => s.type), ['oauth2']);
+    });
+
+    test('nothing is guessed when no alternative can be mapped', () => {
+        const { op, ...doc } = spec([{ mutual: [] }]);
+        assert.deepStrictEqual(deriveBindingSecurity(doc, op), []);
+    });
+
+    test('an optional {} requirement binds no security', () => {
+        const { op, ...doc } = spec([{}, { queryKey: [] }]);
+        assert.deepStrictEqual(deriveBindingSecurity(doc, op), []);
+        const { op: op2, ...doc2 } = spec([{ queryKey: [] }], [{}]);
+        assert.deepStrictEqual(deriveBindingSecurity(doc2, op2), [], 'an operation can opt out of the document security');
+    });
+
+    test('x-ibm-security is used as written', () => {
+        const explicit = [{ type: 'apiKey', in: 'cookie', name: 'session' }];
+        assert.deepStrictEqual(deriveBindingSecurity({ 'x-ibm-security': explicit, ...spec([{ basic: [] }]) }, {}), explicit);
+    });
+});
+
+suite('binding security → OpenAPI', () => {
+    test('names the schemes and requires them together, with every OAuth2 scope', () => {
+        const binding = [schemeToBinding(SCHEMES.headerKey), schemeToBinding(SCHEMES.oauth), schemeToBinding(SCHEMES.basic)] as BindingSecurityScheme[];
+        const oas = bindingSecurityToOas(binding);
+        assert.deepStrictEqual(Object.keys(oas.securitySchemes), ['ApiKeyAuth', 'OAuth2', 'BasicAuth']);
+        assert.deepStrictEqual(oas.security, [{ ApiKeyAuth: [], OAuth2: ['read', 'write'], BasicAuth: [] }]);
+        assert.deepStrictEqual(oas.securitySchemes.ApiKeyAuth, { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'Team key' });
+    });
+
+    test('round-trips through deriveBindingSecurity', () => {
+        const binding = [schemeToBinding(SCHEMES.queryKey), schemeToBinding(SCHEMES.jwt)] as BindingSecurityScheme[];
+        const oas = bindingSecurityToOas(binding);
+        assert.deepStrictEqual(deriveBindingSecurity({ components: { securitySchemes: oas.securitySchemes }, security: oas.security }, {}), binding);
+    });
+
+    test('numbers repeated scheme names and skips unknown entries', () => {
+        const oas = bindingSecurityToOas([
+            { type: 'apiKey', in: 'query', name: 'a' },
+            { type: 'apiKey', in: 'header', name: 'b' },
+            { type: 'kerberos' } as unknown as BindingSecurityScheme
+        ]);
+        assert.deepStrictEqual(oas.security, [{ ApiKeyAuth: [], ApiKeyAuth2: [] }]);
+        assert.deepStrictEqual(bindingSecurityToOas(undefined), { securitySchemes: {}, security: [] });
+    });
+});
+
+suite('connectionToSecurity', () => {
+    const cases: Array<[string, object, Array<Partial<BindingSecurityScheme>>]> = [
+        ['api_key', { auth_type: 'api_key' }, [{ type: 'apiKey', in: 'query', name: 'apiKey' }]],
+        ['basic_auth', { security_scheme: 'basic_auth' }, [{ type: 'http', scheme: 'basic' }]],
+        ['bearer_token', { security_scheme: 'bearer-token' }, [{ type: 'http', scheme: 'bearer' }]],
+        ['oauth2 password', { auth_type: 'oauth2_password' }, [{ type: 'oauth2', flows: { password: { tokenUrl: '', scopes: {} } } }]],
+        ['oauth auth code', { auth_type: 'oauth_auth_code_flow' }, [{ type: 'oauth2', flows: { authorizationCode: { authorizationUrl: '', tokenUrl: '', scopes: {} } } }]],
+        ['key_value', { security_scheme: 'key_value_creds' }, []],
+        ['a scheme object', { security_scheme: { type: 'apiKey', in: 'header', name: 'X-Key' } }, [{ type: 'apiKey', in: 'header', name: 'X-Key' }]]
+    ];
+
+    cases.forEach(([name, app, expected]) => test(name, () => {
+        const actual = connectionToSecurity(app as Partial<Connection>).map((entry, i) => {
+            const picked: Record<string, unknown> = {};
+            Object.keys(expected[i] || {}).forEach(key => { picked[key] = entry[key as keyof BindingSecurityScheme]; });
+            return picked;
+        });
+        assert.deepStrictEqual(actual, expected);
+    }));
+});
+
+suite('requestOAuth2Token', () => {
+    let server: http.Server;
+    let tokenUrl: string;
+    let reply: { status: number; contentType: string; body: string };
+    let received: { authorization?: string; body: string };
+
+    suiteSetup(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => { body += chunk; });
+            req.on('end', () => {
+                received = { authorization: req.headers.authorization, body };
+                res.writeHead(reply.status, { 'Content-Type': reply.contentType });
+                res.end(reply.body);
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`;
+    });
+
+    suiteTeardown(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    test('sends the grant with the client as HTTP basic and returns the access token', async () => {
+        reply = { status: 200, contentType: 'application/json', body: '{"access_token":"tok-1","token_type":"bearer"}' };
+        const token = await requestOAuth2Token({ tokenUrl, grantType: 'password', clientId: 'app', clientSecret: 's:1', username: 'ada', password: 'pw', scope: 'read write' });
+        assert.strictEqual(token, 'tok-1');
+        assert.strictEqual(received.authorization, `Basic ${Buffer.from('app:s%3A1').toString('base64')}`);
+        assert.strictEqual(received.body, 'grant_type=password&username=ada&password=pw&scope=read+write');
+    });
+
+    test('accepts a form-encoded token response', async () => {
+        reply = { status: 200, contentType: 'application/x-www-form-urlencoded', body: 'access_token=tok-2&expires_in=60' };
+        assert.strictEqual(await requestOAuth2Token({ tokenUrl, grantType: 'client_credentials', clientId: 'app' }), 'tok-2');
+    });
+
+    test('reports a rejected request, a response without a token and a missing tokenUrl', async () => {
+        reply = { status: 401, contentType: 'application/json', body: '{"error":"invalid_client"}' };
+        await assert.rejects(requestOAuth2Token({ tokenUrl, grantType: 'client_credentials', clientId: 'app' }), /token request failed: 401 .*invalid_client/);
+        reply = { status: 200, contentType: 'application/json', body: '{"token_type":"bearer"}' };
+        await assert.rejects(requestOAuth2Token({ tokenUrl, grantType: 'client_credentials', clientId: 'app' }), /has no access_token/);
+        await assert.rejects(requestOAuth2Token({ tokenUrl: '', grantType: 'client_credentials', clientId: 'app' }), /has no tokenUrl/);
+    });
+});
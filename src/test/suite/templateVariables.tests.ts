@@ -0,0 +1,114 @@
+/**
+ * WxO Builder - Template Variables Tests
+ * Placeholder discovery, variable kinds from metadata and well-known names, validation,
+ * normalization and fillTemplate's substitution and removal rules.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import {
+    findPlaceholders, templateVariables, validateVariable, normalizeVariable, fillTemplate, TemplateVariable, TemplateVariableKind, TemplateVariableMeta
+} from '../../templates/templateVariables';
+
+function variable(kind: TemplateVariableKind, required = true): TemplateVariable {
+    return { name: 'v', kind, description: 'v', required };
+}
+
+const definition = {
+    openapi: '3.0.1',
+    info: { title: '{{ toolName }}', description: 'Calls {{baseUrl}} for {{ region }}' },
+    servers: [{ url: '{{baseUrl}}/v1' }],
+    paths: { '/{{resource}}/{id}': { get: { 'x-connection': '{{connectionId}}' } } },
+    tags: ['{{connectionId}}', 'fixed', '{{ 1bad }}']
+};
+
+suite('templateVariables', () => {
+    test('findPlaceholders lists names once, in order, including property names', () => {
+        assert.deepStrictEqual(findPlaceholders(definition), ['toolName', 'baseUrl', 'region', 'resource', 'connectionId']);
+        assert.deepStrictEqual(findPlaceholders({ a: 1, b: [true, null] }), []);
+    });
+
+    const cases: Array<{ name: string; declared?: Record<string, unknown>; expected: Array<Partial<TemplateVariable>> }> = [
+        {
+            name: 'well-known names have built-in kinds; connections are optional',
+            expected: [
+                { name: 'toolName', kind: 'name', required: true },
+                { name: 'baseUrl', kind: 'url', required: true },
+                { name: 'region', kind: 'text', required: true, description: 'region' },
+                { name: 'resource', kind: 'text', required: true },
+                { name: 'connectionId', kind: 'connection', required: false }
+            ]
+        },
+        {
+            name: 'declared variables come first; metadata overrides kinds and defaults',
+            declared: {
+                resource: { kind: 'name', description: 'Resource path', default: 42 },
+                unused: { kind: 'text' },
+                connectionId: { required: true },
+                region: { kind: 'colour' }
+            },
+            expected: [
+                { name: 'resource', kind: 'name', description: 'Resource path', default: '42', required: true },
+                { name: 'connectionId', kind: 'connection', required: true },
+                { name: 'region', kind: 'text', default: undefined },
+                { name: 'toolName', kind: 'name' },
+                { name: 'baseUrl', kind: 'url' }
+            ]
+        }
+    ];
+
+    cases.forEach(c => test(c.name, () => {
+        const variables = templateVariables(definition, c.declared as Record<string, TemplateVariableMeta> | undefined);
+        assert.deepStrictEqual(variables.map((v, i) => {
+            const picked: Record<string, unknown> = {};
+            Object.keys(c.expected[i] || {}).forEach(key => { picked[key] = v[key as keyof TemplateVariable]; });
+            return picked;
+        }), c.expected);
+    }));
+
+    const validation: Array<[TemplateVariableKind, boolean, string, string | undefined]> = [
+        ['name', true, 'get_weather', undefined],
+        ['name', true, '  _private  ', undefined],
+        ['name', true, '2fast', 'Names cannot start with a digit.'],
+        ['name', true, 'get-weather', 'Use only letters, digits and underscores.'],
+        ['name', true, '   ', 'v is required.'],
+        ['url', true, 'https://api.example.com/v1/', undefined],
+        ['url', true, 'ftp://files.example.com', 'Use an http:// or https:// URL.'],
+        ['url', true, 'api.example.com', 'Not a valid URL.'],
+        ['connection', false, '', undefined],
+        ['connection', true, '', 'v is required.'],
+        ['text', true, 'anything at all', undefined]
+    ];
+
+    validation.forEach(([kind, required, value, expected]) => test(`validateVariable ${kind}${required ? '' : ' (optional)'} "${value}"`, () => {
+        assert.strictEqual(validateVariable(variable(kind, required), value), expected);
+    }));
+
+    const normalization: Array<[TemplateVariableKind, string, string]> = [
+        ['url', ' https://api.example.com/v1// ', 'https://api.example.com/v1'],
+        ['text', ' a/ ', 'a/'],
+        ['name', ' tool ', 'tool']
+    ];
+
+    normalization.forEach(([kind, value, expected]) => test(`normalizeVariable ${kind} "${value}"`, () => {
+        assert.strictEqual(normalizeVariable(variable(kind), value), expected);
+    }));
+
+    test('fillTemplate replaces placeholders, drops empty whole-value ones and keeps unknown ones', () => {
+        const filled = fillTemplate(definition, { toolName: 'weather', baseUrl: 'https://api.example.com', resource: 'items', connectionId: '' });
+        assert.deepStrictEqual(filled, {
+            openapi: '3.0.1',
+            info: { title: 'weather', description: 'Calls https://api.example.com for {{ region }}' },
+            servers: [{ url: 'https://api.example.com/v1' }],
+            paths: { '/items/{id}': { get: {} } },
+            tags: ['fixed', '{{ 1bad }}']
+        });
+        assert.strictEqual(definition.info.title, '{{ toolName }}', 'the definition is not modified');
+    });
+
+    test('fillTemplate keeps non-string values', () => {
+        assert.deepStrictEqual(fillTemplate({ n: 1, b: false, z: null, s: '{{x}}' }, { x: '' }), { n: 1, b: false, z: null });
+    });
+});
@@ -0,0 +1,137 @@
+/**
+ * WxO Builder - Tool Replacement Tests
+ * immutableChanges and planToolReplacement, then executeToolReplacement against the mock
+ * tenant: agents moved to the new tool, rollback when a step before the delete fails,
+ * ToolRenameError when only the rename fails, and undo by replacing back.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { MockOrchestrateServer } from '../../mock/mockServer';
+import { getSkill, listSkills } from '../../api/skills';
+import { getAgent } from '../../api/agents';
+import { Tool } from '../../api/types';
+import {
+    immutableChanges, planToolReplacement, executeToolReplacement, planReplacementUndo, ToolRenameError
+} from '../../api/toolReplace';
+import { startMockTenant } from './mockTenant';
+
+const WEATHER_ID = 'mock-tool-weather';
+const AGENT_ID = 'mock-agent-helpdesk';
+
+suite('immutableChanges', () => {
+    const current = {
+        id: 't', name: 't',
+        binding: { openapi: { http_method: 'GET', http_path: '/a', servers: ['https://a.io'] } },
+        input_schema: { type: 'object', properties: { q: { type: 'string' } } }
+    } as Tool;
+
+    test('reports binding changes per key and schema changes per field', () => {
+        const edited = {
+            binding: { openapi: { http_method: 'GET', http_path: '/a', servers: ['https://b.io'], connection_id: 'c1' } },
+            input_schema: { type: 'object', properties: {} },
+            output_schema: { type: 'object' }
+        };
+        assert.deepStrictEqual(immutableChanges(current, edited), [
+            'binding.openapi.servers', 'binding.openapi.connection_id', 'input_schema', 'output_schema'
+        ]);
+    });
+
+    test('ignores key order and fields the edit leaves out', () => {
+        const edited = { input_schema: { properties: { q: { type: 'string' } }, type: 'object' }, description: 'new text' };
+        assert.deepStrictEqual(immutableChanges(current, edited), []);
+    });
+
+    test('a binding of another kind shows up as a change of that kind', () => {
+        assert.deepStrictEqual(immutableChanges(current, { binding: { python: { function: 'm:f' } } }), [
+            'binding.openapi.http_method', 'binding.openapi.http_path', 'binding.openapi.servers', 'binding.python.function'
+        ]);
+    });
+});
+
+suite('Tool replacement against the mock server', () => {
+    let server: MockOrchestrateServer;
+
+    /** The weather tool with its server URL changed, as the editor would send it. */
+    async function editedWeather(name?: string): Promise<Partial<Tool>> {
+        const tool = await getSkill(WEATHER_ID);
+        return {
+            ...(name ? { name } : {}),
+            binding: { openapi: { ...tool.binding!.openapi, servers: ['https://weather.example.org'] } }
+        };
+    }
+
+    suiteSetup(async () => {
+        server = await startMockTenant();
+    });
+
+    setup(() => server.reset());
+
+    suiteTeardown(() => server.stop());
+
+    test('plans the steps and finds the agents using the tool', async () => {
+        const plan = await planToolReplacement(await getSkill(WEATHER_ID), await editedWeather('weather-now'));
+        assert.strictEqual(plan.newSpec.name, 'weather_now');
+        assert.deepStrictEqual(plan.changes, ['binding.openapi.servers']);
+        assert.deepStrictEqual(plan.agents.map(a => a.id), [AGENT_ID]);
+        assert.deepStrictEqual(plan.steps, [
+            'Create a new "Get Weather" tool with the edited definition (temporary name weather_now_replacement)',
+            'Move agent "Helpdesk Agent" from the old tool to the new one',
+            `Delete the old tool (${WEATHER_ID})`,
+            'Rename the new tool to weather_now'
+        ]);
+        assert.deepStrictEqual((await listSkills(50)).length, 3, 'planning changes nothing');
+    });
+
+    test('Python tools cannot be replaced', async () => {
+        const python = { id: 'py', name: 'py_tool', binding: { python: { function: 'm:f' } } } as Tool;
+        await assert.rejects(planToolReplacement(python, { input_schema: {} }), /Python tools cannot be replaced/);
+    });
+
+    test('replaces the tool, moves its agents and can be undone', async () => {
+        const plan = await planToolReplacement(await getSkill(WEATHER_ID), await editedWeather());
+        const progress: string[] = [];
+        const result = await executeToolReplacement(plan, step => progress.push(step));
+        assert.deepStrictEqual(progress, plan.steps);
+        assert.deepStrictEqual(result.reboundAgents, ['Helpdesk Agent']);
+
+        const replaced = await getSkill(result.newToolId);
+        assert.deepStrictEqual([replaced.name, replaced.binding?.openapi?.servers], ['get_weather', ['https://weather.example.org']]);
+        assert.deepStrictEqual((await getAgent(AGENT_ID)).tools, [result.newToolId, 'mock-tool-news']);
+        await assert.rejects(getSkill(WEATHER_ID));
+
+        const undone = await executeToolReplacement(await planReplacementUndo(result));
+        const restored = await getSkill(undone.newToolId);
+        assert.deepStrictEqual([restored.name, restored.binding?.openapi?.servers], ['get_weather', result.previousDefinition.binding?.openapi?.servers]);
+        assert.deepStrictEqual((await getAgent(AGENT_ID)).tools, [undone.newToolId, 'mock-tool-news']);
+    });
+
+    test('a failed delete rolls back the new tool and the agent', async () => {
+        const plan = await planToolReplacement(await getSkill(WEATHER_ID), await editedWeather());
+        const deleteStep = plan.steps[plan.steps.length - 2];
+        await assert.rejects(
+            executeToolReplacement(plan, step => { if (step === deleteStep) server.failNext(400); }),
+            (e: Error) => !(e instanceof ToolRenameError) && /failed at "Delete the old tool.*All changes were rolled back\.$/.test(e.message)
+        );
+        assert.deepStrictEqual((await listSkills(50)).map(t => t.id).sort(), ['mock-flow-onboarding', 'mock-tool-news', WEATHER_ID].sort());
+        assert.deepStrictEqual((await getAgent(AGENT_ID)).tools, [WEATHER_ID, 'mock-tool-news']);
+    });
+
+    test('a failed rename keeps the replacement and reports its temporary name', async () => {
+        const plan = await planToolReplacement(await getSkill(WEATHER_ID), await editedWeather());
+        const renameStep = plan.steps[plan.steps.length - 1];
+        let error: unknown;
+        try {
+            await executeToolReplacement(plan, step => { if (step === renameStep) server.failNext(400); });
+        } catch (e) {
+            error = e;
+        }
+        assert.ok(error instanceof ToolRenameError, 'rejects with ToolRenameError');
+        assert.strictEqual(error.temporaryName, 'get_weather_replacement');
+        assert.strictEqual((await getSkill(error.result.newToolId)).name, 'get_weather_replacement');
+        assert.deepStrictEqual((await getAgent(AGENT_ID)).tools, [error.result.newToolId, 'mock-tool-news']);
+        await assert.rejects(getSkill(WEATHER_ID));
+    });
+});
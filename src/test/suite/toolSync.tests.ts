@@ -0,0 +1,154 @@
+/**
+ * WxO Builder - Tools as Code Tests
+ * computeToolSync, pushTool and pullTool between a temporary wxo/ folder and the mock
+ * tenant: statuses, changed fields, file names made valid with toToolName, and files that
+ * clash on the same tool name.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Uri, workspace } from '../vscodeDouble';
+import { MockOrchestrateServer } from '../../mock/mockServer';
+import { getSkill, listSkills } from '../../api/skills';
+import { computeToolSync, pushTool, pullTool, TOOLS_FOLDER, ToolSyncEntry } from '../../sync/toolSync';
+import { OasDocument } from '../../api/types';
+import { startMockTenant } from './mockTenant';
+
+suite('Tools as code', () => {
+    let server: MockOrchestrateServer;
+    let root: string;
+    let wxo: string;
+
+    /** Write wxo/<fileName> as pretty JSON. */
+    function writeTool(fileName: string, oas: unknown): void {
+        fs.writeFileSync(path.join(wxo, fileName), JSON.stringify(oas, null, 2));
+    }
+
+    function readTool(fileName: string): OasDocument {
+        return JSON.parse(fs.readFileSync(path.join(wxo, fileName), 'utf8'));
+    }
+
+    /** Pull every tenant tool into wxo/ and return the files written. */
+    async function pullAll(): Promise<string[]> {
+        const { entries } = await computeToolSync();
+        for (const entry of entries) await pullTool(entry);
+        return fs.readdirSync(wxo).sort();
+    }
+
+    function entry(entries: ToolSyncEntry[], name: string): ToolSyncEntry {
+        const found = entries.find(e => e.name === name);
+        assert.ok(found, `no sync entry for ${name}`);
+        return found;
+    }
+
+    suiteSetup(async () => {
+        server = await startMockTenant();
+    });
+
+    setup(() => {
+        server.reset();
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'wxo-sync-'));
+        wxo = path.join(root, TOOLS_FOLDER);
+        workspace.workspaceFolders = [{ uri: Uri.file(root), name: 'ws', index: 0 }];
+    });
+
+    teardown(() => {
+        workspace.workspaceFolders = undefined;
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    suiteTeardown(() => server.stop());
+
+    test('without a wxo/ folder every OpenAPI tool is tenant-only; flows are not synced', async () => {
+        const { entries, warnings } = await computeToolSync();
+        assert.deepStrictEqual(entries.map(e => [e.name, e.status]), [['get_weather', 'tenant-only'], ['news_search', 'tenant-only']]);
+        assert.deepStrictEqual(warnings, []);
+    });
+
+    test('pulled tools match the tenant', async () => {
+        assert.deepStrictEqual(await pullAll(), ['get_weather.json', 'news_search.json']);
+        assert.deepStrictEqual(await computeToolSync(), { entries: [], warnings: [] });
+    });
+
+    test('reports editable and immutable changes; push updates the editable ones and warns about the rest', async () => {
+        await pullAll();
+        const oas = readTool('get_weather.json');
+        oas.info!.description = 'Weather, edited in the workspace';
+        oas.servers = [{ url: 'https://weather.example.org' }];
+        writeTool('get_weather.json', oas);
+
+        const changed = entry((await computeToolSync()).entries, 'get_weather');
+        assert.strictEqual(changed.status, 'changed');
+        assert.deepStrictEqual(changed.changedFields, ['description', 'binding']);
+
+        const warning = await pushTool(changed);
+        assert.match(warning || '', /get_weather: binding cannot be updated in place/);
+        const tool = await getSkill('mock-tool-weather');
+        assert.strictEqual(tool.description, 'Weather, edited in the workspace');
+        assert.notStrictEqual(tool.binding?.openapi?.servers?.[0], 'https://weather.example.org');
+    });
+
+    test('push creates workspace-only tools and deletes tenant-only ones', async () => {
+        await pullAll();
+        const oas = readTool('get_weather.json');
+        oas.info!.title = 'Forecast';
+        writeTool('forecast.json', oas);
+        fs.unlinkSync(path.join(wxo, 'news_search.json'));
+
+        const { entries } = await computeToolSync();
+        assert.deepStrictEqual(entries.map(e => [e.name, e.status]), [['forecast', 'workspace-only'], ['news_search', 'tenant-only']]);
+        for (const e of entries) assert.strictEqual(await pushTool(e), undefined);
+
+        assert.deepStrictEqual((await listSkills(50)).map(t => t.name).sort(), ['employee_onboarding', 'forecast', 'get_weather']);
+        assert.deepStrictEqual((await computeToolSync()).entries, []);
+    });
+
+    test('pull deletes workspace-only files', async () => {
+        await pullAll();
+        writeTool('extra.json', readTool('get_weather.json'));
+        const extra = entry((await computeToolSync()).entries, 'extra');
+        await pullTool(extra);
+        assert.deepStrictEqual(fs.readdirSync(wxo).sort(), ['get_weather.json', 'news_search.json']);
+    });
+
+    test('file names are made valid tool names, and the change is reported', async () => {
+        await pullAll();
+        fs.renameSync(path.join(wxo, 'get_weather.json'), path.join(wxo, 'get-weather.json'));
+        const { entries, warnings } = await computeToolSync();
+        assert.deepStrictEqual(entries, [], 'get-weather.json is the get_weather tool');
+        assert.deepStrictEqual(warnings, [`${TOOLS_FOLDER}/get-weather.json syncs as tool get_weather (tool names allow only letters, digits and underscores).`]);
+    });
+
+    test('a file whose name clashes with an earlier one is skipped, not synced twice', async () => {
+        await pullAll();
+        const edited = readTool('get_weather.json');
+        edited.info!.description = 'Conflicting copy';
+        writeTool('get-weather.json', edited);
+
+        const { entries, warnings } = await computeToolSync();
+        assert.deepStrictEqual(warnings, [`${TOOLS_FOLDER}/get-weather.json was skipped: ${TOOLS_FOLDER}/get_weather.json already syncs as tool get_weather.`]);
+        assert.deepStrictEqual(entries, [], 'the unchanged get_weather.json is compared, the conflicting copy is not');
+    });
+
+    test('files without a usable name, without paths or with other extensions are not tools', async () => {
+        await pullAll();
+        writeTool('123.json', readTool('get_weather.json'));
+        writeTool('schemas.json', { components: { schemas: { City: { type: 'string' } } } });
+        fs.writeFileSync(path.join(wxo, 'notes.txt'), 'not json');
+
+        const { entries, warnings } = await computeToolSync();
+        assert.deepStrictEqual(entries, []);
+        assert.deepStrictEqual(warnings, [`${TOOLS_FOLDER}/123.json was skipped: its name has no letters or underscores to make a tool name from.`]);
+    });
+
+    test('invalid JSON fails the comparison and names the file', async () => {
+        fs.mkdirSync(wxo);
+        fs.writeFileSync(path.join(wxo, 'broken.json'), '{ "paths": ');
+        await assert.rejects(computeToolSync(), /wxo\/broken\.json is not valid JSON/);
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * WxO Builder - Tool Template Library Tests
+ * Template files (wrapped, x-wxo-template, Swagger 2.0, invalid), the workspace and shared
+ * folders next to the built-in templates, and grouping for the picker.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Uri, workspace, resetSettings } from '../vscodeDouble';
+import {
+    parseTemplate, readTemplateFolder, loadTemplateLibrary, findTemplate, groupTemplates, WORKSPACE_TEMPLATES_DIR, ToolTemplate
+} from '../../templates/toolTemplates';
+import { BUILTIN_TEMPLATES } from '../../templates/builtinTemplates';
+
+const OPENAPI = { openapi: '3.0.1', info: { title: 'Inventory API', description: 'Stock levels' }, paths: { '/stock': { get: {} } } };
+
+suite('parseTemplate', () => {
+    test('reads the metadata of a wrapper file', () => {
+        const content = JSON.stringify({
+            template: { name: 'Inventory', category: 'Internal', description: 'Our stock API', connection: 'inventory_app', variables: { region: { kind: 'text' } } },
+            definition: OPENAPI
+        });
+        const template = parseTemplate(content, '/t/inventory.json', 'workspace', 'workspace:/t/inventory.json');
+        assert.deepStrictEqual({ ...template, definition: undefined }, {
+            id: 'workspace:/t/inventory.json',
+            name: 'Inventory',
+            category: 'Internal',
+            description: 'Our stock API',
+            connection: 'inventory_app',
+            variables: { region: { kind: 'text' } },
+            source: 'workspace',
+            file: '/t/inventory.json',
+            definition: undefined
+        });
+        assert.deepStrictEqual(template.definition, OPENAPI);
+    });
+
+    test('reads x-wxo-template from YAML and drops it from the definition', () => {
+        const yaml = 'openapi: 3.0.1\ninfo:\n  title: Inventory API\nx-wxo-template:\n  category: Internal\npaths: {}\n';
+        const template = parseTemplate(yaml, '/t/inventory.yaml', 'shared', 'shared:/t/inventory.yaml');
+        assert.deepStrictEqual([template.name, template.category, template.description], ['Inventory API', 'Internal', '']);
+        assert.strictEqual(template.definition['x-wxo-template'], undefined);
+    });
+
+    test('falls back to the file name and the source\'s category', () => {
+        const template = parseTemplate(JSON.stringify({ openapi: '3.0.1', info: {}, paths: {} }), '/t/orders-v2.yml', 'shared', 'shared:x');
+        assert.deepStrictEqual([template.name, template.category], ['orders-v2', 'Shared']);
+    });
+
+    test('converts Swagger 2.0 documents to OpenAPI 3', () => {
+        const swagger = { swagger: '2.0', info: { title: 'Legacy' }, host: 'legacy.io', basePath: '/api', paths: {} };
+        const template = parseTemplate(JSON.stringify(swagger), '/t/legacy.json', 'workspace', 'w');
+        assert.match(template.definition.openapi!, /^3\./);
+        assert.strictEqual(template.definition.servers![0].url, 'https://legacy.io/api');
+    });
+
+    test('rejects files that are not OpenAPI documents', () => {
+        assert.throws(() => parseTemplate('{"name": "not a spec"}', '/t/x.json', 'workspace', 'w'), /not an OpenAPI or Swagger document/);
+        assert.throws(() => parseTemplate('"just text"', '/t/x.json', 'workspace', 'w'), /not a JSON or YAML object/);
+    });
+});
+
+suite('Template folders', () => {
+    let root: string;
+
+    function write(folder: string, name: string, content: unknown): void {
+        fs.mkdirSync(folder, { recursive: true });
+        fs.writeFileSync(path.join(folder, name), typeof content === 'string' ? content : JSON.stringify(content));
+    }
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'wxo-templates-'));
+        workspace.workspaceFolders = [{ uri: Uri.file(root), name: 'ws', index: 0 }];
+    });
+
+    teardown(() => {
+        workspace.workspaceFolders = undefined;
+        resetSettings();
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('reads template files in name order, skips other files and reports broken ones', () => {
+        const folder = path.join(root, 'templates');
+        write(folder, 'b.json', OPENAPI);
+        write(folder, 'a.yaml', 'openapi: 3.0.1\ninfo: { title: A }\npaths: {}\n');
+        write(folder, 'broken.json', '{ "openapi": ');
+        write(folder, 'readme.md', '# not a template');
+        const library = readTemplateFolder(folder, 'shared');
+        assert.deepStrictEqual(library.templates.map(t => [t.name, t.id]), [['A', `shared:${path.join(folder, 'a.yaml')}`], ['Inventory API', `shared:${path.join(folder, 'b.json')}`]]);
+        assert.strictEqual(library.errors.length, 1);
+        assert.match(library.errors[0], /^broken\.json/);
+    });
+
+    test('a missing folder has no templates and no errors', () => {
+        assert.deepStrictEqual(readTemplateFolder(path.join(root, 'nope'), 'workspace'), { templates: [], errors: [] });
+    });
+
+    test('loads workspace, then shared (relative to the workspace), then built-in templates', () => {
+        write(path.join(root, WORKSPACE_TEMPLATES_DIR), 'inventory.json', OPENAPI);
+        write(path.join(root, 'team'), 'crm.json', { ...OPENAPI, info: { title: 'CRM' } });
+        resetSettings({ 'wxo-builder.templates.sharedFolder': 'team' });
+
+        const library = loadTemplateLibrary();
+        assert.deepStrictEqual(library.errors, []);
+        assert.deepStrictEqual(library.templates.slice(0, 2).map(t => [t.name, t.source]), [['Inventory API', 'workspace'], ['CRM', 'shared']]);
+        assert.deepStrictEqual(library.templates.slice(2).map(t => t.id), BUILTIN_TEMPLATES.map(t => t.id));
+    });
+
+    test('findTemplate returns a copy of the definition', () => {
+        write(path.join(root, WORKSPACE_TEMPLATES_DIR), 'inventory.json', OPENAPI);
+        const id = `workspace:${path.join(root, WORKSPACE_TEMPLATES_DIR, 'inventory.json')}`;
+        const found = findTemplate(id) as ToolTemplate;
+        assert.strictEqual(found.name, 'Inventory API');
+
+        const weather = findTemplate('weather') as ToolTemplate;
+        weather.definition.info!.title = 'Changed';
+        assert.notStrictEqual((findTemplate('weather') as ToolTemplate).definition.info!.title, 'Changed');
+        assert.strictEqual(findTemplate('workspace:/gone.json'), undefined);
+    });
+});
+
+suite('groupTemplates', () => {
+    test('sorts categories and names, with built-in templates last in their category', () => {
+        const template = (name: string, category: string, source: ToolTemplate['source']): ToolTemplate =>
+            ({ id: name, name, category, description: '', source, definition: {} });
+        const groups = groupTemplates([
+            template('Yahoo', 'Finance', 'built-in'),
+            template('Ledger', 'Finance', 'shared'),
+            template('Alpha', 'Finance', 'workspace'),
+            template('Weather', 'Data', 'built-in')
+        ]);
+        assert.deepStrictEqual(groups.map(g => [g.category, g.templates.map(t => t.name)]), [
+            ['Data', ['Weather']],
+            ['Finance', ['Alpha', 'Ledger', 'Yahoo']]
+        ]);
+    });
+});
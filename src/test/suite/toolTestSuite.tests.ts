@@ -0,0 +1,157 @@
+/**
+ * WxO Builder - Tool Test Suite Tests
+ * parseTestSuite (defaults, case lines, invalid files), the JSONPath subset, checkAssertion,
+ * and runTestCase in remote mode against the mock tenant.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { MockOrchestrateServer } from '../../mock/mockServer';
+import { queryJsonPath, isSingularPath, JsonPathError } from '../../api/jsonPath';
+import { parseTestSuite, checkAssertion, runTestCase, loadTools, TestSuiteError } from '../../testing/toolTestSuite';
+import { startMockTenant } from './mockTenant';
+
+const SUITE = `tool: get_weather
+mode: local
+server: http://localhost:8080
+auth:
+  headers: { X-API-Key: "\${env:WEATHER_KEY}" }
+cases:
+  - name: London
+    parameters: { city: London }
+    expect:
+      status: 200
+      assertions:
+        - { path: $.name, equals: London }
+
+  - tool: news_search
+    mode: remote
+`;
+
+suite('parseTestSuite', () => {
+    test('applies the suite defaults and records each case\'s line', () => {
+        const parsed = parseTestSuite(SUITE);
+        assert.deepStrictEqual(parsed.server, 'http://localhost:8080');
+        assert.deepStrictEqual(parsed.auth, { headers: { 'X-API-Key': '${env:WEATHER_KEY}' }, query: {} });
+        assert.deepStrictEqual(parsed.cases.map(c => [c.name, c.tool, c.mode, c.line]), [
+            ['London', 'get_weather', 'local', 6],
+            ['Case 2', 'news_search', 'remote', 13]
+        ]);
+        assert.deepStrictEqual(parsed.cases[0].expect, { status: 200, assertions: [{ path: '$.name', equals: 'London' }] });
+        assert.deepStrictEqual(parsed.cases[1].parameters, {});
+    });
+
+    test('reads JSON too, and defaults to remote', () => {
+        const parsed = parseTestSuite('{"cases": [{"tool": "t1"}]}');
+        assert.deepStrictEqual(parsed.cases.map(c => c.mode), ['remote']);
+    });
+
+    const invalid: Array<[string, string, RegExp, number | undefined]> = [
+        ['a YAML syntax error', 'cases:\n  - name: [unclosed\n', /./, 2],
+        ['a list instead of a map', '- a\n- b\n', /must be a map with a "cases" list/, undefined],
+        ['no cases', 'tool: t\n', /Missing "cases" list/, undefined],
+        ['an unknown mode', 'mode: cloud\ncases: []\n', /Suite: mode must be "local" or "remote"/, undefined],
+        ['a case without a tool', 'cases:\n  - name: a\n', /Case 1 has no tool/, 1],
+        ['an assertion without a path', 'tool: t\ncases:\n  - expect:\n      assertions: [{ equals: 1 }]\n', /assertion 1: "path".*is required/, 2],
+        ['an assertion without a check', 'tool: t\ncases:\n  - expect:\n      assertions: [{ path: $.a }]\n', /assertion 1: add a check/, 2],
+        ['auth that is not a map', 'tool: t\nauth: token\ncases: []\n', /"auth" must be a map/, undefined]
+    ];
+
+    invalid.forEach(([name, text, message, line]) => test(`rejects ${name}`, () => {
+        assert.throws(() => parseTestSuite(text), (e: unknown) => e instanceof TestSuiteError && message.test(e.message) && e.line === line);
+    }));
+});
+
+suite('JSONPath subset', () => {
+    const doc = { items: [{ id: 1, tags: ['a'] }, { id: 2, tags: [] }], 'odd key': true };
+
+    test('selects keys, indexes, wildcards and recursive names', () => {
+        assert.deepStrictEqual(queryJsonPath(doc, '$.items[0].id'), [1]);
+        assert.deepStrictEqual(queryJsonPath(doc, '$.items[-1].id'), [2]);
+        assert.deepStrictEqual(queryJsonPath(doc, "$['odd key']"), [true]);
+        assert.deepStrictEqual(queryJsonPath(doc, '$.items[*].id'), [1, 2]);
+        assert.deepStrictEqual(queryJsonPath(doc, '$..id'), [1, 2]);
+        assert.deepStrictEqual(queryJsonPath(doc, '$.items[5].id'), []);
+    });
+
+    test('tells singular paths from lists', () => {
+        assert.strictEqual(isSingularPath('$.items[0]'), true);
+        assert.strictEqual(isSingularPath('$.items[*]'), false);
+        assert.strictEqual(isSingularPath('$..id'), false);
+    });
+
+    test('rejects filters and paths without $', () => {
+        assert.throws(() => queryJsonPath(doc, 'items'), JsonPathError);
+        assert.throws(() => queryJsonPath(doc, '$.items[?(@.id > 1)]'), /Unsupported selector/);
+        assert.throws(() => queryJsonPath(doc, '$.items[0'), /Missing "]"/);
+    });
+});
+
+suite('checkAssertion', () => {
+    const result = { name: 'London', temp: 12.5, count: 3, tags: ['uk', 'city'], empty: null };
+
+    test('passing checks report nothing', () => {
+        assert.deepStrictEqual([
+            { path: '$.name', equals: 'London', matches: '^Lon', length: 6, contains: 'don' },
+            { path: '$.temp', type: 'number', greaterThan: 0, lessThan: 40 },
+            { path: '$.count', type: 'integer', notEquals: 4 },
+            { path: '$.tags', contains: 'uk', length: 2 },
+            { path: '$.tags[*]', equals: ['uk', 'city'] },
+            { path: '$.empty', type: 'null', exists: true },
+            { path: '$.missing', exists: false }
+        ].map(a => checkAssertion(result, a)), [[], [], [], [], [], [], []]);
+    });
+
+    test('failing checks say what was expected and found', () => {
+        assert.deepStrictEqual(checkAssertion(result, { path: '$.temp', type: 'integer', greaterThan: 20 }), [
+            '$.temp: expected type integer, got number',
+            '$.temp: expected a number > 20, got 12.5'
+        ]);
+        assert.deepStrictEqual(checkAssertion(result, { path: '$.missing', exists: true, equals: 1 }), [
+            '$.missing: expected a value, found nothing',
+            '$.missing: expected 1, got nothing'
+        ]);
+        assert.deepStrictEqual(checkAssertion(result, { path: '$.name', matches: '(' }), ['$.name: invalid regular expression (']);
+        assert.deepStrictEqual(checkAssertion(result, { path: 'name', exists: true }), ['JSONPath must start with "$": name']);
+    });
+});
+
+suite('runTestCase against the mock tenant', () => {
+    let server: MockOrchestrateServer;
+
+    suiteSetup(async () => {
+        server = await startMockTenant();
+    });
+
+    setup(() => server.reset());
+
+    suiteTeardown(() => server.stop());
+
+    test('a remote case checks the tool output; only unmet expectations are failures', async () => {
+        const parsed = parseTestSuite([
+            'tool: news_search',
+            'cases:',
+            '  - parameters: { q: weather }',
+            '    expect:',
+            '      status: 404',
+            '      schema: { type: object, required: [articles, total] }',
+            '      assertions:',
+            '        - { path: "$.articles[0].source.name", equals: Mock News }',
+            '        - { path: $.status, equals: error }'
+        ].join('\n'));
+        const result = await runTestCase(parsed, parsed.cases[0], { tools: await loadTools(), agentId: 'mock-agent-helpdesk' });
+        assert.strictEqual(result.passed, false);
+        assert.strictEqual(result.failures.length, 3);
+        assert.match(result.failures[0], /Remote runs only report success/);
+        assert.match(result.failures[1], /^Schema: .*total/);
+        assert.strictEqual(result.failures[2], '$.status: expected "error", got "ok"');
+    });
+
+    test('an unknown tool fails the case instead of throwing', async () => {
+        const parsed = parseTestSuite('cases:\n  - tool: no_such_tool\n');
+        const result = await runTestCase(parsed, parsed.cases[0], { tools: await loadTools() });
+        assert.deepStrictEqual(result.failures, ['Tool "no_such_tool" not found in the active profile.']);
+    });
+});
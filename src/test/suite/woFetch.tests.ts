@@ -0,0 +1,95 @@
+/**
+ * WxO Builder - woFetch Tests
+ * The client's 401 replay and retry rules against a mock server that revokes tokens and
+ * answers with injected failures. Injected failures carry `Retry-After: 0` so retries
+ * happen without the backoff delay.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as assert from 'assert';
+import { MockOrchestrateServer } from '../../mock/mockServer';
+import { woFetch, clearTokenCache } from '../../api/client';
+import { listSkills } from '../../api/skills';
+import { getNetworkEntries, clearNetworkLog } from '../../api/networkLog';
+import { startMockTenant } from './mockTenant';
+
+const TOOLS = '/v1/orchestrate/tools';
+const NO_WAIT = { 'Retry-After': '0' };
+
+suite('woFetch against the mock server', () => {
+    let server: MockOrchestrateServer;
+
+    suiteSetup(async () => {
+        server = await startMockTenant();
+    });
+
+    setup(() => {
+        server.reset();
+        clearTokenCache();
+        clearNetworkLog();
+    });
+
+    suiteTeardown(() => server.stop());
+
+    test('fetches a token once and reuses it', async () => {
+        await listSkills();
+        await listSkills();
+        assert.deepStrictEqual(server.requests, ['POST /identity/token', `GET ${TOOLS}`, `GET ${TOOLS}`]);
+    });
+
+    test('a 401 refreshes the token and replays the request once', async () => {
+        await listSkills();
+        server.revokeTokens();
+        server.requests.length = 0;
+
+        const tools = await listSkills();
+        assert.ok(tools.length > 0);
+        assert.deepStrictEqual(server.requests, [`GET ${TOOLS}`, 'POST /identity/token', `GET ${TOOLS}`]);
+    });
+
+    test('a second 401 in a row is returned to the caller', async () => {
+        server.failNext(401, 2);
+        const response = await woFetch(TOOLS);
+        assert.strictEqual(response.status, 401);
+        assert.strictEqual(server.requests.filter(r => r === `GET ${TOOLS}`).length, 2);
+    });
+
+    const retryCases: Array<{ name: string; method: string; status: number; failures: number; maxRetries?: number; expectedStatus: number; attempts: number }> = [
+        { name: 'GET 503 is retried until it succeeds', method: 'GET', status: 503, failures: 2, expectedStatus: 200, attempts: 3 },
+        { name: 'GET 502 is retried', method: 'GET', status: 502, failures: 1, expectedStatus: 200, attempts: 2 },
+        { name: 'GET 504 is retried', method: 'GET', status: 504, failures: 1, expectedStatus: 200, attempts: 2 },
+        { name: 'GET 429 is retried', method: 'GET', status: 429, failures: 1, expectedStatus: 200, attempts: 2 },
+        { name: 'GET gives up after maxRetries and returns the last response', method: 'GET', status: 503, failures: 5, maxRetries: 2, expectedStatus: 503, attempts: 3 },
+        { name: 'maxRetries 0 disables retries', method: 'GET', status: 503, failures: 1, maxRetries: 0, expectedStatus: 503, attempts: 1 },
+        { name: 'GET 500 is not retried', method: 'GET', status: 500, failures: 1, expectedStatus: 500, attempts: 1 },
+        { name: 'POST 429 is retried (the request was not processed)', method: 'POST', status: 429, failures: 1, expectedStatus: 200, attempts: 2 },
+        { name: 'POST 503 is retried', method: 'POST', status: 503, failures: 1, expectedStatus: 200, attempts: 2 },
+        { name: 'POST 502 is not retried (the request may have been processed)', method: 'POST', status: 502, failures: 1, expectedStatus: 502, attempts: 1 }
+    ];
+
+    retryCases.forEach(c => test(c.name, async () => {
+        server.failNext(c.status, c.failures, NO_WAIT);
+        const body = c.method === 'POST' ? JSON.stringify({ name: 'retried_tool' }) : undefined;
+        const response = await woFetch(TOOLS, { method: c.method, body, maxRetries: c.maxRetries });
+        assert.strictEqual(response.status, c.expectedStatus);
+        assert.strictEqual(server.requests.filter(r => r === `${c.method} ${TOOLS}`).length, c.attempts);
+    }));
+
+    test('every attempt is recorded in the network log with its attempt number', async () => {
+        server.failNext(503, 1, NO_WAIT);
+        await woFetch(TOOLS);
+        const attempts = getNetworkEntries().filter(e => e.url.endsWith(TOOLS)).map(e => [e.attempt, e.status]);
+        assert.deepStrictEqual(attempts, [[0, 503], [1, 200]]);
+    });
+
+    test('aborting the signal cancels a pending retry', async () => {
+        server.failNext(503, 1, { 'Retry-After': '5' });
+        const controller = new AbortController();
+        const pending = woFetch(TOOLS, { signal: controller.signal });
+        setTimeout(() => controller.abort(), 50);
+        await assert.rejects(pending, (e: unknown) => e instanceof Error && e.name === 'AbortError');
+        assert.strictEqual(server.requests.filter(r => r === `GET ${TOOLS}`).length, 1);
+    });
+});
@@ -0,0 +1,201 @@
+/**
+ * WxO Builder - VS Code API Test Double
+ * The parts of the `vscode` module that the API, mock, template and sync modules touch,
+ * backed by plain in-memory state (files: the real disk) so they can be tested in Node. runTest.ts registers this file
+ * as the `vscode` module before any suite loads.
+ *
+ * Settings live in one flat map ("wxo-builder.profiles" → value) written at the user
+ * (Global) scope; messages shown through `window` are collected in `shownMessages`.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+
+export enum ConfigurationTarget {
+    Global = 1,
+    Workspace = 2,
+    WorkspaceFolder = 3
+}
+
+export enum TreeItemCollapsibleState {
+    None = 0,
+    Collapsed = 1,
+    Expanded = 2
+}
+
+export enum QuickPickItemKind {
+    Separator = -1,
+    Default = 0
+}
+
+export enum FileType {
+    Unknown = 0,
+    File = 1,
+    Directory = 2
+}
+
+export const QuickInputButtons = { Back: { tooltip: 'Back' } };
+
+export class Disposable {
+    constructor(private readonly _onDispose: () => void = () => { }) { }
+
+    dispose(): void {
+        this._onDispose();
+    }
+}
+
+export class EventEmitter<T> {
+    private readonly _listeners = new Set<(value: T) => void>();
+
+    readonly event = (listener: (value: T) => void): Disposable => {
+        this._listeners.add(listener);
+        return new Disposable(() => this._listeners.delete(listener));
+    };
+
+    fire(value: T): void {
+        this._listeners.forEach(listener => listener(value));
+    }
+
+    dispose(): void {
+        this._listeners.clear();
+    }
+}
+
+export class Uri {
+    private constructor(readonly fsPath: string) { }
+
+    get path(): string {
+        return this.fsPath;
+    }
+
+    static file(fsPath: string): Uri {
+        return new Uri(path.resolve(fsPath));
+    }
+
+    static joinPath(base: Uri, ...parts: string[]): Uri {
+        return new Uri(path.join(base.fsPath, ...parts));
+    }
+}
+
+export class ThemeIcon {
+    constructor(readonly id: string) { }
+}
+
+export class TreeItem {
+    description?: string;
+    tooltip?: string;
+    contextValue?: string;
+    iconPath?: ThemeIcon;
+    command?: { command: string; title: string; arguments?: unknown[] };
+
+    constructor(public label: string, public collapsibleState: TreeItemCollapsibleState = TreeItemCollapsibleState.None) { }
+}
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+const settings = new Map<string, unknown>();
+const configurationEmitter = new EventEmitter<{ affectsConfiguration(section: string): boolean }>();
+
+/** Replace all settings, e.g. `resetSettings({ 'wxo-builder.activeProfile': 'Test' })`. */
+export function resetSettings(values: Record<string, unknown> = {}): void {
+    settings.clear();
+    Object.keys(values).forEach(key => settings.set(key, values[key]));
+}
+
+function getConfiguration(section?: string) {
+    const fullKey = (key: string) => (section ? `${section}.${key}` : key);
+    return {
+        get<T>(key: string, defaultValue?: T): T | undefined {
+            return settings.has(fullKey(key)) ? settings.get(fullKey(key)) as T : defaultValue;
+        },
+        has(key: string): boolean {
+            return settings.has(fullKey(key));
+        },
+        inspect(key: string) {
+            return { key: fullKey(key), globalValue: settings.get(fullKey(key)) };
+        },
+        async update(key: string, value: unknown): Promise<void> {
+            if (value === undefined) settings.delete(fullKey(key));
+            else settings.set(fullKey(key), value);
+            configurationEmitter.fire({ affectsConfiguration: (changed: string) => fullKey(key).startsWith(changed) });
+        }
+    };
+}
+
+// ─── Files ───────────────────────────────────────────────────────────────────
+
+/** workspace.fs on the real file system. */
+const fileSystem = {
+    async readDirectory(uri: Uri): Promise<Array<[string, FileType]>> {
+        const entries = await fs.promises.readdir(uri.fsPath, { withFileTypes: true });
+        return entries.map(e => [e.name, e.isFile() ? FileType.File : e.isDirectory() ? FileType.Directory : FileType.Unknown] as [string, FileType]);
+    },
+    async readFile(uri: Uri): Promise<Uint8Array> {
+        return fs.promises.readFile(uri.fsPath);
+    },
+    async writeFile(uri: Uri, content: Uint8Array): Promise<void> {
+        await fs.promises.writeFile(uri.fsPath, content);
+    },
+    async createDirectory(uri: Uri): Promise<void> {
+        await fs.promises.mkdir(uri.fsPath, { recursive: true });
+    },
+    async delete(uri: Uri): Promise<void> {
+        await fs.promises.unlink(uri.fsPath);
+    }
+};
+
+export const workspace = {
+    workspaceFolders: undefined as Array<{ uri: Uri; name: string; index: number }> | undefined,
+    fs: fileSystem,
+    getConfiguration,
+    onDidChangeConfiguration: configurationEmitter.event
+};
+
+// ─── Secrets ─────────────────────────────────────────────────────────────────
+
+/** In-memory SecretStorage for initAuthStore. */
+export class MemorySecretStorage {
+    private readonly _values = new Map<string, string>();
+    private readonly _changes = new EventEmitter<{ key: string }>();
+    readonly onDidChange = this._changes.event;
+
+    async get(key: string): Promise<string | undefined> {
+        return this._values.get(key);
+    }
+
+    async store(key: string, value: string): Promise<void> {
+        this._values.set(key, value);
+        this._changes.fire({ key });
+    }
+
+    async delete(key: string): Promise<void> {
+        this._values.delete(key);
+        this._changes.fire({ key });
+    }
+}
+
+// ─── Window ──────────────────────────────────────────────────────────────────
+
+/** Every message shown through window.show*Message, oldest first. */
+export const shownMessages: Array<{ level: 'info' | 'warning' | 'error'; message: string }> = [];
+
+function show(level: 'info' | 'warning' | 'error') {
+    return async (message: string): Promise<undefined> => {
+        shownMessages.push({ level, message });
+        return undefined;
+    };
+}
+
+export const window = {
+    showInformationMessage: show('info'),
+    showWarningMessage: show('warning'),
+    showErrorMessage: show('error'),
+    createOutputChannel: () => ({ appendLine: () => { }, append: () => { }, show: () => { }, dispose: () => { } })
+};
+
+export const commands = {
+    executeCommand: async (): Promise<undefined> => undefined
+};
@@ -0,0 +1,168 @@
+/**
+ * WxO Builder - Tool Tests in the Test Explorer
+ * Discovers .wxotest files in the workspace, shows each file and its cases in the VS Code
+ * Test Explorer and runs them (see toolTestSuite.ts for the file format).
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { isAbortError } from '../api/client';
+import { Tool } from '../api/types';
+import { loadTools, parseTestSuite, runTestCase, TestSuiteError, ToolTestCase, ToolTestSuite, TEST_FILE_EXTENSION } from './toolTestSuite';
+
+const TEST_FILE_GLOB = `**/*${TEST_FILE_EXTENSION}`;
+
+let runAllTests: (() => Promise<void>) | undefined;
+
+/** Register the test controller and .wxotest file discovery. Called once from activate(). */
+export function registerToolTests(context: vscode.ExtensionContext): void {
+    const controller = vscode.tests.createTestController('wxo-builder-tool-tests', 'WxO Tool Tests');
+    context.subscriptions.push(controller);
+
+    const suites = new WeakMap<vscode.TestItem, ToolTestSuite>();
+    const cases = new WeakMap<vscode.TestItem, ToolTestCase>();
+
+    const loadFile = async (uri: vscode.Uri): Promise<void> => {
+        let fileItem = controller.items.get(uri.toString());
+        if (!fileItem) {
+            fileItem = controller.createTestItem(uri.toString(), path.basename(uri.fsPath), uri);
+            controller.items.add(fileItem);
+        }
+        const item = fileItem;
+        item.error = undefined;
+        item.children.replace([]);
+        try {
+            const suite = parseTestSuite(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+            suites.set(item, suite);
+            item.children.replace(suite.cases.map((testCase, i) => {
+                const caseItem = controller.createTestItem(`${uri.toString()}#${i}`, testCase.name, uri);
+                caseItem.range = new vscode.Range(testCase.line, 0, testCase.line, 0);
+                caseItem.description = `${testCase.tool} · ${testCase.mode}`;
+                cases.set(caseItem, testCase);
+                return caseItem;
+            }));
+        } catch (e) {
+            suites.delete(item);
+            const line = e instanceof TestSuiteError && e.line !== undefined ? ` (line ${e.line + 1})` : '';
+            item.error = `${(e as Error).message}${line}`;
+        }
+    };
+
+    const discoverAll = async (): Promise<void> => {
+        const files = await vscode.workspace.findFiles(TEST_FILE_GLOB, '**/node_modules/**');
+        const keep = new Set(files.map(uri => uri.toString()));
+        controller.items.forEach(item => { if (!keep.has(item.id)) controller.items.delete(item.id); });
+        for (const uri of files) await loadFile(uri);
+    };
+
+    controller.resolveHandler = async item => {
+        if (!item) await discoverAll();
+        else if (item.uri) await loadFile(item.uri);
+    };
+    controller.refreshHandler = () => discoverAll();
+
+    const watcher = vscode.workspace.createFileSystemWatcher(TEST_FILE_GLOB);
+    watcher.onDidCreate(uri => loadFile(uri));
+    watcher.onDidChange(uri => loadFile(uri));
+    watcher.onDidDelete(uri => controller.items.delete(uri.toString()));
+    context.subscriptions.push(watcher);
+
+    const runHandler = async (request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> => {
+        const run = controller.createTestRun(request);
+        const abort = new AbortController();
+        const cancellation = token.onCancellationRequested(() => abort.abort());
+        const excluded = new Set((request.exclude || []).map(item => item.id));
+
+        // Expand files to their cases, keeping each case's suite
+        const queue: Array<{ item: vscode.TestItem; suite: ToolTestSuite; testCase: ToolTestCase }> = [];
+        const roots: vscode.TestItem[] = [];
+        if (request.include) roots.push(...request.include);
+        else controller.items.forEach(item => roots.push(item));
+        for (const root of roots) {
+            if (excluded.has(root.id)) continue;
+            const fileItem = cases.has(root) ? root.parent : root;
+            if (!fileItem) continue;
+            if (fileItem.uri) await loadFile(fileItem.uri);
+            const suite = suites.get(fileItem);
+            if (!suite) {
+                if (fileItem.error) run.errored(fileItem, new vscode.TestMessage(String(fileItem.error)));
+                continue;
+            }
+            // Reloading replaced the items; look the requested case up again by ID
+            const items: vscode.TestItem[] = [];
+            if (cases.has(root)) {
+                const reloaded = fileItem.children.get(root.id);
+                if (reloaded) items.push(reloaded);
+            } else {
+                fileItem.children.forEach(child => items.push(child));
+            }
+            items.filter(item => !excluded.has(item.id)).forEach(item => {
+                const testCase = cases.get(item);
+                if (testCase) {
+                    queue.push({ item, suite, testCase });
+                    run.enqueued(item);
+                }
+            });
+        }
+
+        const agentId = vscode.workspace.getConfiguration('wxo-builder').get<string>('agentId') || undefined;
+        let tools: Tool[] = [];
+        try {
+            if (queue.length) tools = await loadTools(abort.signal);
+        } catch (e) {
+            queue.forEach(({ item }) => run.errored(item, new vscode.TestMessage(`Could not list tools: ${(e as Error).message}`)));
+            queue.length = 0;
+        }
+
+        for (const { item, suite, testCase } of queue) {
+            if (token.isCancellationRequested) {
+                run.skipped(item);
+                continue;
+            }
+            run.started(item);
+            try {
+                const result = await runTestCase(suite, testCase, { agentId, signal: abort.signal, tools });
+                run.appendOutput(result.output.join('\r\n') + '\r\n', undefined, item);
+                if (result.passed) {
+                    run.passed(item, result.durationMs);
+                } else {
+                    const message = new vscode.TestMessage(result.failures.join('\n'));
+                    if (item.uri && item.range) message.location = new vscode.Location(item.uri, item.range);
+                    run.failed(item, message, result.durationMs);
+                }
+            } catch (e) {
+                if (isAbortError(e)) run.skipped(item);
+                else run.errored(item, new vscode.TestMessage((e as Error).message));
+            }
+        }
+        cancellation.dispose();
+        run.end();
+    };
+
+    controller.createRunProfile('Run', vscode.TestRunProfileKind.Run, runHandler, true);
+
+    runAllTests = async () => {
+        await discoverAll();
+        const cancel = new vscode.CancellationTokenSource();
+        try {
+            await runHandler(new vscode.TestRunRequest(), cancel.token);
+        } finally {
+            cancel.dispose();
+        }
+    };
+}
+
+/** Discover all .wxotest files and run every case. */
+export async function runAllToolTests(): Promise<void> {
+    if (!runAllTests) throw new Error('Tool tests are not available.');
+    await runAllTests();
+}
+
+/** Re-run every tool test after a deploy, when wxo-builder.tests.runAfterDeploy is on. */
+export function runToolTestsAfterDeploy(): void {
+    if (!runAllTests || !vscode.workspace.getConfiguration('wxo-builder').get<boolean>('tests.runAfterDeploy', false)) return;
+    runAllTests().then(undefined, e => console.warn('[WxO] Tool tests after deploy failed:', e.message));
+}
@@ -0,0 +1,345 @@
+/**
+ * WxO Builder - Tool Test Suites (.wxotest)
+ * Parses declarative test files and runs their cases against tools, either directly against
+ * the tool's API (local, like the editor's Local test) or through Watson Orchestrate (remote,
+ * via invokeToolRemote).
+ *
+ * A .wxotest file is YAML (or JSON):
+ *
+ *   tool: get_weather              # default tool for the cases (name or ID)
+ *   mode: remote                   # remote (default) or local
+ *   server: http://localhost:8080  # local only: overrides the tool's server URL
+ *   auth:                          # local only; ${env:NAME} reads an environment variable
+ *     headers: { X-API-Key: "${env:WEATHER_KEY}" }
+ *     query: { appid: "${env:OWM_KEY}" }
+ *   cases:
+ *     - name: London has a temperature
+ *       parameters: { city: London }
+ *       expect:
+ *         status: 200              # HTTP status (local); remote runs only report success
+ *         maxLatencyMs: 3000
+ *         schema: { type: object, required: [main] }
+ *         assertions:
+ *           - { path: $.name, equals: London }
+ *           - { path: $.main.temp, type: number, greaterThan: -100 }
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as YAML from 'yaml';
+import { invokeToolLocal, invokeToolRemote, iterateSkills, requestParametersOf } from '../api/skills';
+import { ensureTestAgentForTool } from '../api/agents';
+import { isAbortError } from '../api/client';
+import { collectAll } from '../api/pagination';
+import { queryJsonPath, isSingularPath } from '../api/jsonPath';
+import { validateJsonSchema, formatSchemaErrors } from '../api/jsonSchema';
+import { parseToolOutput } from '../api/outputSchema';
+import { Tool, JsonSchema } from '../api/types';
+
+export const TEST_FILE_EXTENSION = '.wxotest';
+
+export type TestMode = 'local' | 'remote';
+
+export interface TestAssertion {
+    /** JSONPath into the result, e.g. `$.items[0].id`. */
+    path: string;
+    equals?: unknown;
+    notEquals?: unknown;
+    /** true: the path must match something; false: it must not. */
+    exists?: boolean;
+    /** JSON type: string, number, integer, boolean, object, array, null. */
+    type?: string;
+    /** Substring of a string, or an element of an array. */
+    contains?: unknown;
+    /** Regular expression the (string) value must match. */
+    matches?: string;
+    greaterThan?: number;
+    lessThan?: number;
+    /** Length of a string or array. */
+    length?: number;
+}
+
+export interface TestExpectation {
+    status?: number;
+    maxLatencyMs?: number;
+    /** JSON Schema the result must satisfy. */
+    schema?: JsonSchema | boolean;
+    assertions?: TestAssertion[];
+}
+
+export interface ToolTestCase {
+    name: string;
+    /** Tool name or ID; defaults to the suite's tool. */
+    tool: string;
+    mode: TestMode;
+    parameters: Record<string, unknown>;
+    expect: TestExpectation;
+    /** 0-based line of the case in the file. */
+    line: number;
+}
+
+export interface ToolTestSuite {
+    server?: string;
+    auth: { headers: Record<string, string>; query: Record<string, string> };
+    cases: ToolTestCase[];
+}
+
+export class TestSuiteError extends Error {
+    constructor(message: string, public readonly line?: number) {
+        super(message);
+        this.name = 'TestSuiteError';
+        Object.setPrototypeOf(this, TestSuiteError.prototype);
+    }
+}
+
+const ASSERTION_KEYS = ['equals', 'notEquals', 'exists', 'type', 'contains', 'matches', 'greaterThan', 'lessThan', 'length'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stringMap(value: unknown, field: string): Record<string, string> {
+    if (value === undefined) return {};
+    if (!isObject(value)) throw new TestSuiteError(`"${field}" must be a map of names to values.`);
+    const out: Record<string, string> = {};
+    Object.keys(value).forEach(k => { out[k] = String(value[k]); });
+    return out;
+}
+
+function parseMode(value: unknown, where: string): TestMode | undefined {
+    if (value === undefined) return undefined;
+    if (value !== 'local' && value !== 'remote') throw new TestSuiteError(`${where}: mode must be "local" or "remote".`);
+    return value;
+}
+
+/**
+ * Parse a .wxotest file.
+ * @throws TestSuiteError for syntax errors and invalid cases (with the line when known)
+ */
+export function parseTestSuite(text: string): ToolTestSuite {
+    const lineCounter = new YAML.LineCounter();
+    const doc = YAML.parseDocument(text, { lineCounter, merge: true });
+    if (doc.errors.length > 0) {
+        const error = doc.errors[0];
+        throw new TestSuiteError(error.message.split('\n')[0], error.linePos ? error.linePos[0].line - 1 : undefined);
+    }
+    const data = doc.toJS();
+    if (!isObject(data)) throw new TestSuiteError('A test file must be a map with a "cases" list.');
+    if (!Array.isArray(data.cases)) throw new TestSuiteError('Missing "cases" list.');
+
+    const defaultMode = parseMode(data.mode, 'Suite') || 'remote';
+    const caseNodes = (doc.get('cases', true) as YAML.YAMLSeq<YAML.Node> | undefined)?.items || [];
+    const lineOf = (i: number) => {
+        const offset = caseNodes[i]?.range?.[0];
+        return typeof offset === 'number' ? lineCounter.linePos(offset).line - 1 : 0;
+    };
+
+    const cases = data.cases.map((raw: unknown, i: number): ToolTestCase => {
+        const line = lineOf(i);
+        const where = `Case ${i + 1}`;
+        if (!isObject(raw)) throw new TestSuiteError(`${where} must be a map.`, line);
+        const tool = raw.tool ?? data.tool;
+        if (!tool) throw new TestSuiteError(`${where} has no tool; set "tool" on the case or the suite.`, line);
+        if (raw.parameters !== undefined && !isObject(raw.parameters)) throw new TestSuiteError(`${where}: parameters must be a map.`, line);
+        const expect = raw.expect ?? {};
+        if (!isObject(expect)) throw new TestSuiteError(`${where}: expect must be a map.`, line);
+        const assertions = expect.assertions ?? [];
+        if (!Array.isArray(assertions)) throw new TestSuiteError(`${where}: expect.assertions must be a list.`, line);
+        assertions.forEach((assertion: unknown, j: number) => {
+            if (!isObject(assertion) || typeof assertion.path !== 'string') {
+                throw new TestSuiteError(`${where}, assertion ${j + 1}: "path" (a JSONPath such as $.name) is required.`, line);
+            }
+            if (!ASSERTION_KEYS.some(k => assertion[k] !== undefined)) {
+                throw new TestSuiteError(`${where}, assertion ${j + 1}: add a check (${ASSERTION_KEYS.join(', ')}).`, line);
+            }
+        });
+        return {
+            name: String(raw.name || where),
+            tool: String(tool),
+            mode: parseMode(raw.mode, where) || defaultMode,
+            parameters: (raw.parameters || {}) as Record<string, unknown>,
+            expect: { ...expect, assertions } as TestExpectation,
+            line
+        };
+    });
+
+    const auth = data.auth ?? {};
+    if (!isObject(auth)) throw new TestSuiteError('"auth" must be a map with "headers" and/or "query".');
+    return {
+        server: data.server ? String(data.server) : undefined,
+        auth: { headers: stringMap(auth.headers, 'auth.headers'), query: stringMap(auth.query, 'auth.query') },
+        cases
+    };
+}
+
+// ─── Running ──────────────────────────────────────────────────────────────────
+
+export interface TestRunContext {
+    /** Agent used for remote cases; ensureTestAgentForTool is used when unset. */
+    agentId?: string;
+    signal?: AbortSignal;
+    /** Tenant tools, loaded once per run (see loadTools). */
+    tools: Tool[];
+}
+
+export interface TestCaseResult {
+    passed: boolean;
+    failures: string[];
+    durationMs: number;
+    /** Request and result details for the test output. */
+    output: string[];
+}
+
+/** All tenant tools, for resolving case tool names. */
+export async function loadTools(signal?: AbortSignal): Promise<Tool[]> {
+    return collectAll(iterateSkills(undefined, signal));
+}
+
+function findTool(tools: Tool[], ref: string): Tool {
+    const tool = tools.find(t => t.id === ref) || tools.find(t => t.name === ref) || tools.find(t => t.display_name === ref);
+    if (!tool) throw new Error(`Tool "${ref}" not found in the active profile.`);
+    return tool;
+}
+
+/** Replace ${env:NAME} with the environment variable. */
+function expandEnv(values: Record<string, string>, failures: string[]): Record<string, string> {
+    const out: Record<string, string> = {};
+    Object.keys(values).forEach(key => {
+        out[key] = values[key].replace(/\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g, (_m, name) => {
+            if (process.env[name] === undefined) failures.push(`Environment variable ${name} is not set (used by ${key}).`);
+            return process.env[name] ?? '';
+        });
+    });
+    return out;
+}
+
+function localUrl(tool: Tool, server: string | undefined): { url: string; method: string } {
+    const openapi = tool.binding?.openapi;
+    if (!openapi) throw new Error(`Tool "${tool.name}" has no OpenAPI binding; use mode: remote.`);
+    const first: unknown = Array.isArray(openapi.servers) ? openapi.servers[0] : undefined;
+    const base = server || (typeof first === 'string' ? first : (first as { url?: string } | undefined)?.url);
+    if (!base) throw new Error(`Tool "${tool.name}" has no server URL; set "server" in the test file.`);
+    return { url: base.replace(/\/+$/, '') + (openapi.http_path || ''), method: (openapi.http_method || 'GET').toUpperCase() };
+}
+
+function show(value: unknown): string {
+    return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(k => deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
+
+function jsonType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/** Failure messages for one assertion; empty when it holds. */
+export function checkAssertion(result: unknown, assertion: TestAssertion): string[] {
+    const failures: string[] = [];
+    let matches: unknown[];
+    let singular: boolean;
+    try {
+        matches = queryJsonPath(result, assertion.path);
+        singular = isSingularPath(assertion.path);
+    } catch (e) {
+        return [(e as Error).message];
+    }
+    const value = singular ? matches[0] : matches;
+    const fail = (message: string) => failures.push(`${assertion.path}: ${message}`);
+
+    if (assertion.exists !== undefined && assertion.exists !== matches.length > 0) {
+        fail(assertion.exists ? 'expected a value, found nothing' : `expected nothing, found ${show(value)}`);
+    }
+    if (assertion.equals !== undefined && !deepEqual(value, assertion.equals)) fail(`expected ${show(assertion.equals)}, got ${show(value)}`);
+    if (assertion.notEquals !== undefined && deepEqual(value, assertion.notEquals)) fail(`expected anything but ${show(assertion.notEquals)}`);
+    if (assertion.type !== undefined) {
+        const actual = jsonType(value);
+        const ok = assertion.type === 'integer' ? Number.isInteger(value) : actual === assertion.type;
+        if (!ok) fail(`expected type ${assertion.type}, got ${value === undefined ? 'nothing' : actual}`);
+    }
+    if (assertion.contains !== undefined) {
+        const ok = typeof value === 'string'
+            ? value.includes(String(assertion.contains))
+            : Array.isArray(value) && value.some(item => deepEqual(item, assertion.contains));
+        if (!ok) fail(`expected ${show(value)} to contain ${show(assertion.contains)}`);
+    }
+    if (assertion.matches !== undefined) {
+        let pattern: RegExp | undefined;
+        try {
+            pattern = new RegExp(assertion.matches);
+        } catch {
+            fail(`invalid regular expression ${assertion.matches}`);
+        }
+        if (pattern && !(typeof value === 'string' && pattern.test(value))) fail(`expected ${show(value)} to match /${assertion.matches}/`);
+    }
+    if (assertion.greaterThan !== undefined && !(typeof value === 'number' && value > assertion.greaterThan)) fail(`expected a number > ${assertion.greaterThan}, got ${show(value)}`);
+    if (assertion.lessThan !== undefined && !(typeof value === 'number' && value < assertion.lessThan)) fail(`expected a number < ${assertion.lessThan}, got ${show(value)}`);
+    if (assertion.length !== undefined) {
+        const length = typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+        if (length !== assertion.length) fail(`expected length ${assertion.length}, got ${length === undefined ? `no length (${show(value)})` : length}`);
+    }
+    return failures;
+}
+
+const MAX_OUTPUT_CHARS = 4000;
+
+/** Run one case. Invocation errors become failures; only cancellation is thrown. */
+export async function runTestCase(suite: ToolTestSuite, testCase: ToolTestCase, context: TestRunContext): Promise<TestCaseResult> {
+    const failures: string[] = [];
+    const output: string[] = [`▶ ${testCase.name} (${testCase.mode})`];
+    const { expect } = testCase;
+    const started = Date.now();
+    let result: unknown;
+    let invoked = false;
+
+    try {
+        const tool = findTool(context.tools, testCase.tool);
+        output.push(`  Tool: ${tool.name} (${tool.id})`, `  Parameters: ${JSON.stringify(testCase.parameters)}`);
+        if (testCase.mode === 'local') {
+            const { url, method } = localUrl(tool, suite.server);
+            const authHeaders = expandEnv(suite.auth.headers, failures);
+            const authQueryParams = expandEnv(suite.auth.query, failures);
+            const response = await invokeToolLocal({ url, method, params: testCase.parameters, parameters: requestParametersOf(tool, method, url), authHeaders, authQueryParams, signal: context.signal });
+            output.push(`  ${method} ${response.requestUrl} → ${response.status} ${response.statusText}`);
+            result = response.data;
+            if (expect.status !== undefined && response.status !== expect.status) {
+                failures.push(`Expected status ${expect.status}, got ${response.status} ${response.statusText}`);
+            }
+        } else {
+            const agentId = context.agentId || await ensureTestAgentForTool(tool.id, context.signal);
+            const { data } = await invokeToolRemote(tool.id, testCase.parameters, agentId, context.signal);
+            result = parseToolOutput(data);
+            if (expect.status !== undefined && (expect.status < 200 || expect.status >= 300)) {
+                failures.push(`Remote runs only report success; use mode: local to expect status ${expect.status}.`);
+            }
+        }
+        invoked = true;
+    } catch (e) {
+        if (isAbortError(e)) throw e;
+        failures.push((e as Error).message);
+    }
+    const durationMs = Date.now() - started;
+    output.push(`  Latency: ${durationMs}ms`);
+
+    if (invoked) {
+        const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+        output.push('  Result:', ...(text.length > MAX_OUTPUT_CHARS ? text.slice(0, MAX_OUTPUT_CHARS) + '\n…' : text).split('\n').map(l => `    ${l}`));
+        if (expect.maxLatencyMs !== undefined && durationMs > expect.maxLatencyMs) {
+            failures.push(`Took ${durationMs}ms; expected at most ${expect.maxLatencyMs}ms`);
+        }
+        if (expect.schema !== undefined) {
+            formatSchemaErrors(validateJsonSchema(result, expect.schema)).forEach(e => failures.push(`Schema: ${e}`));
+        }
+        (expect.assertions || []).forEach(assertion => failures.push(...checkAssertion(result, assertion)));
+    }
+    output.push(failures.length ? `  ✗ ${failures.length} failure(s)` : '  ✓ passed');
+    return { passed: failures.length === 0, failures, durationMs, output };
+}
@@ -8,46 +8,60 @@
  */
 
 import * as vscode from 'vscode';
-import { listAgents } from '../api/agents';
+import { iterateAgents } from '../api/agents';
+import { isAbortError } from '../api/client';
+import { Agent } from '../api/types';
+import { PagedItems, LoadMoreItem } from './loadMore';
 
-export class AgentsTreeProvider implements vscode.TreeDataProvider<AgentItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<AgentItem | undefined | void> = new vscode.EventEmitter<AgentItem | undefined | void>();
-    readonly onDidChangeTreeData: vscode.Event<AgentItem | undefined | void> = this._onDidChangeTreeData.event;
+type AgentTreeItem = AgentItem | LoadMoreItem;
+
+export class AgentsTreeProvider implements vscode.TreeDataProvider<AgentTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<AgentTreeItem | undefined | void> = new vscode.EventEmitter<AgentTreeItem | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<AgentTreeItem | undefined | void> = this._onDidChangeTreeData.event;
+
+    private _agents = new PagedItems<Agent>(iterateAgents);
+
+    /** Aborted on refresh so a slow load does not overwrite the newer one. */
+    private _loadAbort = new AbortController();
 
     constructor() { }
 
     refresh(): void {
+        this._loadAbort.abort();
+        this._loadAbort = new AbortController();
+        this._agents.reset();
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: AgentItem): vscode.TreeItem {
+    /** Fetch the next page of agents (the "Load more..." node). */
+    async loadMore(): Promise<void> {
+        try {
+            await this._agents.loadMore(this._loadAbort.signal);
+        } catch (error) {
+            if (isAbortError(error)) return;
+            vscode.window.showErrorMessage(`Failed to fetch agents: ${(error as Error).message}`);
+        }
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: AgentTreeItem): vscode.TreeItem {
         return element;
     }
 
-    async getChildren(element?: AgentItem): Promise<AgentItem[]> {
+    async getChildren(element?: AgentTreeItem): Promise<AgentTreeItem[]> {
         if (element) {
             return [];
         } else {
             try {
-                const data = await listAgents(50);
-                console.log('Fetched Agents Data:', JSON.stringify(data));
-
-                let agents: any[] = [];
-                if (Array.isArray(data)) {
-                    agents = data;
-                } else if (data && data.assistants && Array.isArray(data.assistants)) {
-                    agents = data.assistants;
-                } else if (data && data.data && Array.isArray(data.data)) {
-                    agents = data.data;
-                }
-
+                if (!this._agents.started) await this._agents.loadMore(this._loadAbort.signal);
+                const agents = this._agents.items;
                 console.log(`Parsed ${agents.length} agents.`);
 
                 if (agents.length === 0) {
                     return [new AgentItem('No Agents Found', 'Create one in Watson Orchestrate', '', vscode.TreeItemCollapsibleState.None)];
                 }
 
-                return agents.map((agent: any) => {
+                const items: AgentTreeItem[] = agents.map(agent => {
                     return new AgentItem(
                         agent.name || agent.id || 'Unnamed Agent',
                         agent.description || 'No description',
@@ -55,8 +69,13 @@ export class AgentsTreeProvider implements vscode.TreeDataProvider<AgentItem> {
                         vscode.TreeItemCollapsibleState.None
                     );
                 });
+                if (this._agents.hasMore) {
+                    items.push(new LoadMoreItem('watsonx.loadMoreAgents', agents.length));
+                }
+                return items;
 
             } catch (error: any) {
+                if (isAbortError(error)) return [];
                 vscode.window.showErrorMessage(`Failed to fetch agents: ${error.message}`);
                 return [];
             }
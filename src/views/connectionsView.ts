@@ -15,28 +15,51 @@
  */
 
 import * as vscode from 'vscode';
-import { listConnectors, listConnections } from '../api/connections';
+import { iterateConnectors, listConnections } from '../api/connections';
+import { isAbortError } from '../api/client';
+import { Connection, Connector } from '../api/types';
+import { PagedItems, LoadMoreItem } from './loadMore';
+
+type ConnectionsTreeItem = ConnectionItem | ConnectorItem | CategoryItem | InfoItem | LoadMoreItem;
 
 export type ConnectionCategoryType = 'active' | 'active-live' | 'active-draft' | 'inactive' | 'catalog';
 
-export class ConnectionsTreeProvider implements vscode.TreeDataProvider<ConnectionItem | ConnectorItem | CategoryItem | InfoItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<ConnectionItem | ConnectorItem | CategoryItem | InfoItem | undefined | void> = new vscode.EventEmitter<ConnectionItem | ConnectorItem | CategoryItem | InfoItem | undefined | void>();
-    readonly onDidChangeTreeData: vscode.Event<ConnectionItem | ConnectorItem | CategoryItem | InfoItem | undefined | void> = this._onDidChangeTreeData.event;
+export class ConnectionsTreeProvider implements vscode.TreeDataProvider<ConnectionsTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<ConnectionsTreeItem | undefined | void> = new vscode.EventEmitter<ConnectionsTreeItem | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<ConnectionsTreeItem | undefined | void> = this._onDidChangeTreeData.event;
+
+    private _connectionsCache: Connection[] = [];
+    private _connectors = new PagedItems<Connector>(iterateConnectors);
 
-    private _connectionsCache: any[] = [];
+    /** Aborted on refresh so a slow load does not overwrite the newer one. */
+    private _loadAbort = new AbortController();
 
     constructor() { }
 
     refresh(): void {
+        this._loadAbort.abort();
+        this._loadAbort = new AbortController();
         this._connectionsCache = [];
+        this._connectors.reset();
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: ConnectionItem | ConnectorItem | CategoryItem | InfoItem): vscode.TreeItem {
+    /** Fetch the next page of catalog connectors (the "Load more..." node). */
+    async loadMoreConnectors(): Promise<void> {
+        try {
+            await this._connectors.loadMore(this._loadAbort.signal);
+        } catch (e) {
+            if (isAbortError(e)) return;
+            vscode.window.showErrorMessage(`Failed to fetch connectors: ${(e as Error).message}`);
+        }
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: ConnectionsTreeItem): vscode.TreeItem {
         return element;
     }
 
-    async getChildren(element?: ConnectionItem | ConnectorItem | CategoryItem | InfoItem): Promise<(ConnectionItem | ConnectorItem | CategoryItem | InfoItem)[]> {
+    async getChildren(element?: ConnectionsTreeItem): Promise<(ConnectionsTreeItem)[]> {
         if (!element) {
             // Root: Active, Not Active, Connectors
             return [
@@ -58,8 +81,7 @@ export class ConnectionsTreeProvider implements vscode.TreeDataProvider<Connecti
             if (element.type === 'active-live' || element.type === 'active-draft' || element.type === 'inactive') {
                 try {
                     if (this._connectionsCache.length === 0) {
-                        const data = await listConnections();
-                        const apps: any[] = data?.applications || [];
+                        const apps = await listConnections(this._loadAbort.signal);
                         const seen = new Set<string>();
                         this._connectionsCache = apps.filter((a: any) => {
                             const key = `${a.connection_id || a.app_id}:${a.environment || 'none'}`;
@@ -100,6 +122,7 @@ export class ConnectionsTreeProvider implements vscode.TreeDataProvider<Connecti
                         vscode.TreeItemCollapsibleState.None
                     ));
                 } catch (e: any) {
+                    if (isAbortError(e)) return [];
                     vscode.window.showErrorMessage(`Failed to fetch connections: ${e.message}`);
                     return [new InfoItem(`Error: ${e.message}`)];
                 }
@@ -107,21 +130,25 @@ export class ConnectionsTreeProvider implements vscode.TreeDataProvider<Connecti
 
             if (element.type === 'catalog') {
                 try {
-                    const data = await listConnectors(100);
-                    // Catalog returns: { items: [...] } or array
-                    const items: any[] = data?.items || (Array.isArray(data) ? data : []);
+                    if (!this._connectors.started) await this._connectors.loadMore(this._loadAbort.signal);
+                    const items = this._connectors.items;
 
                     if (items.length === 0) {
                         return [new InfoItem('No connectors found in catalog')];
                     }
 
-                    return items.map((app: any) => new ConnectorItem(
+                    const nodes: ConnectionsTreeItem[] = items.map(app => new ConnectorItem(
                         app.group_name || app.catalog_ref_id || app.name || 'Unnamed Connector',
                         app.ids ? app.ids[0] : (app.app_id || ''),
                         app.catalog_ref_id || '',
                         vscode.TreeItemCollapsibleState.None
                     ));
+                    if (this._connectors.hasMore) {
+                        nodes.push(new LoadMoreItem('watsonx.loadMoreConnectors', items.length));
+                    }
+                    return nodes;
                 } catch (e: any) {
+                    if (isAbortError(e)) return [];
                     return [new InfoItem(`Catalog unavailable: ${e.message}`)];
                 }
             }
@@ -7,7 +7,7 @@
  * @license Apache-2.0
  */
 import * as vscode from 'vscode';
-import { getIamToken } from '../api/client';
+import { getIamToken, getConfig, resolveApiKey, describeApiKeySource, ApiKeySource } from '../api/client';
 import { listSkills } from '../api/skills';
 
 export class DiagnosticsTreeProvider implements vscode.TreeDataProvider<DiagnosticItem> {
@@ -31,10 +31,39 @@ export class DiagnosticsTreeProvider implements vscode.TreeDataProvider<Diagnost
             const items: DiagnosticItem[] = [];
 
             // 1. Configuration Check (Configure only here — live/draft indicator)
-            const config = vscode.workspace.getConfiguration('wxo-builder');
-            const apiKey = config.get<string>('apiKey') || process.env.WO_API_KEY;
-            const instanceUrl = config.get<string>('instanceUrl') || process.env.WO_INSTANCE_URL;
-            const scope = config.get<string>('scope') || 'draft';
+            const config = getConfig();
+            const { apiKey, source: keySource } = await resolveApiKey();
+            const instanceUrl = config.instanceUrl;
+            const scope = config.scope;
+
+            const profileItem = new DiagnosticItem(
+                'Profile',
+                config.profileName,
+                vscode.TreeItemCollapsibleState.None,
+                'info',
+                `Active profile: ${config.profileName}\nInstance: ${instanceUrl || '(not set)'}\nAuth: ${config.authMethod}\nClick to switch profile`
+            );
+            profileItem.iconPath = new vscode.ThemeIcon('account');
+            profileItem.command = {
+                command: 'watsonx.switchProfile',
+                title: 'Switch Profile'
+            };
+            items.push(profileItem);
+
+            const keyItem = new DiagnosticItem(
+                'API Key',
+                describeApiKeySource(keySource),
+                vscode.TreeItemCollapsibleState.None,
+                keySource === 'none' ? 'fail' : keySource === 'setting' ? 'warn' : 'pass',
+                apiKeyTooltip(keySource)
+            );
+            if (keySource !== 'mock') {
+                keyItem.command = {
+                    command: 'watsonx.setApiKey',
+                    title: 'Set API Key'
+                };
+            }
+            items.push(keyItem);
 
             items.push(new DiagnosticItem(
                 'Configuration',
@@ -47,7 +76,7 @@ export class DiagnosticsTreeProvider implements vscode.TreeDataProvider<Diagnost
             // 2. Auth Check
             try {
                 await getIamToken();
-                items.push(new DiagnosticItem('Authentication', 'Authorized', vscode.TreeItemCollapsibleState.None, 'pass'));
+                items.push(new DiagnosticItem('Authentication', `Authorized (${config.authMethod})`, vscode.TreeItemCollapsibleState.None, 'pass'));
             } catch (e: any) {
                 items.push(new DiagnosticItem('Authentication', 'Failed', vscode.TreeItemCollapsibleState.None, 'fail', e.message));
             }
@@ -73,6 +102,18 @@ export class DiagnosticsTreeProvider implements vscode.TreeDataProvider<Diagnost
     }
 }
 
+/** Tooltip for the API Key item: where the key is and what clicking the item does. */
+function apiKeyTooltip(source: ApiKeySource): string {
+    switch (source) {
+        case 'setting': return 'API key is stored in plaintext settings. Click to move it to the secret store.';
+        case 'secret': return 'API key is in the secret store. Click to replace it.';
+        case 'default-secret': return 'Using the Default profile\'s key from the secret store. Click to set a key for this profile.';
+        case 'env': return 'API key comes from the WO_API_KEY env var. Click to store a key in the secret store instead.';
+        case 'mock': return 'The mock backend needs no API key.';
+        default: return 'No API key set. Click to set one.';
+    }
+}
+
 export class DiagnosticItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
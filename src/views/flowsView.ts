@@ -9,14 +9,20 @@
 
 import * as vscode from 'vscode';
 import { listFlows } from '../api/flows';
+import { isAbortError } from '../api/client';
 
 export class FlowsTreeProvider implements vscode.TreeDataProvider<FlowItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<FlowItem | undefined | void> = new vscode.EventEmitter<FlowItem | undefined | void>();
     readonly onDidChangeTreeData: vscode.Event<FlowItem | undefined | void> = this._onDidChangeTreeData.event;
 
+    /** Aborted on refresh so a slow load does not overwrite the newer one. */
+    private _loadAbort = new AbortController();
+
     constructor() { }
 
     refresh(): void {
+        this._loadAbort.abort();
+        this._loadAbort = new AbortController();
         this._onDidChangeTreeData.fire();
     }
 
@@ -29,13 +35,7 @@ export class FlowsTreeProvider implements vscode.TreeDataProvider<FlowItem> {
             return [];
         } else {
             try {
-                const data = await listFlows(50);
-                console.log('Fetched Flows Data:', JSON.stringify(data));
-
-                let flows: any[] = [];
-                if (Array.isArray(data)) {
-                    flows = data;
-                }
+                const flows = await listFlows(this._loadAbort.signal);
 
                 console.log(`Parsed ${flows.length} flows.`);
 
@@ -43,7 +43,7 @@ export class FlowsTreeProvider implements vscode.TreeDataProvider<FlowItem> {
                     return [new FlowItem('No Flows Found', 'Create one in Watson Orchestrate', '', vscode.TreeItemCollapsibleState.None)];
                 }
 
-                return flows.map((flow: any) => {
+                return flows.map(flow => {
                     const id = flow.id || '';
                     return new FlowItem(
                         flow.name || id || 'Unnamed Flow',
@@ -54,6 +54,7 @@ export class FlowsTreeProvider implements vscode.TreeDataProvider<FlowItem> {
                 });
 
             } catch (error: any) {
+                if (isAbortError(error)) return [];
                 vscode.window.showErrorMessage(`Failed to fetch flows: ${error.message}`);
                 return [];
             }
@@ -0,0 +1,82 @@
+/**
+ * WxO Builder - Incremental Tree Loading
+ * Shared "Load more..." support for tree views backed by paginated list endpoints.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+import { Paginator } from '../api/pagination';
+
+/** Items per "Load more" step (wxo-builder.pageSize). */
+export function getTreePageSize(): number {
+    const size = vscode.workspace.getConfiguration('wxo-builder').get<number>('pageSize', 50);
+    return size > 0 ? Math.floor(size) : 50;
+}
+
+/**
+ * Items loaded so far from a paginated endpoint, one page per loadMore() call.
+ * The first call opens the paginator; reset() drops everything (e.g. on refresh).
+ */
+export class PagedItems<T> {
+    private _items: T[] = [];
+    private _pages: Paginator<T> | undefined;
+    private _loading: Promise<void> | undefined;
+
+    constructor(private readonly _open: (pageSize: number, signal: AbortSignal) => Paginator<T>) { }
+
+    get items(): T[] {
+        return this._items;
+    }
+
+    /** True once at least one page has been requested. */
+    get started(): boolean {
+        return this._pages !== undefined;
+    }
+
+    get hasMore(): boolean {
+        return this._pages !== undefined && !this._pages.done;
+    }
+
+    reset(): void {
+        this._items = [];
+        this._pages = undefined;
+        this._loading = undefined;
+    }
+
+    /** Fetch the next page. Concurrent calls share one request. */
+    loadMore(signal: AbortSignal): Promise<void> {
+        if (this._loading) return this._loading;
+        if (!this._pages) this._pages = this._open(getTreePageSize(), signal);
+        if (this._pages.done) return Promise.resolve();
+        const pages = this._pages;
+        this._loading = pages.next().then(
+            result => {
+                if (this._pages !== pages) return; // reset while loading
+                if (!result.done) this._items.push(...result.value);
+                this._loading = undefined;
+            },
+            err => {
+                if (this._pages !== pages) throw err;
+                this._loading = undefined;
+                // First page failed: start over next time instead of showing an empty list
+                if (this._items.length === 0) this._pages = undefined;
+                throw err;
+            }
+        );
+        return this._loading;
+    }
+}
+
+/** Tree node that fetches the next page when clicked. */
+export class LoadMoreItem extends vscode.TreeItem {
+    constructor(command: string, loadedCount: number) {
+        super('Load more...', vscode.TreeItemCollapsibleState.None);
+        this.description = `${loadedCount} loaded`;
+        this.tooltip = 'Fetch the next page from Watson Orchestrate';
+        this.contextValue = 'loadMore';
+        this.iconPath = new vscode.ThemeIcon('fold-down');
+        this.command = { command, title: 'Load More' };
+    }
+}
@@ -0,0 +1,84 @@
+/**
+ * WxO Builder - Profile Status Bar
+ * Status bar item showing the active environment profile; click to switch.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+import { getConfig } from '../api/client';
+import { listProfiles, setActiveProfile, getActiveProfileName, activateMockProfile, DEFAULT_PROFILE_NAME } from '../api/profiles';
+import { isMockBackendActive } from '../mock/mockBackend';
+
+export class ProfileStatusBar implements vscode.Disposable {
+    private readonly _item: vscode.StatusBarItem;
+
+    constructor() {
+        this._item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this._item.command = 'watsonx.switchProfile';
+        this.update();
+        this._item.show();
+    }
+
+    update(): void {
+        const config = getConfig();
+        const mock = isMockBackendActive();
+        this._item.text = `$(${mock ? 'beaker' : 'cloud'}) WxO: ${config.profileName} (${config.scope})`;
+        this._item.tooltip = [
+            `Profile: ${config.profileName}`,
+            `Instance: ${mock ? `mock backend ${config.instanceUrl || '(starts on first request)'}` : config.instanceUrl || '(not set)'}`,
+            `Auth: ${config.authMethod}`,
+            `Scope: ${config.scope}`,
+            '',
+            'Click to switch profile'
+        ].join('\n');
+    }
+
+    dispose(): void {
+        this._item.dispose();
+    }
+}
+
+/**
+ * Show a QuickPick of configured profiles and activate the chosen one.
+ * Returns true when the active profile changed.
+ */
+export async function pickProfile(): Promise<boolean> {
+    const current = getActiveProfileName();
+    const profiles = listProfiles();
+    const items: Array<vscode.QuickPickItem & { profileName?: string; edit?: boolean; mock?: boolean }> = [
+        {
+            label: DEFAULT_PROFILE_NAME,
+            description: current === DEFAULT_PROFILE_NAME ? 'active' : undefined,
+            detail: 'Use wxo-builder.instanceUrl / scope settings',
+            profileName: DEFAULT_PROFILE_NAME
+        },
+        ...profiles.map(p => ({
+            label: p.name,
+            description: [p.scope || 'draft', current === p.name ? 'active' : ''].filter(Boolean).join(' · '),
+            detail: p.mock ? 'Mock backend (offline)' : p.instanceUrl || '(no instance URL)',
+            profileName: p.name
+        })),
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        ...(profiles.some(p => p.mock) ? [] : [{ label: '$(beaker) Use Mock Backend (offline)', detail: 'Try the extension without a Watson Orchestrate tenant', mock: true }]),
+        { label: '$(settings-gear) Edit Profiles in Settings...', edit: true }
+    ];
+
+    const choice = await vscode.window.showQuickPick(items, {
+        title: 'WxO Builder: Switch Profile',
+        placeHolder: `Active: ${current}`
+    });
+    if (!choice) return false;
+    if (choice.edit) {
+        vscode.commands.executeCommand('workbench.action.openSettings', 'wxo-builder.profiles');
+        return false;
+    }
+    if (choice.mock) {
+        await activateMockProfile();
+        return true;
+    }
+    if (!choice.profileName || choice.profileName === current) return false;
+    await setActiveProfile(choice.profileName);
+    return true;
+}
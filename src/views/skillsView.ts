@@ -1,7 +1,8 @@
 /**
  * WxO Builder - Skills/Tools Tree View (BETA)
  * Tree Data Provider for the Tools sidebar view.
- * Groups tools by whether they require a connection (API key, OAuth, etc.)
+ * Groups tools by whether they require a connection (API key, OAuth, etc.),
+ * with Python tools in their own group.
  *
  * @author Markus van Kempen (markus.van.kempen@gmail.com)
  * @date 17-Feb-2026
@@ -9,20 +10,39 @@
  */
 
 import * as vscode from 'vscode';
-import { listSkills } from '../api/skills';
+import { iterateSkills } from '../api/skills';
+import { isAbortError } from '../api/client';
+import { Tool } from '../api/types';
+import { PagedItems, LoadMoreItem } from './loadMore';
 
-type SkillTreeItem = SkillCategoryItem | SkillItem;
+type SkillTreeItem = SkillCategoryItem | SkillItem | LoadMoreItem;
 
 export class SkillsTreeProvider implements vscode.TreeDataProvider<SkillTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<SkillTreeItem | undefined | void> = new vscode.EventEmitter<SkillTreeItem | undefined | void>();
     readonly onDidChangeTreeData: vscode.Event<SkillTreeItem | undefined | void> = this._onDidChangeTreeData.event;
 
-    private _allSkills: any[] = [];
+    private _skills = new PagedItems<Tool>(iterateSkills);
+
+    /** Aborted on refresh so a slow load does not overwrite the newer one. */
+    private _loadAbort = new AbortController();
 
     constructor() { }
 
     refresh(): void {
-        this._allSkills = [];
+        this._loadAbort.abort();
+        this._loadAbort = new AbortController();
+        this._skills.reset();
+        this._onDidChangeTreeData.fire();
+    }
+
+    /** Fetch the next page of tools (the "Load more..." node). */
+    async loadMore(): Promise<void> {
+        try {
+            await this._skills.loadMore(this._loadAbort.signal);
+        } catch (error) {
+            if (isAbortError(error)) return;
+            vscode.window.showErrorMessage(`Failed to fetch tools: ${(error as Error).message}`);
+        }
         this._onDidChangeTreeData.fire();
     }
 
@@ -31,28 +51,17 @@ export class SkillsTreeProvider implements vscode.TreeDataProvider<SkillTreeItem
     }
 
     async getChildren(element?: SkillTreeItem): Promise<SkillTreeItem[]> {
-        // Root level: load all skills and return two categories
+        // Root level: load the first page of tools and return two categories
         if (!element) {
             try {
-                const data = await listSkills(100);
-
-                let myskills: any[] = [];
-                if (Array.isArray(data)) {
-                    myskills = data;
-                } else if (data?.items && Array.isArray(data.items)) {
-                    myskills = data.items;
-                } else if (data?.tools && Array.isArray(data.tools)) {
-                    myskills = data.tools;
-                } else if (data?.data && Array.isArray(data.data)) {
-                    myskills = data.data;
-                }
-
-                this._allSkills = myskills;
+                if (!this._skills.started) await this._skills.loadMore(this._loadAbort.signal);
+                const myskills = this._skills.items;
 
-                const withConnection = myskills.filter(s => hasConnection(s));
-                const standard = myskills.filter(s => !hasConnection(s));
+                const withConnection = myskills.filter(s => categoryOf(s) === 'connected');
+                const python = myskills.filter(s => categoryOf(s) === 'python');
+                const standard = myskills.filter(s => categoryOf(s) === 'standard');
 
-                const categories: SkillCategoryItem[] = [];
+                const categories: SkillTreeItem[] = [];
 
                 if (withConnection.length > 0) {
                     categories.push(new SkillCategoryItem(
@@ -63,6 +72,15 @@ export class SkillsTreeProvider implements vscode.TreeDataProvider<SkillTreeItem
                     ));
                 }
 
+                if (python.length > 0) {
+                    categories.push(new SkillCategoryItem(
+                        `Python Tools (${python.length})`,
+                        'Python functions deployed with their code',
+                        'python',
+                        vscode.TreeItemCollapsibleState.Expanded
+                    ));
+                }
+
                 categories.push(new SkillCategoryItem(
                     `Standard Tools (${standard.length})`,
                     'Tools without external connections',
@@ -70,9 +88,14 @@ export class SkillsTreeProvider implements vscode.TreeDataProvider<SkillTreeItem
                     standard.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
                 ));
 
+                if (this._skills.hasMore) {
+                    categories.push(new LoadMoreItem('watsonx.loadMoreSkills', myskills.length));
+                }
+
                 return categories;
 
             } catch (error: any) {
+                if (isAbortError(error)) return [];
                 vscode.window.showErrorMessage(`Failed to fetch tools: ${error.message}`);
                 return [];
             }
@@ -80,22 +103,21 @@ export class SkillsTreeProvider implements vscode.TreeDataProvider<SkillTreeItem
 
         // Category children
         if (element instanceof SkillCategoryItem) {
-            const withConnection = this._allSkills.filter(s => hasConnection(s));
-            const standard = this._allSkills.filter(s => !hasConnection(s));
-            const skills = element.type === 'connected' ? withConnection : standard;
+            const skills = this._skills.items.filter(s => categoryOf(s) === element.type);
 
             if (skills.length === 0) {
                 return [new SkillItem('No tools in this category', '', '', null, vscode.TreeItemCollapsibleState.None)];
             }
 
-            return skills.map((skill: any) => {
+            return skills.map(skill => {
                 const securityInfo = getSecurityInfo(skill);
                 return new SkillItem(
                     skill.display_name || skill.name || skill.id || 'Unnamed Tool',
                     skill.description || 'No description',
                     skill.id || '',
                     securityInfo,
-                    vscode.TreeItemCollapsibleState.None
+                    vscode.TreeItemCollapsibleState.None,
+                    element.type === 'python'
                 );
             });
         }
@@ -104,15 +126,22 @@ export class SkillsTreeProvider implements vscode.TreeDataProvider<SkillTreeItem
     }
 }
 
+type SkillCategory = 'connected' | 'python' | 'standard';
+
+function categoryOf(skill: Tool): SkillCategory {
+    if (skill?.binding?.python) return 'python';
+    return hasConnection(skill) ? 'connected' : 'standard';
+}
+
 /** Returns true if a tool has a connection/security binding */
-function hasConnection(skill: any): boolean {
+function hasConnection(skill: Tool): boolean {
     const security = skill?.binding?.openapi?.security;
     const connectionId = skill?.binding?.openapi?.connection_id;
     return (Array.isArray(security) && security.length > 0) || !!connectionId;
 }
 
 /** Extracts security info from a tool binding */
-function getSecurityInfo(skill: any): SecurityInfo | null {
+function getSecurityInfo(skill: Tool): SecurityInfo | null {
     const openapi = skill?.binding?.openapi;
     if (!openapi) return null;
 
@@ -141,13 +170,15 @@ export class SkillCategoryItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
         public readonly tooltip: string,
-        public readonly type: 'connected' | 'standard',
+        public readonly type: SkillCategory,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState
     ) {
         super(label, collapsibleState);
         this.description = tooltip;
         this.contextValue = 'skillCategory';
-        this.iconPath = new vscode.ThemeIcon(type === 'connected' ? 'key' : 'extensions');
+        // Stable id keeps the expansion state when the count in the label changes
+        this.id = `skillCategory:${type}`;
+        this.iconPath = new vscode.ThemeIcon(type === 'connected' ? 'key' : type === 'python' ? 'file-code' : 'extensions');
     }
 }
 
@@ -157,13 +188,18 @@ export class SkillItem extends vscode.TreeItem {
         private descriptionText: string,
         public readonly skillId: string,
         public readonly securityInfo: SecurityInfo | null,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly isPython: boolean = false
     ) {
         super(label, collapsibleState);
         this.tooltip = buildTooltip(label, descriptionText, securityInfo);
         this.description = descriptionText;
 
-        if (skillId && securityInfo) {
+        if (skillId && isPython) {
+            // Python tool: the code lives in the uploaded artifact, not an OpenAPI binding
+            this.contextValue = 'skillPython';
+            this.iconPath = new vscode.ThemeIcon('file-code');
+        } else if (skillId && securityInfo) {
             // Tool with a connection requirement
             this.contextValue = 'skillWithConnection';
             this.iconPath = new vscode.ThemeIcon('key');
@@ -0,0 +1,60 @@
+/**
+ * WxO Builder - Tool History Tree View
+ * Tree Data Provider for the Tool History sidebar view: one node per tool of the active
+ * profile, with its local snapshots (newest first) as children.
+ *
+ * @author Markus van Kempen (markus.van.kempen@gmail.com)
+ * @date 19-Oct-2026
+ * @license Apache-2.0
+ */
+import * as vscode from 'vscode';
+import { listToolHistories, ToolHistory, ToolSnapshot } from '../api/toolHistory';
+
+export type ToolHistoryNode = ToolHistoryItem | ToolSnapshotItem | vscode.TreeItem;
+
+export class ToolHistoryTreeProvider implements vscode.TreeDataProvider<ToolHistoryNode> {
+    private _onDidChangeTreeData: vscode.EventEmitter<ToolHistoryNode | undefined | void> = new vscode.EventEmitter<ToolHistoryNode | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<ToolHistoryNode | undefined | void> = this._onDidChangeTreeData.event;
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: ToolHistoryNode): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: ToolHistoryNode): Promise<ToolHistoryNode[]> {
+        if (element instanceof ToolHistoryItem) {
+            return element.history.snapshots.slice().reverse().map(snapshot => new ToolSnapshotItem(snapshot));
+        }
+        if (element) return [];
+        const histories = await listToolHistories();
+        if (histories.length === 0) {
+            return [new vscode.TreeItem('No history yet. Versions are recorded when you save or delete a tool.')];
+        }
+        return histories.map(history => new ToolHistoryItem(history));
+    }
+}
+
+export class ToolHistoryItem extends vscode.TreeItem {
+    constructor(public readonly history: ToolHistory) {
+        super(history.toolName, vscode.TreeItemCollapsibleState.Collapsed);
+        const latest = history.snapshots[history.snapshots.length - 1];
+        const deleted = latest?.action === 'delete';
+        this.description = `${history.snapshots.length} version${history.snapshots.length === 1 ? '' : 's'}${deleted ? ' · deleted' : ''}`;
+        this.iconPath = new vscode.ThemeIcon(deleted ? 'trash' : 'history');
+        this.contextValue = 'toolHistory';
+    }
+}
+
+export class ToolSnapshotItem extends vscode.TreeItem {
+    constructor(public readonly snapshot: ToolSnapshot) {
+        super(new Date(snapshot.timestamp).toLocaleString(), vscode.TreeItemCollapsibleState.None);
+        this.description = `${snapshot.action} · ${snapshot.author} · ${snapshot.scope}`;
+        this.tooltip = `${snapshot.toolName} (${snapshot.toolId})\n${snapshot.action} by ${snapshot.author}\nProfile: ${snapshot.profile} (${snapshot.scope})\n${snapshot.timestamp}`;
+        this.iconPath = new vscode.ThemeIcon(snapshot.action === 'delete' ? 'trash' : 'git-commit');
+        this.contextValue = 'toolSnapshot';
+        this.command = { command: 'watsonx.openToolSnapshot', title: 'Open Version', arguments: [this] };
+    }
+}